@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { GitBranch, Plus, Trash2 } from 'lucide-react';
+import {
+  ConceptMapping,
+  MAPPABLE_FIELDS,
+  getFieldLabel,
+  useConceptMappings,
+  useSaveConceptMapping,
+  useDeleteConceptMapping,
+} from '@/hooks/useConceptMappings';
+
+function toParams({ id, taxonomy, concept, field, priority, is_active }: ConceptMapping) {
+  return { id, taxonomy, concept, field, priority, is_active };
+}
+
+export function ConceptMappingsCard() {
+  const [fieldFilter, setFieldFilter] = useState('all');
+  const [taxonomy, setTaxonomy] = useState('us-gaap');
+  const [concept, setConcept] = useState('');
+  const [field, setField] = useState('revenue');
+  const [priority, setPriority] = useState('100');
+
+  const { data: mappings, isLoading } = useConceptMappings();
+  const saveMapping = useSaveConceptMapping();
+  const deleteMapping = useDeleteConceptMapping();
+
+  const visibleMappings = (mappings || []).filter(
+    m => fieldFilter === 'all' || m.field === fieldFilter
+  );
+
+  const handleAdd = () => {
+    if (!concept.trim()) return;
+    saveMapping.mutate(
+      {
+        taxonomy,
+        concept: concept.trim(),
+        field,
+        priority: parseInt(priority, 10) || 100,
+        is_active: true,
+      },
+      { onSuccess: () => setConcept('') }
+    );
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          XBRL Concept Mapping
+        </CardTitle>
+        <CardDescription>
+          Which XBRL concepts feed each normalized field. When several concepts are reported, the
+          lowest priority number wins. Changes apply to the next data fetch.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[120px_1fr_200px_100px_auto] items-end">
+          <div className="space-y-1">
+            <Label htmlFor="mapping-taxonomy">Taxonomy</Label>
+            <Input
+              id="mapping-taxonomy"
+              value={taxonomy}
+              onChange={(e) => setTaxonomy(e.target.value.trim())}
+              className="bg-background font-mono text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mapping-concept">Concept</Label>
+            <Input
+              id="mapping-concept"
+              placeholder="e.g. CashAndCashEquivalentsAtCarryingValue"
+              value={concept}
+              onChange={(e) => setConcept(e.target.value)}
+              className="bg-background font-mono text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Field</Label>
+            <Select value={field} onValueChange={setField}>
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAPPABLE_FIELDS.map(f => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mapping-priority">Priority</Label>
+            <Input
+              id="mapping-priority"
+              type="number"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={!concept.trim() || saveMapping.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label className="text-muted-foreground">Show</Label>
+          <Select value={fieldFilter} onValueChange={setFieldFilter}>
+            <SelectTrigger className="w-56 bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All fields</SelectItem>
+              {MAPPABLE_FIELDS.map(f => (
+                <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !visibleMappings.length ? (
+          <p className="text-muted-foreground text-sm">
+            No mappings configured. The built-in defaults are used until mappings are added.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Concept</TableHead>
+                <TableHead className="w-28">Priority</TableHead>
+                <TableHead className="w-20">Active</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleMappings.map((mapping) => (
+                <TableRow key={mapping.id} className={!mapping.is_active ? 'opacity-50' : ''}>
+                  <TableCell className="font-medium">{getFieldLabel(mapping.field)}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {mapping.taxonomy !== 'us-gaap' && `${mapping.taxonomy}:`}{mapping.concept}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      defaultValue={mapping.priority}
+                      className="h-8 w-20 bg-background"
+                      onBlur={(e) => {
+                        const next = parseInt(e.target.value, 10);
+                        if (!Number.isNaN(next) && next !== mapping.priority) {
+                          saveMapping.mutate({ ...toParams(mapping), priority: next });
+                        }
+                      }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={mapping.is_active}
+                      onCheckedChange={(checked) => saveMapping.mutate({ ...toParams(mapping), is_active: checked })}
+                      disabled={saveMapping.isPending}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMapping.mutate(mapping.id)}
+                      disabled={deleteMapping.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Coins, Save, Trash2 } from 'lucide-react';
+import { useFxRates, useSaveFxRate, useDeleteFxRate } from '@/hooks/useFxRates';
+
+const PERIODS = ['FY', 'Q1', 'Q2', 'Q3', 'Q4'];
+
+export function FxRatesCard() {
+  const [currency, setCurrency] = useState('');
+  const [year, setYear] = useState(String(new Date().getFullYear() - 1));
+  const [period, setPeriod] = useState('FY');
+  const [averageRate, setAverageRate] = useState('');
+  const [closingRate, setClosingRate] = useState('');
+  const [source, setSource] = useState('');
+
+  const { data: rates, isLoading } = useFxRates();
+  const saveRate = useSaveFxRate();
+  const deleteRate = useDeleteFxRate();
+
+  const average = parseFloat(averageRate);
+  const closing = parseFloat(closingRate);
+  const isValid = /^[A-Z]{3}$/.test(currency) && currency !== 'USD' &&
+    parseInt(year, 10) > 1990 && average > 0 && closing > 0;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    saveRate.mutate(
+      {
+        currency,
+        year: parseInt(year, 10),
+        period,
+        average_rate: average,
+        closing_rate: closing,
+        source,
+      },
+      {
+        onSuccess: () => {
+          setAverageRate('');
+          setClosingRate('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          FX Rates
+        </CardTitle>
+        <CardDescription>
+          Rates used to present runs in a currency other than the filer's reporting currency,
+          quoted as USD per one unit of currency. Saving an existing currency and period replaces it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[90px_90px_90px_1fr_1fr_1fr_auto] items-end">
+          <div className="space-y-1">
+            <Label htmlFor="fx-currency">Currency</Label>
+            <Input
+              id="fx-currency"
+              placeholder="EUR"
+              maxLength={3}
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              className="bg-background font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="fx-year">Year</Label>
+            <Input
+              id="fx-year"
+              type="number"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Period</Label>
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(p => (
+                  <SelectItem key={p} value={p}>{p}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="fx-average">Average rate</Label>
+            <Input
+              id="fx-average"
+              type="number"
+              step="any"
+              placeholder="1.0813"
+              value={averageRate}
+              onChange={(e) => setAverageRate(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="fx-closing">Closing rate</Label>
+            <Input
+              id="fx-closing"
+              type="number"
+              step="any"
+              placeholder="1.1039"
+              value={closingRate}
+              onChange={(e) => setClosingRate(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="fx-source">Source</Label>
+            <Input
+              id="fx-source"
+              placeholder="Optional"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <Button onClick={handleSave} disabled={!isValid || saveRate.isPending}>
+            <Save className="mr-2 h-4 w-4" />
+            Save
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !rates?.length ? (
+          <p className="text-muted-foreground text-sm">
+            No FX rates yet. Runs can only be shown in their reporting currency.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Average (USD)</TableHead>
+                <TableHead className="text-right">Closing (USD)</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-mono font-medium">{rate.currency}</TableCell>
+                  <TableCell>{rate.period} {rate.year}</TableCell>
+                  <TableCell className="text-right font-mono">{rate.average_rate}</TableCell>
+                  <TableCell className="text-right font-mono">{rate.closing_rate}</TableCell>
+                  <TableCell className="text-muted-foreground">{rate.source || '—'}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteRate.mutate(rate.id)}
+                      disabled={deleteRate.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
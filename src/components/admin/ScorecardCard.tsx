@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Scale, Send, Trash2 } from 'lucide-react';
+import { ScorecardModel } from '@/types/scorecard';
+import { DEFAULT_SCORECARD_MODEL, getActiveScorecard, validateScorecardModel } from '@/lib/scorecard';
+import { useScorecardVersions, usePublishScorecard, useDeleteScorecard } from '@/hooks/useScorecards';
+
+const toJson = (model: ScorecardModel) => JSON.stringify(model, null, 2);
+
+function parseModel(text: string): { model: ScorecardModel | null; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { model: null, errors: ['Model is not valid JSON'] };
+  }
+  const errors = validateScorecardModel(parsed);
+  return { model: errors.length === 0 ? (parsed as ScorecardModel) : null, errors };
+}
+
+export function ScorecardCard() {
+  const [name, setName] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  // Null until the admin edits, so the editor starts from the active version once it loads
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const { data: versions, isLoading } = useScorecardVersions();
+  const publishScorecard = usePublishScorecard();
+  const deleteScorecard = useDeleteScorecard();
+
+  const active = versions ? getActiveScorecard(versions) : null;
+  const modelText = draft ?? toJson(active?.model ?? DEFAULT_SCORECARD_MODEL);
+  const { model, errors } = parseModel(modelText);
+  const isValid = !!model && name.trim().length > 0 && /^\d{4}-\d{2}-\d{2}$/.test(effectiveDate);
+
+  const handlePublish = () => {
+    if (!isValid || !model) return;
+    publishScorecard.mutate(
+      { name: name.trim(), effectiveDate, model, notes: notes.trim() },
+      {
+        onSuccess: () => {
+          setName('');
+          setNotes('');
+          setDraft(null);
+        },
+      }
+    );
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Credit Scorecard
+        </CardTitle>
+        <CardDescription>
+          Factors, weights, bucket thresholds, flag penalties and category cut-offs behind the credit score.
+          Versions can't be edited once published; publish a new version instead. Runs are scored with the
+          latest version in effect, and saved run versions keep the one they were scored with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[1fr_180px_2fr] items-end">
+          <div className="space-y-1">
+            <Label htmlFor="scorecard-name">Name</Label>
+            <Input
+              id="scorecard-name"
+              placeholder="2027 recalibration"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scorecard-effective">Effective from</Label>
+            <Input
+              id="scorecard-effective"
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scorecard-notes">Notes</Label>
+            <Input
+              id="scorecard-notes"
+              placeholder="Optional"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="scorecard-model">Model</Label>
+            {draft !== null && (
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Reset to active version
+              </Button>
+            )}
+          </div>
+          <Textarea
+            id="scorecard-model"
+            value={modelText}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="bg-background font-mono text-xs min-h-[280px]"
+          />
+          <p className="text-xs text-muted-foreground">
+            Thresholds are multiples of each ratio's benchmark. Ratios left out of <code>factors</code> aren't scored.
+          </p>
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc pl-5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handlePublish} disabled={!isValid || publishScorecard.isPending}>
+            <Send className="mr-2 h-4 w-4" />
+            Publish Version
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !versions?.length ? (
+          <p className="text-muted-foreground text-sm">
+            No scorecard versions yet. Runs are scored with the built-in default model.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead className="text-right">Scored ratios</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell className="font-mono font-medium">
+                    v{version.version_number}
+                    {version.id === active?.id && <Badge variant="secondary" className="ml-2">Active</Badge>}
+                  </TableCell>
+                  <TableCell>{version.name}</TableCell>
+                  <TableCell>{format(new Date(`${version.effective_date}T00:00:00`), 'MMM d, yyyy')}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {version.model.factors.filter(f => f.weight > 0).length}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{version.notes || '—'}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteScorecard.mutate(version.id)}
+                      disabled={deleteScorecard.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,25 @@
-import type { NormalizedFinancials } from '@/types/financials';
+import type { FiscalYearData, NormalizedFinancials, ValueProvenance } from '@/types/financials';
+import { getCurrencySymbol, getFiledCurrency, getReportingCurrency, getValueProvenance } from '@/lib/financials';
+import { getFieldLabel } from '@/hooks/useConceptMappings';
+import { computeCoverage } from '@/lib/coverage';
+import { computeDistressScores, ModelScore } from '@/lib/scores';
+import { COVENANT_METRICS, formatCovenantValue, formatHeadroom, testCovenant } from '@/lib/covenants';
+import type { Covenant, CovenantStatus } from '@/types/covenants';
+import type { FxRate } from '@/lib/fx';
+
+// Figures the memo quotes or computes its ratios from, cited in this order
+const CITED_FIELDS: Array<keyof Omit<FiscalYearData, 'year'>> = [
+  'revenue',
+  'netIncome',
+  'ebitda',
+  'operatingIncome',
+  'interestExpense',
+  'currentAssets',
+  'totalAssets',
+  'currentLiabilities',
+  'longTermDebt',
+  'stockholdersEquity',
+];
 
 interface CreditMemoPrintContentProps {
   data: NormalizedFinancials | null;
@@ -6,20 +27,36 @@ interface CreditMemoPrintContentProps {
     summary?: string;
     creditScore?: number;
     creditCategory?: string;
+    scorecardVersion?: number;
     ratios?: Array<{ name: string; value: number; benchmark: number; status: string }>;
     riskFlags?: Array<{ severity: string; category: string; description: string }>;
   } | null;
+  // In the reporting currency; selects the original Altman Z for manufacturers
+  marketCap?: number | null;
+  covenants?: Covenant[];
+  fxRates?: FxRate[];
 }
 
-export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContentProps) {
+export function CreditMemoPrintContent({ data, content, marketCap = null, covenants = [], fxRates = [] }: CreditMemoPrintContentProps) {
   const fiscalYears = data?.fiscalYears || [];
   const latestYear = fiscalYears[fiscalYears.length - 1];
+  const symbol = getCurrencySymbol(getReportingCurrency(data));
+
+  const citations = latestYear
+    ? CITED_FIELDS
+      .map(field => getValueProvenance(data, `FY${latestYear.year}`, field))
+      .filter((p): p is ValueProvenance => !!p)
+    : [];
+  const cite = (field: ValueProvenance['field']) => {
+    const index = citations.findIndex(c => c.field === field);
+    return index === -1 ? null : <sup className="ml-0.5 text-gray-400">{index + 1}</sup>;
+  };
 
   const formatCurrency = (value: number | null | undefined) => {
     if (value == null) return 'N/A';
-    if (Math.abs(value) >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
-    if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
-    return `$${value.toLocaleString()}`;
+    if (Math.abs(value) >= 1e9) return `${symbol}${(value / 1e9).toFixed(1)}B`;
+    if (Math.abs(value) >= 1e6) return `${symbol}${(value / 1e6).toFixed(1)}M`;
+    return `${symbol}${value.toLocaleString()}`;
   };
 
   // Calculate ratios from data
@@ -31,10 +68,15 @@ export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContent
     ? (latestYear.longTermDebt / latestYear.stockholdersEquity).toFixed(2)
     : 'N/A';
   
-  // Estimate interest coverage using operating income as proxy
-  const interestCoverage = latestYear?.ebitda && latestYear?.longTermDebt && latestYear.longTermDebt > 0
-    ? (latestYear.ebitda / (latestYear.longTermDebt * 0.05)).toFixed(2) // Assume ~5% interest rate
-    : 'N/A';
+  // Coverage from reported interest and debt service; undefined rather than weak without debt
+  const coverage = latestYear ? computeCoverage(latestYear) : null;
+  const formatCoverage = (value: number | null | undefined, percent = false) => {
+    if (value == null) return coverage?.isDebtFree ? 'No debt' : 'N/A';
+    return percent ? `${(value * 100).toFixed(1)}%` : `${value.toFixed(2)}x`;
+  };
+
+  const scores = data ? computeDistressScores(data, marketCap) : null;
+  const covenantTests = data ? covenants.map(covenant => ({ covenant, tests: testCovenant(covenant, data, fxRates) })) : [];
 
   const netProfitMargin = latestYear?.netIncome && latestYear?.revenue
     ? ((latestYear.netIncome / latestYear.revenue) * 100).toFixed(1) + '%'
@@ -56,6 +98,9 @@ export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContent
             <p className="text-xs font-medium text-gray-700 mt-1">
               {content?.creditCategory || 'Not Rated'}
             </p>
+            {content?.scorecardVersion && (
+              <p className="text-xs text-gray-500 mt-1">Scorecard v{content.scorecardVersion}</p>
+            )}
           </div>
           <div className="flex-1">
             <p className="text-gray-700 leading-relaxed">
@@ -81,13 +126,102 @@ export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContent
           </thead>
           <tbody>
             <RatioRow label="Current Ratio" value={currentRatio} benchmark="1.5x" />
-            <RatioRow label="Debt to Equity" value={debtToEquity} benchmark="1.0x" />
-            <RatioRow label="Interest Coverage" value={interestCoverage} benchmark="3.0x" />
+            <RatioRow label="Debt to Equity" value={debtToEquity} benchmark="1.0x" lowerIsBetter />
+            <RatioRow label="EBITDA / Interest" value={formatCoverage(coverage?.ebitdaToInterest)} benchmark="6.0x" />
+            <RatioRow label="EBIT / Interest" value={formatCoverage(coverage?.ebitToInterest)} benchmark="4.0x" />
+            <RatioRow label="Debt Service Coverage" value={formatCoverage(coverage?.dscr)} benchmark="1.5x" />
+            <RatioRow label="FFO / Debt (incl. Leases)" value={formatCoverage(coverage?.ffoToDebt, true)} benchmark="30.0%" />
             <RatioRow label="Net Profit Margin" value={netProfitMargin} benchmark="10.0%" />
           </tbody>
         </table>
       </section>
 
+      {/* Distress and Earnings Quality Scores */}
+      {scores && (
+        <section>
+          <h3 className="text-lg font-bold text-gray-900 border-b border-gray-200 pb-2 mb-4">
+            Distress & Earnings Quality Scores
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-300">
+                <th className="text-left py-2 font-semibold">Model</th>
+                <th className="text-left py-2 font-semibold">Period</th>
+                <th className="text-right py-2 font-semibold">Score</th>
+                <th className="text-right py-2 font-semibold">Zone</th>
+              </tr>
+            </thead>
+            <tbody>
+              <ScoreRow result={scores.altman} />
+              <ScoreRow result={scores.piotroski} format={score => `${score}/9`} />
+              <ScoreRow result={scores.beneish} />
+            </tbody>
+          </table>
+          <ul className="mt-2 space-y-1 text-xs text-gray-500">
+            {[scores.altman, scores.piotroski, scores.beneish].map(result => (
+              <li key={result.model}>
+                <span className="font-medium text-gray-700">{result.model}:</span>{' '}
+                {result.components
+                  .map(c => `${c.label} ${c.value === null ? 'n/a' : c.weight === null ? (c.value ? 'pass' : 'fail') : c.value.toFixed(3)}${c.imputed ? ' (imputed)' : ''}`)
+                  .join('; ')}
+                . {result.note}
+                {result.score === null && result.missing.length > 0 && ` Missing: ${result.missing.join(', ')}.`}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Covenant Compliance */}
+      {covenantTests.length > 0 && (
+        <section>
+          <h3 className="text-lg font-bold text-gray-900 border-b border-gray-200 pb-2 mb-4">
+            Covenant Compliance
+          </h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-300">
+                <th className="text-left py-2 font-semibold">Covenant</th>
+                <th className="text-left py-2 font-semibold">Period</th>
+                <th className="text-right py-2 font-semibold">Actual</th>
+                <th className="text-right py-2 font-semibold">Requirement</th>
+                <th className="text-right py-2 font-semibold">Headroom</th>
+                <th className="text-right py-2 font-semibold">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {covenantTests.flatMap(({ covenant, tests }) => tests.map((test, i) => (
+                <tr key={`${covenant.id}-${test.period}`} className={i === tests.length - 1 ? 'border-b border-gray-300' : 'border-b border-gray-100'}>
+                  <td className="py-1 text-gray-700">{i === 0 ? covenant.name : ''}</td>
+                  <td className="py-1 text-gray-500">{test.label}</td>
+                  <td className="py-1 text-right font-mono text-gray-900">{formatCovenantValue(covenant.metric, test.value, symbol)}</td>
+                  <td className="py-1 text-right text-gray-500">
+                    {covenant.operator === '<=' ? '≤' : '≥'} {formatCovenantValue(covenant.metric, test.threshold, symbol)}
+                  </td>
+                  <td className="py-1 text-right font-mono text-gray-700">{formatHeadroom(test.headroom)}</td>
+                  <td className={`py-1 text-right font-medium ${COVENANT_STATUS_LABELS[test.status].color}`}>
+                    {COVENANT_STATUS_LABELS[test.status].label}
+                  </td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+          <ul className="mt-2 space-y-1 text-xs text-gray-500">
+            {covenantTests.map(({ covenant }) => (
+              <li key={covenant.id}>
+                <span className="font-medium text-gray-700">{covenant.name}:</span>{' '}
+                {COVENANT_METRICS[covenant.metric].formula}, tested {covenant.frequency}
+                {covenant.step_downs.length > 0 && `; steps to ${[...covenant.step_downs]
+                  .sort((a, b) => a.fromYear - b.fromYear)
+                  .map(step => `${formatCovenantValue(covenant.metric, step.threshold, symbol)} from FY${step.fromYear}`)
+                  .join(', ')}`}
+                .
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
       {/* Balance Sheet Summary */}
       <section>
         <h3 className="text-lg font-bold text-gray-900 border-b border-gray-200 pb-2 mb-4">
@@ -100,11 +234,11 @@ export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContent
               <tbody>
                 <tr className="border-b border-gray-100">
                   <td className="py-1 text-gray-600">Current Assets</td>
-                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.currentAssets)}</td>
+                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.currentAssets)}{cite('currentAssets')}</td>
                 </tr>
                 <tr className="border-b border-gray-100">
                   <td className="py-1 text-gray-600">Total Assets</td>
-                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.totalAssets)}</td>
+                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.totalAssets)}{cite('totalAssets')}</td>
                 </tr>
               </tbody>
             </table>
@@ -115,15 +249,15 @@ export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContent
               <tbody>
                 <tr className="border-b border-gray-100">
                   <td className="py-1 text-gray-600">Current Liabilities</td>
-                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.currentLiabilities)}</td>
+                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.currentLiabilities)}{cite('currentLiabilities')}</td>
                 </tr>
                 <tr className="border-b border-gray-100">
                   <td className="py-1 text-gray-600">Long-Term Debt</td>
-                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.longTermDebt)}</td>
+                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.longTermDebt)}{cite('longTermDebt')}</td>
                 </tr>
                 <tr className="border-b border-gray-100">
                   <td className="py-1 text-gray-600">Stockholders' Equity</td>
-                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.stockholdersEquity)}</td>
+                  <td className="py-1 text-right font-mono">{formatCurrency(latestYear?.stockholdersEquity)}{cite('stockholdersEquity')}</td>
                 </tr>
               </tbody>
             </table>
@@ -159,6 +293,30 @@ export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContent
         )}
       </section>
 
+      {/* Source Citations */}
+      {citations.length > 0 && (
+        <section>
+          <h3 className="text-lg font-bold text-gray-900 border-b border-gray-200 pb-2 mb-4">
+            Sources (FY{latestYear?.year})
+          </h3>
+          <p className="text-xs text-gray-500 mb-2">
+            SEC EDGAR XBRL facts, as filed in {getFiledCurrency(data)}
+          </p>
+          <ol className="list-decimal list-inside space-y-1 text-xs text-gray-600">
+            {citations.map(c => (
+              <li key={c.field}>
+                <span className="font-medium text-gray-800">{getFieldLabel(c.field)}</span>
+                {c.derivation && <span>: {c.derivation}</span>}
+                {' — '}
+                {c.sources
+                  .map(f => `${f.concept} (${f.form}, accession ${f.accn}, filed ${f.filed}, period ended ${f.end})`)
+                  .join('; ')}
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
       {/* Recommendation */}
       <section className="border-2 border-gray-300 rounded-lg p-4">
         <h3 className="text-lg font-bold text-gray-900 mb-2">
@@ -174,7 +332,51 @@ export function CreditMemoPrintContent({ data, content }: CreditMemoPrintContent
   );
 }
 
-function RatioRow({ label, value, benchmark }: { label: string; value: string; benchmark: string }) {
+const ZONE_LABELS: Record<string, { label: string; color: string }> = {
+  safe: { label: 'Safe', color: 'text-green-600' },
+  grey: { label: 'Grey', color: 'text-yellow-600' },
+  distress: { label: 'Distress', color: 'text-red-600' },
+  strong: { label: 'Strong', color: 'text-green-600' },
+  moderate: { label: 'Moderate', color: 'text-yellow-600' },
+  weak: { label: 'Weak', color: 'text-red-600' },
+  unlikely: { label: 'Manipulation Unlikely', color: 'text-green-600' },
+  possible: { label: 'Manipulation Possible', color: 'text-yellow-600' },
+  likely: { label: 'Manipulation Likely', color: 'text-red-600' },
+};
+
+const COVENANT_STATUS_LABELS: Record<CovenantStatus, { label: string; color: string }> = {
+  pass: { label: 'Pass', color: 'text-green-600' },
+  tight: { label: 'Tight', color: 'text-yellow-600' },
+  breach: { label: 'Breach', color: 'text-red-600' },
+  untested: { label: 'Not tested', color: 'text-gray-500' },
+};
+
+function ScoreRow({ result, format = score => score.toFixed(2) }: { result: ModelScore<string>; format?: (score: number) => string }) {
+  const zone = result.zone ? ZONE_LABELS[result.zone] : null;
+
+  return (
+    <tr className="border-b border-gray-100">
+      <td className="py-2 text-gray-700">{result.model}</td>
+      <td className="py-2 text-gray-500">{result.period ?? 'N/A'}</td>
+      <td className="py-2 text-right font-mono text-gray-900">{result.score === null ? 'N/A' : format(result.score)}</td>
+      <td className={`py-2 text-right font-medium ${zone?.color ?? 'text-gray-500'}`}>
+        {zone?.label ?? (result.score === null ? 'Not computable' : 'Indeterminate')}
+      </td>
+    </tr>
+  );
+}
+
+function RatioRow({
+  label,
+  value,
+  benchmark,
+  lowerIsBetter = false,
+}: {
+  label: string;
+  value: string;
+  benchmark: string;
+  lowerIsBetter?: boolean;
+}) {
   const numValue = parseFloat(value);
   const numBenchmark = parseFloat(benchmark);
   
@@ -182,8 +384,7 @@ function RatioRow({ label, value, benchmark }: { label: string; value: string; b
   let assessmentColor = 'text-gray-500';
   
   if (!isNaN(numValue) && !isNaN(numBenchmark)) {
-    if (label.includes('Debt')) {
-      // Lower is better for debt ratios
+    if (lowerIsBetter) {
       assessment = numValue <= numBenchmark ? 'Healthy' : numValue <= numBenchmark * 1.5 ? 'Moderate' : 'Elevated';
       assessmentColor = numValue <= numBenchmark ? 'text-green-600' : numValue <= numBenchmark * 1.5 ? 'text-yellow-600' : 'text-red-600';
     } else {
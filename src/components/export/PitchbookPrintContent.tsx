@@ -1,4 +1,6 @@
 import type { NormalizedFinancials, FiscalYearData } from '@/types/financials';
+import { getCurrencySymbol, getReportingCurrency } from '@/lib/financials';
+import type { PeerGroupComparison, PeerMetric } from '@/lib/peers';
 
 interface PitchbookPrintContentProps {
   data: NormalizedFinancials | null;
@@ -8,18 +10,20 @@ interface PitchbookPrintContentProps {
     industryLandscape?: string;
     keyRisks?: string;
   } | null;
-  company: { ticker: string; name: string; description?: string | null } | null;
+  company: { ticker: string | null; name: string; description?: string | null } | null;
+  peerComparison?: PeerGroupComparison | null;
 }
 
-export function PitchbookPrintContent({ data, content, company }: PitchbookPrintContentProps) {
+export function PitchbookPrintContent({ data, content, company, peerComparison }: PitchbookPrintContentProps) {
   const fiscalYears = data?.fiscalYears || [];
   const latestYear = fiscalYears[fiscalYears.length - 1];
+  const symbol = getCurrencySymbol(getReportingCurrency(data));
 
   const formatCurrency = (value: number | null | undefined) => {
     if (value == null) return 'N/A';
-    if (Math.abs(value) >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
-    if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
-    return `$${value.toLocaleString()}`;
+    if (Math.abs(value) >= 1e9) return `${symbol}${(value / 1e9).toFixed(1)}B`;
+    if (Math.abs(value) >= 1e6) return `${symbol}${(value / 1e6).toFixed(1)}M`;
+    return `${symbol}${value.toLocaleString()}`;
   };
 
   const formatPercent = (value: number | null | undefined) => {
@@ -27,6 +31,14 @@ export function PitchbookPrintContent({ data, content, company }: PitchbookPrint
     return `${(value * 100).toFixed(1)}%`;
   };
 
+  const formatPeerMetric = (value: number | null | undefined, metric: PeerMetric) => {
+    if (metric.format === 'currency') return formatCurrency(value);
+    if (metric.format === 'percent') return formatPercent(value);
+    if (value == null) return 'N/A';
+    if (metric.format === 'days') return `${value.toFixed(0)} days`;
+    return metric.format === 'multiple' ? `${value.toFixed(1)}x` : value.toFixed(2);
+  };
+
   return (
     <div className="space-y-8">
       {/* Executive Summary */}
@@ -84,6 +96,58 @@ export function PitchbookPrintContent({ data, content, company }: PitchbookPrint
         </table>
       </section>
 
+      {/* Comparable Companies */}
+      {peerComparison && (
+        <section>
+          <h3 className="text-lg font-bold text-gray-900 border-b border-gray-200 pb-2 mb-4">
+            Comparable Companies
+          </h3>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-gray-300">
+                <th className="text-left py-2 font-semibold">Company</th>
+                {peerComparison.metrics.map(metric => (
+                  <th key={metric.key} className="text-right py-2 font-semibold">{metric.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {peerComparison.rows.map(row => (
+                <tr key={row.ticker} className={`border-b border-gray-100 ${row.isSubject ? 'bg-gray-50 font-semibold' : ''}`}>
+                  <td className="py-2 text-gray-700">
+                    {row.name} <span className="text-gray-500">({row.ticker}{row.period ? `, ${row.period}` : ''})</span>
+                  </td>
+                  {peerComparison.metrics.map(metric => (
+                    <td key={metric.key} className="py-2 text-right font-mono text-gray-900">
+                      {formatPeerMetric(row.values[metric.key], metric)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-b border-gray-300">
+                <td className="py-2 text-gray-500">Peer median</td>
+                {peerComparison.metrics.map(metric => (
+                  <td key={metric.key} className="py-2 text-right font-mono text-gray-500">
+                    {formatPeerMetric(peerComparison.medians[metric.key], metric)}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className="py-2 text-gray-500">Rank in group</td>
+                {peerComparison.metrics.map(metric => {
+                  const rank = peerComparison.subjectRanks[metric.key];
+                  return (
+                    <td key={metric.key} className="py-2 text-right font-mono text-gray-900">
+                      {rank ? `${rank.rank} of ${rank.of}` : '—'}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+        </section>
+      )}
+
       {/* Investment Highlights */}
       <section>
         <h3 className="text-lg font-bold text-gray-900 border-b border-gray-200 pb-2 mb-4">
@@ -1,12 +1,13 @@
 import { forwardRef } from 'react';
 import { format } from 'date-fns';
+import { formatCompanyIdentifier } from '@/lib/companies';
 
 interface PrintableDocumentProps {
   type: 'pitchbook' | 'credit-memo';
   run: {
     name: string;
     status: string;
-    companies: { ticker: string; name: string } | null;
+    companies: { ticker: string | null; cik?: string | null; name: string; is_private?: boolean } | null;
     fiscal_year_start: number;
     fiscal_year_end: number;
   };
@@ -39,7 +40,7 @@ export const PrintableDocument = forwardRef<HTMLDivElement, PrintableDocumentPro
             </div>
             <div className="text-right text-sm text-gray-600">
               <p className="font-semibold">{run.companies?.name}</p>
-              <p className="font-mono">{run.companies?.ticker}</p>
+              <p className="font-mono">{formatCompanyIdentifier(run.companies)}</p>
               <p className="mt-2">FY{run.fiscal_year_start} - FY{run.fiscal_year_end}</p>
               <p className="mt-1">{format(new Date(), 'MMMM d, yyyy')}</p>
             </div>
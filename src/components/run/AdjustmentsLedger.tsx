@@ -0,0 +1,313 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { NormalizedFinancials } from '@/types/financials';
+import { AdjustableField, AdjustmentKind, RunAdjustment } from '@/types/adjustments';
+import { getFieldLabel } from '@/hooks/useConceptMappings';
+import { useAddAdjustment, useDeleteAdjustment } from '@/hooks/useAdjustments';
+import { ADJUSTABLE_FIELDS, getAdjustedCells, getOrphanedAdjustments } from '@/lib/adjustments';
+import { getCurrencySymbol } from '@/lib/financials';
+
+interface AdjustmentsLedgerProps {
+  runId: string;
+  // Both in the run's presentation currency
+  reported: NormalizedFinancials;
+  adjusted: NormalizedFinancials;
+  adjustments: RunAdjustment[];
+  // Currency ledger amounts are entered and stored in
+  entryCurrency: string;
+  currencySymbol: string;
+  readOnly?: boolean;
+}
+
+const KIND_LABELS: Record<AdjustmentKind, string> = {
+  override: 'Override',
+  add_back: 'Add-back',
+};
+
+function formatAmount(value: number | null, symbol: string): string {
+  if (value === null) return '—';
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function formatDelta(reported: number | null, adjusted: number | null, symbol: string): string {
+  if (reported === null || adjusted === null) return adjusted === null ? '—' : 'Set';
+  const delta = adjusted - reported;
+  return `${delta >= 0 ? '+' : ''}${formatAmount(delta, symbol)}`;
+}
+
+export function AdjustmentsLedger({
+  runId,
+  reported,
+  adjusted,
+  adjustments,
+  entryCurrency,
+  currencySymbol,
+  readOnly = false,
+}: AdjustmentsLedgerProps) {
+  const periods = useMemo(
+    () => [
+      ...[...reported.fiscalYears].sort((a, b) => a.year - b.year).map(fy => `FY${fy.year}`),
+      ...(reported.ttm ? ['LTM'] : []),
+    ],
+    [reported]
+  );
+
+  const [period, setPeriod] = useState(periods[periods.length - 1] ?? '');
+  const [field, setField] = useState<AdjustableField>('ebitda');
+  const [kind, setKind] = useState<AdjustmentKind>('add_back');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+
+  const addAdjustment = useAddAdjustment();
+  const deleteAdjustment = useDeleteAdjustment();
+
+  const cells = useMemo(
+    () => getAdjustedCells(reported, adjusted, adjustments),
+    [reported, adjusted, adjustments]
+  );
+  const orphaned = useMemo(() => getOrphanedAdjustments(reported, adjustments), [reported, adjustments]);
+  const entrySymbol = getCurrencySymbol(entryCurrency);
+
+  const parsedAmount = Number(amount);
+  const reportedValue = period === 'LTM'
+    ? reported.ttm?.[field] ?? null
+    : reported.fiscalYears.find(fy => `FY${fy.year}` === period)?.[field] ?? null;
+  // An add-back needs a reported value to add to; missing values are set with an override
+  const canAddBack = kind !== 'add_back' || reportedValue !== null;
+  const canSubmit = !!period && amount.trim() !== '' && Number.isFinite(parsedAmount) && !!reason.trim() && canAddBack;
+
+  const handleAdd = () => {
+    if (!canSubmit) return;
+    addAdjustment.mutate(
+      { runId, period, field, kind, amount: parsedAmount, reason: reason.trim(), note: note.trim() },
+      {
+        onSuccess: () => {
+          setAmount('');
+          setReason('');
+          setNote('');
+        },
+      }
+    );
+  };
+
+  if (readOnly && adjustments.length === 0) return null;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-primary" />
+          Analyst Adjustments
+          {adjustments.length > 0 && (
+            <Badge variant="secondary" className="ml-2">{adjustments.length}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Normalize one-offs with overrides or add-backs. Validation, credit analysis and the pitchbook use the
+          adjusted figures; changes to a line roll up into the subtotals that include it, such as gross profit,
+          operating income, EBITDA and net income.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {cells.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Metric</TableHead>
+                  <TableHead className="text-right">Reported</TableHead>
+                  <TableHead className="text-right">Adjustment</TableHead>
+                  <TableHead className="text-right">Adjusted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cells.map(cell => (
+                  <TableRow key={`${cell.period}-${cell.field}`}>
+                    <TableCell className="font-mono text-xs">{cell.period}</TableCell>
+                    <TableCell>
+                      {getFieldLabel(cell.field)}
+                      {cell.entries.length === 0 && (
+                        <span className="ml-2 text-xs text-muted-foreground">(from components)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm text-muted-foreground">
+                      {formatAmount(cell.reported, currencySymbol)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {formatDelta(cell.reported, cell.adjusted, currencySymbol)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm font-medium">
+                      {formatAmount(cell.adjusted, currencySymbol)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {orphaned.length > 0 && (
+          <p className="flex items-start gap-2 text-xs text-warning">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+            {orphaned.length} adjustment{orphaned.length === 1 ? '' : 's'} refer to periods no longer in the data
+            ({[...new Set(orphaned.map(a => a.period))].join(', ')}) and are not applied.
+          </p>
+        )}
+
+        {!readOnly && (
+          <div className="space-y-3">
+            <div className="grid gap-3 md:grid-cols-[110px_1fr_130px_160px] items-end">
+              <div className="space-y-1">
+                <Label>Period</Label>
+                <Select value={period} onValueChange={setPeriod}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {periods.map(p => (
+                      <SelectItem key={p} value={p}>{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Metric</Label>
+                <Select value={field} onValueChange={(value) => setField(value as AdjustableField)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ADJUSTABLE_FIELDS.map(f => (
+                      <SelectItem key={f} value={f}>{getFieldLabel(f)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as AdjustmentKind)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="add_back">{KIND_LABELS.add_back}</SelectItem>
+                    <SelectItem value="override">{KIND_LABELS.override}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="adjustment-amount">Amount ({entryCurrency})</Label>
+                <Input
+                  id="adjustment-amount"
+                  type="number"
+                  placeholder={kind === 'add_back' ? '+/- amount' : 'New value'}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="bg-background font-mono"
+                />
+              </div>
+            </div>
+            <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto] items-end">
+              <div className="space-y-1">
+                <Label htmlFor="adjustment-reason">Reason *</Label>
+                <Input
+                  id="adjustment-reason"
+                  placeholder="e.g. Add back one-off restructuring charge"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="bg-background"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="adjustment-note">Supporting note</Label>
+                <Input
+                  id="adjustment-note"
+                  placeholder="Optional, e.g. 10-K p. 54, Note 12"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="bg-background"
+                />
+              </div>
+              <Button onClick={handleAdd} disabled={!canSubmit || addAdjustment.isPending}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {!canAddBack && (
+              <p className="text-xs text-muted-foreground">
+                {getFieldLabel(field)} was not reported for {period}; use an override to set it.
+              </p>
+            )}
+          </div>
+        )}
+
+        {adjustments.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Metric</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Amount ({entryCurrency})</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Note</TableHead>
+                {!readOnly && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {adjustments.map(adjustment => (
+                <TableRow key={adjustment.id}>
+                  <TableCell className="font-mono text-xs">{adjustment.period}</TableCell>
+                  <TableCell>{getFieldLabel(adjustment.field)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{KIND_LABELS[adjustment.kind]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {adjustment.kind === 'add_back' && adjustment.amount >= 0 ? '+' : ''}
+                    {formatAmount(adjustment.amount, entrySymbol)}
+                  </TableCell>
+                  <TableCell className="text-sm">{adjustment.reason}</TableCell>
+                  <TableCell className="text-muted-foreground text-xs">{adjustment.note || '—'}</TableCell>
+                  {!readOnly && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteAdjustment.mutate({ id: adjustment.id, runId })}
+                        disabled={deleteAdjustment.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
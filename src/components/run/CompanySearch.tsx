@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Loader2, Search } from 'lucide-react';
+import { DirectoryEntry, useCompanySearch } from '@/hooks/useCompanySearch';
+
+interface CompanySearchProps {
+  onSelect: (entry: DirectoryEntry) => void;
+  disabled?: boolean;
+}
+
+export function CompanySearch({ onSelect, disabled }: CompanySearchProps) {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+
+  // Wait for a pause in typing before hitting the search endpoint
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input), 250);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data: results, isFetching } = useCompanySearch(query);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-start bg-background font-normal text-muted-foreground"
+          disabled={disabled}
+        >
+          <Search className="mr-2 h-4 w-4" />
+          Search by ticker, company name or CIK...
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="AAPL, Apple, 320193..." value={input} onValueChange={setInput} />
+          <CommandList>
+            {isFetching && (
+              <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Searching...
+              </div>
+            )}
+            {!isFetching && query.trim() && (
+              <CommandEmpty>No SEC registrants found</CommandEmpty>
+            )}
+            {!!results?.length && (
+              <CommandGroup>
+                {results.map(entry => (
+                  <CommandItem
+                    key={entry.id}
+                    value={entry.id}
+                    onSelect={() => {
+                      onSelect(entry);
+                      setOpen(false);
+                    }}
+                  >
+                    <span className="w-20 font-mono font-medium">{entry.ticker}</span>
+                    <span className="flex-1 truncate">{entry.name}</span>
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">
+                      {entry.exchange ?? ''} {entry.cik}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChevronDown, ChevronRight, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  MAPPABLE_FIELDS,
+  getFieldLabel,
+  useConceptOverrides,
+  useAddConceptOverride,
+  useDeleteConceptOverride,
+} from '@/hooks/useConceptMappings';
+
+interface ConceptOverridesPanelProps {
+  companyId: string;
+  rawConcepts: string[];
+  isFetching: boolean;
+  onRefetch: () => void;
+}
+
+// Extension concepts in rawMetrics are keyed as `taxonomy:Concept`; us-gaap ones are bare.
+function splitConceptKey(key: string): { taxonomy: string; concept: string } {
+  const separator = key.indexOf(':');
+  if (separator === -1) return { taxonomy: 'us-gaap', concept: key };
+  return { taxonomy: key.slice(0, separator), concept: key.slice(separator + 1) };
+}
+
+export function ConceptOverridesPanel({ companyId, rawConcepts, isFetching, onRefetch }: ConceptOverridesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [taxonomy, setTaxonomy] = useState('us-gaap');
+  const [concept, setConcept] = useState('');
+  const [field, setField] = useState('revenue');
+  const [notes, setNotes] = useState('');
+
+  const { data: overrides } = useConceptOverrides(companyId);
+  const addOverride = useAddConceptOverride();
+  const deleteOverride = useDeleteConceptOverride();
+
+  const handleConceptChange = (value: string) => {
+    const parsed = splitConceptKey(value.trim());
+    if (value.includes(':')) setTaxonomy(parsed.taxonomy);
+    setConcept(parsed.concept);
+  };
+
+  const handleAdd = () => {
+    if (!concept) return;
+    addOverride.mutate(
+      { companyId, taxonomy, concept, field, notes },
+      {
+        onSuccess: () => {
+          setConcept('');
+          setNotes('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between p-4 h-auto">
+          <div className="flex items-center gap-2">
+            {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            <span className="font-medium">Concept Overrides</span>
+            <Badge variant="secondary" className="ml-2">
+              {overrides?.length || 0} for this company
+            </Badge>
+          </div>
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Map a filer-specific XBRL concept to a normalized field. Overrides take precedence over
+          the global mapping and apply on the next refetch.
+        </p>
+
+        <div className="grid gap-3 md:grid-cols-[120px_1fr_200px_1fr_auto] items-end">
+          <div className="space-y-1">
+            <Label htmlFor="override-taxonomy">Taxonomy</Label>
+            <Input
+              id="override-taxonomy"
+              value={taxonomy}
+              onChange={(e) => setTaxonomy(e.target.value.trim())}
+              className="bg-background font-mono text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="override-concept">Concept</Label>
+            <Input
+              id="override-concept"
+              list="override-concept-options"
+              placeholder="e.g. acme:NetProductRevenue"
+              value={concept}
+              onChange={(e) => handleConceptChange(e.target.value)}
+              className="bg-background font-mono text-xs"
+            />
+            <datalist id="override-concept-options">
+              {rawConcepts.map(key => (
+                <option key={key} value={key} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1">
+            <Label>Field</Label>
+            <Select value={field} onValueChange={setField}>
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAPPABLE_FIELDS.map(f => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="override-notes">Notes</Label>
+            <Input
+              id="override-notes"
+              placeholder="Optional"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={!concept || addOverride.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        {overrides && overrides.length > 0 && (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Concept</TableHead>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overrides.map(override => (
+                  <TableRow key={override.id}>
+                    <TableCell className="font-mono text-xs">
+                      {override.taxonomy}:{override.concept}
+                    </TableCell>
+                    <TableCell>{getFieldLabel(override.field)}</TableCell>
+                    <TableCell className="text-muted-foreground text-xs">{override.notes || '—'}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteOverride.mutate({ id: override.id, companyId })}
+                        disabled={deleteOverride.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button variant="outline" size="sm" onClick={onRefetch} disabled={isFetching}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+              Refetch with overrides
+            </Button>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
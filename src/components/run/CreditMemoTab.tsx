@@ -1,30 +1,66 @@
+import { useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { CreditCard, FileDown, RefreshCw } from 'lucide-react';
 import { NormalizedFinancials } from '@/types/financials';
+import { MarketDataResponse } from '@/types/market';
 import { useCreditAnalysis } from '@/hooks/useCreditAnalysis';
+import { useIndustryBenchmarks } from '@/hooks/useBenchmarks';
 import { CreditScoreCard } from './creditmemo/CreditScoreCard';
 import { RatiosTable } from './creditmemo/RatiosTable';
 import { RiskFlags } from './creditmemo/RiskFlags';
 import { PeerBenchmark } from './creditmemo/PeerBenchmark';
-
-interface CreditMemoContent {
-  summary: string;
-  riskAssessment: string;
-  recommendation: string;
-}
+import { DistressScores } from './creditmemo/DistressScores';
+import { StressScenarios } from './creditmemo/StressScenarios';
+import { CovenantsPanel } from './creditmemo/CovenantsPanel';
+import { MaturityLadder } from './creditmemo/MaturityLadder';
+import { useCovenants } from '@/hooks/useCovenants';
+import { useFxRates } from '@/hooks/useFxRates';
+import { CreditMemoContent } from '@/hooks/useVersions';
+import { formatCompanyIdentifier } from '@/lib/companies';
+import { getCurrencySymbol, getLatestFiscalYear, getLatestPeriod, getReportingCurrency } from '@/lib/financials';
+import { computeValuation } from '@/lib/market';
+import { computeDistressScores } from '@/lib/scores';
+import { DEFAULT_SCENARIOS } from '@/lib/scenarios';
+import { buildMaturityLadder } from '@/lib/maturities';
+import { StressScenario } from '@/types/scenarios';
+import { ScorecardVersion } from '@/types/scorecard';
 
 interface CreditMemoTabProps {
+  runId: string;
   data: NormalizedFinancials | null;
   isLoading?: boolean;
   creditMemoContent?: CreditMemoContent | null;
   onContentChange?: (content: CreditMemoContent) => void;
+  // Market capitalization selects the original Altman Z for manufacturers
+  marketData?: MarketDataResponse | null;
+  // Null scores with the built-in model
+  scorecard?: ScorecardVersion | null;
   readOnly?: boolean;
 }
 
-export function CreditMemoTab({ data, isLoading, creditMemoContent, onContentChange, readOnly = false }: CreditMemoTabProps) {
-  const analysis = useCreditAnalysis(data);
+export function CreditMemoTab({ runId, data, isLoading, creditMemoContent, onContentChange, marketData, scorecard = null, readOnly = false }: CreditMemoTabProps) {
+  // Peers are benchmarked on the company's latest full fiscal year
+  const peerYear = data ? getLatestFiscalYear(data)?.year ?? null : null;
+  const peers = useIndustryBenchmarks(data?.sicCode, peerYear);
+  const covenants = useCovenants(runId);
+  const fxRates = useFxRates();
+  const analysis = useCreditAnalysis(data, peers.data ?? null, covenants.data, scorecard, fxRates.data);
+  const scores = useMemo(() => {
+    if (!data) return null;
+    const valuation = marketData ? computeValuation(marketData.data, data, getLatestPeriod(data)) : null;
+    return computeDistressScores(data, valuation && !valuation.currencyMismatch ? valuation.marketCap : null);
+  }, [data, marketData]);
+  const ladder = useMemo(() => (data ? buildMaturityLadder(data) : null), [data]);
+  const scenarios = creditMemoContent?.scenarios ?? DEFAULT_SCENARIOS;
+
+  const handleScenariosChange = (next: StressScenario[]) => {
+    onContentChange?.({
+      ...(creditMemoContent ?? { summary: '', riskAssessment: '', recommendation: '' }),
+      scenarios: next,
+    });
+  };
 
   if (isLoading) {
     return (
@@ -68,7 +104,7 @@ export function CreditMemoTab({ data, isLoading, creditMemoContent, onContentCha
         <div>
           <h2 className="text-xl font-semibold">Credit Analysis</h2>
           <p className="text-sm text-muted-foreground">
-            {data.entityName} ({data.ticker}) • SIC {data.sicCode || 'Unknown'}
+            {data.entityName} ({formatCompanyIdentifier({ ...data, is_private: !!data.upload })}) • SIC {data.sicCode || 'Unknown'} • {analysis.period}
           </p>
         </div>
         <div className="flex gap-2">
@@ -88,6 +124,7 @@ export function CreditMemoTab({ data, isLoading, creditMemoContent, onContentCha
         score={analysis.overallScore} 
         category={analysis.scoreCategory}
         sicCode={data.sicCode}
+        scorecardVersion={analysis.scorecardVersion}
       />
 
       {/* Two Column Layout for Ratios and Risk Flags */}
@@ -96,10 +133,41 @@ export function CreditMemoTab({ data, isLoading, creditMemoContent, onContentCha
         <RiskFlags flags={analysis.riskFlags} />
       </div>
 
+      {/* Distress and Earnings Quality Scores */}
+      {scores && <DistressScores scores={scores} />}
+
+      {/* Refinancing Risk */}
+      {ladder && <MaturityLadder ladder={ladder} currencySymbol={getCurrencySymbol(getReportingCurrency(data))} />}
+
+      {/* Covenant Compliance */}
+      <CovenantsPanel
+        runId={runId}
+        data={data}
+        covenants={covenants.data ?? []}
+        fxRates={fxRates.data ?? []}
+        scenarios={scenarios}
+        readOnly={readOnly}
+      />
+
+      {/* Stress Scenarios */}
+      <StressScenarios
+        data={data}
+        peers={peers.data ?? null}
+        covenants={covenants.data}
+        scorecard={scorecard}
+        fxRates={fxRates.data}
+        scenarios={scenarios}
+        onChange={onContentChange ? handleScenariosChange : undefined}
+        readOnly={readOnly}
+      />
+
       {/* Peer Benchmarking */}
       <PeerBenchmark 
         comparisons={analysis.peerComparisons} 
         sicCode={data.sicCode}
+        peerYear={peers.data?.year ?? null}
+        peerCount={peers.data?.peerCount ?? 0}
+        isLoading={peers.isLoading}
       />
 
       {/* Summary Section */}
@@ -149,7 +217,8 @@ export function CreditMemoTab({ data, isLoading, creditMemoContent, onContentCha
             )}
 
             <p className="text-muted-foreground text-sm mt-4">
-              This analysis is based on SEC EDGAR filings and industry benchmarks for SIC code {data.sicCode || 'N/A'}.
+              This analysis is based on SEC EDGAR filings and{' '}
+              {peers.data ? `${peers.data.year} peer medians` : 'industry benchmarks'} for SIC code {data.sicCode || 'N/A'}.
               Manual review is recommended before making credit decisions.
             </p>
           </div>
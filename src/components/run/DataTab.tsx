@@ -1,9 +1,10 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Table,
   TableBody,
@@ -19,50 +20,151 @@ import {
   ChevronRight,
   Clock,
   Zap,
-  CheckCircle2
+  CheckCircle2,
+  AlertTriangle,
+  History,
+  FileText,
+  ArrowUpDown,
+  ExternalLink
 } from 'lucide-react';
-import { NormalizedFinancials, SECDataResponse } from '@/types/financials';
+import {
+  Filing,
+  FinancialStatements,
+  FiscalYearData,
+  FxConversion,
+  NormalizedFinancials,
+  SECDataResponse,
+  ValueProvenance,
+} from '@/types/financials';
+import { RunAdjustment } from '@/types/adjustments';
 import { formatDistanceToNow } from 'date-fns';
+import { ConceptOverridesPanel } from './ConceptOverridesPanel';
+import { ValueSourcePopover } from './ValueSourcePopover';
+import { FinancialsUploadDialog } from './FinancialsUploadDialog';
+import { AdjustmentsLedger } from './AdjustmentsLedger';
+import { getFieldLabel } from '@/hooks/useConceptMappings';
+import { getCurrencySymbol, getReportingCurrency, getValueProvenance } from '@/lib/financials';
+import {
+  BALANCE_SHEET_LINES,
+  CASH_FLOW_LINES,
+  DERIVATIONS,
+  INCOME_STATEMENT_LINES,
+  StatementLine,
+  buildStatements,
+} from '@/lib/statements';
 
 interface DataTabProps {
   data: SECDataResponse | null | undefined;
+  // Financials before analyst adjustments, in the same currency as `data`
+  reportedData?: NormalizedFinancials | null;
+  adjustments?: RunAdjustment[];
+  // Currency adjustments are recorded in: the financials' reporting currency
+  adjustmentCurrency?: string;
+  readOnly?: boolean;
+  runId: string;
+  companyId?: string;
+  fiscalYearStart: number;
+  fiscalYearEnd: number;
+  // False for private companies, which have no SEC filings to fetch
+  canFetchSEC?: boolean;
   isLoading: boolean;
   isFetching: boolean;
   onFetchData: (forceRefresh?: boolean) => void;
 }
 
-function formatCurrency(value: number | null): string {
+function formatCurrency(value: number | null, symbol: string): string {
   if (value === null) return '—';
   
   const absValue = Math.abs(value);
   if (absValue >= 1e12) {
-    return `$${(value / 1e12).toFixed(2)}T`;
+    return `${symbol}${(value / 1e12).toFixed(2)}T`;
   } else if (absValue >= 1e9) {
-    return `$${(value / 1e9).toFixed(2)}B`;
+    return `${symbol}${(value / 1e9).toFixed(2)}B`;
   } else if (absValue >= 1e6) {
-    return `$${(value / 1e6).toFixed(2)}M`;
+    return `${symbol}${(value / 1e6).toFixed(2)}M`;
   } else if (absValue >= 1e3) {
-    return `$${(value / 1e3).toFixed(2)}K`;
+    return `${symbol}${(value / 1e3).toFixed(2)}K`;
+  }
+  return `${symbol}${value.toFixed(2)}`;
+}
+
+interface PeriodColumn {
+  key: string;
+  // Period the column's values are attributed to in provenance
+  period: string;
+  label: string;
+  values: FiscalYearData;
+  description?: string;
+}
+
+function getAnnualColumns(data: NormalizedFinancials): PeriodColumn[] {
+  const columns: PeriodColumn[] = [...data.fiscalYears]
+    .sort((a, b) => a.year - b.year)
+    .map(fy => ({ key: `FY${fy.year}`, period: `FY${fy.year}`, label: `FY${fy.year}`, values: fy }));
+
+  if (data.ttm) {
+    columns.push({
+      key: 'LTM',
+      period: 'LTM',
+      label: `LTM ${data.ttm.fiscalPeriod} FY${data.ttm.year}`,
+      values: data.ttm,
+      description: data.ttm.basis,
+    });
   }
-  return `$${value.toFixed(2)}`;
+
+  return columns;
+}
+
+function getQuarterlyColumns(data: NormalizedFinancials): PeriodColumn[] {
+  return [...(data.quarters ?? [])]
+    .sort((a, b) => a.year - b.year || a.fiscalPeriod.localeCompare(b.fiscalPeriod))
+    .map(q => ({
+      key: `${q.year}-${q.fiscalPeriod}`,
+      period: `${q.fiscalPeriod} FY${q.year}`,
+      label: `${q.fiscalPeriod} FY${q.year}`,
+      values: q,
+      description: q.periodEnd ? `Period ended ${q.periodEnd}` : undefined,
+    }));
 }
 
-function FinancialTable({ data }: { data: NormalizedFinancials }) {
-  const metrics = [
-    { key: 'revenue', label: 'Revenue' },
-    { key: 'grossProfit', label: 'Gross Profit' },
-    { key: 'operatingIncome', label: 'Operating Income' },
-    { key: 'netIncome', label: 'Net Income' },
-    { key: 'totalAssets', label: 'Total Assets' },
-    { key: 'currentAssets', label: 'Current Assets' },
-    { key: 'totalLiabilities', label: 'Total Liabilities' },
-    { key: 'currentLiabilities', label: 'Current Liabilities' },
-    { key: 'stockholdersEquity', label: "Stockholders' Equity" },
-    { key: 'longTermDebt', label: 'Long-Term Debt' },
-    { key: 'operatingCashFlow', label: 'Operating Cash Flow' },
-  ] as const;
-
-  const years = data.fiscalYears.map(fy => fy.year).sort((a, b) => a - b);
+type StatementKey = 'incomeStatement' | 'balanceSheet' | 'cashFlow';
+
+const STATEMENTS: { key: StatementKey; title: string; lines: StatementLine[] }[] = [
+  { key: 'incomeStatement', title: 'Income Statement', lines: INCOME_STATEMENT_LINES },
+  { key: 'balanceSheet', title: 'Balance Sheet', lines: BALANCE_SHEET_LINES },
+  { key: 'cashFlow', title: 'Cash Flow Statement', lines: CASH_FLOW_LINES },
+];
+
+function lineValue(statements: FinancialStatements, statement: StatementKey, key: string): number | null {
+  return (statements[statement] as unknown as Record<string, number | null>)[key] ?? null;
+}
+
+function FinancialTable({
+  data,
+  title,
+  statement,
+  lines,
+  columns,
+  reportedColumns,
+  currencySymbol,
+}: {
+  data: NormalizedFinancials;
+  title: string;
+  statement: StatementKey;
+  lines: StatementLine[];
+  columns: PeriodColumn[];
+  // Same periods before analyst adjustments; cells that differ are flagged
+  reportedColumns?: PeriodColumn[];
+  currencySymbol: string;
+}) {
+  const statements = useMemo(
+    () => new Map(columns.map(column => [column.key, buildStatements(column.values)])),
+    [columns]
+  );
+  const reportedStatements = useMemo(
+    () => new Map((reportedColumns ?? []).map(column => [column.key, buildStatements(column.values)])),
+    [reportedColumns]
+  );
 
   return (
     <div className="overflow-x-auto">
@@ -70,38 +172,65 @@ function FinancialTable({ data }: { data: NormalizedFinancials }) {
         <TableHeader>
           <TableRow>
             <TableHead className="sticky left-0 bg-background/95 backdrop-blur min-w-[180px]">
-              Metric
+              {title}
             </TableHead>
-            {years.map(year => (
-              <TableHead key={year} className="text-right min-w-[120px]">
-                FY{year}
+            {columns.map(column => (
+              <TableHead
+                key={column.key}
+                className="text-right min-w-[120px]"
+                title={column.description}
+              >
+                {column.label}
               </TableHead>
             ))}
           </TableRow>
         </TableHeader>
         <TableBody>
-          {metrics.map(metric => {
-            const hasAnyData = data.fiscalYears.some(
-              fy => fy[metric.key] !== null
+          {lines.map(line => {
+            const hasAnyData = columns.some(
+              column => lineValue(statements.get(column.key)!, statement, line.key) !== null
             );
+            const emphasis = line.kind === 'total' ? 'font-semibold' : line.kind === 'subtotal' ? 'font-medium' : 'font-normal pl-6';
             
             return (
-              <TableRow key={metric.key} className={!hasAnyData ? 'opacity-50' : ''}>
-                <TableCell className="sticky left-0 bg-background/95 backdrop-blur font-medium">
-                  {metric.label}
+              <TableRow
+                key={line.key}
+                className={`${!hasAnyData ? 'opacity-50' : ''} ${line.kind ? 'bg-muted/20' : ''}`}
+              >
+                <TableCell className={`sticky left-0 bg-background/95 backdrop-blur ${emphasis}`}>
+                  {line.label}
                 </TableCell>
-                {years.map(year => {
-                  const fyData = data.fiscalYears.find(fy => fy.year === year);
-                  const value = fyData?.[metric.key] ?? null;
+                {columns.map(column => {
+                  const periodStatements = statements.get(column.key)!;
+                  const value = lineValue(periodStatements, statement, line.key);
+                  const isDerived = periodStatements.derived.includes(line.key);
+                  const reportedPeriod = reportedStatements.get(column.key);
+                  const reported = reportedPeriod ? lineValue(reportedPeriod, statement, line.key) : null;
+                  const isAdjusted = !!reportedPeriod && reported !== value;
+                  const symbol = line.unit === 'shares' ? '' : currencySymbol;
+                  // Provenance is shown in the filing's currency, which doesn't apply to share counts
+                  const provenance = line.unit === 'shares'
+                    ? undefined
+                    : getValueProvenance(data, column.period, line.key as ValueProvenance['field']);
                   
                   return (
                     <TableCell 
-                      key={year} 
+                      key={column.key} 
                       className={`text-right font-mono ${
                         value !== null && value < 0 ? 'text-destructive' : ''
-                      }`}
+                      } ${isAdjusted ? 'bg-primary/5' : ''} ${isDerived ? 'italic text-muted-foreground' : ''}`}
+                      title={
+                        isAdjusted
+                          ? `Adjusted; reported ${formatCurrency(reported, symbol)}`
+                          : isDerived ? DERIVATIONS[line.key] : undefined
+                      }
                     >
-                      {formatCurrency(value)}
+                      {isAdjusted && <span className="mr-1 text-xs text-primary">adj</span>}
+                      {value === null || isDerived || !provenance ? formatCurrency(value, symbol) : (
+                        <ValueSourcePopover data={data} provenance={[provenance]}>
+                          {formatCurrency(value, symbol)}
+                        </ValueSourcePopover>
+                      )}
                     </TableCell>
                   );
                 })}
@@ -114,6 +243,244 @@ function FinancialTable({ data }: { data: NormalizedFinancials }) {
   );
 }
 
+function StatementTables({
+  data,
+  columns,
+  reportedColumns,
+  currencySymbol,
+}: {
+  data: NormalizedFinancials;
+  columns: PeriodColumn[];
+  reportedColumns?: PeriodColumn[];
+  currencySymbol: string;
+}) {
+  if (columns.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No periods available for this view
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {STATEMENTS.map(({ key, title, lines }) => (
+        <FinancialTable
+          key={key}
+          data={data}
+          title={title}
+          statement={key}
+          lines={lines}
+          columns={columns}
+          reportedColumns={reportedColumns}
+          currencySymbol={currencySymbol}
+        />
+      ))}
+    </div>
+  );
+}
+
+function EbitdaDerivationNotes({ data }: { data: NormalizedFinancials }) {
+  const proxies = (data.ebitdaDerivations ?? []).filter(d => d.isProxy && !d.period.startsWith('Q'));
+  if (proxies.length === 0) return null;
+
+  return (
+    <div className="mt-4 rounded-md border border-warning/30 bg-warning/10 p-3 text-sm">
+      <p className="flex items-center gap-2 font-medium text-warning">
+        <AlertTriangle className="h-4 w-4" />
+        EBITDA uses a proxy for {proxies.length} period{proxies.length > 1 ? 's' : ''}
+      </p>
+      <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+        {proxies.map(d => (
+          <li key={d.period}>
+            <span className="font-medium text-foreground">{d.period}:</span> {d.note}
+            {d.concepts.length > 0 && (
+              <span className="font-mono"> ({d.concepts.join(' + ')})</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function FxConversionNote({ conversion }: { conversion: FxConversion }) {
+  return (
+    <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+      <p>
+        Translated from {conversion.from} to {conversion.to}: income statement and cash flow items at
+        period-average rates, balance sheet items at period-end rates.
+      </p>
+      {conversion.missingPeriods.length > 0 && (
+        <p className="flex items-center gap-1 text-warning">
+          <AlertTriangle className="h-3 w-3" />
+          No FX rate for {conversion.missingPeriods.join(', ')} - amounts left blank
+        </p>
+      )}
+    </div>
+  );
+}
+
+function RestatementLog({ data, currencySymbol }: { data: NormalizedFinancials; currencySymbol: string }) {
+  const restatements = [...(data.restatements ?? [])].sort(
+    (a, b) => a.period.localeCompare(b.period) || a.field.localeCompare(b.field)
+  );
+  if (restatements.length === 0) return null;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-warning" />
+          Restatements
+          <Badge variant="secondary" className="ml-2">
+            {restatements.length}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Values later filings reported differently, in the filer's reporting currency. The most
+          recently filed figure is used above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Metric</TableHead>
+                <TableHead className="text-right">Original</TableHead>
+                <TableHead className="text-right">Restated</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead>Filings</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {restatements.map(r => {
+                const change = r.originalValue !== 0
+                  ? ((r.restatedValue - r.originalValue) / Math.abs(r.originalValue)) * 100
+                  : null;
+
+                return (
+                  <TableRow key={`${r.period}-${r.field}`}>
+                    <TableCell className="font-medium whitespace-nowrap">{r.period}</TableCell>
+                    <TableCell>
+                      {getFieldLabel(r.field)}
+                      <div className="font-mono text-xs text-muted-foreground">{r.concept}</div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(r.originalValue, currencySymbol)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(r.restatedValue, currencySymbol)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {change === null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(1)}%`}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground whitespace-nowrap">
+                      <div>{r.originalAccession} ({r.originalFiled})</div>
+                      <div>→ {r.restatedAccession} ({r.restatedForm}, {r.restatedFiled})</div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type FilingSortKey = 'form' | 'reportDate' | 'filed' | 'accessionNumber';
+
+const FILING_COLUMNS: { key: FilingSortKey; label: string }[] = [
+  { key: 'form', label: 'Form' },
+  { key: 'reportDate', label: 'Period' },
+  { key: 'filed', label: 'Filed' },
+  { key: 'accessionNumber', label: 'Accession No.' },
+];
+
+function FilingIndex({ filings }: { filings: Filing[] }) {
+  const [sortKey, setSortKey] = useState<FilingSortKey>('filed');
+  const [sortAsc, setSortAsc] = useState(false);
+
+  const handleSort = (key: FilingSortKey) => {
+    if (key === sortKey) {
+      setSortAsc(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortAsc(key === 'form');
+    }
+  };
+
+  // Ties fall back to the newest filing first
+  const sorted = [...filings].sort((a, b) => {
+    const order = (a[sortKey] ?? '').localeCompare(b[sortKey] ?? '');
+    return (sortAsc ? order : -order) || b.filed.localeCompare(a.filed);
+  });
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Filing Index
+          <Badge variant="secondary" className="ml-2">
+            {filings.length}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Periodic reports, current reports and amendments filed with the SEC during the run's period
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {FILING_COLUMNS.map(column => (
+                  <TableHead key={column.key}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="-ml-3 h-8"
+                      onClick={() => handleSort(column.key)}
+                    >
+                      {column.label}
+                      <ArrowUpDown className={`ml-1 h-3 w-3 ${sortKey === column.key ? 'text-foreground' : 'text-muted-foreground'}`} />
+                    </Button>
+                  </TableHead>
+                ))}
+                <TableHead>Document</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.map(filing => (
+                <TableRow key={filing.accessionNumber}>
+                  <TableCell className="font-medium whitespace-nowrap">{filing.form}</TableCell>
+                  <TableCell className="whitespace-nowrap">{filing.reportDate ?? '—'}</TableCell>
+                  <TableCell className="whitespace-nowrap">{filing.filed}</TableCell>
+                  <TableCell className="font-mono text-xs whitespace-nowrap">{filing.accessionNumber}</TableCell>
+                  <TableCell>
+                    <a
+                      href={filing.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <span className="truncate max-w-[240px]">
+                        {filing.description || filing.primaryDocument || 'Filing index'}
+                      </span>
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                    </a>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function RawDataViewer({ data }: { data: NormalizedFinancials }) {
   const [isOpen, setIsOpen] = useState(false);
   const [expandedMetrics, setExpandedMetrics] = useState<Set<string>>(new Set());
@@ -180,7 +547,31 @@ function RawDataViewer({ data }: { data: NormalizedFinancials }) {
   );
 }
 
-export function DataTab({ data, isLoading, isFetching, onFetchData }: DataTabProps) {
+export function DataTab({
+  data,
+  reportedData,
+  adjustments = [],
+  adjustmentCurrency,
+  readOnly = false,
+  runId,
+  companyId,
+  fiscalYearStart,
+  fiscalYearEnd,
+  canFetchSEC = true,
+  isLoading,
+  isFetching,
+  onFetchData,
+}: DataTabProps) {
+  const uploadDialog = (label?: string, variant?: 'default' | 'outline') => (
+    <FinancialsUploadDialog
+      runId={runId}
+      fiscalYearStart={fiscalYearStart}
+      fiscalYearEnd={fiscalYearEnd}
+      triggerLabel={label}
+      triggerVariant={variant}
+    />
+  );
+
   if (isLoading) {
     return (
       <Card className="glass-card">
@@ -209,25 +600,31 @@ export function DataTab({ data, isLoading, isFetching, onFetchData }: DataTabPro
             <Database className="h-12 w-12 text-muted-foreground" />
             <h3 className="mt-4 text-lg font-medium">No data fetched yet</h3>
             <p className="mt-1 text-muted-foreground max-w-md">
-              Click "Fetch Data" to retrieve SEC filings and financial data for this company
+              {canFetchSEC
+                ? 'Click "Fetch Data" to retrieve SEC filings and financial data for this company, or upload financials for companies that don\'t file with the SEC'
+                : 'This company has no SEC filings. Upload its financials from a CSV or Excel file.'}
             </p>
-            <Button 
-              className="mt-4" 
-              onClick={() => onFetchData(false)}
-              disabled={isFetching}
-            >
-              {isFetching ? (
-                <>
-                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-                  Fetching...
-                </>
-              ) : (
-                <>
-                  <RefreshCw className="mr-2 h-4 w-4" />
-                  Fetch Data
-                </>
+            <div className="mt-4 flex gap-2">
+              {canFetchSEC && (
+                <Button 
+                  onClick={() => onFetchData(false)}
+                  disabled={isFetching}
+                >
+                  {isFetching ? (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                      Fetching...
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      Fetch Data
+                    </>
+                  )}
+                </Button>
               )}
-            </Button>
+              {uploadDialog(undefined, canFetchSEC ? 'outline' : 'default')}
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -235,6 +632,12 @@ export function DataTab({ data, isLoading, isFetching, onFetchData }: DataTabPro
   }
 
   const financials = data.data;
+  const currency = getReportingCurrency(financials);
+  const currencySymbol = getCurrencySymbol(currency);
+  const conversion = financials.fxConversion;
+  const upload = financials.upload;
+  const reported = reportedData ?? financials;
+  const hasAdjustments = adjustments.length > 0;
 
   return (
     <div className="space-y-4">
@@ -244,12 +647,17 @@ export function DataTab({ data, isLoading, isFetching, onFetchData }: DataTabPro
           <div className="flex items-start justify-between">
             <div>
               <CardTitle className="flex items-center gap-2">
-                SEC EDGAR Data
+                {upload ? 'Manual Upload' : 'SEC EDGAR Data'}
                 <Badge 
                   variant={data.source === 'live' ? 'default' : 'secondary'}
                   className="ml-2"
                 >
-                  {data.source === 'live' ? (
+                  {upload ? (
+                    <>
+                      <FileText className="mr-1 h-3 w-3" />
+                      {upload.fileName}
+                    </>
+                  ) : data.source === 'live' ? (
                     <>
                       <Zap className="mr-1 h-3 w-3" />
                       Live
@@ -263,27 +671,33 @@ export function DataTab({ data, isLoading, isFetching, onFetchData }: DataTabPro
                 </Badge>
               </CardTitle>
               <CardDescription className="mt-1">
-                <span className="font-mono">{financials.ticker}</span> • {financials.entityName} • 
-                CIK: {financials.cik}
+                {financials.ticker && <><span className="font-mono">{financials.ticker}</span> • </>}
+                {financials.entityName}
+                {financials.cik && ` • CIK: ${financials.cik}`}
                 {financials.sicCode && ` • SIC: ${financials.sicCode}`}
+                {conversion ? ` • ${conversion.from} → ${conversion.to}` : ` • ${currency}`}
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-xs text-muted-foreground">
                 {formatDistanceToNow(new Date(data.fetchedAt), { addSuffix: true })}
               </span>
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={() => onFetchData(true)}
-                disabled={isFetching}
-              >
-                {isFetching ? (
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                ) : (
-                  <RefreshCw className="h-4 w-4" />
-                )}
-              </Button>
+              {upload && uploadDialog('Replace Upload')}
+              {canFetchSEC && (
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => onFetchData(true)}
+                  disabled={isFetching}
+                  title={upload ? 'Replace the upload with SEC data' : undefined}
+                >
+                  {isFetching ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -294,23 +708,90 @@ export function DataTab({ data, isLoading, isFetching, onFetchData }: DataTabPro
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <CheckCircle2 className="h-5 w-5 text-primary" />
-            Normalized Financial Data
+            Financial Statements
           </CardTitle>
           <CardDescription>
-            Key financial metrics extracted from 10-K annual filings
+            {upload
+              ? `Annual financials uploaded ${formatDistanceToNow(new Date(upload.uploadedAt), { addSuffix: true })}.`
+              : <>Statements assembled from annual (10-K, 20-F, 40-F) and 10-Q quarterly filings.
+                Click a value to see the filings it came from.</>}
+            {' '}Subtotals in italics are computed from their components.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <FinancialTable data={financials} />
+          <Tabs defaultValue="annual">
+            <TabsList>
+              <TabsTrigger value="annual">Annual{financials.ttm ? ' + LTM' : ''}</TabsTrigger>
+              <TabsTrigger value="quarterly">Quarterly</TabsTrigger>
+            </TabsList>
+            <TabsContent value="annual">
+              <StatementTables
+                data={financials}
+                columns={getAnnualColumns(financials)}
+                reportedColumns={hasAdjustments ? getAnnualColumns(reported) : undefined}
+                currencySymbol={currencySymbol}
+              />
+              {financials.ttm && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  LTM = {financials.ttm.basis}
+                </p>
+              )}
+              {conversion && <FxConversionNote conversion={conversion} />}
+              <EbitdaDerivationNotes data={financials} />
+            </TabsContent>
+            <TabsContent value="quarterly">
+              <StatementTables
+                data={financials}
+                columns={getQuarterlyColumns(financials)}
+                currencySymbol={currencySymbol}
+              />
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
 
-      {/* Raw Data Viewer */}
-      <Card className="glass-card">
-        <CardContent className="p-0">
-          <RawDataViewer data={financials} />
-        </CardContent>
-      </Card>
+      {/* Analyst Adjustments */}
+      <AdjustmentsLedger
+        runId={runId}
+        reported={reported}
+        adjusted={financials}
+        adjustments={adjustments}
+        entryCurrency={adjustmentCurrency ?? currency}
+        currencySymbol={currencySymbol}
+        readOnly={readOnly}
+      />
+
+      {/* Restatement Log */}
+      <RestatementLog
+        data={financials}
+        currencySymbol={conversion ? getCurrencySymbol(conversion.from) : currencySymbol}
+      />
+
+      {/* Filing Index */}
+      {!!financials.filings?.length && <FilingIndex filings={financials.filings} />}
+
+      {/* Raw Data Viewer (uploads have no XBRL facts) */}
+      {!upload && (
+        <Card className="glass-card">
+          <CardContent className="p-0">
+            <RawDataViewer data={financials} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Company Concept Overrides */}
+      {companyId && !upload && (
+        <Card className="glass-card">
+          <CardContent className="p-0">
+            <ConceptOverridesPanel
+              companyId={companyId}
+              rawConcepts={Object.keys(financials.rawMetrics).sort()}
+              isFetching={isFetching}
+              onRefetch={() => onFetchData(true)}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,195 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Download, FileSpreadsheet, RefreshCw, Upload, XCircle } from 'lucide-react';
+import { FinancialsUploadError, useUploadFinancials } from '@/hooks/useSECData';
+import { buildTemplateCsv } from '@/lib/financialsTemplate';
+
+interface FinancialsUploadDialogProps {
+  runId: string;
+  fiscalYearStart: number;
+  fiscalYearEnd: number;
+  triggerLabel?: string;
+  triggerVariant?: 'default' | 'outline';
+}
+
+// 5 MB, matching the import function's limit
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Data URLs are "data:<mime>;base64,<content>"
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function FinancialsUploadDialog({
+  runId,
+  fiscalYearStart,
+  fiscalYearEnd,
+  triggerLabel = 'Upload Financials',
+  triggerVariant = 'outline',
+}: FinancialsUploadDialogProps) {
+  const uploadFinancials = useUploadFinancials();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const reset = () => {
+    setFile(null);
+    setIssues([]);
+    setWarnings([]);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) reset();
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([buildTemplateCsv(fiscalYearStart, fiscalYearEnd)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `financials-template-FY${fiscalYearStart}-FY${fiscalYearEnd}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFile = (selected: File | undefined) => {
+    setIssues([]);
+    setWarnings([]);
+    if (!selected) return;
+    if (selected.size > MAX_FILE_SIZE) {
+      setFile(null);
+      setIssues(['File must be under 5 MB']);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    try {
+      const result = await uploadFinancials.mutateAsync({
+        runId,
+        fileName: file.name,
+        content: await readAsBase64(file),
+      });
+      // Keep the dialog open when rows were skipped so the analyst sees why
+      if (result.warnings.length > 0) {
+        setFile(null);
+        setWarnings(result.warnings);
+      } else {
+        handleOpenChange(false);
+      }
+    } catch (error) {
+      if (error instanceof FinancialsUploadError) {
+        setIssues(error.issues);
+        setWarnings(error.warnings);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant={triggerVariant}>
+          <Upload className="mr-2 h-4 w-4" />
+          {triggerLabel}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Upload Financials</DialogTitle>
+          <DialogDescription>
+            Import annual financials from a CSV or Excel file for companies without SEC filings.
+            Uploading replaces any financials already on this run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-lg border border-border/50 p-3 text-sm text-muted-foreground">
+            <p>
+              List metrics as rows and fiscal years (FY{fiscalYearStart}–FY{fiscalYearEnd}) as columns. Set the
+              currency and units (units, thousands, millions or billions) at the top of the sheet; share counts
+              are entered as whole numbers. EBITDA left blank is derived from operating income and D&A.
+            </p>
+            <Button variant="link" size="sm" className="mt-1 h-auto p-0" onClick={handleDownloadTemplate}>
+              <Download className="mr-1 h-3 w-3" />
+              Download template
+            </Button>
+          </div>
+
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadFinancials.isPending}
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            {file ? file.name : 'Choose file...'}
+          </Button>
+
+          {issues.length > 0 && (
+            <div className="space-y-1 rounded-lg border border-destructive/30 bg-destructive/5 p-3">
+              {issues.map((issue, i) => (
+                <p key={i} className="flex items-start gap-2 text-sm text-destructive">
+                  <XCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                  {issue}
+                </p>
+              ))}
+            </div>
+          )}
+          {warnings.length > 0 && (
+            <div className="space-y-1 rounded-lg border border-warning/30 bg-warning/5 p-3">
+              {warnings.map((warning, i) => (
+                <p key={i} className="flex items-start gap-2 text-sm text-warning">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {warnings.length > 0 && !file && issues.length === 0 ? 'Done' : 'Cancel'}
+          </Button>
+          <Button onClick={handleUpload} disabled={!file || uploadFinancials.isPending}>
+            {uploadFinancials.isPending ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              'Import'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
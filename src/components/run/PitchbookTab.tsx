@@ -11,23 +11,39 @@ import {
   FileText,
   Scale,
   Wallet,
-  Activity
+  Activity,
+  LineChart,
+  Users
 } from 'lucide-react';
 import { KPITile } from './pitchbook/KPITile';
 import { FinancialChart } from './pitchbook/FinancialChart';
 import { EditableSection } from './pitchbook/EditableSection';
+import { MarketDataSection } from './pitchbook/MarketDataSection';
+import { PeerGroupSection } from './pitchbook/PeerGroupSection';
+import { MarketDataResponse } from '@/types/market';
 import { NormalizedFinancials, FiscalYearData } from '@/types/financials';
+import { getCurrencySymbol, getLatestPeriod, getReportingCurrency, getValueProvenance, LatestPeriod } from '@/lib/financials';
+import { formatCompanyIdentifier } from '@/lib/companies';
+import { computeCashFlow } from '@/lib/cashflow';
 
 interface PitchbookTabProps {
   data: NormalizedFinancials | null;
   company: {
-    ticker: string;
+    ticker: string | null;
     name: string;
     sicCode?: string | null;
     description?: string | null;
   } | null;
   pitchbookContent: PitchbookContent | null;
   onContentChange: (content: PitchbookContent) => void;
+  marketData?: MarketDataResponse | null;
+  isFetchingMarketData?: boolean;
+  onFetchMarketData?: (forceRefresh?: boolean) => void;
+  onImportPrices?: (csv: string, currency: string) => void;
+  // Needed for the peer group; the section is hidden without them
+  runId?: string;
+  fiscalYearStart?: number;
+  fiscalYearEnd?: number;
   readOnly?: boolean;
 }
 
@@ -47,13 +63,20 @@ const CHART_COLORS = {
   operatingCashFlow: 'hsl(280, 67%, 56%)',
   ebitda: 'hsl(38, 92%, 50%)',
   grossProfit: 'hsl(199, 89%, 48%)',
+  capex: 'hsl(0, 84%, 60%)',
+  freeCashFlow: 'hsl(142, 76%, 36%)',
+  shareholderReturns: 'hsl(38, 92%, 50%)',
 };
 
-function calculateKPIs(fiscalYears: FiscalYearData[]) {
+function calculateKPIs(fiscalYears: FiscalYearData[], latestPeriod: LatestPeriod) {
   if (!fiscalYears.length) return null;
   
-  const latest = fiscalYears[fiscalYears.length - 1];
-  const previous = fiscalYears.length > 1 ? fiscalYears[fiscalYears.length - 2] : null;
+  const latest = latestPeriod.data;
+  // An LTM period is compared against the last full fiscal year it rolls forward from
+  const previous = latestPeriod.isTrailing
+    ? fiscalYears[fiscalYears.length - 1]
+    : fiscalYears.length > 1 ? fiscalYears[fiscalYears.length - 2] : null;
+  const changeSuffix = latestPeriod.isTrailing && previous ? `vs FY${previous.year}` : 'YoY';
   
   const getTrend = (current: number | null, prev: number | null): 'up' | 'down' | 'neutral' => {
     if (!current || !prev) return 'neutral';
@@ -63,7 +86,7 @@ function calculateKPIs(fiscalYears: FiscalYearData[]) {
   const getChangePercent = (current: number | null, prev: number | null): string => {
     if (!current || !prev || prev === 0) return '';
     const change = ((current - prev) / Math.abs(prev)) * 100;
-    return `${change >= 0 ? '+' : ''}${change.toFixed(1)}% YoY`;
+    return `${change >= 0 ? '+' : ''}${change.toFixed(1)}% ${changeSuffix}`;
   };
 
   // Calculate ratios
@@ -126,7 +149,20 @@ function calculateKPIs(fiscalYears: FiscalYearData[]) {
   };
 }
 
-export function PitchbookTab({ data, company, pitchbookContent, onContentChange, readOnly = false }: PitchbookTabProps) {
+export function PitchbookTab({
+  data,
+  company,
+  pitchbookContent,
+  onContentChange,
+  marketData,
+  isFetchingMarketData = false,
+  onFetchMarketData,
+  onImportPrices,
+  runId,
+  fiscalYearStart,
+  fiscalYearEnd,
+  readOnly = false,
+}: PitchbookTabProps) {
   const [content, setContent] = useState<PitchbookContent>(pitchbookContent ?? {
     companyOverview: company?.description || '',
     industryLandscape: '',
@@ -134,10 +170,31 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
     investmentHighlights: '',
   });
 
+  const latestPeriod = useMemo(() => (data ? getLatestPeriod(data) : null), [data]);
+  const currencySymbol = getCurrencySymbol(getReportingCurrency(data));
+
   const kpis = useMemo(() => {
-    if (!data?.fiscalYears?.length) return null;
-    return calculateKPIs(data.fiscalYears);
-  }, [data]);
+    if (!data?.fiscalYears?.length || !latestPeriod) return null;
+    return calculateKPIs(data.fiscalYears, latestPeriod);
+  }, [data, latestPeriod]);
+
+  // Free cash flow isn't a filed figure, so the cash flow chart plots derived rows
+  const cashFlowData = useMemo(
+    () => (data?.fiscalYears ?? []).map(fy => ({
+      year: fy.year,
+      operatingCashFlow: fy.operatingCashFlow,
+      capitalExpenditures: fy.capitalExpenditures ?? null,
+      freeCashFlow: computeCashFlow(fy).freeCashFlow,
+      shareholderReturns: fy.dividendsPaid == null && fy.shareRepurchases == null
+        ? null
+        : (fy.dividendsPaid ?? 0) + (fy.shareRepurchases ?? 0),
+    })),
+    [data]
+  );
+
+  // Provenance of the latest-period figures a KPI is computed from
+  const sourcesFor = (...fields: Array<keyof Omit<FiscalYearData, 'year'>>) =>
+    fields.map(field => (latestPeriod ? getValueProvenance(data, latestPeriod.period, field) : undefined));
 
   const handleContentChange = useCallback((field: keyof PitchbookContent, value: string) => {
     const updated = { ...content, [field]: value };
@@ -165,7 +222,6 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
     );
   }
 
-  const latestYear = data.fiscalYears[data.fiscalYears.length - 1]?.year;
 
   return (
     <div className="space-y-6">
@@ -181,11 +237,11 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
                 <div>
                   <h2 className="text-2xl font-bold">{company?.name || data.entityName}</h2>
                   <p className="text-muted-foreground">
-                    <span className="font-mono">{company?.ticker || data.ticker}</span>
+                    <span className="font-mono">{company?.ticker || formatCompanyIdentifier({ ...data, is_private: !!data.upload })}</span>
                     {(company?.sicCode || data.sicCode) && (
                       <span> • SIC {company?.sicCode || data.sicCode}</span>
                     )}
-                    {latestYear && <span> • Latest FY{latestYear}</span>}
+                    {latestPeriod && <span> • Latest {latestPeriod.label}</span>}
                   </p>
                 </div>
               </div>
@@ -199,39 +255,54 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
         <h3 className="mb-4 text-lg font-semibold flex items-center gap-2">
           <Activity className="h-5 w-5 text-primary" />
           Key Performance Indicators
+          {latestPeriod && (
+            <span className="text-sm font-normal text-muted-foreground">({latestPeriod.label})</span>
+          )}
         </h3>
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <KPITile
             title="Revenue"
             value={kpis?.revenue.value ?? 'N/A'}
             format="currency"
+            currencySymbol={currencySymbol}
             icon={<DollarSign className="h-5 w-5" />}
             trend={kpis?.revenue.trend}
             trendValue={kpis?.revenue.change}
+            sourceData={data}
+            provenance={sourcesFor('revenue')}
           />
           <KPITile
             title="Net Income"
             value={kpis?.netIncome.value ?? 'N/A'}
             format="currency"
+            currencySymbol={currencySymbol}
             icon={<TrendingUp className="h-5 w-5" />}
             trend={kpis?.netIncome.trend}
             trendValue={kpis?.netIncome.change}
+            sourceData={data}
+            provenance={sourcesFor('netIncome')}
           />
           <KPITile
             title="EBITDA"
             value={kpis?.ebitda.value ?? 'N/A'}
             format="currency"
+            currencySymbol={currencySymbol}
             icon={<BarChart3 className="h-5 w-5" />}
             trend={kpis?.ebitda.trend}
             trendValue={kpis?.ebitda.change}
+            sourceData={data}
+            provenance={sourcesFor('ebitda')}
           />
           <KPITile
             title="Total Assets"
             value={kpis?.totalAssets.value ?? 'N/A'}
             format="currency"
+            currencySymbol={currencySymbol}
             icon={<Wallet className="h-5 w-5" />}
             trend={kpis?.totalAssets.trend}
             trendValue={kpis?.totalAssets.change}
+            sourceData={data}
+            provenance={sourcesFor('totalAssets')}
           />
         </div>
       </div>
@@ -243,17 +314,99 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
           Financial Ratios
         </h3>
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
-          <KPITile title="Gross Margin" value={kpis?.grossMargin.value ?? 'N/A'} format="percent" />
-          <KPITile title="Net Margin" value={kpis?.netMargin.value ?? 'N/A'} format="percent" />
-          <KPITile title="ROA" value={kpis?.roa.value ?? 'N/A'} format="percent" />
-          <KPITile title="ROE" value={kpis?.roe.value ?? 'N/A'} format="percent" />
-          <KPITile title="Current Ratio" value={kpis?.currentRatio.value ?? 'N/A'} format="ratio" />
-          <KPITile title="Debt/Equity" value={kpis?.debtToEquity.value ?? 'N/A'} format="ratio" />
+          <KPITile
+            title="Gross Margin"
+            value={kpis?.grossMargin.value ?? 'N/A'}
+            format="percent"
+            sourceData={data}
+            provenance={sourcesFor('grossProfit', 'revenue')}
+          />
+          <KPITile
+            title="Net Margin"
+            value={kpis?.netMargin.value ?? 'N/A'}
+            format="percent"
+            sourceData={data}
+            provenance={sourcesFor('netIncome', 'revenue')}
+          />
+          <KPITile
+            title="ROA"
+            value={kpis?.roa.value ?? 'N/A'}
+            format="percent"
+            sourceData={data}
+            provenance={sourcesFor('netIncome', 'totalAssets')}
+          />
+          <KPITile
+            title="ROE"
+            value={kpis?.roe.value ?? 'N/A'}
+            format="percent"
+            sourceData={data}
+            provenance={sourcesFor('netIncome', 'stockholdersEquity')}
+          />
+          <KPITile
+            title="Current Ratio"
+            value={kpis?.currentRatio.value ?? 'N/A'}
+            format="ratio"
+            sourceData={data}
+            provenance={sourcesFor('currentAssets', 'currentLiabilities')}
+          />
+          <KPITile
+            title="Debt/Equity"
+            value={kpis?.debtToEquity.value ?? 'N/A'}
+            format="ratio"
+            sourceData={data}
+            provenance={sourcesFor('longTermDebt', 'stockholdersEquity')}
+          />
         </div>
       </div>
 
       <Separator className="my-6" />
 
+      {/* Market Data & Valuation */}
+      {onFetchMarketData && onImportPrices && (
+        <>
+          <div>
+            <h3 className="mb-4 text-lg font-semibold flex items-center gap-2">
+              <LineChart className="h-5 w-5 text-primary" />
+              Market Data & Valuation
+            </h3>
+            <MarketDataSection
+              data={data}
+              market={marketData}
+              latestPeriod={latestPeriod}
+              isFetching={isFetchingMarketData}
+              onFetch={onFetchMarketData}
+              onImport={onImportPrices}
+              readOnly={readOnly}
+            />
+          </div>
+
+          <Separator className="my-6" />
+        </>
+      )}
+
+      {/* Peer Group */}
+      {runId && fiscalYearStart && fiscalYearEnd && (
+        <>
+          <div>
+            <h3 className="mb-4 text-lg font-semibold flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              Peer Group
+            </h3>
+            <PeerGroupSection
+              runId={runId}
+              data={data}
+              subjectTicker={company?.ticker || formatCompanyIdentifier({ ...data, is_private: !!data.upload })}
+              subjectName={company?.name || data.entityName}
+              fiscalYearStart={fiscalYearStart}
+              fiscalYearEnd={fiscalYearEnd}
+              readOnly={readOnly}
+            />
+          </div>
+
+          <Separator className="my-6" />
+        </>
+      )}
+
       {/* Financial Charts */}
       <div>
         <h3 className="mb-4 text-lg font-semibold flex items-center gap-2">
@@ -270,6 +423,7 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
               { key: 'grossProfit', label: 'Gross Profit', color: CHART_COLORS.grossProfit },
               { key: 'netIncome', label: 'Net Income', color: CHART_COLORS.netIncome },
             ]}
+            currencySymbol={currencySymbol}
             chartType="area"
           />
           <FinancialChart
@@ -281,6 +435,7 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
               { key: 'totalLiabilities', label: 'Liabilities', color: CHART_COLORS.liabilities },
               { key: 'stockholdersEquity', label: 'Equity', color: CHART_COLORS.equity },
             ]}
+            currencySymbol={currencySymbol}
             chartType="bar"
           />
           <FinancialChart
@@ -291,6 +446,7 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
               { key: 'ebitda', label: 'EBITDA', color: CHART_COLORS.ebitda },
               { key: 'operatingCashFlow', label: 'Operating Cash Flow', color: CHART_COLORS.operatingCashFlow },
             ]}
+            currencySymbol={currencySymbol}
             chartType="line"
           />
           <FinancialChart
@@ -301,8 +457,22 @@ export function PitchbookTab({ data, company, pitchbookContent, onContentChange,
               { key: 'operatingIncome', label: 'Operating Income', color: CHART_COLORS.revenue },
               { key: 'netIncome', label: 'Net Income', color: CHART_COLORS.netIncome },
             ]}
+            currencySymbol={currencySymbol}
             chartType="area"
           />
+          <FinancialChart
+            title="Cash Flow"
+            description="Operating cash flow, capex, free cash flow, and dividends plus buybacks"
+            data={cashFlowData}
+            metrics={[
+              { key: 'operatingCashFlow', label: 'Operating Cash Flow', color: CHART_COLORS.operatingCashFlow },
+              { key: 'capitalExpenditures', label: 'Capex', color: CHART_COLORS.capex },
+              { key: 'freeCashFlow', label: 'Free Cash Flow', color: CHART_COLORS.freeCashFlow },
+              { key: 'shareholderReturns', label: 'Shareholder Returns', color: CHART_COLORS.shareholderReturns },
+            ]}
+            currencySymbol={currencySymbol}
+            chartType="bar"
+          />
         </div>
       </div>
 
@@ -0,0 +1,90 @@
+import { ReactNode } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Separator } from '@/components/ui/separator';
+import { ExternalLink } from 'lucide-react';
+import { FactSource, NormalizedFinancials, ValueProvenance } from '@/types/financials';
+import { getFieldLabel } from '@/hooks/useConceptMappings';
+import { getFiledCurrency } from '@/lib/financials';
+
+interface ValueSourcePopoverProps {
+  data: NormalizedFinancials;
+  // Several entries when the value is a ratio of normalized figures
+  provenance: Array<ValueProvenance | undefined>;
+  children: ReactNode;
+}
+
+function getFilingUrl(data: NormalizedFinancials, accn: string): string {
+  const filing = data.filings?.find(f => f.accessionNumber === accn);
+  if (filing) return filing.url;
+  return `https://www.sec.gov/Archives/edgar/data/${parseInt(data.cik, 10)}/${accn.replace(/-/g, '')}/`;
+}
+
+function FactRow({ fact, data, currency }: { fact: FactSource; data: NormalizedFinancials; currency: string }) {
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="truncate font-mono text-xs">{fact.concept}</span>
+        <span className="shrink-0 font-mono text-xs">
+          {fact.val.toLocaleString()} {currency}
+        </span>
+      </div>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {fact.start ? `${fact.start} to ${fact.end}` : `As of ${fact.end}`} • {fact.form} {fact.fp}, filed {fact.filed}
+        </span>
+        <a
+          href={getFilingUrl(data, fact.accn)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex shrink-0 items-center gap-1 font-mono text-primary hover:underline"
+        >
+          {fact.accn}
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      </div>
+    </div>
+  );
+}
+
+export function ValueSourcePopover({ data, provenance, children }: ValueSourcePopoverProps) {
+  const entries = provenance.filter((p): p is ValueProvenance => !!p);
+  if (entries.length === 0) return <>{children}</>;
+
+  const currency = getFiledCurrency(data);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="cursor-pointer rounded-sm text-inherit hover:underline hover:decoration-dotted">
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[28rem] space-y-3" align="end">
+        {entries.map((entry, i) => (
+          <div key={`${entry.period}-${entry.field}`} className="space-y-2">
+            {i > 0 && <Separator />}
+            <div>
+              <p className="text-sm font-medium">
+                {getFieldLabel(entry.field)} • {entry.period}
+              </p>
+              {entry.derivation && (
+                <p className="text-xs text-muted-foreground">{entry.derivation}</p>
+              )}
+            </div>
+            {entry.sources.map(fact => (
+              <FactRow key={`${fact.concept}-${fact.accn}-${fact.end}`} fact={fact} data={data} currency={currency} />
+            ))}
+            {entry.alternatives.length > 0 && (
+              <div className="space-y-2 rounded-md bg-muted/50 p-2">
+                <p className="text-xs font-medium text-muted-foreground">Not used</p>
+                {entry.alternatives.map(fact => (
+                  <FactRow key={`${fact.concept}-${fact.accn}-${fact.val}`} fact={fact} data={data} currency={currency} />
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { RunVersion, useVersions, useRestoreVersion } from '@/hooks/useVersions';
+import { getFieldLabel } from '@/hooks/useConceptMappings';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   Collapsible,
@@ -207,8 +208,9 @@ export function VersionsTab({ runId, runStatus, onVersionSelect }: VersionsTabPr
                           <AlertDialogHeader>
                             <AlertDialogTitle>Restore Version {version.version_number}?</AlertDialogTitle>
                             <AlertDialogDescription>
-                              This will create a new version with the content from Version {version.version_number}. 
-                              Your current work will not be lost.
+                              This will create a new version with the content from Version {version.version_number}
+                              {version.adjustments ? ' and replace the run\'s adjustments with the ones it was saved with' : ''}.
+                              Existing versions are kept.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
@@ -260,6 +262,24 @@ function VersionDetails({ version }: { version: RunVersion }) {
         </div>
       )}
       
+      {version.adjustments && version.adjustments.length > 0 && (
+        <div>
+          <h4 className="mb-2 text-sm font-medium">Adjustments</h4>
+          <div className="space-y-1 text-sm">
+            {version.adjustments.map(adjustment => (
+              <div key={adjustment.id} className="rounded bg-muted/50 p-2">
+                <span className="text-xs text-muted-foreground">
+                  {adjustment.period} {getFieldLabel(adjustment.field)} •{' '}
+                  {adjustment.kind === 'override' ? 'Override' : 'Add-back'}
+                </span>
+                <p className="font-mono text-sm">{adjustment.amount.toLocaleString()}</p>
+                <p className="text-xs">{adjustment.reason}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
       {version.pitchbook_content && (
         <div>
           <h4 className="mb-2 text-sm font-medium">Pitchbook Content</h4>
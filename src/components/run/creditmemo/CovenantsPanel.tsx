@@ -0,0 +1,368 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Scale, Trash2, X } from 'lucide-react';
+import { NormalizedFinancials } from '@/types/financials';
+import { Covenant, CovenantFrequency, CovenantMetric, CovenantOperator, CovenantStatus, CovenantTest } from '@/types/covenants';
+import { StressScenario } from '@/types/scenarios';
+import { useAddCovenant, useDeleteCovenant } from '@/hooks/useCovenants';
+import { COVENANT_METRICS, LOW_HEADROOM, formatCovenantValue, formatHeadroom, testCovenant, testCovenantPeriod } from '@/lib/covenants';
+import { applyScenario } from '@/lib/scenarios';
+import { FxRate } from '@/lib/fx';
+import { getCurrencySymbol, getReportingCurrency } from '@/lib/financials';
+import { cn } from '@/lib/utils';
+
+interface CovenantsPanelProps {
+  runId: string;
+  data: NormalizedFinancials;
+  covenants: Covenant[];
+  // Convert amount thresholds set in another currency
+  fxRates: FxRate[];
+  // Downside and severe scenarios are tested pro forma on the latest period
+  scenarios: StressScenario[];
+  readOnly?: boolean;
+}
+
+const statusConfig: Record<CovenantStatus, { label: string; className: string }> = {
+  pass: { label: 'Pass', className: 'text-success' },
+  tight: { label: 'Tight', className: 'text-warning' },
+  breach: { label: 'Breach', className: 'text-destructive' },
+  untested: { label: 'N/A', className: 'text-muted-foreground' },
+};
+
+interface StepDownDraft {
+  fromYear: string;
+  threshold: string;
+}
+
+function TestCell({ covenant, test, symbol }: { covenant: Covenant; test: CovenantTest | undefined; symbol: string }) {
+  if (!test) return <TableCell className="text-right text-muted-foreground">—</TableCell>;
+  const status = statusConfig[test.status];
+
+  return (
+    <TableCell className="text-right">
+      <div className={cn('font-mono text-sm', status.className)} title={status.label}>
+        {formatCovenantValue(covenant.metric, test.value, symbol)}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {covenant.operator === '<=' ? '≤' : '≥'} {formatCovenantValue(covenant.metric, test.threshold, symbol)}
+        {test.status !== 'untested' && <> · {formatHeadroom(test.headroom)}</>}
+      </div>
+    </TableCell>
+  );
+}
+
+export function CovenantsPanel({ runId, data, covenants, fxRates, scenarios, readOnly = false }: CovenantsPanelProps) {
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<CovenantMetric>('debtToEbitda');
+  const [operator, setOperator] = useState<CovenantOperator>(COVENANT_METRICS.debtToEbitda.operator);
+  const [threshold, setThreshold] = useState('');
+  const [frequency, setFrequency] = useState<CovenantFrequency>('quarterly');
+  const [stepDowns, setStepDowns] = useState<StepDownDraft[]>([]);
+
+  const addCovenant = useAddCovenant();
+  const deleteCovenant = useDeleteCovenant();
+
+  const symbol = getCurrencySymbol(getReportingCurrency(data));
+  const currency = getReportingCurrency(data);
+  // Thresholds are shown as written; tests show them converted
+  const covenantSymbol = (covenant: Covenant) => (covenant.currency ? getCurrencySymbol(covenant.currency) : symbol);
+
+  const results = useMemo(() => {
+    const stressed = scenarios
+      .filter(s => s.id !== 'base')
+      .map(scenario => ({ scenario, data: applyScenario(data, scenario.shocks) }));
+
+    return covenants.map(covenant => {
+      const tests = testCovenant(covenant, data, fxRates);
+      // Pro forma tests re-run the covenant's most recent test on the stressed figures
+      const last = tests[tests.length - 1];
+      const proForma = last
+        ? stressed.flatMap(({ scenario, data: stressedData }) => {
+          const values = last.period === 'LTM'
+            ? stressedData.ttm
+            : stressedData.fiscalYears.find(fy => `FY${fy.year}` === last.period);
+          if (!values) return [];
+          return [testCovenantPeriod(covenant, {
+            period: scenario.id,
+            label: `${scenario.name} (pro forma)`,
+            year: values.year,
+            values,
+            proForma: true,
+          }, currency, fxRates)];
+        })
+        : [];
+      return { covenant, tests: [...tests, ...proForma] };
+    });
+  }, [data, covenants, fxRates, scenarios, currency]);
+
+  // Every period any covenant is tested on, historical first. Each covenant's tests are
+  // in date order, so periods only some covenants test on are slotted in after the
+  // period that precedes them.
+  const columns = useMemo(() => {
+    const historical: { period: string; label: string }[] = [];
+    for (const { tests } of results) {
+      let at = 0;
+      for (const test of tests.filter(t => !t.proForma)) {
+        const index = historical.findIndex(column => column.period === test.period);
+        if (index === -1) historical.splice(at++, 0, { period: test.period, label: test.label });
+        else at = index + 1;
+      }
+    }
+    const proForma = new Map(results.flatMap(r => r.tests.filter(t => t.proForma)).map(t => [t.period, t.label]));
+    return [...historical, ...[...proForma.entries()].map(([period, label]) => ({ period, label }))];
+  }, [results]);
+
+  const parsedThreshold = Number(threshold);
+  const parsedStepDowns = stepDowns
+    .filter(step => step.fromYear.trim() !== '' && step.threshold.trim() !== '')
+    .map(step => ({ fromYear: Number(step.fromYear), threshold: Number(step.threshold) }));
+  const stepDownsValid = parsedStepDowns.every(step => Number.isInteger(step.fromYear) && Number.isFinite(step.threshold));
+  const canSubmit = !!name.trim() && threshold.trim() !== '' && Number.isFinite(parsedThreshold) && stepDownsValid;
+
+  const handleMetricChange = (value: CovenantMetric) => {
+    setMetric(value);
+    setOperator(COVENANT_METRICS[value].operator);
+  };
+
+  const handleAdd = () => {
+    if (!canSubmit) return;
+    addCovenant.mutate(
+      {
+        runId,
+        name: name.trim(),
+        metric,
+        operator,
+        threshold: parsedThreshold,
+        frequency,
+        stepDowns: parsedStepDowns,
+        // Amounts are entered in the currency the figures are shown in
+        currency: COVENANT_METRICS[metric].format === 'amount' ? currency : null,
+      },
+      {
+        onSuccess: () => {
+          setName('');
+          setThreshold('');
+          setStepDowns([]);
+        },
+      }
+    );
+  };
+
+  const updateStepDown = (index: number, patch: Partial<StepDownDraft>) => {
+    setStepDowns(steps => steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  if (readOnly && covenants.length === 0) return null;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Scale className="h-5 w-5 text-primary" />
+          Financial Covenants
+          {covenants.length > 0 && (
+            <Badge variant="secondary" className="ml-2">{covenants.length}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Each covenant is tested on every fiscal year, the trailing twelve months to each quarter end when tested
+          quarterly, and pro forma under the stress scenarios. Amount thresholds set in another currency are converted
+          at each year's closing rate. Headroom under {LOW_HEADROOM * 100}% is flagged as tight.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {results.length > 0 && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Covenant</TableHead>
+                  {columns.map(column => (
+                    <TableHead key={column.period} className="text-right whitespace-nowrap">{column.label}</TableHead>
+                  ))}
+                  {!readOnly && <TableHead className="w-12" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(({ covenant, tests }) => (
+                  <TableRow key={covenant.id}>
+                    <TableCell>
+                      <p className="font-medium">{covenant.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {COVENANT_METRICS[covenant.metric].label} {covenant.operator}{' '}
+                        {formatCovenantValue(covenant.metric, covenant.threshold, covenantSymbol(covenant))}, {covenant.frequency}
+                      </p>
+                      {covenant.step_downs.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Steps to{' '}
+                          {[...covenant.step_downs]
+                            .sort((a, b) => a.fromYear - b.fromYear)
+                            .map(step => `${formatCovenantValue(covenant.metric, step.threshold, covenantSymbol(covenant))} from FY${step.fromYear}`)
+                            .join(', ')}
+                        </p>
+                      )}
+                    </TableCell>
+                    {columns.map(column => (
+                      <TestCell
+                        key={column.period}
+                        covenant={covenant}
+                        test={tests.find(t => t.period === column.period)}
+                        symbol={symbol}
+                      />
+                    ))}
+                    {!readOnly && (
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteCovenant.mutate({ id: covenant.id, runId })}
+                          disabled={deleteCovenant.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {!readOnly && (
+          <div className="space-y-3">
+            <div className="grid gap-3 md:grid-cols-[1fr_1fr_90px_140px_130px] items-end">
+              <div className="space-y-1">
+                <Label htmlFor="covenant-name">Name *</Label>
+                <Input
+                  id="covenant-name"
+                  placeholder="e.g. Maximum Total Leverage"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="bg-background"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Metric</Label>
+                <Select value={metric} onValueChange={(value) => handleMetricChange(value as CovenantMetric)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COVENANT_METRICS) as CovenantMetric[]).map(m => (
+                      <SelectItem key={m} value={m}>{COVENANT_METRICS[m].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Operator</Label>
+                <Select value={operator} onValueChange={(value) => setOperator(value as CovenantOperator)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="<=">≤</SelectItem>
+                    <SelectItem value=">=">≥</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="covenant-threshold">
+                  Threshold{COVENANT_METRICS[metric].format === 'amount' ? ` (${currency})` : ''}
+                </Label>
+                <Input
+                  id="covenant-threshold"
+                  type="number"
+                  placeholder={COVENANT_METRICS[metric].format === 'amount' ? 'Amount' : 'e.g. 3.5'}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  className="bg-background font-mono"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Tested</Label>
+                <Select value={frequency} onValueChange={(value) => setFrequency(value as CovenantFrequency)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="annual">Annually</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {stepDowns.map((step, index) => (
+              <div key={index} className="grid gap-3 md:grid-cols-[140px_140px_auto] items-end">
+                <div className="space-y-1">
+                  <Label htmlFor={`step-year-${index}`}>From fiscal year</Label>
+                  <Input
+                    id={`step-year-${index}`}
+                    type="number"
+                    placeholder="e.g. 2026"
+                    value={step.fromYear}
+                    onChange={(e) => updateStepDown(index, { fromYear: e.target.value })}
+                    className="bg-background font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`step-threshold-${index}`}>Threshold</Label>
+                  <Input
+                    id={`step-threshold-${index}`}
+                    type="number"
+                    value={step.threshold}
+                    onChange={(e) => updateStepDown(index, { threshold: e.target.value })}
+                    className="bg-background font-mono"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setStepDowns(steps => steps.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex justify-between gap-3">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setStepDowns(steps => [...steps, { fromYear: '', threshold: '' }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Step-down
+              </Button>
+              <Button onClick={handleAdd} disabled={!canSubmit || addCovenant.isPending}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Covenant
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,8 @@ interface CreditScoreCardProps {
   score: number;
   category: 'excellent' | 'good' | 'fair' | 'poor' | 'critical';
   sicCode: string | null;
+  // Null when scored with the built-in default model
+  scorecardVersion?: number | null;
 }
 
 const categoryConfig = {
@@ -15,7 +17,7 @@ const categoryConfig = {
   critical: { label: 'Critical', color: 'text-destructive', bgColor: 'bg-destructive/10', borderColor: 'border-destructive/30' },
 };
 
-export function CreditScoreCard({ score, category, sicCode }: CreditScoreCardProps) {
+export function CreditScoreCard({ score, category, sicCode, scorecardVersion = null }: CreditScoreCardProps) {
   const config = categoryConfig[category];
   
   // Calculate circumference and offset for the circular progress
@@ -88,6 +90,13 @@ export function CreditScoreCard({ score, category, sicCode }: CreditScoreCardPro
               </div>
             )}
 
+            <div className="text-sm">
+              <span className="text-muted-foreground">Scorecard: </span>
+              <span className="font-mono text-foreground">
+                {scorecardVersion !== null ? `v${scorecardVersion}` : 'Default'}
+              </span>
+            </div>
+
             <div className="flex gap-1 mt-2">
               {['critical', 'poor', 'fair', 'good', 'excellent'].map((cat) => (
                 <div
@@ -0,0 +1,95 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Check, X } from 'lucide-react';
+import { DistressScores as Scores, ModelScore } from '@/lib/scores';
+import { cn } from '@/lib/utils';
+
+interface DistressScoresProps {
+  scores: Scores;
+}
+
+type Tone = 'good' | 'neutral' | 'bad';
+
+const zoneConfig: Record<string, { label: string; tone: Tone }> = {
+  safe: { label: 'Safe Zone', tone: 'good' },
+  grey: { label: 'Grey Zone', tone: 'neutral' },
+  distress: { label: 'Distress Zone', tone: 'bad' },
+  strong: { label: 'Strong', tone: 'good' },
+  moderate: { label: 'Moderate', tone: 'neutral' },
+  weak: { label: 'Weak', tone: 'bad' },
+  unlikely: { label: 'Manipulation Unlikely', tone: 'good' },
+  possible: { label: 'Manipulation Possible', tone: 'neutral' },
+  likely: { label: 'Manipulation Likely', tone: 'bad' },
+};
+
+const toneClassName: Record<Tone, string> = {
+  good: 'bg-success/20 text-success border-success/30',
+  neutral: 'bg-warning/20 text-warning border-warning/30',
+  bad: 'bg-destructive/20 text-destructive border-destructive/30',
+};
+
+function ModelPanel({ result, description, passFail = false }: { result: ModelScore<string>; description: string; passFail?: boolean }) {
+  const zone = result.zone ? zoneConfig[result.zone] : null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-4">
+      <div>
+        <p className="font-medium">{result.model}</p>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-3xl font-bold">
+          {result.score === null ? '—' : passFail ? `${result.score}/9` : result.score.toFixed(2)}
+        </span>
+        <Badge variant="outline" className={cn(zone ? toneClassName[zone.tone] : 'text-muted-foreground')}>
+          {zone?.label ?? (result.score === null ? 'Not Computable' : 'Indeterminate')}
+        </Badge>
+      </div>
+      {result.period && <p className="text-xs text-muted-foreground">{result.period}</p>}
+
+      <div className="space-y-1.5 border-t border-border/50 pt-3">
+        {result.components.map(component => (
+          <div key={component.label} className="flex items-center justify-between gap-2 text-sm">
+            <span className={cn('text-muted-foreground', component.value === null && 'line-through')}>
+              {component.label}
+              {component.imputed && <span className="ml-1 text-xs">(1.0)</span>}
+            </span>
+            {passFail ? (
+              component.value === null
+                ? <span className="text-muted-foreground">—</span>
+                : component.value
+                  ? <Check className="h-4 w-4 text-success" />
+                  : <X className="h-4 w-4 text-destructive" />
+            ) : (
+              <span className="font-mono">{component.value === null ? '—' : component.value.toFixed(3)}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {result.note && <p className="text-xs text-muted-foreground">{result.note}</p>}
+      {result.score === null && result.missing.length > 0 && (
+        <p className="text-xs text-warning">Missing: {result.missing.join(', ')}</p>
+      )}
+    </div>
+  );
+}
+
+export function DistressScores({ scores }: DistressScoresProps) {
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="text-lg">Distress & Earnings Quality</CardTitle>
+        <CardDescription>Standard academic models computed from the latest fiscal years</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+          <ModelPanel result={scores.altman} description="Bankruptcy risk within two years" />
+          <ModelPanel result={scores.piotroski} description="Financial strength signals" passFail />
+          <ModelPanel result={scores.beneish} description="Likelihood of earnings manipulation" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
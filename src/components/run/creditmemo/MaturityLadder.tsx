@@ -0,0 +1,144 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MaturityLadder as Ladder } from '@/lib/maturities';
+import { cn } from '@/lib/utils';
+
+interface MaturityLadderProps {
+  ladder: Ladder;
+  currencySymbol: string;
+}
+
+const SERIES = [
+  { key: 'debt', label: 'Debt principal', color: 'hsl(0, 84%, 60%)' },
+  { key: 'financeLeases', label: 'Finance leases', color: 'hsl(38, 92%, 50%)' },
+  { key: 'operatingLeases', label: 'Operating leases', color: 'hsl(217, 91%, 60%)' },
+] as const;
+
+const CASH_COLOR = 'hsl(142, 76%, 36%)';
+const OCF_COLOR = 'hsl(280, 67%, 56%)';
+
+function formatCompact(value: number, symbol: string): string {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e9) return `${sign}${symbol}${(abs / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${sign}${symbol}${(abs / 1e6).toFixed(0)}M`;
+  if (abs >= 1e3) return `${sign}${symbol}${(abs / 1e3).toFixed(0)}K`;
+  return `${sign}${symbol}${abs.toFixed(0)}`;
+}
+
+interface LadderTooltipProps {
+  active?: boolean;
+  payload?: Array<{ name: string; value: number; color: string }>;
+  label?: string;
+  currencySymbol: string;
+}
+
+const LadderTooltip = ({ active, payload, label, currencySymbol }: LadderTooltipProps) => {
+  if (!active || !payload?.length) return null;
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card p-3 shadow-xl">
+      <p className="mb-1 font-medium text-foreground">{label}</p>
+      {payload.map(entry => (
+        <p key={entry.name} className="text-sm text-muted-foreground">
+          <span style={{ color: entry.color }}>●</span> {entry.name}:{' '}
+          <span className="font-medium text-foreground">{formatCompact(entry.value, currencySymbol)}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export function MaturityLadder({ ladder, currencySymbol }: MaturityLadderProps) {
+  const nearTermExceedsCash = ladder.cash !== null && ladder.dueWithinTwoYears > ladder.cash;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="text-lg">Debt Maturity Ladder</CardTitle>
+        <CardDescription>
+          Scheduled principal and undiscounted lease payments disclosed at FY{ladder.year}, against that year's cash and
+          operating cash flow
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Due within 2 years</p>
+            <p className={cn('font-mono text-lg font-semibold', nearTermExceedsCash && 'text-destructive')}>
+              {formatCompact(ladder.dueWithinTwoYears, currencySymbol)}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Cash</p>
+            <p className="font-mono text-lg font-semibold">
+              {ladder.cash !== null ? formatCompact(ladder.cash, currencySymbol) : 'N/A'}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Operating Cash Flow</p>
+            <p className="font-mono text-lg font-semibold">
+              {ladder.operatingCashFlow !== null ? formatCompact(ladder.operatingCashFlow, currencySymbol) : 'N/A'}
+            </p>
+          </div>
+        </div>
+
+        <div className="h-[280px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={ladder.buckets} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} vertical={false} />
+              <XAxis
+                dataKey="label"
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                width={60}
+                tickFormatter={(value: number) => formatCompact(value, currencySymbol)}
+              />
+              <Tooltip content={<LadderTooltip currencySymbol={currencySymbol} />} cursor={{ fill: 'hsl(var(--muted))', opacity: 0.3 }} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {SERIES.map(series => (
+                <Bar key={series.key} dataKey={series.key} name={series.label} stackId="maturities" fill={series.color} />
+              ))}
+              {ladder.cash !== null && (
+                <ReferenceLine
+                  y={ladder.cash}
+                  stroke={CASH_COLOR}
+                  strokeDasharray="4 4"
+                  ifOverflow="extendDomain"
+                  label={{ value: 'Cash', position: 'insideTopRight', fill: CASH_COLOR, fontSize: 12 }}
+                />
+              )}
+              {ladder.operatingCashFlow !== null && ladder.operatingCashFlow > 0 && (
+                <ReferenceLine
+                  y={ladder.operatingCashFlow}
+                  stroke={OCF_COLOR}
+                  strokeDasharray="4 4"
+                  ifOverflow="extendDomain"
+                  label={{ value: 'Operating cash flow', position: 'insideTopLeft', fill: OCF_COLOR, fontSize: 12 }}
+                />
+              )}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,10 @@ import { cn } from '@/lib/utils';
 interface PeerBenchmarkProps {
   comparisons: PeerComparison[];
   sicCode: string | null;
+  // Year the peer distributions were built for; null without peer data
+  peerYear: number | null;
+  peerCount: number;
+  isLoading?: boolean;
 }
 
 function formatValue(value: number | null, metric: string): string {
@@ -14,25 +18,32 @@ function formatValue(value: number | null, metric: string): string {
   if (metric.includes('Margin') || metric.includes('Return')) {
     return `${(value * 100).toFixed(1)}%`;
   }
+  if (metric.includes('Interest')) return `${value.toFixed(1)}x`;
   return value.toFixed(2);
 }
 
 const statusConfig = {
-  above: { icon: ArrowUp, color: 'text-success', label: 'Above Average' },
-  at: { icon: Minus, color: 'text-muted-foreground', label: 'At Average' },
-  below: { icon: ArrowDown, color: 'text-destructive', label: 'Below Average' },
+  above: { icon: ArrowUp, color: 'text-success', label: 'Better than Median' },
+  at: { icon: Minus, color: 'text-muted-foreground', label: 'At Median' },
+  below: { icon: ArrowDown, color: 'text-destructive', label: 'Worse than Median' },
 };
 
-export function PeerBenchmark({ comparisons, sicCode }: PeerBenchmarkProps) {
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+export function PeerBenchmark({ comparisons, sicCode, peerYear, peerCount, isLoading }: PeerBenchmarkProps) {
+  let description = 'No SIC code, so there are no industry peers to compare against';
+  if (sicCode && isLoading) description = `Building SIC ${sicCode} peer benchmarks from SEC filings...`;
+  else if (sicCode && peerYear) description = `Ranked against ${peerCount.toLocaleString()} SIC ${sicCode} filers for ${peerYear}`;
+  else if (sicCode) description = `No SEC peer data available for SIC ${sicCode}`;
+
   return (
     <Card className="glass-card">
       <CardHeader>
         <CardTitle className="text-lg">Peer Benchmarking</CardTitle>
-        <CardDescription>
-          {sicCode 
-            ? `Comparison against SIC ${sicCode} industry peers`
-            : 'Comparison against general market benchmarks'}
-        </CardDescription>
+        <CardDescription>{description}</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
@@ -45,38 +56,55 @@ export function PeerBenchmark({ comparisons, sicCode }: PeerBenchmarkProps) {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <span className="font-medium">{comparison.metric}</span>
-                    <div className={cn('flex items-center gap-1 text-sm', config.color)}>
-                      <Icon className="h-3.5 w-3.5" />
-                      <span>{config.label}</span>
-                    </div>
+                    {comparison.percentile !== null && (
+                      <div className={cn('flex items-center gap-1 text-sm', config.color)}>
+                        <Icon className="h-3.5 w-3.5" />
+                        <span>{config.label}</span>
+                      </div>
+                    )}
                   </div>
                   <div className="text-right">
                     <span className="font-mono font-medium">
                       {formatValue(comparison.company, comparison.metric)}
                     </span>
-                    <span className="text-muted-foreground text-sm ml-2">
-                      vs {formatValue(comparison.peerAverage, comparison.metric)}
-                    </span>
+                    {comparison.peerMedian !== null && (
+                      <span className="text-muted-foreground text-sm ml-2">
+                        vs median {formatValue(comparison.peerMedian, comparison.metric)}
+                        {' '}({formatValue(comparison.p25, comparison.metric)}–{formatValue(comparison.p75, comparison.metric)})
+                      </span>
+                    )}
                   </div>
                 </div>
-                
-                <div className="relative">
-                  <Progress 
-                    value={comparison.percentile ?? 50} 
-                    className="h-3"
-                  />
-                  {/* Peer average marker */}
-                  <div 
-                    className="absolute top-0 h-3 w-0.5 bg-foreground/60"
-                    style={{ left: '50%' }}
-                  />
-                </div>
 
-                <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>Bottom 25%</span>
-                  <span>Peer Avg</span>
-                  <span>Top 25%</span>
-                </div>
+                {comparison.percentile !== null ? (
+                  <>
+                    <div className="relative">
+                      <Progress value={comparison.percentile} className="h-3" />
+                      {/* Quartile markers */}
+                      {[25, 50, 75].map(q => (
+                        <div
+                          key={q}
+                          className="absolute top-0 h-3 w-0.5 bg-foreground/60"
+                          style={{ left: `${q}%` }}
+                        />
+                      ))}
+                    </div>
+
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Bottom quartile</span>
+                      <span>
+                        {ordinal(Math.round(comparison.percentile))} percentile of {comparison.peerCount} peers
+                      </span>
+                      <span>Top quartile</span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {comparison.peerCount === 0
+                      ? 'Not enough peer data to rank'
+                      : 'Not reported for this period'}
+                  </p>
+                )}
               </div>
             );
           })}
@@ -85,8 +113,9 @@ export function PeerBenchmark({ comparisons, sicCode }: PeerBenchmarkProps) {
         {/* Legend */}
         <div className="mt-6 pt-4 border-t border-border/50">
           <p className="text-xs text-muted-foreground">
-            Percentile rankings are estimated based on industry benchmarks. 
-            Higher percentiles indicate better performance relative to peers.
+            Percentile ranks compare the company with every filer in its SIC code that reported the ratio's inputs
+            in SEC XBRL frames. Higher percentiles are better, so lower-is-better ratios like debt-to-equity are
+            inverted. Medians are shown alongside the company's value.
           </p>
         </div>
       </CardContent>
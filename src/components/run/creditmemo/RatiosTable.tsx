@@ -1,8 +1,10 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Badge } from '@/components/ui/badge';
 import { Info, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { Line, LineChart, YAxis } from 'recharts';
 import { CreditRatio } from '@/hooks/useCreditAnalysis';
 import { cn } from '@/lib/utils';
 
@@ -16,17 +18,53 @@ const statusConfig = {
   critical: { label: 'Critical', variant: 'destructive' as const, icon: TrendingDown, className: 'bg-destructive/20 text-destructive border-destructive/30' },
 };
 
-function formatValue(value: number | null, isPercentage: boolean = false): string {
+function formatValue(value: number | null, format: CreditRatio['format']): string {
   if (value === null) return 'N/A';
-  if (isPercentage) return `${(value * 100).toFixed(1)}%`;
+  if (format === 'percent') return `${(value * 100).toFixed(1)}%`;
+  if (format === 'multiple') return `${value.toFixed(1)}x`;
+  if (format === 'days') return `${value.toFixed(0)} days`;
   return value.toFixed(2);
 }
 
-function isPercentageRatio(name: string): boolean {
-  return name.includes('Margin') || name.includes('Return');
+// Whether the ratio ended the run stronger than it started; null with fewer than two values
+function trendDirection(ratio: CreditRatio): 'improving' | 'deteriorating' | 'flat' | null {
+  const values = ratio.trend.map(p => p.value).filter((v): v is number => v !== null);
+  if (values.length < 2) return null;
+  const first = values[0];
+  const last = values[values.length - 1];
+  if (first === last) return 'flat';
+  return (last > first) === ratio.higherIsBetter ? 'improving' : 'deteriorating';
+}
+
+const trendColor = {
+  improving: 'hsl(var(--success))',
+  deteriorating: 'hsl(var(--destructive))',
+  flat: 'hsl(var(--muted-foreground))',
+};
+
+function Sparkline({ ratio }: { ratio: CreditRatio }) {
+  const direction = trendDirection(ratio);
+  if (!direction) return <span className="text-xs text-muted-foreground">—</span>;
+
+  return (
+    <LineChart width={80} height={24} data={ratio.trend} className="ml-auto">
+      <YAxis hide domain={['dataMin', 'dataMax']} />
+      <Line
+        type="monotone"
+        dataKey="value"
+        stroke={trendColor[direction]}
+        strokeWidth={1.5}
+        dot={false}
+        connectNulls
+        isAnimationActive={false}
+      />
+    </LineChart>
+  );
 }
 
 export function RatiosTable({ ratios }: RatiosTableProps) {
+  const years = ratios[0]?.trend.map(p => p.year) ?? [];
+
   return (
     <Card className="glass-card">
       <CardHeader>
@@ -34,61 +72,111 @@ export function RatiosTable({ ratios }: RatiosTableProps) {
         <CardDescription>Key financial ratios compared to industry benchmarks</CardDescription>
       </CardHeader>
       <CardContent>
-        <TooltipProvider>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Ratio</TableHead>
-                <TableHead className="text-right">Value</TableHead>
-                <TableHead className="text-right">Benchmark</TableHead>
-                <TableHead className="text-center">Status</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {ratios.map((ratio) => {
-                const config = statusConfig[ratio.status];
-                const Icon = config.icon;
-                const isPercent = isPercentageRatio(ratio.name);
+        <Tabs defaultValue="latest">
+          <TabsList>
+            <TabsTrigger value="latest">Latest</TabsTrigger>
+            <TabsTrigger value="trend" disabled={years.length < 2}>By Year</TabsTrigger>
+          </TabsList>
+          <TabsContent value="latest">
+            <TooltipProvider>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ratio</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Benchmark</TableHead>
+                    <TableHead className="text-right">Trend</TableHead>
+                    <TableHead className="text-center">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ratios.map((ratio) => {
+                    const config = statusConfig[ratio.status];
+                    const Icon = config.icon;
 
-                return (
-                  <TableRow key={ratio.name}>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
+                    return (
+                      <TableRow key={ratio.name}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{ratio.name}</span>
+                            <Tooltip>
+                              <TooltipTrigger>
+                                <Info className="h-3.5 w-3.5 text-muted-foreground" />
+                              </TooltipTrigger>
+                              <TooltipContent side="right" className="max-w-xs">
+                                <p className="font-medium">{ratio.description}</p>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  Formula: {ratio.formula}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatValue(ratio.value, ratio.format)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-muted-foreground">
+                          {formatValue(ratio.benchmark, ratio.format)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Sparkline ratio={ratio} />
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <Badge 
+                            variant={config.variant}
+                            className={cn('gap-1', config.className)}
+                          >
+                            <Icon className="h-3 w-3" />
+                            {config.label}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TooltipProvider>
+          </TabsContent>
+          <TabsContent value="trend">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ratio</TableHead>
+                  {years.map(year => (
+                    <TableHead key={year} className="text-right">FY{year}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ratios.map((ratio) => {
+                  const direction = trendDirection(ratio);
+                  return (
+                    <TableRow key={ratio.name}>
+                      <TableCell>
                         <span className="font-medium">{ratio.name}</span>
-                        <Tooltip>
-                          <TooltipTrigger>
-                            <Info className="h-3.5 w-3.5 text-muted-foreground" />
-                          </TooltipTrigger>
-                          <TooltipContent side="right" className="max-w-xs">
-                            <p className="font-medium">{ratio.description}</p>
-                            <p className="text-xs text-muted-foreground mt-1">
-                              Formula: {ratio.formula}
-                            </p>
-                          </TooltipContent>
-                        </Tooltip>
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-right font-mono">
-                      {formatValue(ratio.value, isPercent)}
-                    </TableCell>
-                    <TableCell className="text-right font-mono text-muted-foreground">
-                      {formatValue(ratio.benchmark, isPercent)}
-                    </TableCell>
-                    <TableCell className="text-center">
-                      <Badge 
-                        variant={config.variant}
-                        className={cn('gap-1', config.className)}
-                      >
-                        <Icon className="h-3 w-3" />
-                        {config.label}
-                      </Badge>
-                    </TableCell>
-                  </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
-        </TooltipProvider>
+                        {direction && direction !== 'flat' && (
+                          <span
+                            className={cn(
+                              'ml-2 text-xs',
+                              direction === 'improving' ? 'text-success' : 'text-destructive'
+                            )}
+                          >
+                            {direction}
+                          </span>
+                        )}
+                      </TableCell>
+                      {years.map(year => (
+                        <TableCell key={year} className="text-right font-mono">
+                          {formatValue(ratio.trend.find(p => p.year === year)?.value ?? null, ratio.format)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw } from 'lucide-react';
+import { NormalizedFinancials } from '@/types/financials';
+import { IndustryBenchmarks } from '@/types/benchmarks';
+import { StressScenario, StressShocks } from '@/types/scenarios';
+import { Covenant } from '@/types/covenants';
+import { ScorecardVersion } from '@/types/scorecard';
+import { analyzeCredit, CreditRatio } from '@/hooks/useCreditAnalysis';
+import { applyScenario, DEFAULT_SCENARIOS } from '@/lib/scenarios';
+import { FxRate } from '@/lib/fx';
+import { cn } from '@/lib/utils';
+
+interface StressScenariosProps {
+  data: NormalizedFinancials;
+  peers: IndustryBenchmarks | null;
+  // Covenant breaches under a scenario count towards its risk flags
+  covenants?: Covenant[];
+  // Scenarios are scored with the same scorecard as the base case
+  scorecard?: ScorecardVersion | null;
+  fxRates?: FxRate[];
+  scenarios: StressScenario[];
+  onChange?: (scenarios: StressScenario[]) => void;
+  readOnly?: boolean;
+}
+
+// Shocks are stored as fractions and edited in the units analysts quote them in
+const SHOCK_FIELDS: Array<{ key: keyof StressShocks; label: string; unit: string; scale: number }> = [
+  { key: 'revenueChange', label: 'Revenue change', unit: '%', scale: 100 },
+  { key: 'grossMarginChange', label: 'Gross margin change', unit: 'pp', scale: 100 },
+  { key: 'rateIncrease', label: 'Rate increase on debt', unit: 'bp', scale: 10000 },
+  { key: 'workingCapitalDrain', label: 'Working capital drain', unit: '% of revenue', scale: 100 },
+];
+
+const statusColor: Record<CreditRatio['status'], string> = {
+  good: 'text-success',
+  warning: 'text-warning',
+  critical: 'text-destructive',
+};
+
+function formatRatio(ratio: CreditRatio | undefined): string {
+  if (!ratio || ratio.value === null) return 'N/A';
+  if (ratio.format === 'percent') return `${(ratio.value * 100).toFixed(1)}%`;
+  if (ratio.format === 'multiple') return `${ratio.value.toFixed(1)}x`;
+  if (ratio.format === 'days') return `${ratio.value.toFixed(0)} days`;
+  return ratio.value.toFixed(2);
+}
+
+export function StressScenarios({ data, peers, covenants, scorecard = null, fxRates, scenarios, onChange, readOnly = false }: StressScenariosProps) {
+  const results = useMemo(
+    () => scenarios.map(scenario => ({
+      scenario,
+      analysis: analyzeCredit(scenario.id === 'base' ? data : applyScenario(data, scenario.shocks), peers, covenants, scorecard, fxRates),
+    })),
+    [data, peers, covenants, scorecard, fxRates, scenarios]
+  );
+  const base = results.find(r => r.scenario.id === 'base')?.analysis;
+  const ratioNames = base?.ratios.map(r => r.name) ?? [];
+  const editable = !readOnly && !!onChange;
+  // What's typed in each shock input, keyed by scenario and shock, so it can be cleared or
+  // hold a lone "-" while being edited. Only values that parse are committed.
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const updateShock = (id: StressScenario['id'], key: keyof StressShocks, input: string, scale: number) => {
+    setDrafts(prev => ({ ...prev, [`${id}:${key}`]: input }));
+    const value = Number(input);
+    if (!onChange || input.trim() === '' || !Number.isFinite(value)) return;
+    onChange(scenarios.map(s => (s.id === id ? { ...s, shocks: { ...s.shocks, [key]: value / scale } } : s)));
+  };
+
+  // Leaving an input drops its draft, showing the last committed value again
+  const clearDraft = (id: StressScenario['id'], key: keyof StressShocks) => {
+    setDrafts(({ [`${id}:${key}`]: _, ...rest }) => rest);
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Stress Scenarios</CardTitle>
+          <CardDescription>
+            Shocks applied to {base?.period ?? 'the latest period'}, with ratios, risk flags and the credit score
+            recomputed. Operating expenses are held fixed and any cash shortfall is drawn as short-term debt.
+          </CardDescription>
+        </div>
+        {editable && (
+          <Button variant="ghost" size="sm" onClick={() => { setDrafts({}); onChange(DEFAULT_SCENARIOS); }}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Shock</TableHead>
+              {scenarios.map(s => (
+                <TableHead key={s.id} className="text-right">{s.name}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {SHOCK_FIELDS.map(field => (
+              <TableRow key={field.key}>
+                <TableCell>
+                  {field.label}
+                  <span className="ml-1 text-xs text-muted-foreground">({field.unit})</span>
+                </TableCell>
+                {scenarios.map(s => {
+                  const value = Number((s.shocks[field.key] * field.scale).toFixed(2));
+                  return (
+                    <TableCell key={s.id} className="text-right">
+                      {s.id === 'base' || !editable ? (
+                        <span className="font-mono">{value}</span>
+                      ) : (
+                        <Input
+                          type="number"
+                          step={field.unit === 'bp' ? 25 : 1}
+                          value={drafts[`${s.id}:${field.key}`] ?? value}
+                          onChange={(e) => updateShock(s.id, field.key, e.target.value, field.scale)}
+                          onBlur={() => clearDraft(s.id, field.key)}
+                          className="ml-auto h-8 w-24 bg-background text-right font-mono"
+                        />
+                      )}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Result</TableHead>
+              {results.map(({ scenario }) => (
+                <TableHead key={scenario.id} className="text-right">{scenario.name}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow className="font-medium">
+              <TableCell>Credit Score</TableCell>
+              {results.map(({ scenario, analysis }) => (
+                <TableCell key={scenario.id} className="text-right">
+                  {analysis ? (
+                    <>
+                      <span className="font-mono">{Math.round(analysis.overallScore)}</span>
+                      <span className="ml-2 text-xs capitalize text-muted-foreground">{analysis.scoreCategory}</span>
+                    </>
+                  ) : 'N/A'}
+                </TableCell>
+              ))}
+            </TableRow>
+            {ratioNames.map(name => (
+              <TableRow key={name}>
+                <TableCell className="text-muted-foreground">{name}</TableCell>
+                {results.map(({ scenario, analysis }) => {
+                  const ratio = analysis?.ratios.find(r => r.name === name);
+                  return (
+                    <TableCell key={scenario.id} className={cn('text-right font-mono', ratio && statusColor[ratio.status])}>
+                      {formatRatio(ratio)}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell className="text-muted-foreground">Risk Flags</TableCell>
+              {results.map(({ scenario, analysis }) => (
+                <TableCell key={scenario.id} className="text-right font-mono">
+                  {analysis?.riskFlags.length ?? 'N/A'}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {results
+          .filter(({ scenario }) => scenario.id !== 'base')
+          .map(({ scenario, analysis }) => {
+            const added = analysis?.riskFlags.filter(flag => !base?.riskFlags.some(b => b.id === flag.id)) ?? [];
+            if (added.length === 0) return null;
+            return (
+              <div key={scenario.id} className="space-y-2">
+                <p className="text-sm font-medium">New risk flags under {scenario.name.toLowerCase()}</p>
+                <div className="flex flex-wrap gap-2">
+                  {added.map(flag => (
+                    <Badge
+                      key={flag.id}
+                      variant="outline"
+                      className={cn(
+                        flag.severity === 'critical' || flag.severity === 'high'
+                          ? 'border-destructive/30 text-destructive'
+                          : 'border-warning/30 text-warning'
+                      )}
+                    >
+                      {flag.title}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+      </CardContent>
+    </Card>
+  );
+}
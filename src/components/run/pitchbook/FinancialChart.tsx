@@ -16,25 +16,27 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { FiscalYearData } from '@/types/financials';
 
-interface FinancialChartProps {
+// Fiscal years, or per-year rows with figures derived from them
+interface FinancialChartProps<T extends { year: number }> {
   title: string;
   description?: string;
-  data: FiscalYearData[];
+  data: T[];
   metrics: {
-    key: keyof FiscalYearData;
+    key: keyof T;
     label: string;
     color: string;
   }[];
   chartType?: 'area' | 'bar' | 'line';
   stacked?: boolean;
   formatValue?: (value: number) => string;
+  currencySymbol?: string;
 }
 
-const defaultFormat = (value: number) => {
-  if (Math.abs(value) >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
-  if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
-  if (Math.abs(value) >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
-  return `$${value.toFixed(0)}`;
+const defaultFormat = (value: number, symbol: string) => {
+  if (Math.abs(value) >= 1e9) return `${symbol}${(value / 1e9).toFixed(1)}B`;
+  if (Math.abs(value) >= 1e6) return `${symbol}${(value / 1e6).toFixed(1)}M`;
+  if (Math.abs(value) >= 1e3) return `${symbol}${(value / 1e3).toFixed(1)}K`;
+  return `${symbol}${value.toFixed(0)}`;
 };
 
 const CustomTooltip = ({ active, payload, label, formatValue }: any) => {
@@ -59,15 +61,18 @@ const CustomTooltip = ({ active, payload, label, formatValue }: any) => {
   );
 };
 
-export function FinancialChart({
+export function FinancialChart<T extends { year: number } = FiscalYearData>({
   title,
   description,
   data,
   metrics,
   chartType = 'area',
   stacked = false,
-  formatValue = defaultFormat,
-}: FinancialChartProps) {
+  formatValue: customFormat,
+  currencySymbol = '$',
+}: FinancialChartProps<T>) {
+  const formatValue = customFormat ?? ((value: number) => defaultFormat(value, currencySymbol));
+
   const chartData = useMemo(() => {
     return data.map(fy => ({
       year: fy.year,
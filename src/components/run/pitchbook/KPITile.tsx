@@ -1,28 +1,34 @@
 import { ReactNode } from 'react';
 import { cn } from '@/lib/utils';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { NormalizedFinancials, ValueProvenance } from '@/types/financials';
+import { ValueSourcePopover } from '../ValueSourcePopover';
 
 interface KPITileProps {
   title: string;
   value: string | number;
   previousValue?: string | number;
   format?: 'currency' | 'percent' | 'number' | 'ratio';
+  currencySymbol?: string;
   icon?: ReactNode;
   trend?: 'up' | 'down' | 'neutral';
   trendValue?: string;
   className?: string;
+  // Makes the value clickable to show the filings it was computed from
+  sourceData?: NormalizedFinancials | null;
+  provenance?: Array<ValueProvenance | undefined>;
 }
 
-const formatValue = (value: string | number, format: KPITileProps['format']) => {
+const formatValue = (value: string | number, format: KPITileProps['format'], symbol: string) => {
   if (typeof value === 'string') return value;
   if (value === null || value === undefined) return 'N/A';
   
   switch (format) {
     case 'currency':
-      if (Math.abs(value) >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
-      if (Math.abs(value) >= 1e6) return `$${(value / 1e6).toFixed(1)}M`;
-      if (Math.abs(value) >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
-      return `$${value.toFixed(0)}`;
+      if (Math.abs(value) >= 1e9) return `${symbol}${(value / 1e9).toFixed(1)}B`;
+      if (Math.abs(value) >= 1e6) return `${symbol}${(value / 1e6).toFixed(1)}M`;
+      if (Math.abs(value) >= 1e3) return `${symbol}${(value / 1e3).toFixed(1)}K`;
+      return `${symbol}${value.toFixed(0)}`;
     case 'percent':
       return `${(value * 100).toFixed(1)}%`;
     case 'ratio':
@@ -34,7 +40,7 @@ const formatValue = (value: string | number, format: KPITileProps['format']) =>
   }
 };
 
-export function KPITile({ title, value, format = 'number', icon, trend, trendValue, className }: KPITileProps) {
+export function KPITile({ title, value, format = 'number', currencySymbol = '$', icon, trend, trendValue, className, sourceData, provenance }: KPITileProps) {
   const TrendIcon = trend === 'up' ? TrendingUp : trend === 'down' ? TrendingDown : Minus;
   const trendColor = trend === 'up' ? 'text-success' : trend === 'down' ? 'text-destructive' : 'text-muted-foreground';
 
@@ -46,7 +52,13 @@ export function KPITile({ title, value, format = 'number', icon, trend, trendVal
       <div className="flex items-start justify-between">
         <div className="space-y-1">
           <p className="text-sm font-medium text-muted-foreground">{title}</p>
-          <p className="text-2xl font-bold tracking-tight">{formatValue(value, format)}</p>
+          <p className="text-2xl font-bold tracking-tight">
+            {sourceData && provenance && typeof value === 'number' ? (
+              <ValueSourcePopover data={sourceData} provenance={provenance}>
+                {formatValue(value, format, currencySymbol)}
+              </ValueSourcePopover>
+            ) : formatValue(value, format, currencySymbol)}
+          </p>
         </div>
         {icon && (
           <div className="rounded-lg bg-primary/10 p-2 text-primary">
@@ -0,0 +1,170 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { LineChart, RefreshCw, Upload, Landmark, Layers } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { KPITile } from './KPITile';
+import { PriceChart } from './PriceChart';
+import { NormalizedFinancials } from '@/types/financials';
+import { MarketDataResponse } from '@/types/market';
+import { computeValuation } from '@/lib/market';
+import { getCurrencySymbol, getReportingCurrency, LatestPeriod } from '@/lib/financials';
+
+interface MarketDataSectionProps {
+  data: NormalizedFinancials;
+  market: MarketDataResponse | null | undefined;
+  latestPeriod: LatestPeriod | null;
+  isFetching: boolean;
+  onFetch: (forceRefresh?: boolean) => void;
+  // Imported prices are quoted in the given currency
+  onImport: (csv: string, currency: string) => void;
+  readOnly?: boolean;
+}
+
+const formatMultiple = (value: number | null) => (value === null ? 'N/A' : `${value.toFixed(1)}x`);
+
+export function MarketDataSection({
+  data,
+  market,
+  latestPeriod,
+  isFetching,
+  onFetch,
+  onImport,
+  readOnly = false,
+}: MarketDataSectionProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  // Non-US listings usually quote in the currency the company reports in
+  const [importCurrency, setImportCurrency] = useState(market?.data.currency ?? getReportingCurrency(data));
+
+  const valuation = useMemo(
+    () => (market ? computeValuation(market.data, data, latestPeriod) : null),
+    [market, data, latestPeriod]
+  );
+  const symbol = getCurrencySymbol(market?.data.currency ?? 'USD');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    onImport(await file.text(), importCurrency);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const actions = !readOnly && (
+    <div className="flex gap-2">
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      <Input
+        aria-label="Currency of imported prices"
+        title="Currency of imported prices"
+        maxLength={3}
+        value={importCurrency}
+        onChange={(e) => setImportCurrency(e.target.value.toUpperCase())}
+        className="h-9 w-16 bg-background font-mono"
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fileInput.current?.click()}
+        disabled={isFetching || !/^[A-Z]{3}$/.test(importCurrency)}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Import CSV
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => onFetch(!!market)} disabled={isFetching}>
+        <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        {market ? 'Refresh Prices' : 'Fetch Prices'}
+      </Button>
+    </div>
+  );
+
+  if (!market || !valuation) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="flex flex-col items-center justify-center gap-3 py-10 text-center">
+          <LineChart className="h-10 w-10 text-muted-foreground" />
+          <div>
+            <p className="font-medium">No market data</p>
+            <p className="text-sm text-muted-foreground">
+              Fetch daily prices from Stooq, or import a CSV with Date and Close columns in the currency shown
+            </p>
+          </div>
+          {actions}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { data: marketData } = market;
+  const shares = data.sharesOutstanding;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {marketData.source === 'csv' ? 'Imported price history' : 'Daily prices from Stooq'}, fetched{' '}
+          {formatDistanceToNow(new Date(market.fetchedAt), { addSuffix: true })}
+          {shares && ` • ${shares.value.toLocaleString()} shares outstanding as of ${shares.asOf}`}
+        </p>
+        {actions}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6">
+        <KPITile
+          title="Share Price"
+          value={`${symbol}${valuation.price.toFixed(2)}`}
+          trendValue={`As of ${valuation.asOf}`}
+          trend="neutral"
+        />
+        <KPITile
+          title="Market Cap"
+          value={valuation.marketCap ?? 'N/A'}
+          format="currency"
+          currencySymbol={symbol}
+          icon={<Landmark className="h-5 w-5" />}
+        />
+        <KPITile
+          title="Enterprise Value"
+          value={valuation.enterpriseValue ?? 'N/A'}
+          format="currency"
+          currencySymbol={symbol}
+          icon={<Layers className="h-5 w-5" />}
+        />
+        <KPITile title="EV/EBITDA" value={formatMultiple(valuation.evToEbitda)} />
+        <KPITile title="P/E" value={formatMultiple(valuation.pe)} />
+        <KPITile
+          title="52-Week Range"
+          value={`${symbol}${valuation.low52.toFixed(2)} – ${symbol}${valuation.high52.toFixed(2)}`}
+        />
+      </div>
+
+      {!shares && (
+        <p className="text-xs text-muted-foreground">
+          No share count was found in the SEC filings, so market cap and multiples are unavailable.
+        </p>
+      )}
+      {valuation.currencyMismatch && (
+        <p className="text-xs text-warning">
+          Financials are shown in {getReportingCurrency(data)} but prices are quoted in {marketData.currency};
+          present the run in {marketData.currency} to compute enterprise value and multiples.
+        </p>
+      )}
+      {latestPeriod && (
+        <p className="text-xs text-muted-foreground">
+          Enterprise value uses {latestPeriod.label} long-term debt less cash; multiples use {latestPeriod.label} EBITDA and net income.
+        </p>
+      )}
+
+      <PriceChart
+        title="Share Price"
+        description={`Daily close, ${marketData.prices[0].date} to ${valuation.asOf}`}
+        prices={marketData.prices}
+        currencySymbol={symbol}
+      />
+    </div>
+  );
+}
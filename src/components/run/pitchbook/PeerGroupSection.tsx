@@ -0,0 +1,222 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, RefreshCw, Trash2, Users } from 'lucide-react';
+import { NormalizedFinancials } from '@/types/financials';
+import { useFxRates } from '@/hooks/useFxRates';
+import { useAddPeer, usePeerFinancials, usePeerGroup, useRefreshPeers, useRemovePeer } from '@/hooks/usePeerGroup';
+import { getCurrencySymbol, getReportingCurrency } from '@/lib/financials';
+import { buildPeerComparison, PeerMetric, toPeerMembers } from '@/lib/peers';
+import { cn } from '@/lib/utils';
+
+interface PeerGroupSectionProps {
+  runId: string;
+  // The subject, in the run's presentation currency
+  data: NormalizedFinancials;
+  subjectTicker: string;
+  subjectName: string;
+  fiscalYearStart: number;
+  fiscalYearEnd: number;
+  readOnly?: boolean;
+}
+
+const TICKER_PATTERN = /^[A-Z]{1,5}([.-][A-Z0-9]{1,4})?$/;
+
+function formatMetric(value: number | null | undefined, metric: PeerMetric, symbol: string): string {
+  if (value === null || value === undefined) return '—';
+  if (metric.format === 'percent') return `${(value * 100).toFixed(1)}%`;
+  if (metric.format === 'ratio') return value.toFixed(2);
+  if (metric.format === 'multiple') return `${value.toFixed(1)}x`;
+  if (metric.format === 'days') return `${value.toFixed(0)} days`;
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${sign}${symbol}${(abs / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${sign}${symbol}${(abs / 1e6).toFixed(1)}M`;
+  return `${sign}${symbol}${abs.toLocaleString()}`;
+}
+
+export function PeerGroupSection({
+  runId,
+  data,
+  subjectTicker,
+  subjectName,
+  fiscalYearStart,
+  fiscalYearEnd,
+  readOnly = false,
+}: PeerGroupSectionProps) {
+  const [ticker, setTicker] = useState('');
+  const { data: peers } = usePeerGroup(runId);
+  const { data: peerData } = usePeerFinancials(runId);
+  const { data: fxRates } = useFxRates();
+  const addPeer = useAddPeer();
+  const removePeer = useRemovePeer();
+  const refreshPeers = useRefreshPeers();
+
+  const currency = getReportingCurrency(data);
+  const symbol = getCurrencySymbol(currency);
+
+  const comparison = useMemo(() => {
+    if (!peers?.length) return null;
+    return buildPeerComparison(
+      { ticker: subjectTicker, name: subjectName, data },
+      toPeerMembers(peers, peerData ?? {}, fxRates ?? [], currency)
+    );
+  }, [peers, peerData, fxRates, currency, subjectTicker, subjectName, data]);
+
+  const normalizedTicker = ticker.trim().toUpperCase();
+  const canAdd = TICKER_PATTERN.test(normalizedTicker) && normalizedTicker !== subjectTicker;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    addPeer.mutate(
+      { runId, ticker: normalizedTicker, fiscalYearStart, fiscalYearEnd },
+      { onSuccess: () => setTicker('') }
+    );
+  };
+
+  const actions = !readOnly && (
+    <div className="flex gap-2">
+      <Input
+        placeholder="Peer ticker, e.g. MSFT"
+        value={ticker}
+        onChange={(e) => setTicker(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        className="h-9 w-44 bg-background font-mono"
+      />
+      <Button variant="outline" size="sm" onClick={handleAdd} disabled={!canAdd || addPeer.isPending}>
+        {addPeer.isPending ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+        Add Peer
+      </Button>
+      {!!peers?.length && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refreshPeers.mutate({ runId, fiscalYearStart, fiscalYearEnd, tickers: peers.map(p => p.ticker) })}
+          disabled={refreshPeers.isPending}
+        >
+          <RefreshCw className={`mr-2 h-4 w-4 ${refreshPeers.isPending ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      )}
+    </div>
+  );
+
+  if (!comparison || !peers?.length) {
+    return (
+      <Card className="glass-card">
+        <CardContent className="flex flex-col items-center justify-center gap-3 py-10 text-center">
+          <Users className="h-10 w-10 text-muted-foreground" />
+          <div>
+            <p className="font-medium">No peer group</p>
+            <p className="text-sm text-muted-foreground">
+              Add the tickers of the comparable companies to rank {subjectName} against them
+            </p>
+          </div>
+          {actions}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {peers.length} peer{peers.length === 1 ? '' : 's'} from SEC filings, latest period each, in {currency}
+        </p>
+        {actions}
+      </div>
+
+      <Card className="glass-card">
+        <CardContent className="overflow-x-auto p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[180px]">Company</TableHead>
+                {comparison.metrics.map(metric => (
+                  <TableHead key={metric.key} className="text-right whitespace-nowrap">{metric.label}</TableHead>
+                ))}
+                {!readOnly && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.rows.map(row => {
+                const peer = peers.find(p => p.ticker === row.ticker);
+                return (
+                  <TableRow key={row.ticker} className={cn(row.isSubject && 'bg-primary/5 font-medium')}>
+                    <TableCell>
+                      <span className="font-mono">{row.ticker}</span>
+                      <span className="ml-2 text-muted-foreground">{row.name}</span>
+                      <span className="block text-xs text-muted-foreground">{row.period ?? 'No data fetched'}</span>
+                    </TableCell>
+                    {comparison.metrics.map(metric => (
+                      <TableCell key={metric.key} className="text-right font-mono text-sm">
+                        {formatMetric(row.values[metric.key], metric, symbol)}
+                      </TableCell>
+                    ))}
+                    {!readOnly && (
+                      <TableCell>
+                        {peer && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removePeer.mutate({ id: peer.id, runId })}
+                            disabled={removePeer.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+              <TableRow className="border-t-2">
+                <TableCell className="text-muted-foreground">Peer median</TableCell>
+                {comparison.metrics.map(metric => (
+                  <TableCell key={metric.key} className="text-right font-mono text-sm text-muted-foreground">
+                    {formatMetric(comparison.medians[metric.key], metric, symbol)}
+                  </TableCell>
+                ))}
+                {!readOnly && <TableCell />}
+              </TableRow>
+              <TableRow>
+                <TableCell className="text-muted-foreground">{subjectTicker} rank</TableCell>
+                {comparison.metrics.map(metric => {
+                  const rank = comparison.subjectRanks[metric.key];
+                  return (
+                    <TableCell
+                      key={metric.key}
+                      className={cn(
+                        'text-right font-mono text-sm',
+                        rank && rank.rank === 1 && rank.of > 1 && 'text-success',
+                        rank && rank.rank === rank.of && rank.of > 1 && 'text-destructive'
+                      )}
+                    >
+                      {rank ? `${rank.rank} of ${rank.of}` : '—'}
+                    </TableCell>
+                  );
+                })}
+                {!readOnly && <TableCell />}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground">
+        Ranks count 1 as strongest: highest for margins, returns, liquidity, coverage, growth and size,
+        lowest for debt-to-equity and debt / EBITDA. Revenue growth compares the last two fiscal years.
+      </p>
+    </div>
+  );
+}
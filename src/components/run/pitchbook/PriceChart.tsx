@@ -0,0 +1,94 @@
+import { format } from 'date-fns';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PricePoint } from '@/types/market';
+
+interface PriceChartProps {
+  title: string;
+  description?: string;
+  prices: PricePoint[];
+  currencySymbol?: string;
+}
+
+const PRICE_COLOR = 'hsl(var(--primary))';
+
+interface PriceTooltipProps {
+  active?: boolean;
+  payload?: Array<{ value: number }>;
+  label?: string;
+  currencySymbol: string;
+}
+
+const CustomTooltip = ({ active, payload, label, currencySymbol }: PriceTooltipProps) => {
+  if (!active || !payload?.length || !label) return null;
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-card p-3 shadow-xl">
+      <p className="mb-1 font-medium text-foreground">{format(new Date(label), 'MMM d, yyyy')}</p>
+      <p className="text-sm text-muted-foreground">
+        Close: <span className="font-medium text-foreground">{currencySymbol}{payload[0].value.toFixed(2)}</span>
+      </p>
+    </div>
+  );
+};
+
+export function PriceChart({ title, description, prices, currencySymbol = '$' }: PriceChartProps) {
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        <div className="h-[280px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={prices} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+              <defs>
+                <linearGradient id="gradient-price" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor={PRICE_COLOR} stopOpacity={0.3} />
+                  <stop offset="95%" stopColor={PRICE_COLOR} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} vertical={false} />
+              <XAxis
+                dataKey="date"
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={40}
+                tickFormatter={(value: string) => format(new Date(value), 'MMM yy')}
+              />
+              <YAxis
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                width={60}
+                domain={['auto', 'auto']}
+                tickFormatter={(value: number) => `${currencySymbol}${value.toFixed(0)}`}
+              />
+              <Tooltip content={<CustomTooltip currencySymbol={currencySymbol} />} />
+              <Area
+                type="monotone"
+                dataKey="close"
+                stroke={PRICE_COLOR}
+                strokeWidth={2}
+                fill="url(#gradient-price)"
+                dot={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { AdjustableField, AdjustmentKind, RunAdjustment } from '@/types/adjustments';
+
+export function useAdjustments(runId: string | undefined) {
+  return useQuery({
+    queryKey: ['run-adjustments', runId],
+    queryFn: async (): Promise<RunAdjustment[]> => {
+      if (!runId) return [];
+
+      const { data, error } = await supabase
+        .from('run_adjustments')
+        .select('*')
+        .eq('run_id', runId)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []) as RunAdjustment[];
+    },
+    enabled: !!runId,
+  });
+}
+
+interface AddAdjustmentParams {
+  runId: string;
+  period: string;
+  field: AdjustableField;
+  kind: AdjustmentKind;
+  amount: number;
+  reason: string;
+  note?: string;
+}
+
+export function useAddAdjustment() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ runId, note, ...adjustment }: AddAdjustmentParams) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('run_adjustments')
+        .insert({
+          run_id: runId,
+          ...adjustment,
+          note: note || null,
+          created_by: user.id,
+        });
+
+      // The ledger allows one override per cell
+      if (error?.code === '23505') throw new Error('This value already has an override; remove it first');
+      if (error) throw error;
+    },
+    onSuccess: (_, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: ['run-adjustments', runId] });
+      toast.success('Adjustment recorded');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to record adjustment');
+    },
+  });
+}
+
+export function useDeleteAdjustment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; runId: string }) => {
+      const { error } = await supabase.from('run_adjustments').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: ['run-adjustments', runId] });
+      toast.success('Adjustment removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove adjustment');
+    },
+  });
+}
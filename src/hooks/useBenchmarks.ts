@@ -0,0 +1,74 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { BenchmarkMetric, IndustryBenchmarks, MetricDistribution } from '@/types/benchmarks';
+
+function toBenchmarks(row: Tables<'industry_benchmarks'>): IndustryBenchmarks {
+  return {
+    sicCode: row.sic_code,
+    year: row.fiscal_year,
+    peerCount: row.peer_count,
+    metrics: row.metrics as unknown as Partial<Record<BenchmarkMetric, MetricDistribution>>,
+    builtAt: row.built_at,
+  };
+}
+
+async function buildBenchmarks(sicCode: string, year: number): Promise<IndustryBenchmarks> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/build-benchmarks`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ sicCode, year }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to build industry benchmarks');
+  }
+
+  const { data } = await response.json();
+  return toBenchmarks(data);
+}
+
+// Peer distributions for a SIC code and year. Benchmarks are shared across runs, so the
+// table is read directly and only missing or expired ones are (re)built from SEC frames.
+export function useIndustryBenchmarks(sicCode: string | null | undefined, year: number | null | undefined) {
+  const paddedSic = sicCode?.padStart(4, '0');
+
+  return useQuery({
+    queryKey: ['industry-benchmarks', paddedSic, year],
+    queryFn: async (): Promise<IndustryBenchmarks | null> => {
+      if (!paddedSic || !year) return null;
+
+      const { data: cached, error } = await supabase
+        .from('industry_benchmarks')
+        .select('*')
+        .eq('sic_code', paddedSic)
+        .eq('fiscal_year', year)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (cached?.expires_at && new Date(cached.expires_at) > new Date()) {
+        return toBenchmarks(cached);
+      }
+
+      return buildBenchmarks(paddedSic, year);
+    },
+    enabled: !!paddedSic && !!year,
+    // A build fetches a dozen SEC frames; don't hammer it on failure or refocus
+    retry: false,
+    staleTime: 60 * 60 * 1000,
+  });
+}
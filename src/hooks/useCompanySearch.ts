@@ -0,0 +1,91 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+
+export type DirectoryEntry = Tables<'sec_company_directory'>;
+
+async function invokeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || `Request to ${name} failed`);
+  }
+
+  return response.json();
+}
+
+export function useCompanySearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['company-search', trimmed],
+    queryFn: async (): Promise<DirectoryEntry[]> => {
+      const { results } = await invokeFunction<{ results: DirectoryEntry[] }>(
+        'search-companies',
+        { query: trimmed }
+      );
+      return results;
+    },
+    enabled: trimmed.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Resolves a directory entry by CIK, including its SIC code
+export async function resolveCompany(cik: string): Promise<DirectoryEntry | null> {
+  const { results } = await invokeFunction<{ results: DirectoryEntry[] }>('search-companies', { cik });
+  return results[0] ?? null;
+}
+
+// Companies already set up in the app that match the ticker or CIK being entered
+export function useExistingCompany(ticker: string, cik: string) {
+  return useQuery({
+    queryKey: ['existing-company', ticker, cik],
+    queryFn: async () => {
+      const [byTicker, byCik] = await Promise.all([
+        ticker
+          ? supabase.from('companies').select('id, ticker, name, cik').eq('ticker', ticker).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        cik
+          ? supabase.from('companies').select('id, ticker, name, cik').eq('cik', cik).limit(1).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+      ]);
+
+      if (byTicker.error) throw byTicker.error;
+      if (byCik.error) throw byCik.error;
+      return byTicker.data ?? byCik.data;
+    },
+    enabled: !!ticker || !!cik,
+  });
+}
+
+export function useRefreshCompanyDirectory() {
+  return useMutation({
+    mutationFn: () =>
+      invokeFunction<{ updated: number; removed: number }>('refresh-company-directory', {}),
+    onSuccess: ({ updated, removed }) => {
+      toast.success(`Company directory refreshed: ${updated} tickers, ${removed} removed`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to refresh company directory');
+    },
+  });
+}
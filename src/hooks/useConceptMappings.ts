@@ -0,0 +1,227 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Tables } from '@/integrations/supabase/types';
+
+export type ConceptMapping = Tables<'xbrl_concept_mappings'>;
+export type ConceptOverride = Tables<'company_concept_overrides'>;
+
+// Normalized fields an XBRL concept can be mapped onto. `depreciation` and
+// `amortization` are components used to assemble D&A when no combined tag exists.
+// Long-term debt excludes current maturities and short-term debt includes them;
+// the debt components take concepts filed at the other scope. Lease liabilities are
+// totals, assembled from their current and noncurrent components when untagged.
+export const MAPPABLE_FIELDS: { value: string; label: string }[] = [
+  { value: 'revenue', label: 'Revenue' },
+  { value: 'grossProfit', label: 'Gross Profit' },
+  { value: 'operatingIncome', label: 'Operating Income' },
+  { value: 'netIncome', label: 'Net Income' },
+  { value: 'depreciationAndAmortization', label: 'D&A' },
+  { value: 'depreciation', label: 'Depreciation (component)' },
+  { value: 'amortization', label: 'Amortization (component)' },
+  { value: 'operatingCashFlow', label: 'Operating Cash Flow' },
+  { value: 'totalAssets', label: 'Total Assets' },
+  { value: 'currentAssets', label: 'Current Assets' },
+  { value: 'cashAndEquivalents', label: 'Cash & Equivalents' },
+  { value: 'totalLiabilities', label: 'Total Liabilities' },
+  { value: 'currentLiabilities', label: 'Current Liabilities' },
+  { value: 'longTermDebt', label: 'Long-Term Debt' },
+  { value: 'longTermDebtTotal', label: 'Long-Term Debt incl. Current Portion (component)' },
+  { value: 'stockholdersEquity', label: "Stockholders' Equity" },
+  { value: 'costOfRevenue', label: 'Cost of Revenue' },
+  { value: 'sellingGeneralAndAdministrative', label: 'SG&A' },
+  { value: 'operatingExpenses', label: 'Operating Expenses' },
+  { value: 'interestExpense', label: 'Interest Expense' },
+  { value: 'pretaxIncome', label: 'Pre-Tax Income' },
+  { value: 'incomeTaxExpense', label: 'Income Tax Expense' },
+  { value: 'accountsReceivable', label: 'Accounts Receivable' },
+  { value: 'inventory', label: 'Inventory' },
+  { value: 'propertyPlantAndEquipment', label: 'PP&E, Net' },
+  { value: 'accountsPayable', label: 'Accounts Payable' },
+  { value: 'shortTermDebt', label: 'Short-Term Debt' },
+  { value: 'shortTermBorrowings', label: 'Short-Term Borrowings excl. Current Portion (component)' },
+  { value: 'currentPortionOfLongTermDebt', label: 'Current Portion of LTD' },
+  { value: 'operatingLeaseLiabilities', label: 'Operating Lease Liabilities' },
+  { value: 'operatingLeaseLiabilitiesCurrent', label: 'Operating Lease Liabilities, Current (component)' },
+  { value: 'operatingLeaseLiabilitiesNoncurrent', label: 'Operating Lease Liabilities, Noncurrent (component)' },
+  { value: 'financeLeaseLiabilities', label: 'Finance Lease Liabilities' },
+  { value: 'financeLeaseLiabilitiesCurrent', label: 'Finance Lease Liabilities, Current (component)' },
+  { value: 'financeLeaseLiabilitiesNoncurrent', label: 'Finance Lease Liabilities, Noncurrent (component)' },
+  { value: 'retainedEarnings', label: 'Retained Earnings' },
+  { value: 'commonSharesOutstanding', label: 'Shares Outstanding' },
+  { value: 'capitalExpenditures', label: 'Capital Expenditures' },
+  { value: 'investingCashFlow', label: 'Investing Cash Flow' },
+  { value: 'financingCashFlow', label: 'Financing Cash Flow' },
+  { value: 'dividendsPaid', label: 'Dividends Paid' },
+  { value: 'shareRepurchases', label: 'Share Repurchases' },
+  { value: 'interestPaid', label: 'Interest Paid' },
+  { value: 'operatingLeasePayments', label: 'Operating Lease Payments' },
+  { value: 'financeLeasePayments', label: 'Finance Lease Principal Payments' },
+  { value: 'debtMaturityYear1', label: 'Debt Maturities, Year 1' },
+  { value: 'debtMaturityYear2', label: 'Debt Maturities, Year 2' },
+  { value: 'debtMaturityYear3', label: 'Debt Maturities, Year 3' },
+  { value: 'debtMaturityYear4', label: 'Debt Maturities, Year 4' },
+  { value: 'debtMaturityYear5', label: 'Debt Maturities, Year 5' },
+  { value: 'debtMaturityAfterYear5', label: 'Debt Maturities, After Year 5' },
+  { value: 'operatingLeaseMaturityYear1', label: 'Operating Lease Payments Due, Year 1' },
+  { value: 'operatingLeaseMaturityYear2', label: 'Operating Lease Payments Due, Year 2' },
+  { value: 'operatingLeaseMaturityYear3', label: 'Operating Lease Payments Due, Year 3' },
+  { value: 'operatingLeaseMaturityYear4', label: 'Operating Lease Payments Due, Year 4' },
+  { value: 'operatingLeaseMaturityYear5', label: 'Operating Lease Payments Due, Year 5' },
+  { value: 'operatingLeaseMaturityAfterYear5', label: 'Operating Lease Payments Due, After Year 5' },
+  { value: 'financeLeaseMaturityYear1', label: 'Finance Lease Payments Due, Year 1' },
+  { value: 'financeLeaseMaturityYear2', label: 'Finance Lease Payments Due, Year 2' },
+  { value: 'financeLeaseMaturityYear3', label: 'Finance Lease Payments Due, Year 3' },
+  { value: 'financeLeaseMaturityYear4', label: 'Finance Lease Payments Due, Year 4' },
+  { value: 'financeLeaseMaturityYear5', label: 'Finance Lease Payments Due, Year 5' },
+  { value: 'financeLeaseMaturityAfterYear5', label: 'Finance Lease Payments Due, After Year 5' },
+];
+
+export function getFieldLabel(field: string): string {
+  // EBITDA is always derived, so it has no concept mapping of its own
+  if (field === 'ebitda') return 'EBITDA';
+  return MAPPABLE_FIELDS.find(f => f.value === field)?.label ?? field;
+}
+
+export function useConceptMappings() {
+  return useQuery({
+    queryKey: ['concept-mappings'],
+    queryFn: async (): Promise<ConceptMapping[]> => {
+      const { data, error } = await supabase
+        .from('xbrl_concept_mappings')
+        .select('*')
+        .order('field')
+        .order('priority');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+interface SaveConceptMappingParams {
+  id?: string;
+  taxonomy: string;
+  concept: string;
+  field: string;
+  priority: number;
+  is_active: boolean;
+}
+
+export function useSaveConceptMapping() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...mapping }: SaveConceptMappingParams) => {
+      const { error } = id
+        ? await supabase.from('xbrl_concept_mappings').update(mapping).eq('id', id)
+        : await supabase.from('xbrl_concept_mappings').insert(mapping);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['concept-mappings'] });
+      toast.success('Concept mapping saved');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save concept mapping');
+    },
+  });
+}
+
+export function useDeleteConceptMapping() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('xbrl_concept_mappings').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['concept-mappings'] });
+      toast.success('Concept mapping removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove concept mapping');
+    },
+  });
+}
+
+export function useConceptOverrides(companyId: string | undefined) {
+  return useQuery({
+    queryKey: ['concept-overrides', companyId],
+    queryFn: async (): Promise<ConceptOverride[]> => {
+      if (!companyId) return [];
+
+      const { data, error } = await supabase
+        .from('company_concept_overrides')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('field');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!companyId,
+  });
+}
+
+interface AddConceptOverrideParams {
+  companyId: string;
+  taxonomy: string;
+  concept: string;
+  field: string;
+  notes?: string;
+}
+
+export function useAddConceptOverride() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ companyId, taxonomy, concept, field, notes }: AddConceptOverrideParams) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('company_concept_overrides')
+        .upsert({
+          company_id: companyId,
+          taxonomy,
+          concept,
+          field,
+          notes: notes || null,
+          created_by: user.id,
+        }, {
+          onConflict: 'company_id,taxonomy,concept',
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { companyId }) => {
+      queryClient.invalidateQueries({ queryKey: ['concept-overrides', companyId] });
+      toast.success('Concept override saved. Refetch data to apply it.');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save concept override');
+    },
+  });
+}
+
+export function useDeleteConceptOverride() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; companyId: string }) => {
+      const { error } = await supabase.from('company_concept_overrides').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { companyId }) => {
+      queryClient.invalidateQueries({ queryKey: ['concept-overrides', companyId] });
+      toast.success('Concept override removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove concept override');
+    },
+  });
+}
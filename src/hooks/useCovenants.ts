@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Json } from '@/integrations/supabase/types';
+import { Covenant, CovenantFrequency, CovenantMetric, CovenantOperator, CovenantStepDown } from '@/types/covenants';
+
+export function useCovenants(runId: string | undefined) {
+  return useQuery({
+    queryKey: ['run-covenants', runId],
+    queryFn: async (): Promise<Covenant[]> => {
+      if (!runId) return [];
+
+      const { data, error } = await supabase
+        .from('run_covenants')
+        .select('*')
+        .eq('run_id', runId)
+        .order('created_at');
+
+      if (error) throw error;
+      return (data || []).map(row => ({
+        ...row,
+        step_downs: row.step_downs as unknown as CovenantStepDown[],
+      })) as Covenant[];
+    },
+    enabled: !!runId,
+  });
+}
+
+interface AddCovenantParams {
+  runId: string;
+  name: string;
+  metric: CovenantMetric;
+  operator: CovenantOperator;
+  threshold: number;
+  frequency: CovenantFrequency;
+  stepDowns: CovenantStepDown[];
+  currency: string | null;
+}
+
+export function useAddCovenant() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ runId, stepDowns, ...covenant }: AddCovenantParams) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('run_covenants')
+        .insert({
+          run_id: runId,
+          ...covenant,
+          step_downs: stepDowns as unknown as Json,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: ['run-covenants', runId] });
+      toast.success('Covenant added');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to add covenant');
+    },
+  });
+}
+
+export function useDeleteCovenant() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; runId: string }) => {
+      const { error } = await supabase.from('run_covenants').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: ['run-covenants', runId] });
+      toast.success('Covenant removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove covenant');
+    },
+  });
+}
@@ -1,13 +1,35 @@
 import { useMemo } from 'react';
-import { NormalizedFinancials } from '@/types/financials';
+import { FiscalYearData, NormalizedFinancials } from '@/types/financials';
+import { BenchmarkMetric, IndustryBenchmarks, MetricDistribution } from '@/types/benchmarks';
+import { Covenant } from '@/types/covenants';
+import { BucketThresholds, ScorecardVersion } from '@/types/scorecard';
+import { getCurrencySymbol, getLatestFiscalYear, getLatestPeriod, getReportingCurrency } from '@/lib/financials';
+import { computeCoverage } from '@/lib/coverage';
+import { computeCashFlow } from '@/lib/cashflow';
+import { computeLeverage } from '@/lib/leverage';
+import { buildMaturityLadder } from '@/lib/maturities';
+import { DEFAULT_SCORECARD_MODEL, getScorecardFactor } from '@/lib/scorecard';
+import { COVENANT_METRICS, formatCovenantValue, formatHeadroom, testCovenant } from '@/lib/covenants';
+import { FxRate } from '@/lib/fx';
+
+export interface RatioTrendPoint {
+  year: number;
+  value: number | null;
+}
 
 export interface CreditRatio {
   name: string;
   value: number | null;
   benchmark: number;
   status: 'good' | 'warning' | 'critical';
+  // False for leverage ratios, where a lower value is stronger
+  higherIsBetter: boolean;
+  // Multiples are shown as e.g. "4.2x", percent ratios as e.g. "12.5%", days as e.g. "45 days"
+  format: 'ratio' | 'multiple' | 'percent' | 'days';
   description: string;
   formula: string;
+  // The ratio in every fiscal year of the run, oldest first
+  trend: RatioTrendPoint[];
 }
 
 export interface RiskFlag {
@@ -22,20 +44,30 @@ export interface RiskFlag {
 export interface PeerComparison {
   metric: string;
   company: number | null;
-  peerAverage: number | null;
+  peerMedian: number | null;
+  p25: number | null;
+  p75: number | null;
+  // Peers that reported the inputs for this ratio; 0 without peer data
+  peerCount: number;
+  // Share of peers the company does better than, so 100 is best even where lower is better
   percentile: number | null;
   status: 'above' | 'at' | 'below';
 }
 
 export interface CreditAnalysis {
+  // Label of the period the ratios were computed on, e.g. "FY2023" or "LTM Q2 FY2024"
+  period: string;
   overallScore: number;
   scoreCategory: 'excellent' | 'good' | 'fair' | 'poor' | 'critical';
+  // Published scorecard version the score was computed with; null for the built-in default
+  scorecardVersion: number | null;
   ratios: CreditRatio[];
   riskFlags: RiskFlag[];
   peerComparisons: PeerComparison[];
 }
 
-// SIC code industry benchmarks (simplified)
+// Fallback SIC code benchmarks for when no SEC peer data is available (private
+// companies, sparse SIC codes)
 const INDUSTRY_BENCHMARKS: Record<string, { currentRatio: number; debtToEquity: number; grossMargin: number; netMargin: number }> = {
   '73': { currentRatio: 1.8, debtToEquity: 0.5, grossMargin: 0.45, netMargin: 0.12 }, // Business Services
   '35': { currentRatio: 2.0, debtToEquity: 0.6, grossMargin: 0.35, netMargin: 0.08 }, // Industrial Machinery
@@ -48,16 +80,91 @@ const INDUSTRY_BENCHMARKS: Record<string, { currentRatio: number; debtToEquity:
   default: { currentRatio: 1.5, debtToEquity: 1.0, grossMargin: 0.35, netMargin: 0.08 },
 };
 
-function getBenchmarks(sicCode: string | null) {
-  if (!sicCode) return INDUSTRY_BENCHMARKS.default;
-  const prefix = sicCode.substring(0, 2);
-  return INDUSTRY_BENCHMARKS[prefix] || INDUSTRY_BENCHMARKS.default;
+const DEFAULT_ROA_BENCHMARK = 0.05;
+
+// Typical investment-grade levels, for industries with too few peers to rank against
+const DEFAULT_EBIT_COVERAGE_BENCHMARK = 4.0;
+const EBITDA_COVERAGE_BENCHMARK = 6.0;
+const DSCR_BENCHMARK = 1.5;
+const DEBT_TO_EBITDA_BENCHMARK = 3.0;
+const NET_DEBT_TO_EBITDA_BENCHMARK = 2.5;
+const DEBT_TO_CAPITALIZATION_BENCHMARK = 0.45;
+const FFO_TO_DEBT_BENCHMARK = 0.3;
+const FCF_TO_DEBT_BENCHMARK = 0.15;
+const CAPEX_INTENSITY_BENCHMARK = 0.08;
+const CASH_CONVERSION_DAYS_BENCHMARK = 60;
+
+// Net Debt / EBITDA, in turns, and Debt / Capitalization at which leverage is flagged
+// high and critical, roughly the edges of the B and CCC rating bands
+const NET_LEVERAGE_LIMITS = { high: 4.0, critical: 6.0 };
+const DEBT_TO_CAPITALIZATION_LIMITS = { high: 0.6, critical: 0.8 };
+
+// Consecutive annual declines before a deteriorating ratio is flagged
+const TREND_DECLINE_YEARS = 3;
+// Year-over-year rise in Debt / EBITDA, in turns, before leverage is flagged
+const LEVERAGE_INCREASE_TURNS = 1.0;
+// Consecutive fiscal years of negative free cash flow before it is flagged
+const NEGATIVE_FCF_YEARS = 2;
+
+// Fewer peers than this and quartiles say more about individual filers than the industry
+const MIN_PEERS = 5;
+
+function getPeerDistribution(peers: IndustryBenchmarks | null, metric: BenchmarkMetric): MetricDistribution | null {
+  const distribution = peers?.metrics[metric];
+  return distribution && distribution.peerCount >= MIN_PEERS ? distribution : null;
 }
 
-function getLatestYearData(data: NormalizedFinancials) {
-  const sortedYears = [...data.fiscalYears].sort((a, b) => b.year - a.year);
-  if (sortedYears.length === 0) return null;
-  return { year: sortedYears[0].year, data: sortedYears[0] };
+// Peer medians where there are enough peers, the static table otherwise
+function getBenchmarks(sicCode: string | null, peers: IndustryBenchmarks | null) {
+  const fallback = sicCode
+    ? INDUSTRY_BENCHMARKS[sicCode.substring(0, 2)] || INDUSTRY_BENCHMARKS.default
+    : INDUSTRY_BENCHMARKS.default;
+  const median = (metric: BenchmarkMetric, otherwise: number) => getPeerDistribution(peers, metric)?.median ?? otherwise;
+
+  return {
+    currentRatio: median('currentRatio', fallback.currentRatio),
+    debtToEquity: median('debtToEquity', fallback.debtToEquity),
+    grossMargin: median('grossMargin', fallback.grossMargin),
+    netMargin: median('netMargin', fallback.netMargin),
+    roa: median('roa', DEFAULT_ROA_BENCHMARK),
+    ebitCoverage: median('interestCoverage', DEFAULT_EBIT_COVERAGE_BENCHMARK),
+  };
+}
+
+// Midrank of the value among the sorted peer values, in percent
+function percentileRank(sorted: number[], value: number): number {
+  const below = sorted.filter(v => v < value).length;
+  const equal = sorted.filter(v => v === value).length;
+  return ((below + equal / 2) / sorted.length) * 100;
+}
+
+function comparePeers(
+  metric: string,
+  company: number | null,
+  distribution: MetricDistribution | null,
+  higherIsBetter: boolean
+): PeerComparison {
+  if (!distribution) {
+    return { metric, company, peerMedian: null, p25: null, p75: null, peerCount: 0, percentile: null, status: 'at' };
+  }
+
+  const rank = company !== null ? percentileRank(distribution.values, company) : null;
+  const percentile = rank !== null ? Math.min(99, Math.max(1, higherIsBetter ? rank : 100 - rank)) : null;
+  let status: PeerComparison['status'] = 'at';
+  if (company !== null && company !== distribution.median) {
+    status = (company > distribution.median) === higherIsBetter ? 'above' : 'below';
+  }
+
+  return {
+    metric,
+    company,
+    peerMedian: distribution.median,
+    p25: distribution.p25,
+    p75: distribution.p75,
+    peerCount: distribution.peerCount,
+    percentile,
+    status,
+  };
 }
 
 function getPreviousYearData(data: NormalizedFinancials) {
@@ -66,7 +173,7 @@ function getPreviousYearData(data: NormalizedFinancials) {
   return { year: sortedYears[1].year, data: sortedYears[1] };
 }
 
-function calculateRatioStatus(value: number | null, benchmark: number, higherIsBetter: boolean, thresholds: { good: number; warning: number }): 'good' | 'warning' | 'critical' {
+function calculateRatioStatus(value: number | null, benchmark: number, higherIsBetter: boolean, thresholds: BucketThresholds): 'good' | 'warning' | 'critical' {
   if (value === null) return 'warning';
   
   if (higherIsBetter) {
@@ -80,244 +187,649 @@ function calculateRatioStatus(value: number | null, benchmark: number, higherIsB
   }
 }
 
-export function useCreditAnalysis(data: NormalizedFinancials | null): CreditAnalysis | null {
-  return useMemo(() => {
-    if (!data) return null;
-
-    const latest = getLatestYearData(data);
-    const previous = getPreviousYearData(data);
-    
-    if (!latest) return null;
-
-    const benchmarks = getBenchmarks(data.sicCode);
-    const ratios: CreditRatio[] = [];
-    const riskFlags: RiskFlag[] = [];
-
-    // Calculate Credit Ratios
-    const { revenue, netIncome, totalAssets, totalLiabilities, currentAssets, currentLiabilities, longTermDebt, cashAndEquivalents } = latest.data;
-    
-    // Shareholders' equity approximation
-    const equity = totalAssets && totalLiabilities ? totalAssets - totalLiabilities : null;
-    
-    // Current Ratio
-    const currentRatio = currentAssets && currentLiabilities ? currentAssets / currentLiabilities : null;
-    ratios.push({
-      name: 'Current Ratio',
-      value: currentRatio,
-      benchmark: benchmarks.currentRatio,
-      status: calculateRatioStatus(currentRatio, benchmarks.currentRatio, true, { good: 0.9, warning: 0.6 }),
-      description: 'Measures short-term liquidity',
-      formula: 'Current Assets / Current Liabilities',
+// Coverage ratios are undefined without debt, which is a strength rather than a gap
+function coverageStatus(value: number | null, isDebtFree: boolean, benchmark: number, thresholds: BucketThresholds): 'good' | 'warning' | 'critical' {
+  if (value === null && isDebtFree) return 'good';
+  return calculateRatioStatus(value, benchmark, true, thresholds);
+}
+
+// Every ratio's value for one period; the latest period's drive the analysis and each
+// fiscal year's make up the trend
+function computeRatioValues(values: FiscalYearData) {
+  const { revenue, grossProfit, netIncome, totalAssets, totalLiabilities, currentAssets, currentLiabilities, longTermDebt, cashAndEquivalents, accountsReceivable, ebitda } = values;
+
+  // Shareholders' equity approximation
+  const equity = totalAssets && totalLiabilities ? totalAssets - totalLiabilities : null;
+  const coverage = computeCoverage(values);
+  const cashFlow = computeCashFlow(values);
+  const leverage = computeLeverage(values);
+
+  return {
+    currentRatio: currentAssets && currentLiabilities ? currentAssets / currentLiabilities : null,
+    debtToEquity: longTermDebt && equity && equity > 0 ? longTermDebt / equity : null,
+    debtToEbitda: leverage.totalDebtToEbitda,
+    netDebtToEbitda: leverage.netDebtToEbitda,
+    debtToCapitalization: leverage.totalDebtToCapitalization,
+    netMargin: revenue && netIncome ? netIncome / revenue : null,
+    grossMargin: revenue && grossProfit !== null ? grossProfit / revenue : null,
+    roa: totalAssets && netIncome ? netIncome / totalAssets : null,
+    roe: equity && netIncome && equity > 0 ? netIncome / equity : null,
+    quickRatio: currentLiabilities && (cashAndEquivalents != null || accountsReceivable != null)
+      ? ((cashAndEquivalents ?? 0) + (accountsReceivable ?? 0)) / currentLiabilities
+      : null,
+    ebitdaToInterest: coverage.ebitdaToInterest,
+    ebitToInterest: coverage.ebitToInterest,
+    dscr: coverage.dscr,
+    ffoToDebt: coverage.ffoToDebt,
+    freeCashFlowToDebt: cashFlow.freeCashFlowToDebt,
+    capexIntensity: cashFlow.capexIntensity,
+    cashConversionCycle: cashFlow.cashConversionCycle,
+    coverage,
+    cashFlow,
+    leverage,
+  };
+}
+
+type TrendKey = Exclude<keyof ReturnType<typeof computeRatioValues>, 'coverage' | 'cashFlow' | 'leverage'>;
+
+// Year-over-year declines running up to the latest fiscal year, stopping at a gap
+function consecutiveDeclines(trend: RatioTrendPoint[]): number {
+  let declines = 0;
+  for (let i = trend.length - 1; i > 0; i--) {
+    const current = trend[i];
+    const prior = trend[i - 1];
+    if (current.year - prior.year !== 1 || current.value === null || prior.value === null) break;
+    if (current.value >= prior.value) break;
+    declines++;
+  }
+  return declines;
+}
+
+// Also used outside React to put comp-set peers through the same analysis
+export function analyzeCredit(
+  data: NormalizedFinancials | null,
+  peers: IndustryBenchmarks | null = null,
+  covenants: Covenant[] = [],
+  scorecard: ScorecardVersion | null = null,
+  // Converts covenant amount thresholds into the figures' currency
+  fxRates: FxRate[] = []
+): CreditAnalysis | null {
+  if (!data) return null;
+
+  const latest = getLatestPeriod(data);
+  const latestYear = getLatestFiscalYear(data);
+  const previous = getPreviousYearData(data);
+  
+  if (!latest) return null;
+
+  const benchmarks = getBenchmarks(data.sicCode, peers);
+  const symbol = getCurrencySymbol(getReportingCurrency(data));
+  const model = scorecard?.model ?? DEFAULT_SCORECARD_MODEL;
+  const thresholdsFor = (ratio: string) => getScorecardFactor(model, ratio).thresholds;
+  const ratios: CreditRatio[] = [];
+  const riskFlags: RiskFlag[] = [];
+
+  // Calculate Credit Ratios
+  const { revenue, totalAssets, totalLiabilities, cashAndEquivalents } = latest.data;
+  const {
+    currentRatio,
+    debtToEquity,
+    debtToEbitda,
+    netDebtToEbitda,
+    debtToCapitalization,
+    netMargin,
+    grossMargin,
+    roa,
+    roe,
+    quickRatio,
+    coverage,
+    cashFlow,
+    leverage,
+  } = computeRatioValues(latest.data);
+
+  // Every fiscal year in the run, oldest first, so the memo can show direction
+  const history = [...data.fiscalYears]
+    .sort((a, b) => a.year - b.year)
+    .map(fy => ({ year: fy.year, values: computeRatioValues(fy) }));
+  const trendOf = (key: TrendKey): RatioTrendPoint[] =>
+    history.map(({ year, values }) => ({ year, value: values[key] }));
+
+  // Current Ratio
+  ratios.push({
+    name: 'Current Ratio',
+    value: currentRatio,
+    benchmark: benchmarks.currentRatio,
+    status: calculateRatioStatus(currentRatio, benchmarks.currentRatio, true, thresholdsFor('Current Ratio')),
+    higherIsBetter: true,
+    format: 'ratio',
+    description: 'Measures short-term liquidity',
+    formula: 'Current Assets / Current Liabilities',
+    trend: trendOf('currentRatio'),
+  });
+
+  // Debt-to-Equity Ratio
+  ratios.push({
+    name: 'Debt-to-Equity',
+    value: debtToEquity,
+    benchmark: benchmarks.debtToEquity,
+    status: calculateRatioStatus(debtToEquity, benchmarks.debtToEquity, false, thresholdsFor('Debt-to-Equity')),
+    higherIsBetter: false,
+    format: 'ratio',
+    description: 'Measures financial leverage',
+    formula: 'Long-term Debt / Shareholders\' Equity',
+    trend: trendOf('debtToEquity'),
+  });
+
+  // Debt / EBITDA, in turns
+  ratios.push({
+    name: 'Debt / EBITDA',
+    value: debtToEbitda,
+    benchmark: DEBT_TO_EBITDA_BENCHMARK,
+    status: calculateRatioStatus(debtToEbitda, DEBT_TO_EBITDA_BENCHMARK, false, thresholdsFor('Debt / EBITDA')),
+    higherIsBetter: false,
+    format: 'multiple',
+    description: 'Measures years of cash earnings needed to repay debt, counting lease liabilities as debt',
+    formula: '(Short-Term + Long-Term Debt + Lease Liabilities) / EBITDA',
+    trend: trendOf('debtToEbitda'),
+  });
+
+  // Net Debt / EBITDA, in turns
+  ratios.push({
+    name: 'Net Debt / EBITDA',
+    value: netDebtToEbitda,
+    benchmark: NET_DEBT_TO_EBITDA_BENCHMARK,
+    status: calculateRatioStatus(netDebtToEbitda, NET_DEBT_TO_EBITDA_BENCHMARK, false, thresholdsFor('Net Debt / EBITDA')),
+    higherIsBetter: false,
+    format: 'multiple',
+    description: 'Measures leverage after cash on hand is applied to debt; negative when cash exceeds debt',
+    formula: '(Total Debt − Cash & Equivalents) / EBITDA',
+    trend: trendOf('netDebtToEbitda'),
+  });
+
+  // Debt / Capitalization
+  ratios.push({
+    name: 'Debt / Capitalization',
+    value: debtToCapitalization,
+    benchmark: DEBT_TO_CAPITALIZATION_BENCHMARK,
+    status: calculateRatioStatus(debtToCapitalization, DEBT_TO_CAPITALIZATION_BENCHMARK, false, thresholdsFor('Debt / Capitalization')),
+    higherIsBetter: false,
+    format: 'percent',
+    description: 'Measures the share of the capital base funded by debt and leases',
+    formula: 'Total Debt / (Total Debt + Shareholders\' Equity)',
+    trend: trendOf('debtToCapitalization'),
+  });
+
+  // Net Profit Margin
+  ratios.push({
+    name: 'Net Profit Margin',
+    value: netMargin,
+    benchmark: benchmarks.netMargin,
+    status: calculateRatioStatus(netMargin, benchmarks.netMargin, true, thresholdsFor('Net Profit Margin')),
+    higherIsBetter: true,
+    format: 'percent',
+    description: 'Measures profitability',
+    formula: 'Net Income / Revenue',
+    trend: trendOf('netMargin'),
+  });
+
+  // Return on Assets (ROA)
+  ratios.push({
+    name: 'Return on Assets',
+    value: roa,
+    benchmark: benchmarks.roa,
+    status: calculateRatioStatus(roa, benchmarks.roa, true, thresholdsFor('Return on Assets')),
+    higherIsBetter: true,
+    format: 'percent',
+    description: 'Measures asset efficiency',
+    formula: 'Net Income / Total Assets',
+    trend: trendOf('roa'),
+  });
+
+  // Return on Equity (ROE)
+  ratios.push({
+    name: 'Return on Equity',
+    value: roe,
+    benchmark: 0.15,
+    status: calculateRatioStatus(roe, 0.15, true, thresholdsFor('Return on Equity')),
+    higherIsBetter: true,
+    format: 'percent',
+    description: 'Measures return to shareholders',
+    formula: 'Net Income / Shareholders\' Equity',
+    trend: trendOf('roe'),
+  });
+
+  // Quick Ratio (Acid Test)
+  ratios.push({
+    name: 'Quick Ratio',
+    value: quickRatio,
+    benchmark: 1.0,
+    status: calculateRatioStatus(quickRatio, 1.0, true, thresholdsFor('Quick Ratio')),
+    higherIsBetter: true,
+    format: 'ratio',
+    description: 'Measures immediate liquidity',
+    formula: '(Cash + Receivables) / Current Liabilities',
+    trend: trendOf('quickRatio'),
+  });
+
+  // Interest and debt service coverage
+  ratios.push({
+    name: 'EBITDA / Interest',
+    value: coverage.ebitdaToInterest,
+    benchmark: EBITDA_COVERAGE_BENCHMARK,
+    status: coverageStatus(coverage.ebitdaToInterest, coverage.isDebtFree, EBITDA_COVERAGE_BENCHMARK, thresholdsFor('EBITDA / Interest')),
+    higherIsBetter: true,
+    format: 'multiple',
+    description: 'Measures cash earnings available to pay interest',
+    formula: 'EBITDA / Interest Expense (cash interest paid when no expense is reported)',
+    trend: trendOf('ebitdaToInterest'),
+  });
+
+  ratios.push({
+    name: 'EBIT / Interest',
+    value: coverage.ebitToInterest,
+    benchmark: benchmarks.ebitCoverage,
+    status: coverageStatus(coverage.ebitToInterest, coverage.isDebtFree, benchmarks.ebitCoverage, thresholdsFor('EBIT / Interest')),
+    higherIsBetter: true,
+    format: 'multiple',
+    description: 'Measures operating earnings available to pay interest',
+    formula: 'Operating Income / Interest Expense',
+    trend: trendOf('ebitToInterest'),
+  });
+
+  ratios.push({
+    name: 'Debt Service Coverage',
+    value: coverage.dscr,
+    benchmark: DSCR_BENCHMARK,
+    status: coverageStatus(coverage.dscr, coverage.isDebtFree, DSCR_BENCHMARK, thresholdsFor('Debt Service Coverage')),
+    higherIsBetter: true,
+    format: 'multiple',
+    description: 'Measures cash earnings against interest, principal and lease payments due in the year',
+    formula: '(EBITDA + Operating Lease Payments) / (Interest + Current Portion of LTD + Lease Payments)',
+    trend: trendOf('dscr'),
+  });
+
+  ratios.push({
+    name: 'FFO / Debt',
+    value: coverage.ffoToDebt,
+    benchmark: FFO_TO_DEBT_BENCHMARK,
+    status: coverageStatus(coverage.ffoToDebt, coverage.isDebtFree, FFO_TO_DEBT_BENCHMARK, thresholdsFor('FFO / Debt')),
+    higherIsBetter: true,
+    format: 'percent',
+    description: 'Measures how quickly operating cash could repay debt',
+    formula: '(EBITDA − Interest − Income Tax) / (Short-Term + Long-Term Debt + Lease Liabilities)',
+    trend: trendOf('ffoToDebt'),
+  });
+
+  // Free cash flow and working capital
+  ratios.push({
+    name: 'FCF / Debt',
+    value: cashFlow.freeCashFlowToDebt,
+    benchmark: FCF_TO_DEBT_BENCHMARK,
+    status: coverageStatus(cashFlow.freeCashFlowToDebt, coverage.isDebtFree, FCF_TO_DEBT_BENCHMARK, thresholdsFor('FCF / Debt')),
+    higherIsBetter: true,
+    format: 'percent',
+    description: 'Measures cash left after investment that could repay debt',
+    formula: '(Operating Cash Flow − Capital Expenditures) / (Short-Term + Long-Term Debt + Lease Liabilities)',
+    trend: trendOf('freeCashFlowToDebt'),
+  });
+
+  ratios.push({
+    name: 'Capex Intensity',
+    value: cashFlow.capexIntensity,
+    benchmark: CAPEX_INTENSITY_BENCHMARK,
+    status: calculateRatioStatus(cashFlow.capexIntensity, CAPEX_INTENSITY_BENCHMARK, false, thresholdsFor('Capex Intensity')),
+    higherIsBetter: false,
+    format: 'percent',
+    description: 'Measures how much of revenue is reinvested in fixed assets',
+    formula: 'Capital Expenditures / Revenue',
+    trend: trendOf('capexIntensity'),
+  });
+
+  const formatDays = (value: number | null) => (value === null ? 'n/a' : value.toFixed(0));
+  ratios.push({
+    name: 'Cash Conversion Cycle',
+    value: cashFlow.cashConversionCycle,
+    benchmark: CASH_CONVERSION_DAYS_BENCHMARK,
+    status: calculateRatioStatus(cashFlow.cashConversionCycle, CASH_CONVERSION_DAYS_BENCHMARK, false, thresholdsFor('Cash Conversion Cycle')),
+    higherIsBetter: false,
+    format: 'days',
+    description: `Days cash is tied up in working capital: DSO ${formatDays(cashFlow.dso)}, DIO ${formatDays(cashFlow.dio)}, DPO ${formatDays(cashFlow.dpo)}`,
+    formula: 'DSO + DIO − DPO, from period-end receivables, inventory and payables',
+    trend: trendOf('cashConversionCycle'),
+  });
+
+  // Generate Risk Flags
+  
+  // Liquidity risks
+  if (currentRatio !== null && currentRatio < 1.0) {
+    riskFlags.push({
+      id: 'low-current-ratio',
+      severity: currentRatio < 0.5 ? 'critical' : 'high',
+      category: 'Liquidity',
+      title: 'Low Current Ratio',
+      description: `Current ratio of ${currentRatio.toFixed(2)} indicates potential difficulty meeting short-term obligations.`,
+      impact: 'May struggle to pay suppliers and creditors on time.',
+    });
+  }
+
+  // Leverage risks, on lease-inclusive debt net of cash. Net debt against negative
+  // EBITDA can't be serviced from earnings at all.
+  const { ebitda } = latest.data;
+  if (netDebtToEbitda !== null && netDebtToEbitda > NET_LEVERAGE_LIMITS.high) {
+    riskFlags.push({
+      id: 'high-leverage',
+      severity: netDebtToEbitda > NET_LEVERAGE_LIMITS.critical ? 'critical' : 'high',
+      category: 'Leverage',
+      title: 'High Debt Levels',
+      description: `Net debt including leases is ${netDebtToEbitda.toFixed(1)}x EBITDA, above the ${NET_LEVERAGE_LIMITS.high.toFixed(1)}x threshold.`,
+      impact: 'Increased interest expense burden and reduced financial flexibility.',
+    });
+  } else if (ebitda !== null && ebitda <= 0 && leverage.netDebt !== null && leverage.netDebt > 0) {
+    riskFlags.push({
+      id: 'high-leverage',
+      severity: 'critical',
+      category: 'Leverage',
+      title: 'High Debt Levels',
+      description: `Net debt including leases of ${symbol}${(leverage.netDebt / 1e6).toFixed(1)}M against ${ebitda < 0 ? 'negative' : 'zero'} EBITDA.`,
+      impact: 'Earnings do not support the debt; servicing it depends on cash reserves, asset sales or new financing.',
     });
+  }
 
-    // Debt-to-Equity Ratio
-    const debtToEquity = longTermDebt && equity && equity > 0 ? longTermDebt / equity : null;
-    ratios.push({
-      name: 'Debt-to-Equity',
-      value: debtToEquity,
-      benchmark: benchmarks.debtToEquity,
-      status: calculateRatioStatus(debtToEquity, benchmarks.debtToEquity, false, { good: 1.0, warning: 1.5 }),
-      description: 'Measures financial leverage',
-      formula: 'Long-term Debt / Shareholders\' Equity',
+  if (debtToCapitalization !== null && debtToCapitalization > DEBT_TO_CAPITALIZATION_LIMITS.high) {
+    riskFlags.push({
+      id: 'high-debt-to-capitalization',
+      severity: debtToCapitalization > DEBT_TO_CAPITALIZATION_LIMITS.critical ? 'critical' : 'high',
+      category: 'Leverage',
+      title: 'Thin Equity Cushion',
+      description: `Debt and leases make up ${(debtToCapitalization * 100).toFixed(0)}% of capitalization, above the ${(DEBT_TO_CAPITALIZATION_LIMITS.high * 100).toFixed(0)}% threshold.`,
+      impact: 'Little equity stands between creditors and losses if asset values fall.',
     });
+  }
 
-    // Net Profit Margin
-    const netMargin = revenue && netIncome ? netIncome / revenue : null;
-    ratios.push({
-      name: 'Net Profit Margin',
-      value: netMargin,
-      benchmark: benchmarks.netMargin,
-      status: calculateRatioStatus(netMargin, benchmarks.netMargin, true, { good: 0.8, warning: 0.5 }),
-      description: 'Measures profitability',
-      formula: 'Net Income / Revenue',
+  // Coverage risks
+  if (coverage.ebitToInterest !== null && coverage.ebitToInterest < 1.5) {
+    riskFlags.push({
+      id: 'low-interest-coverage',
+      severity: coverage.ebitToInterest < 1.0 ? 'critical' : 'high',
+      category: 'Coverage',
+      title: 'Low Interest Coverage',
+      description: `Operating income covers interest expense ${coverage.ebitToInterest.toFixed(1)}x.`,
+      impact: coverage.ebitToInterest < 1.0
+        ? 'Operating earnings do not cover interest; payments depend on cash reserves or new financing.'
+        : 'A modest decline in earnings would leave interest uncovered.',
     });
+  }
 
-    // Return on Assets (ROA)
-    const roa = totalAssets && netIncome ? netIncome / totalAssets : null;
-    ratios.push({
-      name: 'Return on Assets',
-      value: roa,
-      benchmark: 0.05,
-      status: calculateRatioStatus(roa, 0.05, true, { good: 1.0, warning: 0.6 }),
-      description: 'Measures asset efficiency',
-      formula: 'Net Income / Total Assets',
+  if (coverage.dscr !== null && coverage.dscr < 1.25) {
+    riskFlags.push({
+      id: 'debt-service-shortfall',
+      severity: coverage.dscr < 1.0 ? 'critical' : 'medium',
+      category: 'Coverage',
+      title: coverage.dscr < 1.0 ? 'Debt Service Shortfall' : 'Thin Debt Service Cushion',
+      description: `Debt service coverage of ${coverage.dscr.toFixed(2)}x against interest, principal and lease payments due in the year.`,
+      impact: coverage.dscr < 1.0
+        ? 'Maturities will need to be refinanced or met from cash on hand.'
+        : 'Little headroom below typical 1.25x lender covenants.',
     });
+  }
 
-    // Return on Equity (ROE)
-    const roe = equity && netIncome && equity > 0 ? netIncome / equity : null;
-    ratios.push({
-      name: 'Return on Equity',
-      value: roe,
-      benchmark: 0.15,
-      status: calculateRatioStatus(roe, 0.15, true, { good: 0.9, warning: 0.5 }),
-      description: 'Measures return to shareholders',
-      formula: 'Net Income / Shareholders\' Equity',
+  if (coverage.ffoToDebt !== null && coverage.ffoToDebt < 0.12) {
+    riskFlags.push({
+      id: 'weak-ffo-to-debt',
+      severity: coverage.ffoToDebt < 0 ? 'critical' : 'high',
+      category: 'Leverage',
+      title: 'Weak Cash Flow Relative to Debt',
+      description: `Funds from operations are ${(coverage.ffoToDebt * 100).toFixed(1)}% of total debt.`,
+      impact: 'Debt would take many years to repay from operating cash flow.',
     });
+  }
 
-    // Quick Ratio (Acid Test)
-    const quickRatio = currentAssets && currentLiabilities && cashAndEquivalents
-      ? (cashAndEquivalents + (currentAssets - cashAndEquivalents) * 0.5) / currentLiabilities
-      : null;
-    ratios.push({
-      name: 'Quick Ratio',
-      value: quickRatio,
-      benchmark: 1.0,
-      status: calculateRatioStatus(quickRatio, 1.0, true, { good: 0.9, warning: 0.6 }),
-      description: 'Measures immediate liquidity',
-      formula: '(Cash + Receivables) / Current Liabilities',
+  // Refinancing risk from the disclosed maturity schedule, against the same year's cash
+  const ladder = buildMaturityLadder(data);
+  if (ladder && ladder.cash !== null && ladder.dueWithinTwoYears > ladder.cash) {
+    const liquidity = ladder.cash + Math.max(0, ladder.operatingCashFlow ?? 0);
+    const critical = ladder.dueWithinOneYear > liquidity;
+    const formatAmount = (amount: number) => `${symbol}${(amount / 1e6).toFixed(1)}M`;
+    riskFlags.push({
+      id: 'maturity-wall',
+      severity: critical ? 'critical' : 'high',
+      category: 'Refinancing',
+      title: 'Maturity Wall',
+      description: critical
+        ? `${formatAmount(ladder.dueWithinOneYear)} of debt falls due in FY${ladder.year + 1}, more than cash and a year of operating cash flow (${formatAmount(liquidity)}).`
+        : `${formatAmount(ladder.dueWithinTwoYears)} of debt falls due by FY${ladder.year + 2} against cash of ${formatAmount(ladder.cash)} at FY${ladder.year}.`,
+      impact: critical
+        ? 'Repayment depends on refinancing before the maturity date.'
+        : 'The company will need to refinance or build cash ahead of the maturities.',
     });
+  }
 
-    // Generate Risk Flags
-    
-    // Liquidity risks
-    if (currentRatio !== null && currentRatio < 1.0) {
-      riskFlags.push({
-        id: 'low-current-ratio',
-        severity: currentRatio < 0.5 ? 'critical' : 'high',
-        category: 'Liquidity',
-        title: 'Low Current Ratio',
-        description: `Current ratio of ${currentRatio.toFixed(2)} indicates potential difficulty meeting short-term obligations.`,
-        impact: 'May struggle to pay suppliers and creditors on time.',
-      });
-    }
+  // Free cash flow risk, across the run's fiscal years
+  const fcfHistory = [...data.fiscalYears]
+    .sort((a, b) => a.year - b.year)
+    .map(fy => ({ year: fy.year, value: computeCashFlow(fy).freeCashFlow }));
+  let negativeFcfYears = 0;
+  for (let i = fcfHistory.length - 1; i >= 0; i--) {
+    const point = fcfHistory[i];
+    if (point.value === null || point.value >= 0) break;
+    if (i < fcfHistory.length - 1 && fcfHistory[i + 1].year - point.year !== 1) break;
+    negativeFcfYears++;
+  }
+  if (negativeFcfYears >= NEGATIVE_FCF_YEARS) {
+    const burn = fcfHistory.slice(-negativeFcfYears).reduce((sum, p) => sum + (p.value ?? 0), 0);
+    riskFlags.push({
+      id: 'persistent-negative-fcf',
+      severity: negativeFcfYears > NEGATIVE_FCF_YEARS ? 'critical' : 'high',
+      category: 'Cash Flow',
+      title: 'Persistent Negative Free Cash Flow',
+      description: `Free cash flow has been negative for ${negativeFcfYears} consecutive fiscal years, a cumulative outflow of ${symbol}${(Math.abs(burn) / 1e6).toFixed(1)}M.`,
+      impact: 'Capex and operations are being funded from cash reserves or new borrowing.',
+    });
+  }
 
-    // Leverage risks
-    if (debtToEquity !== null && debtToEquity > benchmarks.debtToEquity * 1.5) {
+  // Profitability risks
+  if (netMargin !== null && netMargin < 0) {
+    riskFlags.push({
+      id: 'negative-margin',
+      severity: 'critical',
+      category: 'Profitability',
+      title: 'Negative Profit Margin',
+      description: `Net margin of ${(netMargin * 100).toFixed(1)}% indicates operating losses.`,
+      impact: 'Company is burning cash and may require additional financing.',
+    });
+  } else if (netMargin !== null && netMargin < benchmarks.netMargin * 0.5) {
+    riskFlags.push({
+      id: 'low-margin',
+      severity: 'medium',
+      category: 'Profitability',
+      title: 'Below-Average Profit Margin',
+      description: `Net margin of ${(netMargin * 100).toFixed(1)}% is significantly below industry benchmark.`,
+      impact: 'Limited ability to reinvest in growth or weather economic downturns.',
+    });
+  }
+
+  // Revenue trend risks (compared across fiscal years so the periods are like-for-like)
+  if (previous && latestYear?.revenue && previous.data.revenue) {
+    const revenueGrowth = (latestYear.revenue - previous.data.revenue) / previous.data.revenue;
+    if (revenueGrowth < -0.1) {
       riskFlags.push({
-        id: 'high-leverage',
-        severity: debtToEquity > benchmarks.debtToEquity * 2.5 ? 'critical' : 'high',
-        category: 'Leverage',
-        title: 'High Debt Levels',
-        description: `Debt-to-equity of ${debtToEquity.toFixed(2)} exceeds industry benchmark of ${benchmarks.debtToEquity.toFixed(2)}.`,
-        impact: 'Increased interest expense burden and reduced financial flexibility.',
+        id: 'revenue-decline',
+        severity: revenueGrowth < -0.2 ? 'critical' : 'high',
+        category: 'Growth',
+        title: 'Declining Revenue',
+        description: `Revenue declined ${(Math.abs(revenueGrowth) * 100).toFixed(1)}% year-over-year.`,
+        impact: 'May indicate loss of market share or weakening demand.',
       });
     }
+  }
 
-    // Profitability risks
-    if (netMargin !== null && netMargin < 0) {
-      riskFlags.push({
-        id: 'negative-margin',
-        severity: 'critical',
-        category: 'Profitability',
-        title: 'Negative Profit Margin',
-        description: `Net margin of ${(netMargin * 100).toFixed(1)}% indicates operating losses.`,
-        impact: 'Company is burning cash and may require additional financing.',
-      });
-    } else if (netMargin !== null && netMargin < benchmarks.netMargin * 0.5) {
+  // Ratio trend risks, across the run's fiscal years
+  const marginTrends: Array<[id: string, label: string, trend: RatioTrendPoint[]]> = [
+    ['gross', 'Gross margin', trendOf('grossMargin')],
+    ['net', 'Net margin', trendOf('netMargin')],
+  ];
+  for (const [id, label, trend] of marginTrends) {
+    const declines = consecutiveDeclines(trend);
+    if (declines < TREND_DECLINE_YEARS) continue;
+    const first = trend[trend.length - 1 - declines];
+    const last = trend[trend.length - 1];
+    riskFlags.push({
+      id: `${id}-margin-compression`,
+      severity: 'high',
+      category: 'Trend',
+      title: `Sustained ${label} Compression`,
+      description: `${label} has fallen ${declines} years in a row, from ${(first.value! * 100).toFixed(1)}% in FY${first.year} to ${(last.value! * 100).toFixed(1)}% in FY${last.year}.`,
+      impact: 'Suggests lasting pricing pressure or cost inflation rather than a one-off.',
+    });
+  }
+
+  const leverageTrend = trendOf('debtToEbitda');
+  if (leverageTrend.length >= 2) {
+    const last = leverageTrend[leverageTrend.length - 1];
+    const prior = leverageTrend[leverageTrend.length - 2];
+    if (last.value !== null && prior.value !== null && last.value - prior.value > LEVERAGE_INCREASE_TURNS) {
+      const increase = last.value - prior.value;
       riskFlags.push({
-        id: 'low-margin',
-        severity: 'medium',
-        category: 'Profitability',
-        title: 'Below-Average Profit Margin',
-        description: `Net margin of ${(netMargin * 100).toFixed(1)}% is significantly below industry benchmark.`,
-        impact: 'Limited ability to reinvest in growth or weather economic downturns.',
+        id: 'leverage-increase',
+        severity: increase > LEVERAGE_INCREASE_TURNS * 2 ? 'critical' : 'high',
+        category: 'Trend',
+        title: 'Rising Leverage',
+        description: `Debt / EBITDA rose ${increase.toFixed(1)} turns, from ${prior.value.toFixed(1)}x in FY${prior.year} to ${last.value.toFixed(1)}x in FY${last.year}.`,
+        impact: 'Debt is growing faster than earnings, eroding headroom under leverage covenants.',
       });
     }
+  }
 
-    // Revenue trend risks
-    if (previous && revenue && previous.data.revenue) {
-      const revenueGrowth = (revenue - previous.data.revenue) / previous.data.revenue;
-      if (revenueGrowth < -0.1) {
-        riskFlags.push({
-          id: 'revenue-decline',
-          severity: revenueGrowth < -0.2 ? 'critical' : 'high',
-          category: 'Growth',
-          title: 'Declining Revenue',
-          description: `Revenue declined ${(Math.abs(revenueGrowth) * 100).toFixed(1)}% year-over-year.`,
-          impact: 'May indicate loss of market share or weakening demand.',
-        });
-      }
-    }
+  const liquidityDeclines = consecutiveDeclines(trendOf('currentRatio'));
+  if (liquidityDeclines >= TREND_DECLINE_YEARS) {
+    riskFlags.push({
+      id: 'liquidity-deterioration',
+      severity: 'medium',
+      category: 'Trend',
+      title: 'Deteriorating Liquidity',
+      description: `Current ratio has fallen ${liquidityDeclines} years in a row.`,
+      impact: 'Working capital is being absorbed; short-term obligations are less well covered each year.',
+    });
+  }
 
-    // Cash position risk
-    if (cashAndEquivalents && totalAssets) {
-      const cashRatio = cashAndEquivalents / totalAssets;
-      if (cashRatio < 0.02) {
-        riskFlags.push({
-          id: 'low-cash',
-          severity: 'high',
-          category: 'Liquidity',
-          title: 'Low Cash Reserves',
-          description: `Cash represents only ${(cashRatio * 100).toFixed(1)}% of total assets.`,
-          impact: 'Limited buffer for unexpected expenses or opportunities.',
-        });
-      }
-    }
+  const coverageDeclines = consecutiveDeclines(trendOf('ebitToInterest'));
+  if (coverageDeclines >= TREND_DECLINE_YEARS) {
+    riskFlags.push({
+      id: 'coverage-deterioration',
+      severity: 'medium',
+      category: 'Trend',
+      title: 'Weakening Interest Coverage',
+      description: `EBIT / interest has fallen ${coverageDeclines} years in a row.`,
+      impact: 'Interest is taking a growing share of operating earnings.',
+    });
+  }
+
+  // Covenant compliance, judged on each covenant's most recent test
+  for (const covenant of covenants) {
+    const tests = testCovenant(covenant, data, fxRates);
+    const latestTest = tests[tests.length - 1];
+    if (!latestTest || (latestTest.status !== 'breach' && latestTest.status !== 'tight')) continue;
+
+    const requirement = `${covenant.operator === '<=' ? 'maximum' : 'minimum'} of ${formatCovenantValue(covenant.metric, latestTest.threshold, symbol)}`;
+    const priorBreaches = tests.slice(0, -1).filter(t => t.status === 'breach').map(t => t.label);
+    const breached = latestTest.status === 'breach';
+    riskFlags.push({
+      id: `covenant-${breached ? 'breach' : 'headroom'}-${covenant.id}`,
+      severity: breached ? 'critical' : 'medium',
+      category: 'Covenants',
+      title: breached ? `${covenant.name} Covenant Breach` : `Tight ${covenant.name} Headroom`,
+      description: `${COVENANT_METRICS[covenant.metric].label} of ${formatCovenantValue(covenant.metric, latestTest.value, symbol)} in ${latestTest.label} against a ${requirement} (${formatHeadroom(latestTest.headroom)} headroom).`
+        + (priorBreaches.length > 0 ? ` Also breached in ${priorBreaches.join(', ')}.` : ''),
+      impact: breached
+        ? 'Lenders could accelerate the facility; a waiver or amendment would be needed.'
+        : 'A modest deterioration would trip the covenant.',
+    });
+  }
 
-    // Data quality flag
-    if (!revenue || !totalAssets || !totalLiabilities) {
+  // Cash position risk
+  if (cashAndEquivalents && totalAssets) {
+    const cashRatio = cashAndEquivalents / totalAssets;
+    if (cashRatio < 0.02) {
       riskFlags.push({
-        id: 'incomplete-data',
-        severity: 'medium',
-        category: 'Data Quality',
-        title: 'Incomplete Financial Data',
-        description: 'Some key financial metrics are missing from SEC filings.',
-        impact: 'Limited ability to perform comprehensive credit analysis.',
+        id: 'low-cash',
+        severity: 'high',
+        category: 'Liquidity',
+        title: 'Low Cash Reserves',
+        description: `Cash represents only ${(cashRatio * 100).toFixed(1)}% of total assets.`,
+        impact: 'Limited buffer for unexpected expenses or opportunities.',
       });
     }
+  }
 
-    // Peer Comparisons
-    const peerComparisons: PeerComparison[] = [
-      {
-        metric: 'Current Ratio',
-        company: currentRatio,
-        peerAverage: benchmarks.currentRatio,
-        percentile: currentRatio ? Math.min(99, Math.max(1, (currentRatio / benchmarks.currentRatio) * 50)) : null,
-        status: currentRatio && currentRatio >= benchmarks.currentRatio ? 'above' : currentRatio ? 'below' : 'at',
-      },
-      {
-        metric: 'Debt-to-Equity',
-        company: debtToEquity,
-        peerAverage: benchmarks.debtToEquity,
-        percentile: debtToEquity !== null ? Math.min(99, Math.max(1, 100 - (debtToEquity / benchmarks.debtToEquity) * 50)) : null,
-        status: debtToEquity !== null && debtToEquity <= benchmarks.debtToEquity ? 'above' : debtToEquity !== null ? 'below' : 'at',
-      },
-      {
-        metric: 'Net Margin',
-        company: netMargin,
-        peerAverage: benchmarks.netMargin,
-        percentile: netMargin ? Math.min(99, Math.max(1, (netMargin / benchmarks.netMargin) * 50)) : null,
-        status: netMargin && netMargin >= benchmarks.netMargin ? 'above' : netMargin ? 'below' : 'at',
-      },
-      {
-        metric: 'Return on Assets',
-        company: roa,
-        peerAverage: 0.05,
-        percentile: roa ? Math.min(99, Math.max(1, (roa / 0.05) * 50)) : null,
-        status: roa && roa >= 0.05 ? 'above' : roa ? 'below' : 'at',
-      },
-    ];
-
-    // Calculate Overall Score
-    const ratioScores = ratios.map(r => {
-      if (r.status === 'good') return 100;
-      if (r.status === 'warning') return 60;
-      return 20;
+  // Data quality flag
+  if (!revenue || !totalAssets || !totalLiabilities) {
+    riskFlags.push({
+      id: 'incomplete-data',
+      severity: 'medium',
+      category: 'Data Quality',
+      title: 'Incomplete Financial Data',
+      description: 'Some key financial metrics are missing from SEC filings.',
+      impact: 'Limited ability to perform comprehensive credit analysis.',
     });
-    
-    const riskPenalties = riskFlags.reduce((acc, flag) => {
-      if (flag.severity === 'critical') return acc + 15;
-      if (flag.severity === 'high') return acc + 10;
-      if (flag.severity === 'medium') return acc + 5;
-      return acc + 2;
-    }, 0);
-
-    const averageRatioScore = ratioScores.reduce((a, b) => a + b, 0) / ratioScores.length;
-    const overallScore = Math.max(0, Math.min(100, averageRatioScore - riskPenalties));
-
-    let scoreCategory: CreditAnalysis['scoreCategory'];
-    if (overallScore >= 80) scoreCategory = 'excellent';
-    else if (overallScore >= 65) scoreCategory = 'good';
-    else if (overallScore >= 50) scoreCategory = 'fair';
-    else if (overallScore >= 35) scoreCategory = 'poor';
-    else scoreCategory = 'critical';
-
-    return {
-      overallScore,
-      scoreCategory,
-      ratios,
-      riskFlags,
-      peerComparisons,
-    };
-  }, [data]);
+  }
+
+  // Peer Comparisons, ranked against the SIC code's filers for the same year
+  const peerComparisons: PeerComparison[] = [
+    comparePeers('Current Ratio', currentRatio, getPeerDistribution(peers, 'currentRatio'), true),
+    comparePeers('Debt-to-Equity', debtToEquity, getPeerDistribution(peers, 'debtToEquity'), false),
+    comparePeers('Gross Margin', grossMargin, getPeerDistribution(peers, 'grossMargin'), true),
+    comparePeers('Net Margin', netMargin, getPeerDistribution(peers, 'netMargin'), true),
+    comparePeers('Return on Assets', roa, getPeerDistribution(peers, 'roa'), true),
+    comparePeers('EBIT / Interest', coverage.ebitToInterest, getPeerDistribution(peers, 'interestCoverage'), true),
+  ];
+
+  // Calculate Overall Score: the weighted average of each ratio's bucket points, less
+  // a penalty per risk flag
+  let weightedPoints = 0;
+  let totalWeight = 0;
+  for (const ratio of ratios) {
+    const { weight } = getScorecardFactor(model, ratio.name);
+    weightedPoints += weight * model.statusPoints[ratio.status];
+    totalWeight += weight;
+  }
+
+  const riskPenalties = riskFlags.reduce((acc, flag) => acc + model.flagPenalties[flag.severity], 0);
+
+  const averageRatioScore = totalWeight > 0 ? weightedPoints / totalWeight : 0;
+  const overallScore = Math.max(0, Math.min(100, averageRatioScore - riskPenalties));
+
+  const { categoryCutoffs } = model;
+  let scoreCategory: CreditAnalysis['scoreCategory'];
+  if (overallScore >= categoryCutoffs.excellent) scoreCategory = 'excellent';
+  else if (overallScore >= categoryCutoffs.good) scoreCategory = 'good';
+  else if (overallScore >= categoryCutoffs.fair) scoreCategory = 'fair';
+  else if (overallScore >= categoryCutoffs.poor) scoreCategory = 'poor';
+  else scoreCategory = 'critical';
+
+  return {
+    period: latest.label,
+    overallScore,
+    scoreCategory,
+    scorecardVersion: scorecard?.version_number ?? null,
+    ratios,
+    riskFlags,
+    peerComparisons,
+  };
+}
+
+// Stable defaults so the memo isn't recomputed every render
+const NO_COVENANTS: Covenant[] = [];
+const NO_FX_RATES: FxRate[] = [];
+
+export function useCreditAnalysis(
+  data: NormalizedFinancials | null,
+  peers: IndustryBenchmarks | null = null,
+  covenants: Covenant[] = NO_COVENANTS,
+  scorecard: ScorecardVersion | null = null,
+  fxRates: FxRate[] = NO_FX_RATES
+): CreditAnalysis | null {
+  return useMemo(
+    () => analyzeCredit(data, peers, covenants, scorecard, fxRates),
+    [data, peers, covenants, scorecard, fxRates]
+  );
 }
@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { FxRate } from '@/lib/fx';
+
+export function useFxRates() {
+  return useQuery({
+    queryKey: ['fx-rates'],
+    queryFn: async (): Promise<FxRate[]> => {
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .select('*')
+        .order('currency')
+        .order('year', { ascending: false })
+        .order('period');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+}
+
+interface SaveFxRateParams {
+  currency: string;
+  year: number;
+  period: string;
+  average_rate: number;
+  closing_rate: number;
+  source?: string;
+}
+
+export function useSaveFxRate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ source, ...rate }: SaveFxRateParams) => {
+      const { error } = await supabase
+        .from('fx_rates')
+        .upsert({ ...rate, source: source || null }, {
+          onConflict: 'currency,year,period',
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fx-rates'] });
+      toast.success('FX rate saved');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save FX rate');
+    },
+  });
+}
+
+export function useDeleteFxRate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('fx_rates').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fx-rates'] });
+      toast.success('FX rate removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove FX rate');
+    },
+  });
+}
+
+export function useSetPresentationCurrency() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ runId, currency }: { runId: string; currency: string | null }) => {
+      const { error } = await supabase
+        .from('runs')
+        .update({ presentation_currency: currency })
+        .eq('id', runId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: ['run', runId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to change presentation currency');
+    },
+  });
+}
@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { MarketData, MarketDataResponse } from '@/types/market';
+import { toast } from 'sonner';
+
+interface FetchMarketDataParams {
+  runId: string;
+  // Imported price history, used in place of a live fetch
+  csv?: string;
+  // Quote currency of the imported prices; defaults to USD
+  currency?: string;
+  forceRefresh?: boolean;
+}
+
+export function useMarketData(runId: string | undefined) {
+  return useQuery({
+    queryKey: ['market-data', runId],
+    queryFn: async (): Promise<MarketDataResponse | null> => {
+      if (!runId) return null;
+
+      const { data: cached, error } = await supabase
+        .from('run_data_cache')
+        .select('*')
+        .eq('run_id', runId)
+        .eq('data_type', 'prices')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (cached) {
+        return {
+          data: cached.raw_data as unknown as MarketData,
+          source: 'cache',
+          fetchedAt: cached.fetched_at,
+        };
+      }
+
+      return null;
+    },
+    enabled: !!runId,
+  });
+}
+
+export function useFetchMarketData() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: FetchMarketDataParams): Promise<MarketDataResponse> => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/fetch-market-data`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify(params),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to fetch market data');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['market-data', variables.runId] });
+      toast.success(
+        variables.csv
+          ? `Imported ${data.data.prices.length} daily prices`
+          : data.source === 'cache' ? 'Loaded cached market data' : 'Successfully fetched market data'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to fetch market data');
+    },
+  });
+}
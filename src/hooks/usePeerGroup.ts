@@ -0,0 +1,164 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { NormalizedFinancials, SECDataResponse } from '@/types/financials';
+import { toast } from 'sonner';
+
+export type RunPeer = Tables<'run_peers'>;
+
+// run_data_cache key fetch-sec-data stores a peer's financials under
+const PEER_DATA_PREFIX = 'peer_financials:';
+
+export function usePeerGroup(runId: string | undefined) {
+  return useQuery({
+    queryKey: ['run-peers', runId],
+    queryFn: async (): Promise<RunPeer[]> => {
+      if (!runId) return [];
+
+      const { data, error } = await supabase
+        .from('run_peers')
+        .select('*')
+        .eq('run_id', runId)
+        .order('created_at');
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!runId,
+  });
+}
+
+// Cached peer financials by ticker, including any left behind by removed peers
+export function usePeerFinancials(runId: string | undefined) {
+  return useQuery({
+    queryKey: ['peer-data', runId],
+    queryFn: async (): Promise<Record<string, NormalizedFinancials>> => {
+      if (!runId) return {};
+
+      const { data, error } = await supabase
+        .from('run_data_cache')
+        .select('data_type, raw_data')
+        .eq('run_id', runId)
+        .like('data_type', `${PEER_DATA_PREFIX}%`);
+
+      if (error) throw error;
+      return Object.fromEntries(
+        (data || []).map(row => [
+          row.data_type.slice(PEER_DATA_PREFIX.length),
+          row.raw_data as unknown as NormalizedFinancials,
+        ])
+      );
+    },
+    enabled: !!runId,
+  });
+}
+
+interface FetchPeerParams {
+  runId: string;
+  ticker: string;
+  fiscalYearStart: number;
+  fiscalYearEnd: number;
+  forceRefresh?: boolean;
+}
+
+async function fetchPeerFinancials({ forceRefresh = false, ...params }: FetchPeerParams): Promise<SECDataResponse> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/fetch-sec-data`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ ...params, forceRefresh, peer: true }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || `Failed to fetch SEC data for ${params.ticker}`);
+  }
+
+  return response.json();
+}
+
+// Fetches the peer's financials first, so tickers SEC doesn't know never join the comp set
+export function useAddPeer() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (params: FetchPeerParams) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { data } = await fetchPeerFinancials(params);
+
+      const { error } = await supabase
+        .from('run_peers')
+        .insert({
+          run_id: params.runId,
+          ticker: params.ticker,
+          name: data.entityName || null,
+          created_by: user.id,
+        });
+
+      if (error?.code === '23505') throw new Error(`${params.ticker} is already in the peer group`);
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data, { runId, ticker }) => {
+      queryClient.invalidateQueries({ queryKey: ['run-peers', runId] });
+      queryClient.invalidateQueries({ queryKey: ['peer-data', runId] });
+      toast.success(`Added ${data.entityName || ticker} to the peer group`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to add peer');
+    },
+  });
+}
+
+export function useRefreshPeers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tickers, ...params }: Omit<FetchPeerParams, 'ticker' | 'forceRefresh'> & { tickers: string[] }) => {
+      // One at a time to stay inside SEC's request rate limit
+      for (const ticker of tickers) {
+        await fetchPeerFinancials({ ...params, ticker, forceRefresh: true });
+      }
+    },
+    onSuccess: (_, { runId, tickers }) => {
+      queryClient.invalidateQueries({ queryKey: ['peer-data', runId] });
+      toast.success(`Refreshed ${tickers.length} peer${tickers.length === 1 ? '' : 's'}`);
+    },
+    onError: (error: Error, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: ['peer-data', runId] });
+      toast.error(error.message || 'Failed to refresh peers');
+    },
+  });
+}
+
+export function useRemovePeer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; runId: string }) => {
+      const { error } = await supabase.from('run_peers').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { runId }) => {
+      queryClient.invalidateQueries({ queryKey: ['run-peers', runId] });
+      toast.success('Peer removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove peer');
+    },
+  });
+}
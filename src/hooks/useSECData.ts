@@ -5,7 +5,8 @@ import { toast } from 'sonner';
 
 interface FetchSECDataParams {
   runId: string;
-  ticker: string;
+  ticker?: string;
+  cik?: string;
   fiscalYearStart: number;
   fiscalYearEnd: number;
   forceRefresh?: boolean;
@@ -84,3 +85,70 @@ export function useFetchSECData() {
     },
   });
 }
+
+interface UploadFinancialsParams {
+  runId: string;
+  fileName: string;
+  // Base64-encoded CSV or XLSX file
+  content: string;
+}
+
+export interface UploadFinancialsResponse extends SECDataResponse {
+  warnings: string[];
+}
+
+// Carries the row-level problems that rejected an upload, for display next to the file
+export class FinancialsUploadError extends Error {
+  issues: string[];
+  warnings: string[];
+
+  constructor(message: string, issues: string[], warnings: string[]) {
+    super(message);
+    this.name = 'FinancialsUploadError';
+    this.issues = issues;
+    this.warnings = warnings;
+  }
+}
+
+export function useUploadFinancials() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: UploadFinancialsParams): Promise<UploadFinancialsResponse> => {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/import-financials`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify(params),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        if (response.status === 422) {
+          throw new FinancialsUploadError(error.error, error.issues ?? [], error.warnings ?? []);
+        }
+        throw new Error(error.error || 'Failed to upload financials');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['sec-data', variables.runId] });
+      toast.success(`Imported ${data.data.fiscalYears.length} fiscal years from ${variables.fileName}`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to upload financials');
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Json } from '@/integrations/supabase/types';
+import { ScorecardModel, ScorecardVersion } from '@/types/scorecard';
+import { getActiveScorecard } from '@/lib/scorecard';
+
+async function fetchScorecardVersions(): Promise<ScorecardVersion[]> {
+  const { data, error } = await supabase
+    .from('scorecard_versions')
+    .select('*')
+    .order('version_number', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    model: row.model as unknown as ScorecardModel,
+  }));
+}
+
+export function useScorecardVersions() {
+  return useQuery({
+    queryKey: ['scorecard-versions'],
+    queryFn: fetchScorecardVersions,
+  });
+}
+
+// The version a run's memo is scored with. Runs that can no longer be edited keep the
+// one their latest saved version recorded, or the built-in model (null) when that
+// version predates scorecards. Drafts use the one in force today, which saving records.
+export function useRunScorecard(recordedId: string | null | undefined, pinned: boolean) {
+  return useQuery({
+    queryKey: ['scorecard-versions'],
+    queryFn: fetchScorecardVersions,
+    select: versions => (pinned ? versions.find(v => v.id === recordedId) ?? null : getActiveScorecard(versions)),
+  });
+}
+
+interface PublishScorecardParams {
+  name: string;
+  effectiveDate: string;
+  model: ScorecardModel;
+  notes?: string;
+}
+
+export function usePublishScorecard() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ name, effectiveDate, model, notes }: PublishScorecardParams) => {
+      if (!user) throw new Error('Not authenticated');
+
+      // The database numbers versions, so concurrent publishes don't collide
+      const { error } = await supabase
+        .from('scorecard_versions')
+        .insert({
+          name,
+          effective_date: effectiveDate,
+          model: model as unknown as Json,
+          notes: notes || null,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scorecard-versions'] });
+      toast.success('Scorecard version published');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to publish scorecard version');
+    },
+  });
+}
+
+export function useDeleteScorecard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('scorecard_versions').delete().eq('id', id);
+      // Versions that scored a saved run version are kept for reproducibility
+      if (error?.code === '23503') throw new Error('This scorecard version has scored saved run versions and can\'t be deleted');
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scorecard-versions'] });
+      toast.success('Scorecard version removed');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove scorecard version');
+    },
+  });
+}
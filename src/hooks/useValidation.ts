@@ -93,6 +93,61 @@ const VALIDATION_RULES = [
       } as const;
     },
   },
+  {
+    id: 'ebitda_derivation',
+    name: 'EBITDA Derivation',
+    description: 'EBITDA is built from operating income plus reported D&A',
+    check: (data: NormalizedFinancials) => {
+      const derivations = data.ebitdaDerivations ?? [];
+      if (derivations.length === 0) {
+        return { status: 'warn', message: 'EBITDA could not be derived - operating income not reported' } as const;
+      }
+
+      const proxies = derivations.filter(d => d.isProxy && !d.period.startsWith('Q'));
+      if (proxies.length > 0) {
+        return {
+          status: 'warn',
+          message: `EBITDA uses a proxy for ${proxies.map(d => d.period).join(', ')}: ${proxies[0].note}`,
+        } as const;
+      }
+      return { status: 'pass', message: 'EBITDA derived from reported D&A for all periods' } as const;
+    },
+  },
+  {
+    id: 'restatements',
+    name: 'Restated Figures',
+    description: 'Values reported differently by later filings or amendments',
+    check: (data: NormalizedFinancials) => {
+      const restatements = (data.restatements ?? []).filter(r => r.period.startsWith('FY'));
+      if (restatements.length === 0) {
+        return { status: 'pass', message: 'No restated annual figures detected' } as const;
+      }
+
+      const periods = Array.from(new Set(restatements.map(r => r.period))).sort();
+      return {
+        status: 'warn',
+        message: `${restatements.length} annual value${restatements.length > 1 ? 's were' : ' was'} restated (${periods.join(', ')}) - latest filed figures are used`,
+      } as const;
+    },
+  },
+  {
+    id: 'fx_conversion',
+    name: 'Currency Translation',
+    description: 'FX rates available for every period when presenting in another currency',
+    check: (data: NormalizedFinancials) => {
+      const conversion = data.fxConversion;
+      if (!conversion) {
+        return { status: 'pass', message: `Presented in reporting currency (${data.currency ?? 'USD'})` } as const;
+      }
+      if (conversion.missingPeriods.length > 0) {
+        return {
+          status: 'warn',
+          message: `No ${conversion.from}/${conversion.to} rate for ${conversion.missingPeriods.join(', ')} - add rates on the Admin page`,
+        } as const;
+      }
+      return { status: 'pass', message: `Translated from ${conversion.from} to ${conversion.to}` } as const;
+    },
+  },
   {
     id: 'no_negative_assets',
     name: 'Asset Data Quality',
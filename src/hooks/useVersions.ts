@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 import { Json } from '@/integrations/supabase/types';
+import { RunAdjustment } from '@/types/adjustments';
+import { StressScenario } from '@/types/scenarios';
 
 export interface PitchbookContent {
   companyOverview: string;
@@ -15,6 +17,8 @@ export interface CreditMemoContent {
   summary: string;
   riskAssessment: string;
   recommendation: string;
+  // Stress scenario definitions; absent on versions saved before scenarios existed
+  scenarios?: StressScenario[];
 }
 
 export interface RunVersion {
@@ -24,6 +28,11 @@ export interface RunVersion {
   kpis: Record<string, number | string | null> | null;
   pitchbook_content: PitchbookContent | null;
   credit_memo_content: CreditMemoContent | null;
+  // Ledger the version's KPIs were computed with; null on versions saved before adjustments
+  adjustments: RunAdjustment[] | null;
+  // Scorecard version the credit score in the KPIs was computed with; null on versions
+  // saved before scorecards or scored with the built-in default
+  scorecard_version_id: string | null;
   created_at: string;
   created_by: string;
   is_locked: boolean;
@@ -41,6 +50,8 @@ function transformToRunVersion(row: {
   kpis: Json | null;
   pitchbook_content: Json | null;
   credit_memo_content: Json | null;
+  adjustments: Json | null;
+  scorecard_version_id: string | null;
   created_at: string;
   created_by: string;
   is_locked: boolean;
@@ -53,6 +64,8 @@ function transformToRunVersion(row: {
     kpis: row.kpis as unknown as Record<string, number | string | null> | null,
     pitchbook_content: row.pitchbook_content as unknown as PitchbookContent | null,
     credit_memo_content: row.credit_memo_content as unknown as CreditMemoContent | null,
+    adjustments: row.adjustments as unknown as RunAdjustment[] | null,
+    scorecard_version_id: row.scorecard_version_id,
     created_at: row.created_at,
     created_by: row.created_by,
     is_locked: row.is_locked,
@@ -106,6 +119,8 @@ interface SaveVersionParams {
   kpis: Record<string, number | string | null> | null;
   pitchbookContent: RunVersion['pitchbook_content'];
   creditMemoContent: RunVersion['credit_memo_content'];
+  adjustments: RunAdjustment[];
+  scorecardVersionId: string | null;
 }
 
 export function useSaveVersion() {
@@ -113,7 +128,7 @@ export function useSaveVersion() {
   const { user } = useAuth();
 
   return useMutation({
-    mutationFn: async ({ runId, kpis, pitchbookContent, creditMemoContent }: SaveVersionParams) => {
+    mutationFn: async ({ runId, kpis, pitchbookContent, creditMemoContent, adjustments, scorecardVersionId }: SaveVersionParams) => {
       if (!user) throw new Error('Not authenticated');
 
       // Get the latest version number
@@ -135,6 +150,8 @@ export function useSaveVersion() {
           kpis: kpis as Json,
           pitchbook_content: pitchbookContent as unknown as Json,
           credit_memo_content: creditMemoContent as unknown as Json,
+          adjustments: adjustments as unknown as Json,
+          scorecard_version_id: scorecardVersionId,
           created_by: user.id,
           is_locked: false,
         }])
@@ -175,6 +192,26 @@ export function useRestoreVersion() {
 
       const newVersionNumber = (latestVersion?.version_number || 0) + 1;
 
+      // Rewrite the run's adjustment ledger from the snapshot, so the run computes on the
+      // figures the restored version was saved with. The database replaces it in one
+      // transaction and refuses runs that aren't the user's own drafts. Versions saved
+      // before adjustments have no snapshot and leave the ledger as it is.
+      if (version.adjustments) {
+        const { error: restoreError } = await supabase.rpc('restore_run_adjustments', {
+          _run_id: version.run_id,
+          _adjustments: version.adjustments.map(({ period, field, kind, amount, reason, note, created_at }) => ({
+            period,
+            field,
+            kind,
+            amount,
+            reason,
+            note,
+            created_at,
+          })) as unknown as Json,
+        });
+        if (restoreError) throw restoreError;
+      }
+
       // Create a new version with the restored content
       const { data, error } = await supabase
         .from('run_versions')
@@ -184,6 +221,8 @@ export function useRestoreVersion() {
           kpis: version.kpis as Json,
           pitchbook_content: version.pitchbook_content as unknown as Json,
           credit_memo_content: version.credit_memo_content as unknown as Json,
+          adjustments: version.adjustments as unknown as Json,
+          scorecard_version_id: version.scorecard_version_id,
           created_by: user.id,
           is_locked: false,
         }])
@@ -196,11 +235,12 @@ export function useRestoreVersion() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['run-versions', data.run_id] });
       queryClient.invalidateQueries({ queryKey: ['latest-version', data.run_id] });
+      queryClient.invalidateQueries({ queryKey: ['run-adjustments', data.run_id] });
       toast.success(`Restored to version ${data.version_number}`);
     },
     onError: (error) => {
       console.error('Restore version error:', error);
-      toast.error('Failed to restore version');
+      toast.error(error.message || 'Failed to restore version');
     },
   });
 }
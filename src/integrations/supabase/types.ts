@@ -71,9 +71,10 @@ export type Database = {
           created_by: string
           description: string | null
           id: string
+          is_private: boolean
           name: string
           sic_code: string | null
-          ticker: string
+          ticker: string | null
           updated_at: string
         }
         Insert: {
@@ -82,9 +83,10 @@ export type Database = {
           created_by: string
           description?: string | null
           id?: string
+          is_private?: boolean
           name: string
           sic_code?: string | null
-          ticker: string
+          ticker?: string | null
           updated_at?: string
         }
         Update: {
@@ -93,13 +95,127 @@ export type Database = {
           created_by?: string
           description?: string | null
           id?: string
+          is_private?: boolean
           name?: string
           sic_code?: string | null
-          ticker?: string
+          ticker?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      company_concept_overrides: {
+        Row: {
+          company_id: string
+          concept: string
+          created_at: string
+          created_by: string
+          field: string
+          id: string
+          notes: string | null
+          priority: number
+          taxonomy: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          concept: string
+          created_at?: string
+          created_by: string
+          field: string
+          id?: string
+          notes?: string | null
+          priority?: number
+          taxonomy?: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          concept?: string
+          created_at?: string
+          created_by?: string
+          field?: string
+          id?: string
+          notes?: string | null
+          priority?: number
+          taxonomy?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_concept_overrides_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fx_rates: {
+        Row: {
+          average_rate: number
+          closing_rate: number
+          created_at: string
+          currency: string
+          id: string
+          period: string
+          source: string | null
+          updated_at: string
+          year: number
+        }
+        Insert: {
+          average_rate: number
+          closing_rate: number
+          created_at?: string
+          currency: string
+          id?: string
+          period?: string
+          source?: string | null
+          updated_at?: string
+          year: number
+        }
+        Update: {
+          average_rate?: number
+          closing_rate?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          period?: string
+          source?: string | null
+          updated_at?: string
+          year?: number
+        }
+        Relationships: []
+      }
+      industry_benchmarks: {
+        Row: {
+          built_at: string
+          expires_at: string | null
+          fiscal_year: number
+          id: string
+          metrics: Json
+          peer_count: number
+          sic_code: string
+        }
+        Insert: {
+          built_at?: string
+          expires_at?: string | null
+          fiscal_year: number
+          id?: string
+          metrics?: Json
+          peer_count?: number
+          sic_code: string
+        }
+        Update: {
+          built_at?: string
+          expires_at?: string | null
+          fiscal_year?: number
+          id?: string
+          metrics?: Json
+          peer_count?: number
+          sic_code?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -127,6 +243,103 @@ export type Database = {
         }
         Relationships: []
       }
+      run_adjustments: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string
+          field: string
+          id: string
+          kind: string
+          note: string | null
+          period: string
+          reason: string
+          run_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by: string
+          field: string
+          id?: string
+          kind: string
+          note?: string | null
+          period: string
+          reason: string
+          run_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string
+          field?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          period?: string
+          reason?: string
+          run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "run_adjustments_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      run_covenants: {
+        Row: {
+          created_at: string
+          created_by: string
+          currency: string | null
+          frequency: string
+          id: string
+          metric: string
+          name: string
+          operator: string
+          run_id: string
+          step_downs: Json
+          threshold: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          currency?: string | null
+          frequency: string
+          id?: string
+          metric: string
+          name: string
+          operator: string
+          run_id: string
+          step_downs?: Json
+          threshold: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          currency?: string | null
+          frequency?: string
+          id?: string
+          metric?: string
+          name?: string
+          operator?: string
+          run_id?: string
+          step_downs?: Json
+          threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "run_covenants_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       run_data_cache: {
         Row: {
           data_type: string
@@ -165,8 +378,44 @@ export type Database = {
           },
         ]
       }
+      run_peers: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string | null
+          run_id: string
+          ticker: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name?: string | null
+          run_id: string
+          ticker: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string | null
+          run_id?: string
+          ticker?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "run_peers_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       run_versions: {
         Row: {
+          adjustments: Json | null
           created_at: string
           created_by: string
           credit_memo_content: Json | null
@@ -175,9 +424,11 @@ export type Database = {
           kpis: Json | null
           pitchbook_content: Json | null
           run_id: string
+          scorecard_version_id: string | null
           version_number: number
         }
         Insert: {
+          adjustments?: Json | null
           created_at?: string
           created_by: string
           credit_memo_content?: Json | null
@@ -186,9 +437,11 @@ export type Database = {
           kpis?: Json | null
           pitchbook_content?: Json | null
           run_id: string
+          scorecard_version_id?: string | null
           version_number?: number
         }
         Update: {
+          adjustments?: Json | null
           created_at?: string
           created_by?: string
           credit_memo_content?: Json | null
@@ -197,6 +450,7 @@ export type Database = {
           kpis?: Json | null
           pitchbook_content?: Json | null
           run_id?: string
+          scorecard_version_id?: string | null
           version_number?: number
         }
         Relationships: [
@@ -207,6 +461,13 @@ export type Database = {
             referencedRelation: "runs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "run_versions_scorecard_version_id_fkey"
+            columns: ["scorecard_version_id"]
+            isOneToOne: false
+            referencedRelation: "scorecard_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       runs: {
@@ -218,6 +479,7 @@ export type Database = {
           fiscal_year_start: number
           id: string
           name: string
+          presentation_currency: string | null
           review_notes: string | null
           reviewed_at: string | null
           reviewer_id: string | null
@@ -232,6 +494,7 @@ export type Database = {
           fiscal_year_start: number
           id?: string
           name: string
+          presentation_currency?: string | null
           review_notes?: string | null
           reviewed_at?: string | null
           reviewer_id?: string | null
@@ -246,6 +509,7 @@ export type Database = {
           fiscal_year_start?: number
           id?: string
           name?: string
+          presentation_currency?: string | null
           review_notes?: string | null
           reviewed_at?: string | null
           reviewer_id?: string | null
@@ -262,6 +526,69 @@ export type Database = {
           },
         ]
       }
+      scorecard_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_date: string
+          id: string
+          model: Json
+          name: string
+          notes: string | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_date: string
+          id?: string
+          model: Json
+          name: string
+          notes?: string | null
+          version_number?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          id?: string
+          model?: Json
+          name?: string
+          notes?: string | null
+          version_number?: number
+        }
+        Relationships: []
+      }
+      sec_company_directory: {
+        Row: {
+          cik: string
+          exchange: string | null
+          id: string
+          name: string
+          refreshed_at: string
+          sic_code: string | null
+          ticker: string
+        }
+        Insert: {
+          cik: string
+          exchange?: string | null
+          id?: string
+          name: string
+          refreshed_at?: string
+          sic_code?: string | null
+          ticker: string
+        }
+        Update: {
+          cik?: string
+          exchange?: string | null
+          id?: string
+          name?: string
+          refreshed_at?: string
+          sic_code?: string | null
+          ticker?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -283,6 +610,39 @@ export type Database = {
         }
         Relationships: []
       }
+      xbrl_concept_mappings: {
+        Row: {
+          concept: string
+          created_at: string
+          field: string
+          id: string
+          is_active: boolean
+          priority: number
+          taxonomy: string
+          updated_at: string
+        }
+        Insert: {
+          concept: string
+          created_at?: string
+          field: string
+          id?: string
+          is_active?: boolean
+          priority?: number
+          taxonomy?: string
+          updated_at?: string
+        }
+        Update: {
+          concept?: string
+          created_at?: string
+          field?: string
+          id?: string
+          is_active?: boolean
+          priority?: number
+          taxonomy?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -299,6 +659,22 @@ export type Database = {
         }
         Returns: boolean
       }
+      restore_run_adjustments: {
+        Args: { _adjustments: Json; _run_id: string }
+        Returns: undefined
+      }
+      search_company_directory: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          cik: string
+          exchange: string | null
+          id: string
+          name: string
+          refreshed_at: string
+          sic_code: string | null
+          ticker: string
+        }[]
+      }
     }
     Enums: {
       app_role: "analyst" | "reviewer" | "admin"
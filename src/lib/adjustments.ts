@@ -0,0 +1,169 @@
+import { FiscalYearData, NormalizedFinancials } from '@/types/financials';
+import { AdjustableField, AdjustedCell, RunAdjustment } from '@/types/adjustments';
+
+// Headline figures first, then the remaining statement line items
+export const ADJUSTABLE_FIELDS: AdjustableField[] = [
+  'revenue',
+  'grossProfit',
+  'operatingIncome',
+  'depreciationAndAmortization',
+  'ebitda',
+  'netIncome',
+  'totalAssets',
+  'currentAssets',
+  'cashAndEquivalents',
+  'totalLiabilities',
+  'currentLiabilities',
+  'stockholdersEquity',
+  'longTermDebt',
+  'operatingCashFlow',
+  'costOfRevenue',
+  'sellingGeneralAndAdministrative',
+  'operatingExpenses',
+  'interestExpense',
+  'pretaxIncome',
+  'incomeTaxExpense',
+  'accountsReceivable',
+  'inventory',
+  'propertyPlantAndEquipment',
+  'accountsPayable',
+  'shortTermDebt',
+  'currentPortionOfLongTermDebt',
+  'operatingLeaseLiabilities',
+  'financeLeaseLiabilities',
+  'retainedEarnings',
+  'commonSharesOutstanding',
+  'capitalExpenditures',
+  'investingCashFlow',
+  'financingCashFlow',
+  'dividendsPaid',
+  'shareRepurchases',
+  'interestPaid',
+  'operatingLeasePayments',
+  'financeLeasePayments',
+];
+
+// Subtotals and the lines that roll into them, with the sign each rolls in with, in
+// the order they are recomputed. Expenses and payments are positive as filed.
+const SUBTOTALS: { field: AdjustableField; components: [AdjustableField, 1 | -1][] }[] = [
+  { field: 'grossProfit', components: [['revenue', 1], ['costOfRevenue', -1]] },
+  { field: 'operatingExpenses', components: [['sellingGeneralAndAdministrative', 1]] },
+  { field: 'operatingIncome', components: [['grossProfit', 1], ['operatingExpenses', -1]] },
+  { field: 'ebitda', components: [['operatingIncome', 1], ['depreciationAndAmortization', 1]] },
+  { field: 'pretaxIncome', components: [['operatingIncome', 1], ['interestExpense', -1]] },
+  { field: 'netIncome', components: [['pretaxIncome', 1], ['incomeTaxExpense', -1]] },
+  { field: 'currentAssets', components: [['cashAndEquivalents', 1], ['accountsReceivable', 1], ['inventory', 1]] },
+  { field: 'totalAssets', components: [['currentAssets', 1], ['propertyPlantAndEquipment', 1]] },
+  { field: 'shortTermDebt', components: [['currentPortionOfLongTermDebt', 1]] },
+  { field: 'currentLiabilities', components: [['accountsPayable', 1], ['shortTermDebt', 1]] },
+  {
+    field: 'totalLiabilities',
+    components: [['currentLiabilities', 1], ['longTermDebt', 1], ['operatingLeaseLiabilities', 1], ['financeLeaseLiabilities', 1]],
+  },
+  { field: 'stockholdersEquity', components: [['retainedEarnings', 1]] },
+  { field: 'investingCashFlow', components: [['capitalExpenditures', -1]] },
+  { field: 'financingCashFlow', components: [['dividendsPaid', -1], ['shareRepurchases', -1], ['financeLeasePayments', -1]] },
+];
+
+const SUBTOTAL_FIELDS = new Set(SUBTOTALS.map(s => s.field));
+
+// Applies one period's ledger entries. Changes to a line roll up through every
+// subtotal that includes it, e.g. cost of revenue into gross profit, operating
+// income, EBITDA and net income, unless a subtotal is itself overridden.
+function adjustPeriod<T extends FiscalYearData>(values: T, entries: RunAdjustment[]): T {
+  if (entries.length === 0) return values;
+
+  const adjusted = { ...values };
+  const adjustField = (field: AdjustableField, base: number | null) => {
+    const fieldEntries = entries.filter(e => e.field === field);
+    const override = fieldEntries.find(e => e.kind === 'override');
+    const start = override ? override.amount : base;
+    if (start === null) return null;
+    return fieldEntries
+      .filter(e => e.kind === 'add_back')
+      .reduce((sum, e) => sum + e.amount, start);
+  };
+
+  // Change from the reported value of each line, for rolling into subtotals
+  const deltas = new Map<AdjustableField, number>();
+  const changeOf = (field: AdjustableField) => {
+    const before = values[field] ?? null;
+    const after = adjusted[field] ?? null;
+    return before !== null && after !== null ? after - before : 0;
+  };
+
+  const fields = new Set(entries.map(e => e.field));
+  for (const field of fields) {
+    if (SUBTOTAL_FIELDS.has(field)) continue;
+    adjusted[field] = adjustField(field, values[field] ?? null);
+    deltas.set(field, changeOf(field));
+  }
+
+  for (const { field, components } of SUBTOTALS) {
+    const rolled = components.reduce((sum, [component, sign]) => sum + sign * (deltas.get(component) ?? 0), 0);
+    if (rolled === 0 && !fields.has(field)) continue;
+
+    const reported = values[field] ?? null;
+    adjusted[field] = adjustField(field, reported === null ? null : reported + rolled);
+    // A subtotal that wasn't reported still passes its lines' changes on
+    deltas.set(field, reported === null ? rolled : changeOf(field));
+  }
+
+  return adjusted;
+}
+
+export function applyAdjustments(data: NormalizedFinancials, adjustments: RunAdjustment[]): NormalizedFinancials {
+  if (adjustments.length === 0) return data;
+
+  const forPeriod = (period: string) => adjustments.filter(a => a.period === period);
+  return {
+    ...data,
+    fiscalYears: data.fiscalYears.map(fy => adjustPeriod(fy, forPeriod(`FY${fy.year}`))),
+    ttm: data.ttm ? adjustPeriod(data.ttm, forPeriod('LTM')) : data.ttm,
+  };
+}
+
+function getPeriodValues(data: NormalizedFinancials, period: string): FiscalYearData | null {
+  if (period === 'LTM') return data.ttm ?? null;
+  return data.fiscalYears.find(fy => `FY${fy.year}` === period) ?? null;
+}
+
+// Every cell whose value differs from what was reported, including subtotals moved by
+// adjustments to the lines in them
+export function getAdjustedCells(
+  reported: NormalizedFinancials,
+  adjusted: NormalizedFinancials,
+  adjustments: RunAdjustment[]
+): AdjustedCell[] {
+  const cells: AdjustedCell[] = [];
+  const periods = [...new Set(adjustments.map(a => a.period))];
+
+  for (const period of periods) {
+    const before = getPeriodValues(reported, period);
+    const after = getPeriodValues(adjusted, period);
+    if (!before || !after) continue;
+
+    const fields = [...new Set(adjustments.filter(a => a.period === period).map(a => a.field))];
+    for (const field of SUBTOTAL_FIELDS) {
+      if (!fields.includes(field) && (before[field] ?? null) !== (after[field] ?? null)) fields.push(field);
+    }
+
+    for (const field of fields) {
+      cells.push({
+        period,
+        field,
+        reported: before[field] ?? null,
+        adjusted: after[field] ?? null,
+        entries: adjustments.filter(a => a.period === period && a.field === field),
+      });
+    }
+  }
+
+  return cells;
+}
+
+// Adjustments recorded against periods the financials no longer contain, e.g. after
+// the run's fiscal years change or an LTM period rolls into a 10-K
+export function getOrphanedAdjustments(data: NormalizedFinancials, adjustments: RunAdjustment[]): RunAdjustment[] {
+  return adjustments.filter(a => !getPeriodValues(data, a.period));
+}
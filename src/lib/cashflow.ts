@@ -0,0 +1,57 @@
+import { FiscalYearData } from '@/types/financials';
+import { computeLeverage } from '@/lib/leverage';
+
+export interface CashFlowMetrics {
+  // Operating cash flow less capital expenditures
+  freeCashFlow: number | null;
+  // Free cash flow left after dividends and buybacks
+  retainedFreeCashFlow: number | null;
+  freeCashFlowToDebt: number | null;
+  capexIntensity: number | null;
+  // Days sales outstanding, days inventory outstanding and days payables outstanding
+  dso: number | null;
+  dio: number | null;
+  dpo: number | null;
+  cashConversionCycle: number | null;
+}
+
+const DAYS_IN_YEAR = 365;
+
+const days = (balance: number | null | undefined, flow: number | null | undefined) =>
+  balance != null && flow ? (balance / flow) * DAYS_IN_YEAR : null;
+
+// Free cash flow and working capital efficiency from one period's figures. Capex,
+// dividends and buybacks are reported as positive outflows. Balances are taken at
+// period end rather than averaged, so single-year periods can be measured too.
+export function computeCashFlow(values: FiscalYearData): CashFlowMetrics {
+  const { operatingCashFlow, capitalExpenditures, revenue } = values;
+
+  // A filer without capex tags usually has none worth reporting
+  const freeCashFlow = operatingCashFlow !== null ? operatingCashFlow - (capitalExpenditures ?? 0) : null;
+  const retainedFreeCashFlow = freeCashFlow !== null
+    ? freeCashFlow - (values.dividendsPaid ?? 0) - (values.shareRepurchases ?? 0)
+    : null;
+
+  const { totalDebt } = computeLeverage(values);
+
+  // Inventory and payables turn over against cost of revenue, which service
+  // companies often don't report, so revenue less gross profit stands in for it
+  const costOfRevenue = values.costOfRevenue
+    ?? (revenue !== null && values.grossProfit !== null ? revenue - values.grossProfit : null);
+
+  const dso = days(values.accountsReceivable, revenue);
+  const dio = values.inventory === 0 ? 0 : days(values.inventory, costOfRevenue);
+  const dpo = days(values.accountsPayable, costOfRevenue);
+
+  return {
+    freeCashFlow,
+    retainedFreeCashFlow,
+    freeCashFlowToDebt: freeCashFlow !== null && totalDebt ? freeCashFlow / totalDebt : null,
+    capexIntensity: capitalExpenditures != null && revenue ? capitalExpenditures / revenue : null,
+    dso,
+    dio,
+    dpo,
+    // Companies without inventory still have a cycle of receivables less payables
+    cashConversionCycle: dso !== null && dpo !== null ? dso + (dio ?? 0) - dpo : null,
+  };
+}
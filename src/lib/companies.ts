@@ -0,0 +1,13 @@
+interface CompanyIdentifiers {
+  ticker?: string | null;
+  cik?: string | null;
+  is_private?: boolean;
+}
+
+// Bond-only issuers and other registrants without a listed ticker are shown by CIK
+export function formatCompanyIdentifier(company: CompanyIdentifiers | null | undefined): string {
+  if (!company) return '';
+  if (company.ticker) return company.ticker;
+  if (company.cik) return `CIK ${company.cik}`;
+  return company.is_private ? 'Private' : '';
+}
@@ -0,0 +1,184 @@
+import { FiscalPeriod, FiscalYearData, NormalizedFinancials, QuarterData } from '@/types/financials';
+import { Covenant, CovenantMetric, CovenantOperator, CovenantTest } from '@/types/covenants';
+import { computeCoverage } from '@/lib/coverage';
+import { computeLeverage } from '@/lib/leverage';
+import { getReportingCurrency } from '@/lib/financials';
+import { FLOW_FIELDS, FxRate, convertAmount } from '@/lib/fx';
+
+export const COVENANT_METRICS: Record<CovenantMetric, {
+  label: string;
+  format: 'multiple' | 'ratio' | 'amount';
+  // The direction the covenant is usually written in
+  operator: CovenantOperator;
+  formula: string;
+}> = {
+  debtToEbitda: { label: 'Total Leverage', format: 'multiple', operator: '<=', formula: 'Borrowings / EBITDA' },
+  netDebtToEbitda: { label: 'Net Leverage', format: 'multiple', operator: '<=', formula: '(Borrowings − Cash) / EBITDA' },
+  interestCoverage: { label: 'Interest Coverage', format: 'multiple', operator: '>=', formula: 'EBITDA / Interest Expense' },
+  dscr: { label: 'Debt Service Coverage', format: 'multiple', operator: '>=', formula: '(EBITDA + Operating Lease Payments) / Debt Service' },
+  currentRatio: { label: 'Current Ratio', format: 'ratio', operator: '>=', formula: 'Current Assets / Current Liabilities' },
+  debtToEquity: { label: 'Debt-to-Equity', format: 'ratio', operator: '<=', formula: 'Borrowings / Stockholders\' Equity' },
+  netWorth: { label: 'Minimum Net Worth', format: 'amount', operator: '>=', formula: 'Stockholders\' Equity' },
+  liquidity: { label: 'Minimum Liquidity', format: 'amount', operator: '>=', formula: 'Cash and Equivalents' },
+};
+
+// Headroom below which a passing test is flagged as tight
+export const LOW_HEADROOM = 0.15;
+
+// Debt over a non-positive denominator isn't meaningful but fails any maximum,
+// so it is returned as Infinity; without debt the ratio is zero
+const leverage = (debt: number, denominator: number | null | undefined) => {
+  if (denominator == null) return null;
+  if (denominator > 0) return debt / denominator;
+  return debt > 0 ? Infinity : 0;
+};
+
+// The covenant metric for one period. Coverage without any debt passes every minimum.
+export function covenantMetricValue(metric: CovenantMetric, values: FiscalYearData): number | null {
+  const coverage = computeCoverage(values);
+  // Credit agreements define debt as borrowings, leaving operating leases out. Filers
+  // without debt often don't tag it, so missing debt counts as none.
+  const totalDebt = computeLeverage(values).borrowings ?? 0;
+  const equity = values.stockholdersEquity
+    ?? (values.totalAssets !== null && values.totalLiabilities !== null ? values.totalAssets - values.totalLiabilities : null);
+
+  switch (metric) {
+    case 'debtToEbitda':
+      return leverage(totalDebt, values.ebitda);
+    case 'netDebtToEbitda':
+      return leverage(Math.max(0, totalDebt - (values.cashAndEquivalents ?? 0)), values.ebitda);
+    case 'interestCoverage':
+      return coverage.isDebtFree ? Infinity : coverage.ebitdaToInterest;
+    case 'dscr':
+      return coverage.isDebtFree ? Infinity : coverage.dscr;
+    case 'currentRatio':
+      return values.currentAssets !== null && values.currentLiabilities ? values.currentAssets / values.currentLiabilities : null;
+    case 'debtToEquity':
+      return leverage(totalDebt, equity);
+    case 'netWorth':
+      return equity;
+    case 'liquidity':
+      return values.cashAndEquivalents;
+  }
+}
+
+// The threshold in force for a fiscal year, after any step-downs that have kicked in
+export function thresholdFor(covenant: Pick<Covenant, 'threshold' | 'step_downs'>, year: number): number {
+  const applicable = [...covenant.step_downs]
+    .filter(step => step.fromYear <= year)
+    .sort((a, b) => a.fromYear - b.fromYear);
+  return applicable.length > 0 ? applicable[applicable.length - 1].threshold : covenant.threshold;
+}
+
+interface TestPeriod {
+  period: string;
+  label: string;
+  year: number;
+  values: FiscalYearData;
+}
+
+// `currency` is the currency of the period's figures. Amount thresholds are converted
+// to it at the fiscal year's closing rate.
+export function testCovenantPeriod(
+  covenant: Covenant,
+  period: TestPeriod & { proForma?: boolean },
+  currency: string,
+  rates: FxRate[]
+): CovenantTest {
+  const value = covenantMetricValue(covenant.metric, period.values);
+  const stated = thresholdFor(covenant, period.year);
+  const threshold = covenant.currency && COVENANT_METRICS[covenant.metric].format === 'amount'
+    ? convertAmount(stated, covenant.currency, currency, rates, period.year)
+    : stated;
+  const base = { period: period.period, label: period.label, value, threshold, proForma: !!period.proForma };
+
+  if (value === null || threshold === null) return { ...base, headroom: null, status: 'untested' };
+
+  const breached = covenant.operator === '<=' ? value > threshold : value < threshold;
+  const headroom = threshold !== 0
+    ? (covenant.operator === '<=' ? threshold - value : value - threshold) / Math.abs(threshold)
+    : null;
+
+  return {
+    ...base,
+    headroom,
+    status: breached ? 'breach' : headroom !== null && headroom < LOW_HEADROOM ? 'tight' : 'pass',
+  };
+}
+
+const QUARTER_ORDER: FiscalPeriod[] = ['Q1', 'Q2', 'Q3', 'Q4'];
+
+const quarterIndex = (year: number, fiscalPeriod: FiscalPeriod) => year * 4 + QUARTER_ORDER.indexOf(fiscalPeriod);
+
+// Trailing twelve months to each Q1–Q3 end with all four quarters on file: flows
+// summed over the quarters, balances as at the quarter end. Q4 ends are the fiscal
+// year, which is tested already.
+function rollingLtmPeriods(quarters: QuarterData[]): (TestPeriod & { index: number })[] {
+  const byIndex = new Map(quarters.map(q => [quarterIndex(q.year, q.fiscalPeriod), q]));
+
+  return quarters
+    .filter(q => q.fiscalPeriod !== 'Q4')
+    .flatMap(q => {
+      const index = quarterIndex(q.year, q.fiscalPeriod);
+      const window = [index - 3, index - 2, index - 1, index].map(i => byIndex.get(i));
+      if (window.some(quarter => !quarter)) return [];
+
+      const values: FiscalYearData = { ...q };
+      for (const field of FLOW_FIELDS) {
+        const amounts = window.map(quarter => quarter![field] ?? null);
+        values[field] = amounts.includes(null)
+          ? null
+          : (amounts as number[]).reduce((total, amount) => total + amount, 0);
+      }
+      const label = `LTM ${q.fiscalPeriod} FY${q.year}`;
+      return [{ period: label, label, year: q.year, values, index }];
+    });
+}
+
+// Every fiscal year oldest first. Covenants tested quarterly are also tested on the
+// trailing twelve months to each quarter end, ending with the latest LTM period.
+export function testCovenant(covenant: Covenant, data: NormalizedFinancials, rates: FxRate[]): CovenantTest[] {
+  const periods = data.fiscalYears.map(fy => ({
+    period: `FY${fy.year}`,
+    label: `FY${fy.year}`,
+    year: fy.year,
+    values: fy as FiscalYearData,
+    index: quarterIndex(fy.year, 'Q4'),
+  }));
+
+  if (covenant.frequency === 'quarterly') {
+    const ttm = data.ttm;
+    const ttmIndex = ttm ? quarterIndex(ttm.year, ttm.fiscalPeriod) : Infinity;
+    periods.push(...rollingLtmPeriods(data.quarters ?? []).filter(p => p.index < ttmIndex));
+    if (ttm) {
+      periods.push({
+        period: 'LTM',
+        label: `LTM ${ttm.fiscalPeriod} FY${ttm.year}`,
+        year: ttm.year,
+        values: ttm,
+        index: ttmIndex,
+      });
+    }
+  }
+
+  return periods
+    .sort((a, b) => a.index - b.index)
+    .map(period => testCovenantPeriod(covenant, period, getReportingCurrency(data), rates));
+}
+
+export function formatCovenantValue(metric: CovenantMetric, value: number | null, symbol: string): string {
+  if (value === null) return 'N/A';
+  if (!Number.isFinite(value)) return 'n.m.';
+  const { format } = COVENANT_METRICS[metric];
+  if (format === 'multiple') return `${value.toFixed(2)}x`;
+  if (format === 'ratio') return value.toFixed(2);
+  if (Math.abs(value) >= 1e9) return `${value < 0 ? '-' : ''}${symbol}${(Math.abs(value) / 1e9).toFixed(1)}B`;
+  if (Math.abs(value) >= 1e6) return `${value < 0 ? '-' : ''}${symbol}${(Math.abs(value) / 1e6).toFixed(1)}M`;
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString()}`;
+}
+
+export function formatHeadroom(headroom: number | null): string {
+  if (headroom === null) return '—';
+  if (!Number.isFinite(headroom)) return headroom > 0 ? 'No debt' : 'n.m.';
+  return `${headroom >= 0 ? '+' : ''}${(headroom * 100).toFixed(1)}%`;
+}
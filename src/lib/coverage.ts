@@ -0,0 +1,53 @@
+import { FiscalYearData } from '@/types/financials';
+import { computeLeverage } from '@/lib/leverage';
+
+export interface DebtCoverage {
+  // Interest expense, or cash interest paid when no expense was reported
+  interest: number | null;
+  // Borrowings plus lease liabilities
+  totalDebt: number | null;
+  // Interest, scheduled principal and lease payments due over the next year
+  debtService: number | null;
+  // Funds from operations: EBITDA less interest and tax
+  ffo: number | null;
+  ebitdaToInterest: number | null;
+  ebitToInterest: number | null;
+  dscr: number | null;
+  ffoToDebt: number | null;
+  // Neither borrowings nor interest reported, so coverage ratios are undefined rather than weak
+  isDebtFree: boolean;
+}
+
+const ratio = (numerator: number | null | undefined, denominator: number | null) =>
+  numerator != null && denominator !== null && denominator > 0 ? numerator / denominator : null;
+
+// Coverage of interest and debt service from one period's figures. Operating lease
+// payments are added back to EBITDA and included in debt service, so companies that
+// lease their assets compare with those that borrow to buy them.
+export function computeCoverage(values: FiscalYearData): DebtCoverage {
+  const { ebitda, operatingIncome } = values;
+  const interest = values.interestExpense ?? values.interestPaid ?? null;
+
+  const { borrowings, totalDebt } = computeLeverage(values);
+
+  // Without a tagged current portion, all short-term debt is treated as falling due
+  const principalDue = values.currentPortionOfLongTermDebt ?? values.shortTermDebt ?? 0;
+  const operatingLeasePayments = values.operatingLeasePayments ?? 0;
+  const debtService = interest === null && borrowings === null
+    ? null
+    : (interest ?? 0) + principalDue + (values.financeLeasePayments ?? 0) + operatingLeasePayments;
+
+  const ffo = ebitda !== null ? ebitda - (interest ?? 0) - (values.incomeTaxExpense ?? 0) : null;
+
+  return {
+    interest,
+    totalDebt,
+    debtService,
+    ffo,
+    ebitdaToInterest: ratio(ebitda, interest),
+    ebitToInterest: ratio(operatingIncome, interest),
+    dscr: ratio(ebitda !== null ? ebitda + operatingLeasePayments : null, debtService),
+    ffoToDebt: ratio(ffo, totalDebt),
+    isDebtFree: !interest && !borrowings,
+  };
+}
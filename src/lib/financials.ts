@@ -0,0 +1,60 @@
+import { FiscalYearData, NormalizedFinancials, ValueProvenance } from '@/types/financials';
+
+export interface LatestPeriod {
+  // Matches the period of the value's provenance: 'LTM' or 'FY2024'
+  period: string;
+  label: string;
+  isTrailing: boolean;
+  data: FiscalYearData;
+}
+
+export function getLatestFiscalYear(data: NormalizedFinancials): FiscalYearData | null {
+  const sortedYears = [...data.fiscalYears].sort((a, b) => b.year - a.year);
+  return sortedYears[0] ?? null;
+}
+
+// Prefers the LTM period when 10-Qs have been filed since the last 10-K
+export function getLatestPeriod(data: NormalizedFinancials): LatestPeriod | null {
+  if (data.ttm) {
+    return {
+      period: 'LTM',
+      label: `LTM ${data.ttm.fiscalPeriod} FY${data.ttm.year}`,
+      isTrailing: true,
+      data: data.ttm,
+    };
+  }
+
+  const latestYear = getLatestFiscalYear(data);
+  if (!latestYear) return null;
+  return { period: `FY${latestYear.year}`, label: `FY${latestYear.year}`, isTrailing: false, data: latestYear };
+}
+
+// Data cached before non-USD filers were supported is always in USD
+export function getReportingCurrency(data: NormalizedFinancials | null | undefined): string {
+  return data?.currency ?? 'USD';
+}
+
+// '$', '€', 'CA$'... Letter-only symbols such as 'CHF' get a trailing space.
+export function getCurrencySymbol(currency: string): string {
+  let symbol = currency;
+  try {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency }).formatToParts(0);
+    symbol = parts.find(part => part.type === 'currency')?.value ?? currency;
+  } catch {
+    // Unknown currency code: fall back to the code itself
+  }
+  return /^[A-Z]+$/.test(symbol) ? `${symbol} ` : symbol;
+}
+
+// Provenance facts are kept as filed, before any presentation-currency conversion
+export function getFiledCurrency(data: NormalizedFinancials | null | undefined): string {
+  return data?.fxConversion?.from ?? getReportingCurrency(data);
+}
+
+export function getValueProvenance(
+  data: NormalizedFinancials | null | undefined,
+  period: string,
+  field: ValueProvenance['field']
+): ValueProvenance | undefined {
+  return data?.provenance?.find(p => p.period === period && p.field === field);
+}
@@ -0,0 +1,83 @@
+import { FiscalYearData } from '@/types/financials';
+
+type TemplateField = Exclude<keyof FiscalYearData, 'year'>;
+
+// Row labels of the upload template, in statement order. The import function also
+// accepts the field names themselves and common synonyms.
+export const TEMPLATE_ROWS: Array<{ field: TemplateField; label: string }> = [
+  { field: 'revenue', label: 'Revenue' },
+  { field: 'costOfRevenue', label: 'Cost of Revenue' },
+  { field: 'grossProfit', label: 'Gross Profit' },
+  { field: 'sellingGeneralAndAdministrative', label: 'SG&A' },
+  { field: 'operatingExpenses', label: 'Operating Expenses' },
+  { field: 'operatingIncome', label: 'Operating Income' },
+  { field: 'depreciationAndAmortization', label: 'D&A' },
+  { field: 'ebitda', label: 'EBITDA' },
+  { field: 'interestExpense', label: 'Interest Expense' },
+  { field: 'pretaxIncome', label: 'Pre-Tax Income' },
+  { field: 'incomeTaxExpense', label: 'Income Tax Expense' },
+  { field: 'netIncome', label: 'Net Income' },
+  { field: 'cashAndEquivalents', label: 'Cash & Equivalents' },
+  { field: 'accountsReceivable', label: 'Accounts Receivable' },
+  { field: 'inventory', label: 'Inventory' },
+  { field: 'currentAssets', label: 'Current Assets' },
+  { field: 'propertyPlantAndEquipment', label: 'PP&E' },
+  { field: 'totalAssets', label: 'Total Assets' },
+  { field: 'accountsPayable', label: 'Accounts Payable' },
+  { field: 'shortTermDebt', label: 'Short-Term Debt' },
+  { field: 'currentPortionOfLongTermDebt', label: 'Current Portion of LTD' },
+  { field: 'currentLiabilities', label: 'Current Liabilities' },
+  { field: 'longTermDebt', label: 'Long-Term Debt' },
+  { field: 'operatingLeaseLiabilities', label: 'Operating Lease Liabilities' },
+  { field: 'financeLeaseLiabilities', label: 'Finance Lease Liabilities' },
+  { field: 'totalLiabilities', label: 'Total Liabilities' },
+  { field: 'retainedEarnings', label: 'Retained Earnings' },
+  { field: 'stockholdersEquity', label: "Stockholders' Equity" },
+  { field: 'commonSharesOutstanding', label: 'Shares Outstanding' },
+  { field: 'operatingCashFlow', label: 'Operating Cash Flow' },
+  { field: 'capitalExpenditures', label: 'Capital Expenditures' },
+  { field: 'investingCashFlow', label: 'Investing Cash Flow' },
+  { field: 'dividendsPaid', label: 'Dividends Paid' },
+  { field: 'shareRepurchases', label: 'Share Repurchases' },
+  { field: 'financeLeasePayments', label: 'Finance Lease Principal Payments' },
+  { field: 'financingCashFlow', label: 'Financing Cash Flow' },
+  { field: 'interestPaid', label: 'Interest Paid' },
+  { field: 'operatingLeasePayments', label: 'Operating Lease Payments' },
+  { field: 'debtMaturityYear1', label: 'Debt Maturities, Year 1' },
+  { field: 'debtMaturityYear2', label: 'Debt Maturities, Year 2' },
+  { field: 'debtMaturityYear3', label: 'Debt Maturities, Year 3' },
+  { field: 'debtMaturityYear4', label: 'Debt Maturities, Year 4' },
+  { field: 'debtMaturityYear5', label: 'Debt Maturities, Year 5' },
+  { field: 'debtMaturityAfterYear5', label: 'Debt Maturities, After Year 5' },
+  { field: 'operatingLeaseMaturityYear1', label: 'Operating Lease Payments Due, Year 1' },
+  { field: 'operatingLeaseMaturityYear2', label: 'Operating Lease Payments Due, Year 2' },
+  { field: 'operatingLeaseMaturityYear3', label: 'Operating Lease Payments Due, Year 3' },
+  { field: 'operatingLeaseMaturityYear4', label: 'Operating Lease Payments Due, Year 4' },
+  { field: 'operatingLeaseMaturityYear5', label: 'Operating Lease Payments Due, Year 5' },
+  { field: 'operatingLeaseMaturityAfterYear5', label: 'Operating Lease Payments Due, After Year 5' },
+  { field: 'financeLeaseMaturityYear1', label: 'Finance Lease Payments Due, Year 1' },
+  { field: 'financeLeaseMaturityYear2', label: 'Finance Lease Payments Due, Year 2' },
+  { field: 'financeLeaseMaturityYear3', label: 'Finance Lease Payments Due, Year 3' },
+  { field: 'financeLeaseMaturityYear4', label: 'Finance Lease Payments Due, Year 4' },
+  { field: 'financeLeaseMaturityYear5', label: 'Finance Lease Payments Due, Year 5' },
+  { field: 'financeLeaseMaturityAfterYear5', label: 'Finance Lease Payments Due, After Year 5' },
+];
+
+const csvCell = (value: string) => (/[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Metrics as rows, fiscal years as columns; EBITDA may be left blank to derive it from
+// operating income and D&A
+export function buildTemplateCsv(fiscalYearStart: number, fiscalYearEnd: number, currency = 'USD'): string {
+  const years: string[] = [];
+  for (let year = fiscalYearStart; year <= fiscalYearEnd; year++) years.push(`FY${year}`);
+  const blanks = years.map(() => '');
+
+  return [
+    ['Currency', currency],
+    ['Units', 'units'],
+    ['Metric', ...years],
+    ...TEMPLATE_ROWS.map(row => [row.label, ...blanks]),
+  ]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\n') + '\n';
+}
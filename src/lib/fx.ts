@@ -0,0 +1,153 @@
+import { FiscalYearData, NormalizedFinancials } from '@/types/financials';
+import { getReportingCurrency } from '@/lib/financials';
+import { Tables } from '@/integrations/supabase/types';
+
+export type FxRate = Tables<'fx_rates'>;
+
+export type AmountField = Exclude<keyof FiscalYearData, 'year'>;
+
+// Income statement and cash flow items translate at the period-average rate
+export const FLOW_FIELDS: AmountField[] = [
+  'revenue',
+  'netIncome',
+  'operatingCashFlow',
+  'ebitda',
+  'grossProfit',
+  'operatingIncome',
+  'depreciationAndAmortization',
+  'costOfRevenue',
+  'sellingGeneralAndAdministrative',
+  'operatingExpenses',
+  'interestExpense',
+  'pretaxIncome',
+  'incomeTaxExpense',
+  'capitalExpenditures',
+  'investingCashFlow',
+  'financingCashFlow',
+  'dividendsPaid',
+  'shareRepurchases',
+  'interestPaid',
+  'operatingLeasePayments',
+  'financeLeasePayments',
+];
+
+// Balance sheet items translate at the period-end rate. Share counts aren't amounts
+// and are left as they are.
+const BALANCE_FIELDS: AmountField[] = [
+  'totalAssets',
+  'totalLiabilities',
+  'stockholdersEquity',
+  'longTermDebt',
+  'currentAssets',
+  'currentLiabilities',
+  'cashAndEquivalents',
+  'accountsReceivable',
+  'inventory',
+  'propertyPlantAndEquipment',
+  'accountsPayable',
+  'shortTermDebt',
+  'currentPortionOfLongTermDebt',
+  'operatingLeaseLiabilities',
+  'financeLeaseLiabilities',
+  'retainedEarnings',
+  'debtMaturityYear1',
+  'debtMaturityYear2',
+  'debtMaturityYear3',
+  'debtMaturityYear4',
+  'debtMaturityYear5',
+  'debtMaturityAfterYear5',
+  'operatingLeaseMaturityYear1',
+  'operatingLeaseMaturityYear2',
+  'operatingLeaseMaturityYear3',
+  'operatingLeaseMaturityYear4',
+  'operatingLeaseMaturityYear5',
+  'operatingLeaseMaturityAfterYear5',
+  'financeLeaseMaturityYear1',
+  'financeLeaseMaturityYear2',
+  'financeLeaseMaturityYear3',
+  'financeLeaseMaturityYear4',
+  'financeLeaseMaturityYear5',
+  'financeLeaseMaturityAfterYear5',
+];
+
+interface UsdRates {
+  average: number;
+  closing: number;
+}
+
+// Rates are stored as USD per unit of currency. A quarter without its own rate
+// falls back to the full-year rate.
+function findUsdRates(rates: FxRate[], currency: string, year: number, period: string): UsdRates | null {
+  if (currency === 'USD') return { average: 1, closing: 1 };
+
+  const match = rates.find(r => r.currency === currency && r.year === year && r.period === period)
+    ?? rates.find(r => r.currency === currency && r.year === year && r.period === 'FY');
+  return match ? { average: match.average_rate, closing: match.closing_rate } : null;
+}
+
+// An amount in another currency at a fiscal year's closing rate; null without rates
+// for both currencies
+export function convertAmount(amount: number, from: string, to: string, rates: FxRate[], year: number): number | null {
+  if (from === to) return amount;
+  const source = findUsdRates(rates, from, year, 'FY');
+  const target = findUsdRates(rates, to, year, 'FY');
+  return source && target ? (amount * source.closing) / target.closing : null;
+}
+
+function convertPeriod<T extends FiscalYearData>(
+  period: T,
+  fiscalPeriod: string,
+  label: string,
+  from: string,
+  to: string,
+  rates: FxRate[],
+  missingPeriods: string[]
+): T {
+  const source = findUsdRates(rates, from, period.year, fiscalPeriod);
+  const target = findUsdRates(rates, to, period.year, fiscalPeriod);
+  if (!source || !target) missingPeriods.push(label);
+
+  const converted = { ...period };
+  const translate = (field: AmountField, rate: 'average' | 'closing') => {
+    // Line items are absent on data cached before the three-statement model
+    const value = period[field] ?? null;
+    converted[field] = value === null || !source || !target
+      ? null
+      : (value * source[rate]) / target[rate];
+  };
+
+  FLOW_FIELDS.forEach(field => translate(field, 'average'));
+  BALANCE_FIELDS.forEach(field => translate(field, 'closing'));
+  return converted;
+}
+
+export function getAvailableCurrencies(rates: FxRate[]): string[] {
+  return Array.from(new Set(['USD', ...rates.map(r => r.currency)])).sort();
+}
+
+export function convertFinancials(
+  data: NormalizedFinancials,
+  rates: FxRate[],
+  presentationCurrency: string | null | undefined
+): NormalizedFinancials {
+  const from = getReportingCurrency(data);
+  const to = presentationCurrency || from;
+  if (to === from) return data;
+
+  const missingPeriods: string[] = [];
+
+  return {
+    ...data,
+    currency: to,
+    fiscalYears: data.fiscalYears.map(fy =>
+      convertPeriod(fy, 'FY', `FY${fy.year}`, from, to, rates, missingPeriods)
+    ),
+    quarters: data.quarters?.map(q =>
+      convertPeriod(q, q.fiscalPeriod, `${q.fiscalPeriod} FY${q.year}`, from, to, rates, missingPeriods)
+    ),
+    ttm: data.ttm
+      ? convertPeriod(data.ttm, data.ttm.fiscalPeriod, 'LTM', from, to, rates, missingPeriods)
+      : data.ttm,
+    fxConversion: { from, to, missingPeriods },
+  };
+}
@@ -0,0 +1,49 @@
+import { FiscalYearData } from '@/types/financials';
+
+export interface Leverage {
+  // Current debt, including the current portion of long-term debt, and noncurrent long-term debt
+  borrowings: number | null;
+  // Operating and finance lease liabilities recognised under ASC 842 / IFRS 16
+  leaseLiabilities: number | null;
+  totalDebt: number | null;
+  netDebt: number | null;
+  totalDebtToEbitda: number | null;
+  netDebtToEbitda: number | null;
+  // Total debt over total debt plus stockholders' equity
+  totalDebtToCapitalization: number | null;
+}
+
+const sum = (...values: (number | null | undefined)[]) =>
+  values.every(v => v == null) ? null : values.reduce<number>((total, v) => total + (v ?? 0), 0);
+
+// Lease-adjusted debt and leverage from one period's figures. Lease liabilities
+// count as debt, so companies that lease their assets compare with those that
+// borrow to buy them.
+export function computeLeverage(values: FiscalYearData): Leverage {
+  const { ebitda, cashAndEquivalents } = values;
+
+  // Short-term debt includes the current portion of long-term debt and long-term debt
+  // excludes it, so the two don't overlap
+  const borrowings = sum(values.shortTermDebt, values.longTermDebt);
+  const leaseLiabilities = sum(values.operatingLeaseLiabilities, values.financeLeaseLiabilities);
+  const totalDebt = sum(borrowings, leaseLiabilities);
+  const netDebt = totalDebt !== null && cashAndEquivalents !== null ? totalDebt - cashAndEquivalents : totalDebt;
+
+  // Filers without debt often don't tag it, so the ratios count missing debt as none
+  const debt = totalDebt ?? 0;
+  const equity = values.stockholdersEquity
+    ?? (values.totalAssets !== null && values.totalLiabilities !== null ? values.totalAssets - values.totalLiabilities : null);
+  const capitalization = equity !== null ? debt + equity : null;
+  const hasEbitda = ebitda !== null && ebitda > 0;
+
+  return {
+    borrowings,
+    leaseLiabilities,
+    totalDebt,
+    netDebt,
+    totalDebtToEbitda: hasEbitda ? debt / ebitda : null,
+    netDebtToEbitda: hasEbitda ? (debt - (cashAndEquivalents ?? 0)) / ebitda : null,
+    // An equity deficit takes the ratio above 100%, until capitalization itself turns negative
+    totalDebtToCapitalization: capitalization !== null && capitalization > 0 ? debt / capitalization : null,
+  };
+}
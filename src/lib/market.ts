@@ -0,0 +1,61 @@
+import { NormalizedFinancials } from '@/types/financials';
+import { MarketData } from '@/types/market';
+import { getReportingCurrency, LatestPeriod } from '@/lib/financials';
+import { computeLeverage } from '@/lib/leverage';
+
+export interface Valuation {
+  price: number;
+  asOf: string;
+  sharesOutstanding: number | null;
+  marketCap: number | null;
+  enterpriseValue: number | null;
+  evToEbitda: number | null;
+  pe: number | null;
+  low52: number;
+  high52: number;
+  // Multiples are only meaningful when the financials are in the quote currency
+  currencyMismatch: boolean;
+}
+
+export function computeValuation(
+  market: MarketData,
+  data: NormalizedFinancials,
+  latestPeriod: LatestPeriod | null
+): Valuation | null {
+  const last = market.prices[market.prices.length - 1];
+  if (!last) return null;
+
+  const yearAgo = new Date(last.date);
+  yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+  const window = market.prices.filter(p => p.date > yearAgo.toISOString().slice(0, 10));
+  const low52 = Math.min(...window.map(p => p.low ?? p.close));
+  const high52 = Math.max(...window.map(p => p.high ?? p.close));
+
+  const shares = data.sharesOutstanding?.value ?? null;
+  const marketCap = shares ? shares * last.close : null;
+  const currencyMismatch = getReportingCurrency(data) !== market.currency;
+  const latest = latestPeriod?.data;
+
+  // EV = market cap + borrowings − cash, using the latest balance sheet. Operating lease
+  // liabilities stay out, as EBITDA is struck after rent.
+  const enterpriseValue = marketCap !== null && latest && !currencyMismatch
+    ? marketCap + (computeLeverage(latest).borrowings ?? 0) - (latest.cashAndEquivalents ?? 0)
+    : null;
+
+  return {
+    price: last.close,
+    asOf: last.date,
+    sharesOutstanding: shares,
+    marketCap,
+    enterpriseValue,
+    evToEbitda: enterpriseValue !== null && latest?.ebitda && latest.ebitda > 0
+      ? enterpriseValue / latest.ebitda
+      : null,
+    pe: marketCap !== null && !currencyMismatch && latest?.netIncome && latest.netIncome > 0
+      ? marketCap / latest.netIncome
+      : null,
+    low52,
+    high52,
+    currencyMismatch,
+  };
+}
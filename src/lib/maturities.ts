@@ -0,0 +1,61 @@
+import { FiscalYearData, NormalizedFinancials } from '@/types/financials';
+import { getLatestFiscalYear } from '@/lib/financials';
+
+const BUCKETS = ['Year1', 'Year2', 'Year3', 'Year4', 'Year5', 'AfterYear5'] as const;
+
+export interface MaturityBucket {
+  // 'FY2025' for the year after the balance sheet date, 'Thereafter' for the tail
+  label: string;
+  debt: number;
+  financeLeases: number;
+  operatingLeases: number;
+  total: number;
+}
+
+export interface MaturityLadder {
+  // Fiscal year whose balance sheet the schedule was disclosed with
+  year: number;
+  buckets: MaturityBucket[];
+  cash: number | null;
+  operatingCashFlow: number | null;
+  // Debt principal and finance lease payments due within one and two years. Operating
+  // lease payments are left out, as rent is already paid out of operating cash flow.
+  dueWithinOneYear: number;
+  dueWithinTwoYears: number;
+}
+
+const value = (fy: FiscalYearData, field: keyof FiscalYearData) => (fy[field] as number | null | undefined) ?? null;
+
+// The schedule disclosed with the latest annual report. Schedules are only tagged in
+// 10-Ks, and an older one would understate what has come due since, so none is
+// returned when the latest fiscal year has no schedule.
+export function buildMaturityLadder(data: NormalizedFinancials): MaturityLadder | null {
+  const fy = getLatestFiscalYear(data);
+  if (!fy) return null;
+
+  const rows = BUCKETS.map(bucket => ({
+    bucket,
+    debt: value(fy, `debtMaturity${bucket}`),
+    financeLeases: value(fy, `financeLeaseMaturity${bucket}`),
+    operatingLeases: value(fy, `operatingLeaseMaturity${bucket}`),
+  }));
+  if (rows.every(r => r.debt === null && r.financeLeases === null && r.operatingLeases === null)) return null;
+
+  const buckets = rows.map(({ bucket, debt, financeLeases, operatingLeases }, index) => ({
+    label: bucket === 'AfterYear5' ? 'Thereafter' : `FY${fy.year + index + 1}`,
+    debt: debt ?? 0,
+    financeLeases: financeLeases ?? 0,
+    operatingLeases: operatingLeases ?? 0,
+    total: (debt ?? 0) + (financeLeases ?? 0) + (operatingLeases ?? 0),
+  }));
+  const principalDue = (b: MaturityBucket) => b.debt + b.financeLeases;
+
+  return {
+    year: fy.year,
+    buckets,
+    cash: fy.cashAndEquivalents,
+    operatingCashFlow: fy.operatingCashFlow,
+    dueWithinOneYear: principalDue(buckets[0]),
+    dueWithinTwoYears: principalDue(buckets[0]) + principalDue(buckets[1]),
+  };
+}
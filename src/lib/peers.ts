@@ -0,0 +1,129 @@
+import { NormalizedFinancials } from '@/types/financials';
+import { analyzeCredit } from '@/hooks/useCreditAnalysis';
+import { getLatestFiscalYear, getLatestPeriod } from '@/lib/financials';
+import { convertFinancials, FxRate } from '@/lib/fx';
+
+export interface PeerMetric {
+  key: string;
+  label: string;
+  format: 'ratio' | 'multiple' | 'percent' | 'days' | 'currency';
+  higherIsBetter: boolean;
+}
+
+export interface PeerGroupRow {
+  ticker: string;
+  name: string;
+  isSubject: boolean;
+  // Period the figures are from, e.g. "FY2024" or "LTM Q2 FY2025"; null without data
+  period: string | null;
+  values: Record<string, number | null>;
+}
+
+export interface PeerGroupComparison {
+  metrics: PeerMetric[];
+  rows: PeerGroupRow[];
+  // Median of the peers, excluding the subject
+  medians: Record<string, number | null>;
+  // Subject's position among the companies with a value, 1 being strongest
+  subjectRanks: Record<string, { rank: number; of: number } | null>;
+}
+
+export interface PeerGroupMember {
+  ticker: string;
+  name: string;
+  // In the run's presentation currency so size metrics compare directly
+  data: NormalizedFinancials | null;
+}
+
+// Growth and size, on top of the credit analysis ratios
+const EXTRA_METRICS: PeerMetric[] = [
+  { key: 'revenueGrowth', label: 'Revenue Growth', format: 'percent', higherIsBetter: true },
+  { key: 'revenue', label: 'Revenue', format: 'currency', higherIsBetter: true },
+  { key: 'totalAssets', label: 'Total Assets', format: 'currency', higherIsBetter: true },
+];
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Year-over-year across the last two fiscal years, so peers on LTM compare like-for-like
+function revenueGrowth(data: NormalizedFinancials): number | null {
+  const latest = getLatestFiscalYear(data);
+  const previous = latest ? data.fiscalYears.find(fy => fy.year === latest.year - 1) : null;
+  if (!latest?.revenue || !previous?.revenue) return null;
+  return (latest.revenue - previous.revenue) / Math.abs(previous.revenue);
+}
+
+function toRow(member: PeerGroupMember, isSubject: boolean): { row: PeerGroupRow; metrics: PeerMetric[] } {
+  const analysis = analyzeCredit(member.data);
+  const latest = member.data ? getLatestPeriod(member.data) : null;
+  const ratioMetrics: PeerMetric[] = (analysis?.ratios ?? []).map(ratio => ({
+    key: ratio.name,
+    label: ratio.name,
+    format: ratio.format,
+    higherIsBetter: ratio.higherIsBetter,
+  }));
+
+  const values: Record<string, number | null> = {};
+  for (const ratio of analysis?.ratios ?? []) values[ratio.name] = ratio.value;
+  values.revenueGrowth = member.data ? revenueGrowth(member.data) : null;
+  values.revenue = latest?.data.revenue ?? null;
+  values.totalAssets = latest?.data.totalAssets ?? null;
+
+  return {
+    row: { ticker: member.ticker, name: member.name, isSubject, period: analysis?.period ?? null, values },
+    metrics: ratioMetrics,
+  };
+}
+
+// Lays the subject and its named comp set side by side on every credit ratio plus
+// growth and size, and ranks the subject within the group
+export function buildPeerComparison(subject: PeerGroupMember, peers: PeerGroupMember[]): PeerGroupComparison {
+  const subjectRow = toRow(subject, true);
+  const peerRows = peers.map(peer => toRow(peer, false));
+
+  // Ratio columns come from whichever company has data; every analysis yields the same set
+  const ratioMetrics = [subjectRow, ...peerRows].find(r => r.metrics.length > 0)?.metrics ?? [];
+  const metrics = [...ratioMetrics, ...EXTRA_METRICS];
+  const rows = [subjectRow.row, ...peerRows.map(r => r.row)];
+
+  const medians: PeerGroupComparison['medians'] = {};
+  const subjectRanks: PeerGroupComparison['subjectRanks'] = {};
+  for (const metric of metrics) {
+    const peerValues = peerRows
+      .map(r => r.row.values[metric.key])
+      .filter((value): value is number => value !== null && value !== undefined);
+    medians[metric.key] = median(peerValues);
+
+    const subjectValue = subjectRow.row.values[metric.key];
+    if (subjectValue === null || subjectValue === undefined) {
+      subjectRanks[metric.key] = null;
+      continue;
+    }
+    const stronger = peerValues.filter(v => (metric.higherIsBetter ? v > subjectValue : v < subjectValue)).length;
+    subjectRanks[metric.key] = { rank: stronger + 1, of: peerValues.length + 1 };
+  }
+
+  return { metrics, rows, medians, subjectRanks };
+}
+
+// Pairs the run's peers with their cached financials, converted into the currency the
+// subject is presented in
+export function toPeerMembers(
+  peers: Array<{ ticker: string; name: string | null }>,
+  peerData: Record<string, NormalizedFinancials>,
+  rates: FxRate[],
+  currency: string
+): PeerGroupMember[] {
+  return peers.map(peer => {
+    const data = peerData[peer.ticker];
+    return {
+      ticker: peer.ticker,
+      name: peer.name || data?.entityName || peer.ticker,
+      data: data ? convertFinancials(data, rates, currency) : null,
+    };
+  });
+}
@@ -0,0 +1,99 @@
+import { FiscalYearData, NormalizedFinancials } from '@/types/financials';
+import { StressScenario, StressShocks } from '@/types/scenarios';
+import { getLatestFiscalYear } from '@/lib/financials';
+
+export const DEFAULT_SCENARIOS: StressScenario[] = [
+  {
+    id: 'base',
+    name: 'Base',
+    shocks: { revenueChange: 0, grossMarginChange: 0, rateIncrease: 0, workingCapitalDrain: 0 },
+  },
+  {
+    id: 'downside',
+    name: 'Downside',
+    shocks: { revenueChange: -0.1, grossMarginChange: -0.02, rateIncrease: 0.02, workingCapitalDrain: 0.05 },
+  },
+  {
+    id: 'severe',
+    name: 'Severe',
+    shocks: { revenueChange: -0.25, grossMarginChange: -0.05, rateIncrease: 0.04, workingCapitalDrain: 0.1 },
+  },
+];
+
+// Used when a period's effective tax rate can't be derived
+const STATUTORY_TAX_RATE = 0.21;
+
+const shift = (value: number | null | undefined, delta: number) => (value == null ? value : value + delta);
+
+// Stresses one period. Operating expenses are held fixed, so lost gross profit falls
+// straight through to EBIT; the rate increase applies to all debt at period end.
+// Cash absorbs the lower earnings and the working capital build, and any shortfall
+// is drawn as short-term debt so the balance sheet still balances.
+export function stressPeriod<T extends FiscalYearData>(values: T, shocks: StressShocks): T {
+  const { revenue, grossProfit, operatingIncome, pretaxIncome, incomeTaxExpense } = values;
+
+  const stressedRevenue = revenue !== null ? revenue * (1 + shocks.revenueChange) : null;
+  const margin = revenue && grossProfit !== null ? grossProfit / revenue : null;
+  const stressedGrossProfit = stressedRevenue !== null && margin !== null
+    ? stressedRevenue * (margin + shocks.grossMarginChange)
+    : null;
+  // Without a gross margin, operating income is assumed to scale with revenue
+  const profitChange = stressedGrossProfit !== null && grossProfit !== null
+    ? stressedGrossProfit - grossProfit
+    : (operatingIncome ?? 0) * shocks.revenueChange + (stressedRevenue ?? 0) * shocks.grossMarginChange;
+
+  const totalDebt = (values.shortTermDebt ?? 0) + (values.longTermDebt ?? 0);
+  const interestChange = totalDebt * shocks.rateIncrease;
+
+  const taxRate = pretaxIncome && pretaxIncome > 0 && incomeTaxExpense != null
+    ? Math.min(Math.max(incomeTaxExpense / pretaxIncome, 0), 0.5)
+    : STATUTORY_TAX_RATE;
+  const pretaxChange = profitChange - interestChange;
+  const taxChange = pretaxChange * taxRate;
+  const netIncomeChange = pretaxChange - taxChange;
+
+  const workingCapitalBuild = (stressedRevenue ?? 0) * shocks.workingCapitalDrain;
+  const cash = values.cashAndEquivalents ?? 0;
+  const cashAfter = cash + netIncomeChange - workingCapitalBuild;
+  const borrowing = Math.max(0, -cashAfter);
+  const cashChange = Math.max(0, cashAfter) - cash;
+  const assetChange = workingCapitalBuild + cashChange;
+
+  return {
+    ...values,
+    revenue: stressedRevenue,
+    grossProfit: stressedGrossProfit ?? grossProfit,
+    costOfRevenue: values.costOfRevenue != null && stressedRevenue !== null && stressedGrossProfit !== null
+      ? stressedRevenue - stressedGrossProfit
+      : values.costOfRevenue,
+    operatingIncome: shift(operatingIncome, profitChange),
+    ebitda: shift(values.ebitda, profitChange),
+    // Left unknown rather than invented when no interest was reported
+    interestExpense: shift(values.interestExpense, interestChange),
+    interestPaid: shift(values.interestPaid, interestChange),
+    pretaxIncome: shift(pretaxIncome, pretaxChange),
+    incomeTaxExpense: shift(incomeTaxExpense, taxChange),
+    netIncome: shift(values.netIncome, netIncomeChange),
+    operatingCashFlow: shift(values.operatingCashFlow, netIncomeChange - workingCapitalBuild),
+    cashAndEquivalents: shift(values.cashAndEquivalents, cashChange),
+    accountsReceivable: shift(values.accountsReceivable, workingCapitalBuild),
+    currentAssets: shift(values.currentAssets, assetChange),
+    totalAssets: shift(values.totalAssets, assetChange),
+    shortTermDebt: borrowing > 0 ? (values.shortTermDebt ?? 0) + borrowing : values.shortTermDebt,
+    currentLiabilities: shift(values.currentLiabilities, borrowing),
+    totalLiabilities: shift(values.totalLiabilities, borrowing),
+    stockholdersEquity: shift(values.stockholdersEquity, netIncomeChange),
+    retainedEarnings: shift(values.retainedEarnings, netIncomeChange),
+  };
+}
+
+// The financials with the scenario applied to the periods the credit analysis reads:
+// the LTM period when there is one and the latest fiscal year, which also ends the trend
+export function applyScenario(data: NormalizedFinancials, shocks: StressShocks): NormalizedFinancials {
+  const latestYear = getLatestFiscalYear(data);
+  return {
+    ...data,
+    fiscalYears: data.fiscalYears.map(fy => (fy === latestYear ? stressPeriod(fy, shocks) : fy)),
+    ttm: data.ttm ? stressPeriod(data.ttm, shocks) : data.ttm,
+  };
+}
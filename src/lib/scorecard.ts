@@ -0,0 +1,110 @@
+import { format } from 'date-fns';
+import { ScorecardFactor, ScorecardModel, ScorecardVersion } from '@/types/scorecard';
+
+// The model runs are scored with until an admin publishes a version. The first
+// published version is seeded with the same values.
+export const DEFAULT_SCORECARD_MODEL: ScorecardModel = {
+  factors: [
+    { ratio: 'Current Ratio', weight: 1, thresholds: { good: 0.9, warning: 0.6 } },
+    { ratio: 'Debt-to-Equity', weight: 1, thresholds: { good: 1.0, warning: 1.5 } },
+    { ratio: 'Debt / EBITDA', weight: 1, thresholds: { good: 1.0, warning: 1.5 } },
+    { ratio: 'Net Debt / EBITDA', weight: 1, thresholds: { good: 1.0, warning: 1.6 } },
+    { ratio: 'Debt / Capitalization', weight: 1, thresholds: { good: 1.0, warning: 1.33 } },
+    { ratio: 'Net Profit Margin', weight: 1, thresholds: { good: 0.8, warning: 0.5 } },
+    { ratio: 'Return on Assets', weight: 1, thresholds: { good: 1.0, warning: 0.6 } },
+    { ratio: 'Return on Equity', weight: 1, thresholds: { good: 0.9, warning: 0.5 } },
+    { ratio: 'Quick Ratio', weight: 1, thresholds: { good: 0.9, warning: 0.6 } },
+    { ratio: 'EBITDA / Interest', weight: 1, thresholds: { good: 0.67, warning: 0.33 } },
+    { ratio: 'EBIT / Interest', weight: 1, thresholds: { good: 0.75, warning: 0.375 } },
+    { ratio: 'Debt Service Coverage', weight: 1, thresholds: { good: 0.83, warning: 0.67 } },
+    { ratio: 'FFO / Debt', weight: 1, thresholds: { good: 0.67, warning: 0.4 } },
+    { ratio: 'FCF / Debt', weight: 1, thresholds: { good: 0.67, warning: 0 } },
+    { ratio: 'Capex Intensity', weight: 1, thresholds: { good: 1.0, warning: 2.0 } },
+    { ratio: 'Cash Conversion Cycle', weight: 1, thresholds: { good: 1.0, warning: 1.5 } },
+  ],
+  statusPoints: { good: 100, warning: 60, critical: 20 },
+  flagPenalties: { critical: 15, high: 10, medium: 5, low: 2 },
+  categoryCutoffs: { excellent: 80, good: 65, fair: 50, poor: 35 },
+};
+
+// Ratios where a lower value is stronger, so the good bucket sits below the warning one
+const LOWER_IS_BETTER = new Set([
+  'Debt-to-Equity',
+  'Debt / EBITDA',
+  'Net Debt / EBITDA',
+  'Debt / Capitalization',
+  'Capex Intensity',
+  'Cash Conversion Cycle',
+]);
+
+// A ratio's factor in the model. Ratios a model doesn't list keep the default
+// model's thresholds but are left out of the score, so models published before a
+// ratio was added still score runs the way they did.
+export function getScorecardFactor(model: ScorecardModel, ratio: string): ScorecardFactor {
+  const factor = model.factors.find(f => f.ratio === ratio);
+  if (factor) return factor;
+
+  const fallback = DEFAULT_SCORECARD_MODEL.factors.find(f => f.ratio === ratio);
+  return { ratio, weight: 0, thresholds: fallback?.thresholds ?? { good: 1.0, warning: 1.5 } };
+}
+
+// The version in force on a date: the latest effective one, and of versions
+// effective the same day the one published last. Effective dates are calendar days
+// in the user's time zone.
+export function getActiveScorecard(versions: ScorecardVersion[], asOf = new Date()): ScorecardVersion | null {
+  const day = format(asOf, 'yyyy-MM-dd');
+  return versions
+    .filter(v => v.effective_date <= day)
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date) || b.version_number - a.version_number)[0] ?? null;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Problems with a model an admin has entered as JSON; empty when it can be published
+export function validateScorecardModel(model: unknown): string[] {
+  if (typeof model !== 'object' || model === null || Array.isArray(model)) return ['Model must be a JSON object'];
+  const { factors, statusPoints, flagPenalties, categoryCutoffs } = model as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!Array.isArray(factors) || factors.length === 0) {
+    errors.push('factors must be a non-empty array');
+  } else {
+    const known = new Set(DEFAULT_SCORECARD_MODEL.factors.map(f => f.ratio));
+    const seen = new Set<string>();
+    factors.forEach((factor, index) => {
+      const { ratio, weight, thresholds } = (factor ?? {}) as Record<string, unknown>;
+      const label = typeof ratio === 'string' ? ratio : `factors[${index}]`;
+      if (typeof ratio !== 'string' || !known.has(ratio)) errors.push(`${label}: unknown ratio`);
+      else if (seen.has(ratio)) errors.push(`${label}: listed more than once`);
+      else seen.add(ratio);
+      if (!isNumber(weight) || weight < 0) errors.push(`${label}: weight must be a non-negative number`);
+      const bounds = (thresholds ?? {}) as Record<string, unknown>;
+      if (!isNumber(bounds.good) || !isNumber(bounds.warning)) {
+        errors.push(`${label}: thresholds need numeric good and warning`);
+      } else if (typeof ratio === 'string' && known.has(ratio)) {
+        // Buckets in the wrong order leave the warning status unreachable
+        const lowerIsBetter = LOWER_IS_BETTER.has(ratio);
+        if (lowerIsBetter ? bounds.good >= bounds.warning : bounds.good <= bounds.warning) {
+          errors.push(`${label}: good threshold must be ${lowerIsBetter ? 'below' : 'above'} warning, as ${lowerIsBetter ? 'lower' : 'higher'} is better`);
+        }
+      }
+    });
+    if (!factors.some(f => isNumber(f?.weight) && f.weight > 0)) errors.push('At least one factor needs a positive weight');
+  }
+
+  const requireNumbers = (name: string, value: unknown, keys: string[]) => {
+    const record = (value ?? {}) as Record<string, unknown>;
+    const missing = keys.filter(key => !isNumber(record[key]));
+    if (missing.length > 0) errors.push(`${name} needs numbers for ${missing.join(', ')}`);
+  };
+  requireNumbers('statusPoints', statusPoints, ['good', 'warning', 'critical']);
+  requireNumbers('flagPenalties', flagPenalties, ['critical', 'high', 'medium', 'low']);
+  requireNumbers('categoryCutoffs', categoryCutoffs, ['excellent', 'good', 'fair', 'poor']);
+
+  const cutoffs = (categoryCutoffs ?? {}) as Record<string, number>;
+  if (!(cutoffs.excellent > cutoffs.good && cutoffs.good > cutoffs.fair && cutoffs.fair > cutoffs.poor)) {
+    errors.push('categoryCutoffs must descend from excellent to poor');
+  }
+
+  return errors;
+}
@@ -0,0 +1,290 @@
+import { FiscalYearData, NormalizedFinancials } from '@/types/financials';
+import { getLatestFiscalYear } from '@/lib/financials';
+
+export interface ScoreComponent {
+  label: string;
+  // Input ratio, or 1/0 for a Piotroski pass/fail signal; null when it couldn't be computed
+  value: number | null;
+  // Coefficient in the model; null for pass/fail signals
+  weight: number | null;
+  contribution: number | null;
+  // Beneish indices that can't be computed are set to the neutral 1.0
+  imputed: boolean;
+}
+
+export type AltmanZone = 'safe' | 'grey' | 'distress';
+export type PiotroskiZone = 'strong' | 'moderate' | 'weak';
+export type BeneishZone = 'unlikely' | 'possible' | 'likely';
+
+export interface ModelScore<Zone extends string> {
+  // Variant of the model that was applied, e.g. "Altman Z''"
+  model: string;
+  score: number | null;
+  // Null when missing inputs leave the classification open
+  zone: Zone | null;
+  components: ScoreComponent[];
+  // Inputs that weren't reported
+  missing: string[];
+  // Fiscal years the score was computed on, e.g. "FY2024" or "FY2024 vs FY2023"
+  period: string | null;
+  note: string | null;
+}
+
+export interface DistressScores {
+  altman: ModelScore<AltmanZone>;
+  piotroski: ModelScore<PiotroskiZone>;
+  beneish: ModelScore<BeneishZone>;
+}
+
+type Values = FiscalYearData;
+
+const div = (a: number | null | undefined, b: number | null | undefined) =>
+  a != null && b != null && b !== 0 ? a / b : null;
+
+function bookEquity(values: Values): number | null {
+  return values.stockholdersEquity ?? (values.totalAssets !== null && values.totalLiabilities !== null
+    ? values.totalAssets - values.totalLiabilities
+    : null);
+}
+
+function totalLiabilities(values: Values): number | null {
+  const equity = values.stockholdersEquity;
+  return values.totalLiabilities ?? (values.totalAssets !== null && equity != null ? values.totalAssets - equity : null);
+}
+
+function weighted(label: string, value: number | null, weight: number, imputed = false): ScoreComponent {
+  return { label, value, weight, contribution: value !== null ? value * weight : null, imputed };
+}
+
+// SIC major groups 20-39 are manufacturing, the population the original Z was fitted on
+function isManufacturer(sicCode: string | null): boolean {
+  const sic = sicCode ? parseInt(sicCode, 10) : NaN;
+  return sic >= 2000 && sic < 4000;
+}
+
+interface AltmanVariant {
+  model: string;
+  weights: [number, number, number, number, number | null];
+  safe: number;
+  distress: number;
+  note: string;
+}
+
+const ALTMAN_Z: AltmanVariant = {
+  model: 'Altman Z',
+  weights: [1.2, 1.4, 3.3, 0.6, 1.0],
+  safe: 2.99,
+  distress: 1.81,
+  note: 'Original model for public manufacturers, on market value of equity',
+};
+
+const ALTMAN_Z_PRIME: AltmanVariant = {
+  model: "Altman Z'",
+  weights: [0.717, 0.847, 3.107, 0.42, 0.998],
+  safe: 2.9,
+  distress: 1.23,
+  note: 'Manufacturer model on book equity, as no market capitalization is available',
+};
+
+const ALTMAN_Z_DOUBLE_PRIME: AltmanVariant = {
+  model: "Altman Z''",
+  weights: [6.56, 3.26, 6.72, 1.05, null],
+  safe: 2.6,
+  distress: 1.1,
+  note: 'Non-manufacturer model, without asset turnover so asset-light industries compare fairly',
+};
+
+export function computeAltmanZ(
+  values: Values | null,
+  sicCode: string | null,
+  marketCap: number | null = null
+): ModelScore<AltmanZone> {
+  const variant = !isManufacturer(sicCode)
+    ? ALTMAN_Z_DOUBLE_PRIME
+    : marketCap !== null ? ALTMAN_Z : ALTMAN_Z_PRIME;
+  const [w1, w2, w3, w4, w5] = variant.weights;
+
+  const totalAssets = values?.totalAssets ?? null;
+  const liabilities = values ? totalLiabilities(values) : null;
+  const equity = variant === ALTMAN_Z ? marketCap : values ? bookEquity(values) : null;
+  const workingCapital = values?.currentAssets != null && values.currentLiabilities != null
+    ? values.currentAssets - values.currentLiabilities
+    : null;
+
+  const components = [
+    weighted('Working Capital / Total Assets', div(workingCapital, totalAssets), w1),
+    weighted('Retained Earnings / Total Assets', div(values?.retainedEarnings, totalAssets), w2),
+    weighted('EBIT / Total Assets', div(values?.operatingIncome, totalAssets), w3),
+    weighted(
+      variant === ALTMAN_Z ? 'Market Value of Equity / Total Liabilities' : 'Book Equity / Total Liabilities',
+      div(equity, liabilities),
+      w4
+    ),
+  ];
+  if (w5 !== null) components.push(weighted('Revenue / Total Assets', div(values?.revenue, totalAssets), w5));
+
+  const missing = components.filter(c => c.value === null).map(c => c.label);
+  const score = missing.length === 0 ? components.reduce((sum, c) => sum + c.contribution!, 0) : null;
+  let zone: AltmanZone | null = null;
+  if (score !== null) zone = score > variant.safe ? 'safe' : score < variant.distress ? 'distress' : 'grey';
+
+  return {
+    model: variant.model,
+    score,
+    zone,
+    components,
+    missing,
+    period: values ? `FY${values.year}` : null,
+    note: `${variant.note}. Safe above ${variant.safe}, distress below ${variant.distress}.`,
+  };
+}
+
+interface Signal {
+  label: string;
+  passed: boolean | null;
+}
+
+function compare(a: number | null, b: number | null, passes: (a: number, b: number) => boolean): boolean | null {
+  return a !== null && b !== null ? passes(a, b) : null;
+}
+
+export function computePiotroskiF(current: Values | null, prior: Values | null): ModelScore<PiotroskiZone> {
+  const roa = (v: Values | null) => div(v?.netIncome, v?.totalAssets);
+  // Debt-free filers often don't tag long-term debt at all
+  const leverage = (v: Values | null) => (v?.totalAssets ? div(v.longTermDebt ?? 0, v.totalAssets) : null);
+  const currentRatio = (v: Values | null) => div(v?.currentAssets, v?.currentLiabilities);
+  const grossMargin = (v: Values | null) => div(v?.grossProfit, v?.revenue);
+  const assetTurnover = (v: Values | null) => div(v?.revenue, v?.totalAssets);
+
+  const signals: Signal[] = [
+    { label: 'Positive return on assets', passed: compare(roa(current), 0, (a, b) => a > b) },
+    { label: 'Positive operating cash flow', passed: compare(current?.operatingCashFlow ?? null, 0, (a, b) => a > b) },
+    { label: 'Improving return on assets', passed: compare(roa(current), roa(prior), (a, b) => a > b) },
+    {
+      label: 'Operating cash flow exceeds net income',
+      passed: compare(current?.operatingCashFlow ?? null, current?.netIncome ?? null, (a, b) => a > b),
+    },
+    {
+      label: 'Lower long-term debt to assets',
+      passed: compare(leverage(current), leverage(prior), (a, b) => a < b || (a === 0 && b === 0)),
+    },
+    { label: 'Higher current ratio', passed: compare(currentRatio(current), currentRatio(prior), (a, b) => a > b) },
+    {
+      label: 'No new shares issued',
+      passed: compare(current?.commonSharesOutstanding ?? null, prior?.commonSharesOutstanding ?? null, (a, b) => a <= b),
+    },
+    { label: 'Higher gross margin', passed: compare(grossMargin(current), grossMargin(prior), (a, b) => a > b) },
+    { label: 'Higher asset turnover', passed: compare(assetTurnover(current), assetTurnover(prior), (a, b) => a > b) },
+  ];
+
+  const components: ScoreComponent[] = signals.map(signal => ({
+    label: signal.label,
+    value: signal.passed === null ? null : Number(signal.passed),
+    weight: null,
+    contribution: signal.passed === null ? null : Number(signal.passed),
+    imputed: false,
+  }));
+  const missing = signals.filter(s => s.passed === null).map(s => s.label);
+  const evaluated = signals.length - missing.length;
+  const score = current && prior && evaluated > 0 ? signals.filter(s => s.passed).length : null;
+
+  // Only classify when no outcome of the unevaluated signals could change the zone
+  let zone: PiotroskiZone | null = null;
+  if (score !== null) {
+    const best = score + missing.length;
+    if (score >= 8) zone = 'strong';
+    else if (best <= 2) zone = 'weak';
+    else if (score >= 3 && best <= 7) zone = 'moderate';
+  }
+
+  return {
+    model: 'Piotroski F',
+    score,
+    zone,
+    components,
+    missing: current && prior ? missing : ['Prior fiscal year'],
+    period: current && prior ? `FY${current.year} vs FY${prior.year}` : null,
+    note: `${evaluated} of ${signals.length} signals evaluated. Strong at 8-9, weak at 0-2.`,
+  };
+}
+
+const BENEISH_INTERCEPT = -4.84;
+const BENEISH_LIKELY = -1.78;
+const BENEISH_POSSIBLE = -2.22;
+// More neutral substitutions than this and the score mostly reflects the intercept
+const MAX_IMPUTED_INDICES = 3;
+
+export function computeBeneishM(current: Values | null, prior: Values | null): ModelScore<BeneishZone> {
+  const t = current;
+  const p = prior;
+  const receivablesToSales = (v: Values | null) => div(v?.accountsReceivable, v?.revenue);
+  const grossMargin = (v: Values | null) => div(v?.grossProfit, v?.revenue);
+  const softAssets = (v: Values | null) =>
+    v?.totalAssets && v.currentAssets !== null && v.propertyPlantAndEquipment != null
+      ? 1 - (v.currentAssets + v.propertyPlantAndEquipment) / v.totalAssets
+      : null;
+  const depreciationRate = (v: Values | null) =>
+    v?.depreciationAndAmortization != null && v.propertyPlantAndEquipment != null
+      ? div(v.depreciationAndAmortization, v.depreciationAndAmortization + v.propertyPlantAndEquipment)
+      : null;
+  const sgaToSales = (v: Values | null) => div(v?.sellingGeneralAndAdministrative, v?.revenue);
+  const leverage = (v: Values | null) =>
+    v?.totalAssets && v.currentLiabilities !== null
+      ? (v.currentLiabilities + (v.longTermDebt ?? 0)) / v.totalAssets
+      : null;
+
+  const indices: Array<[label: string, value: number | null, weight: number]> = [
+    ['Days Sales in Receivables Index', div(receivablesToSales(t), receivablesToSales(p)), 0.92],
+    ['Gross Margin Index', div(grossMargin(p), grossMargin(t)), 0.528],
+    ['Asset Quality Index', div(softAssets(t), softAssets(p)), 0.404],
+    ['Sales Growth Index', div(t?.revenue, p?.revenue), 0.892],
+    ['Depreciation Index', div(depreciationRate(p), depreciationRate(t)), 0.115],
+    ['SG&A Index', div(sgaToSales(t), sgaToSales(p)), -0.172],
+    ['Leverage Index', div(leverage(t), leverage(p)), -0.327],
+  ];
+
+  // Accruals can't be imputed: they carry the largest weight in the model
+  const accruals = t?.netIncome !== null && t?.netIncome !== undefined && t.operatingCashFlow !== null
+    ? div(t.netIncome - t.operatingCashFlow, t.totalAssets)
+    : null;
+
+  const components = [
+    ...indices.map(([label, value, weight]) => weighted(label, value ?? 1, weight, value === null)),
+    weighted('Total Accruals to Total Assets', accruals, 4.679),
+  ];
+  const imputed = components.filter(c => c.imputed).map(c => c.label);
+  const missing = accruals === null ? [...imputed, 'Total Accruals to Total Assets'] : imputed;
+
+  const computable = t && p && accruals !== null && imputed.length <= MAX_IMPUTED_INDICES;
+  const score = computable
+    ? components.reduce((sum, c) => sum + c.contribution!, BENEISH_INTERCEPT)
+    : null;
+  let zone: BeneishZone | null = null;
+  if (score !== null) zone = score > BENEISH_LIKELY ? 'likely' : score > BENEISH_POSSIBLE ? 'possible' : 'unlikely';
+
+  return {
+    model: 'Beneish M',
+    score,
+    zone,
+    components,
+    missing: t && p ? missing : ['Prior fiscal year'],
+    period: t && p ? `FY${t.year} vs FY${p.year}` : null,
+    note: imputed.length > 0
+      ? `${imputed.length} ${imputed.length === 1 ? 'index' : 'indices'} set to a neutral 1.0 for missing inputs. Manipulation likely above ${BENEISH_LIKELY}.`
+      : `Manipulation likely above ${BENEISH_LIKELY}, possible above ${BENEISH_POSSIBLE}.`,
+  };
+}
+
+// Academic distress and earnings-quality models on the latest two fiscal years.
+// Market capitalization, when known and in the reporting currency, selects the
+// original Altman Z for manufacturers.
+export function computeDistressScores(data: NormalizedFinancials, marketCap: number | null = null): DistressScores {
+  const current = getLatestFiscalYear(data);
+  const prior = current ? data.fiscalYears.find(fy => fy.year === current.year - 1) ?? null : null;
+
+  return {
+    altman: computeAltmanZ(current, data.sicCode, marketCap),
+    piotroski: computePiotroskiF(current, prior),
+    beneish: computeBeneishM(current, prior),
+  };
+}
@@ -0,0 +1,160 @@
+import {
+  BalanceSheet,
+  CashFlowStatement,
+  FinancialStatements,
+  FiscalYearData,
+  IncomeStatement,
+} from '@/types/financials';
+import { computeLeverage } from '@/lib/leverage';
+import { computeCashFlow } from '@/lib/cashflow';
+
+export interface StatementLine<K extends string = string> {
+  key: K;
+  label: string;
+  // Subtotals and totals are emphasised in statement tables
+  kind?: 'subtotal' | 'total';
+  // Share counts are shown without a currency symbol
+  unit?: 'shares';
+}
+
+export const INCOME_STATEMENT_LINES: StatementLine<keyof IncomeStatement>[] = [
+  { key: 'revenue', label: 'Revenue', kind: 'total' },
+  { key: 'costOfRevenue', label: 'Cost of Revenue' },
+  { key: 'grossProfit', label: 'Gross Profit', kind: 'subtotal' },
+  { key: 'sellingGeneralAndAdministrative', label: 'SG&A' },
+  { key: 'operatingExpenses', label: 'Operating Expenses' },
+  { key: 'operatingIncome', label: 'Operating Income', kind: 'subtotal' },
+  { key: 'depreciationAndAmortization', label: 'D&A' },
+  { key: 'ebitda', label: 'EBITDA', kind: 'subtotal' },
+  { key: 'interestExpense', label: 'Interest Expense' },
+  { key: 'pretaxIncome', label: 'Pre-Tax Income', kind: 'subtotal' },
+  { key: 'incomeTaxExpense', label: 'Income Tax Expense' },
+  { key: 'netIncome', label: 'Net Income', kind: 'total' },
+];
+
+export const BALANCE_SHEET_LINES: StatementLine<keyof BalanceSheet>[] = [
+  { key: 'cashAndEquivalents', label: 'Cash & Equivalents' },
+  { key: 'accountsReceivable', label: 'Accounts Receivable' },
+  { key: 'inventory', label: 'Inventory' },
+  { key: 'currentAssets', label: 'Current Assets', kind: 'subtotal' },
+  { key: 'propertyPlantAndEquipment', label: 'PP&E, Net' },
+  { key: 'totalAssets', label: 'Total Assets', kind: 'total' },
+  { key: 'accountsPayable', label: 'Accounts Payable' },
+  { key: 'shortTermDebt', label: 'Short-Term Debt' },
+  { key: 'currentPortionOfLongTermDebt', label: 'of which Current Portion of LTD' },
+  { key: 'currentLiabilities', label: 'Current Liabilities', kind: 'subtotal' },
+  { key: 'longTermDebt', label: 'Long-Term Debt' },
+  { key: 'operatingLeaseLiabilities', label: 'Operating Lease Liabilities' },
+  { key: 'financeLeaseLiabilities', label: 'Finance Lease Liabilities' },
+  { key: 'totalLiabilities', label: 'Total Liabilities', kind: 'total' },
+  { key: 'retainedEarnings', label: 'Retained Earnings' },
+  { key: 'stockholdersEquity', label: "Stockholders' Equity", kind: 'total' },
+  { key: 'workingCapital', label: 'Working Capital', kind: 'subtotal' },
+  { key: 'totalDebt', label: 'Total Debt', kind: 'subtotal' },
+  { key: 'netDebt', label: 'Net Debt', kind: 'subtotal' },
+  { key: 'commonSharesOutstanding', label: 'Shares Outstanding', unit: 'shares' },
+];
+
+export const CASH_FLOW_LINES: StatementLine<keyof CashFlowStatement>[] = [
+  { key: 'operatingCashFlow', label: 'Operating Cash Flow', kind: 'total' },
+  { key: 'capitalExpenditures', label: 'Capital Expenditures' },
+  { key: 'freeCashFlow', label: 'Free Cash Flow', kind: 'subtotal' },
+  { key: 'investingCashFlow', label: 'Investing Cash Flow', kind: 'total' },
+  { key: 'dividendsPaid', label: 'Dividends Paid' },
+  { key: 'shareRepurchases', label: 'Share Repurchases' },
+  { key: 'financeLeasePayments', label: 'Finance Lease Principal Payments' },
+  { key: 'financingCashFlow', label: 'Financing Cash Flow', kind: 'total' },
+  { key: 'interestPaid', label: 'Interest Paid' },
+  { key: 'operatingLeasePayments', label: 'Operating Lease Payments' },
+];
+
+// How each computed line is built, for tooltips
+export const DERIVATIONS: Record<string, string> = {
+  grossProfit: 'Revenue − cost of revenue',
+  operatingIncome: 'Gross profit − operating expenses',
+  totalLiabilities: "Total assets − stockholders' equity",
+  workingCapital: 'Current assets − current liabilities',
+  totalDebt: 'Short-term debt + long-term debt + operating and finance lease liabilities',
+  netDebt: 'Total debt − cash & equivalents',
+  freeCashFlow: 'Operating cash flow − capital expenditures (none when not reported)',
+};
+
+const minus = (a: number | null, b: number | null) => (a === null || b === null ? null : a - b);
+
+// Arranges a period's flat line items into statements. Subtotals the filing didn't
+// report are computed from their components when those are all present.
+export function buildStatements(values: FiscalYearData): FinancialStatements {
+  const derived: string[] = [];
+  const line = (value: number | null | undefined) => value ?? null;
+  const reportedOr = (key: string, value: number | null | undefined, fallback: number | null) => {
+    if (value != null) return value;
+    if (fallback !== null) derived.push(key);
+    return fallback;
+  };
+  const computed = (key: string, value: number | null) => {
+    if (value !== null) derived.push(key);
+    return value;
+  };
+
+  const grossProfit = reportedOr('grossProfit', values.grossProfit, minus(line(values.revenue), line(values.costOfRevenue)));
+
+  const { totalDebt, netDebt } = computeLeverage(values);
+  const cash = line(values.cashAndEquivalents);
+
+  const incomeStatement: IncomeStatement = {
+    revenue: line(values.revenue),
+    costOfRevenue: line(values.costOfRevenue),
+    grossProfit,
+    sellingGeneralAndAdministrative: line(values.sellingGeneralAndAdministrative),
+    operatingExpenses: line(values.operatingExpenses),
+    operatingIncome: reportedOr('operatingIncome', values.operatingIncome, minus(grossProfit, line(values.operatingExpenses))),
+    depreciationAndAmortization: line(values.depreciationAndAmortization),
+    ebitda: line(values.ebitda),
+    interestExpense: line(values.interestExpense),
+    pretaxIncome: line(values.pretaxIncome),
+    incomeTaxExpense: line(values.incomeTaxExpense),
+    netIncome: line(values.netIncome),
+  };
+
+  const balanceSheet: BalanceSheet = {
+    cashAndEquivalents: cash,
+    accountsReceivable: line(values.accountsReceivable),
+    inventory: line(values.inventory),
+    currentAssets: line(values.currentAssets),
+    propertyPlantAndEquipment: line(values.propertyPlantAndEquipment),
+    totalAssets: line(values.totalAssets),
+    accountsPayable: line(values.accountsPayable),
+    shortTermDebt: line(values.shortTermDebt),
+    currentPortionOfLongTermDebt: line(values.currentPortionOfLongTermDebt),
+    currentLiabilities: line(values.currentLiabilities),
+    longTermDebt: line(values.longTermDebt),
+    operatingLeaseLiabilities: line(values.operatingLeaseLiabilities),
+    financeLeaseLiabilities: line(values.financeLeaseLiabilities),
+    totalLiabilities: reportedOr(
+      'totalLiabilities',
+      values.totalLiabilities,
+      minus(line(values.totalAssets), line(values.stockholdersEquity))
+    ),
+    retainedEarnings: line(values.retainedEarnings),
+    stockholdersEquity: line(values.stockholdersEquity),
+    commonSharesOutstanding: line(values.commonSharesOutstanding),
+    workingCapital: computed('workingCapital', minus(line(values.currentAssets), line(values.currentLiabilities))),
+    totalDebt: computed('totalDebt', totalDebt),
+    netDebt: computed('netDebt', netDebt),
+  };
+
+  const cashFlow: CashFlowStatement = {
+    operatingCashFlow: line(values.operatingCashFlow),
+    capitalExpenditures: line(values.capitalExpenditures),
+    freeCashFlow: computed('freeCashFlow', computeCashFlow(values).freeCashFlow),
+    investingCashFlow: line(values.investingCashFlow),
+    dividendsPaid: line(values.dividendsPaid),
+    shareRepurchases: line(values.shareRepurchases),
+    financeLeasePayments: line(values.financeLeasePayments),
+    financingCashFlow: line(values.financingCashFlow),
+    interestPaid: line(values.interestPaid),
+    operatingLeasePayments: line(values.operatingLeasePayments),
+  };
+
+  return { incomeStatement, balanceSheet, cashFlow, derived };
+}
@@ -20,11 +20,15 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { Settings, Users, Save, Loader2, Activity, FileText, CheckCircle, Clock } from 'lucide-react';
+import { Settings, Users, Save, Loader2, Activity, FileText, CheckCircle, Clock, RefreshCw } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import type { AppRole } from '@/lib/auth';
+import { ConceptMappingsCard } from '@/components/admin/ConceptMappingsCard';
+import { FxRatesCard } from '@/components/admin/FxRatesCard';
+import { ScorecardCard } from '@/components/admin/ScorecardCard';
+import { useRefreshCompanyDirectory } from '@/hooks/useCompanySearch';
 
 interface ActivityItem {
   id: string;
@@ -37,6 +41,7 @@ interface ActivityItem {
 export default function Admin() {
   const queryClient = useQueryClient();
   const [secContactEmail, setSecContactEmail] = useState('');
+  const refreshDirectory = useRefreshCompanyDirectory();
 
   const { data: users, isLoading } = useQuery({
     queryKey: ['admin-users'],
@@ -314,9 +319,38 @@ export default function Admin() {
               Required by SEC EDGAR for API access. Must be a valid email address.
             </p>
           </div>
+          <div className="max-w-md space-y-2">
+            <Label>Company Directory</Label>
+            <div>
+              <Button
+                variant="outline"
+                onClick={() => refreshDirectory.mutate()}
+                disabled={refreshDirectory.isPending}
+              >
+                {refreshDirectory.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Refresh Now
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              SEC tickers and CIKs used by the New Run company search. Refreshed daily.
+            </p>
+          </div>
         </CardContent>
       </Card>
 
+      {/* XBRL Concept Mapping */}
+      <ConceptMappingsCard />
+
+      {/* FX Rates */}
+      <FxRatesCard />
+
+      {/* Credit Scorecard */}
+      <ScorecardCard />
+
       {/* Users Card */}
       <Card className="glass-card">
         <CardHeader>
@@ -14,6 +14,7 @@ import { Button } from '@/components/ui/button';
 import { CheckSquare, Eye } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
+import { formatCompanyIdentifier } from '@/lib/companies';
 
 export default function Approvals() {
   const { data: pendingRuns, isLoading } = useQuery({
@@ -25,7 +26,7 @@ export default function Approvals() {
           id,
           name,
           created_at,
-          companies (ticker, name)
+          companies (ticker, cik, name, is_private)
         `)
         .eq('status', 'pending_review')
         .order('created_at', { ascending: true });
@@ -82,7 +83,7 @@ export default function Approvals() {
                   <TableRow key={run.id}>
                     <TableCell className="font-medium">{run.name}</TableCell>
                     <TableCell>
-                      <span className="font-mono">{run.companies?.ticker}</span>
+                      <span className="font-mono">{formatCompanyIdentifier(run.companies)}</span>
                       <span className="ml-2 text-muted-foreground">{run.companies?.name}</span>
                     </TableCell>
                     <TableCell className="text-muted-foreground">
@@ -6,6 +6,7 @@ import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Skeleton } from '@/components/ui/skeleton';
+import { formatCompanyIdentifier } from '@/lib/companies';
 
 export default function Dashboard() {
   const { profile, role } = useAuth();
@@ -158,7 +159,7 @@ function RecentRuns() {
           name,
           status,
           created_at,
-          companies (ticker, name)
+          companies (ticker, cik, name, is_private)
         `)
         .order('created_at', { ascending: false })
         .limit(5);
@@ -201,7 +202,7 @@ function RecentRuns() {
           <div>
             <p className="font-medium">{run.name}</p>
             <p className="text-sm text-muted-foreground">
-              {run.companies?.ticker} • {run.companies?.name}
+              {formatCompanyIdentifier(run.companies)} • {run.companies?.name}
             </p>
           </div>
           <StatusBadge status={run.status} />
@@ -22,6 +22,15 @@ import { PitchbookPrintContent } from '@/components/export/PitchbookPrintContent
 import { CreditMemoPrintContent } from '@/components/export/CreditMemoPrintContent';
 import { useExport } from '@/hooks/useExport';
 import type { NormalizedFinancials } from '@/types/financials';
+import type { MarketData } from '@/types/market';
+import type { Covenant } from '@/types/covenants';
+import type { RunAdjustment } from '@/types/adjustments';
+import { applyAdjustments } from '@/lib/adjustments';
+import { convertFinancials, FxRate } from '@/lib/fx';
+import { formatCompanyIdentifier } from '@/lib/companies';
+import { getLatestPeriod, getReportingCurrency } from '@/lib/financials';
+import { computeValuation } from '@/lib/market';
+import { buildPeerComparison, PeerGroupComparison, toPeerMembers } from '@/lib/peers';
 
 export default function Exports() {
   const { handlePrint } = useExport();
@@ -34,10 +43,14 @@ export default function Exports() {
       status: string;
       fiscal_year_start: number;
       fiscal_year_end: number;
-      companies: { ticker: string; name: string; description?: string | null } | null;
+      companies: { ticker: string | null; cik: string | null; name: string; description?: string | null } | null;
     };
     data: NormalizedFinancials | null;
     content: Record<string, unknown> | null;
+    peerComparison: PeerGroupComparison | null;
+    marketCap: number | null;
+    covenants: Covenant[];
+    fxRates: FxRate[];
   } | null>(null);
 
   const { data: approvedRuns, isLoading } = useQuery({
@@ -52,7 +65,8 @@ export default function Exports() {
           reviewed_at,
           fiscal_year_start,
           fiscal_year_end,
-          companies (ticker, name, description)
+          presentation_currency,
+          companies (ticker, cik, name, description, is_private)
         `)
         .in('status', ['approved', 'draft', 'pending_review'])
         .order('reviewed_at', { ascending: false, nullsFirst: false });
@@ -64,7 +78,7 @@ export default function Exports() {
 
   const handlePreview = async (run: typeof approvedRuns extends (infer T)[] | null | undefined ? T : never, type: 'pitchbook' | 'credit-memo') => {
     // Fetch the run's data and latest version
-    const [dataResult, versionResult] = await Promise.all([
+    const [dataResult, versionResult, fxResult, peersResult, peerDataResult, pricesResult, covenantsResult, adjustmentsResult] = await Promise.all([
       supabase
         .from('run_data_cache')
         .select('raw_data')
@@ -73,17 +87,63 @@ export default function Exports() {
         .maybeSingle(),
       supabase
         .from('run_versions')
-        .select('pitchbook_content, credit_memo_content')
+        .select('pitchbook_content, credit_memo_content, kpis, adjustments')
         .eq('run_id', run.id)
         .order('version_number', { ascending: false })
         .limit(1)
         .maybeSingle(),
+      supabase.from('fx_rates').select('*'),
+      supabase.from('run_peers').select('ticker, name').eq('run_id', run.id).order('created_at'),
+      supabase
+        .from('run_data_cache')
+        .select('data_type, raw_data')
+        .eq('run_id', run.id)
+        .like('data_type', 'peer_financials:%'),
+      supabase
+        .from('run_data_cache')
+        .select('raw_data')
+        .eq('run_id', run.id)
+        .eq('data_type', 'prices')
+        .maybeSingle(),
+      supabase.from('run_covenants').select('*').eq('run_id', run.id).order('created_at'),
+      supabase.from('run_adjustments').select('*').eq('run_id', run.id).order('created_at'),
     ]);
 
-    const financialData = dataResult.data?.raw_data as unknown as NormalizedFinancials | null;
+    // Adjusted the way the exported version's score was, with the ledger snapshot it was
+    // saved with; versions saved before adjustments fall back to the run's current ledger
+    const adjustments = (versionResult.data?.adjustments ?? adjustmentsResult.data ?? []) as unknown as RunAdjustment[];
+    const cachedData = dataResult.data?.raw_data as unknown as NormalizedFinancials | null;
+    const financialData = cachedData
+      ? convertFinancials(applyAdjustments(cachedData, adjustments), fxResult.data ?? [], run.presentation_currency)
+      : null;
+    const peers = peersResult.data ?? [];
+    const peerData = Object.fromEntries(
+      (peerDataResult.data ?? []).map(row => [
+        row.data_type.replace('peer_financials:', ''),
+        row.raw_data as unknown as NormalizedFinancials,
+      ])
+    );
+    const peerComparison = financialData && peers.length > 0
+      ? buildPeerComparison(
+        { ticker: formatCompanyIdentifier(run.companies), name: run.companies?.name ?? financialData.entityName, data: financialData },
+        toPeerMembers(peers, peerData, fxResult.data ?? [], getReportingCurrency(financialData))
+      )
+      : null;
+    const marketData = pricesResult.data?.raw_data as unknown as MarketData | null;
+    const valuation = marketData && financialData
+      ? computeValuation(marketData, financialData, getLatestPeriod(financialData))
+      : null;
+    // The credit memo shows the score recorded when the version was saved, not a re-score
+    // under whichever scorecard is in effect now
+    const kpis = versionResult.data?.kpis as Record<string, number | string | null> | null | undefined;
     const versionContent = type === 'pitchbook' 
       ? versionResult.data?.pitchbook_content 
-      : versionResult.data?.credit_memo_content;
+      : versionResult.data?.credit_memo_content && {
+        ...(versionResult.data.credit_memo_content as Record<string, unknown>),
+        creditScore: kpis?.creditScore ?? undefined,
+        creditCategory: kpis?.creditCategory ?? undefined,
+        scorecardVersion: kpis?.scorecardVersion ?? undefined,
+      };
 
     setSelectedRun({
       run: {
@@ -96,6 +156,10 @@ export default function Exports() {
       },
       data: financialData,
       content: versionContent as Record<string, unknown> | null,
+      peerComparison,
+      marketCap: valuation && !valuation.currencyMismatch ? valuation.marketCap : null,
+      covenants: (covenantsResult.data ?? []) as unknown as Covenant[],
+      fxRates: fxResult.data ?? [],
     });
     setPreviewType(type);
     setPreviewOpen(true);
@@ -160,7 +224,7 @@ export default function Exports() {
                   <TableRow key={run.id}>
                     <TableCell className="font-medium">{run.name}</TableCell>
                     <TableCell>
-                      <span className="font-mono">{run.companies?.ticker}</span>
+                      <span className="font-mono">{formatCompanyIdentifier(run.companies)}</span>
                       <span className="ml-2 text-muted-foreground">{run.companies?.name}</span>
                     </TableCell>
                     <TableCell>
@@ -233,11 +297,15 @@ export default function Exports() {
                       data={selectedRun.data}
                       content={selectedRun.content as { companyOverview?: string; investmentHighlights?: string; industryLandscape?: string; keyRisks?: string } | null}
                       company={selectedRun.run.companies}
+                      peerComparison={selectedRun.peerComparison}
                     />
                   ) : (
                     <CreditMemoPrintContent
                       data={selectedRun.data}
-                      content={selectedRun.content as { summary?: string; creditScore?: number; creditCategory?: string; ratios?: Array<{ name: string; value: number; benchmark: number; status: string }>; riskFlags?: Array<{ severity: string; category: string; description: string }> } | null}
+                      content={selectedRun.content as { summary?: string; creditScore?: number; creditCategory?: string; scorecardVersion?: number; ratios?: Array<{ name: string; value: number; benchmark: number; status: string }>; riskFlags?: Array<{ severity: string; category: string; description: string }> } | null}
+                      marketCap={selectedRun.marketCap}
+                      covenants={selectedRun.covenants}
+                      fxRates={selectedRun.fxRates}
                     />
                   )}
                 </PrintableDocument>
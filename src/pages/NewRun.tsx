@@ -7,16 +7,23 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { Loader2, ArrowLeft, ArrowRight, Building2, Calendar, FileText } from 'lucide-react';
+import { Loader2, ArrowLeft, ArrowRight, Building2, Calendar, FileText, AlertTriangle } from 'lucide-react';
+import { CompanySearch } from '@/components/run/CompanySearch';
+import { DirectoryEntry, resolveCompany, useExistingCompany } from '@/hooks/useCompanySearch';
+import { formatCompanyIdentifier } from '@/lib/companies';
 
 type Step = 'company' | 'period' | 'details';
 
 interface FormData {
+  // Private companies have no SEC filings; their financials are uploaded on the run
+  isPrivate: boolean;
   ticker: string;
   cik: string;
   companyName: string;
+  sicCode: string;
   description: string;
   runName: string;
   fiscalYearStart: number;
@@ -31,9 +38,11 @@ export default function NewRun() {
   const currentYear = new Date().getFullYear();
 
   const [formData, setFormData] = useState<FormData>({
+    isPrivate: false,
     ticker: '',
     cik: '',
     companyName: '',
+    sicCode: '',
     description: '',
     runName: '',
     fiscalYearStart: currentYear - 3,
@@ -44,12 +53,31 @@ export default function NewRun() {
     mutationFn: async (data: FormData) => {
       if (!user) throw new Error('Not authenticated');
 
-      // First, create or find the company
-      const { data: existingCompany } = await supabase
-        .from('companies')
-        .select('id')
-        .eq('ticker', data.ticker.toUpperCase())
-        .maybeSingle();
+      const ticker = data.isPrivate ? '' : data.ticker.trim().toUpperCase();
+      const cik = !data.isPrivate && data.cik.trim() ? data.cik.trim().padStart(10, '0') : '';
+
+      // First, create or find the company; registrants without a ticker are matched on CIK,
+      // and private companies on name
+      const { data: existingCompany } = data.isPrivate
+        ? await supabase
+          .from('companies')
+          .select('id')
+          .eq('is_private', true)
+          .ilike('name', data.companyName.trim())
+          .limit(1)
+          .maybeSingle()
+        : ticker
+        ? await supabase
+          .from('companies')
+          .select('id')
+          .eq('ticker', ticker)
+          .maybeSingle()
+        : await supabase
+          .from('companies')
+          .select('id')
+          .eq('cik', cik)
+          .limit(1)
+          .maybeSingle();
 
       let companyId: string;
 
@@ -59,9 +87,11 @@ export default function NewRun() {
         const { data: newCompany, error: companyError } = await supabase
           .from('companies')
           .insert({
-            ticker: data.ticker.toUpperCase(),
-            cik: data.cik || null,
+            ticker: ticker || null,
+            cik: cik || null,
+            is_private: data.isPrivate,
             name: data.companyName,
+            sic_code: data.sicCode || null,
             description: data.description || null,
             created_by: user.id,
           })
@@ -100,6 +130,35 @@ export default function NewRun() {
     },
   });
 
+  const [isResolving, setIsResolving] = useState(false);
+  const { data: existingCompany } = useExistingCompany(
+    formData.isPrivate ? '' : formData.ticker.trim(),
+    !formData.isPrivate && /^\d+$/.test(formData.cik.trim()) ? formData.cik.trim().padStart(10, '0') : ''
+  );
+
+  const handleCompanySelect = async (entry: DirectoryEntry) => {
+    setFormData((prev) => ({
+      ...prev,
+      isPrivate: false,
+      ticker: entry.ticker,
+      cik: entry.cik,
+      companyName: entry.name,
+      sicCode: entry.sic_code ?? '',
+    }));
+    if (entry.sic_code) return;
+
+    // SIC codes are looked up from EDGAR the first time a company is picked
+    setIsResolving(true);
+    try {
+      const resolved = await resolveCompany(entry.cik);
+      if (resolved?.sic_code) updateForm('sicCode', resolved.sic_code);
+    } catch {
+      // Leave SIC blank; it is filled in on the first data fetch
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
   const steps: { key: Step; title: string; icon: React.ElementType }[] = [
     { key: 'company', title: 'Company', icon: Building2 },
     { key: 'period', title: 'Period', icon: Calendar },
@@ -109,7 +168,8 @@ export default function NewRun() {
   const canProceed = () => {
     switch (step) {
       case 'company':
-        return formData.ticker.trim() && formData.companyName.trim();
+        return (formData.isPrivate || formData.ticker.trim() || /^\d{1,10}$/.test(formData.cik.trim())) &&
+          formData.companyName.trim();
       case 'period':
         return formData.fiscalYearStart <= formData.fiscalYearEnd;
       case 'details':
@@ -132,7 +192,7 @@ export default function NewRun() {
     else if (step === 'details') setStep('period');
   };
 
-  const updateForm = (field: keyof FormData, value: string | number) => {
+  const updateForm = (field: keyof FormData, value: string | number | boolean) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
@@ -207,42 +267,94 @@ export default function NewRun() {
         <CardContent className="space-y-6">
           {step === 'company' && (
             <>
-              <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Find Company</Label>
+                <CompanySearch onSelect={handleCompanySelect} />
+                <p className="text-xs text-muted-foreground">
+                  Search the SEC directory to fill in the details below, or enter them manually
+                </p>
+              </div>
+              {existingCompany && (
+                <div className="flex items-start gap-2 rounded-md border border-warning/30 bg-warning/10 p-3 text-sm">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-warning" />
+                  <p>
+                    <span className="font-mono font-medium">{formatCompanyIdentifier(existingCompany)}</span> - {existingCompany.name} already
+                    exists. The new run will be added to the existing company.
+                  </p>
+                </div>
+              )}
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="isPrivate"
+                  checked={formData.isPrivate}
+                  onCheckedChange={(checked) => updateForm('isPrivate', checked === true)}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="isPrivate">Private company</Label>
+                  <p className="text-xs text-muted-foreground">
+                    No ticker or CIK needed; upload the company's financials from a CSV or Excel file on the run
+                  </p>
+                </div>
+              </div>
+              {!formData.isPrivate && (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="ticker">Ticker Symbol</Label>
+                    <Input
+                      id="ticker"
+                      placeholder="AAPL"
+                      value={formData.ticker}
+                      onChange={(e) => updateForm('ticker', e.target.value.toUpperCase())}
+                      className="bg-background font-mono"
+                      maxLength={10}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Share classes like BRK.B are supported. Leave blank for bond-only issuers
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cik">CIK</Label>
+                    <Input
+                      id="cik"
+                      placeholder="0000320193"
+                      value={formData.cik}
+                      onChange={(e) => updateForm('cik', e.target.value)}
+                      className="bg-background font-mono"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      SEC Central Index Key; required when there is no ticker
+                    </p>
+                  </div>
+                </div>
+              )}
+              <div className="grid gap-4 sm:grid-cols-[1fr_140px]">
                 <div className="space-y-2">
-                  <Label htmlFor="ticker">Ticker Symbol *</Label>
+                  <Label htmlFor="companyName">Company Name *</Label>
                   <Input
-                    id="ticker"
-                    placeholder="AAPL"
-                    value={formData.ticker}
-                    onChange={(e) => updateForm('ticker', e.target.value.toUpperCase())}
-                    className="bg-background font-mono"
-                    maxLength={10}
+                    id="companyName"
+                    placeholder="Apple Inc."
+                    value={formData.companyName}
+                    onChange={(e) => updateForm('companyName', e.target.value)}
+                    className="bg-background"
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="cik">CIK (Optional)</Label>
-                  <Input
-                    id="cik"
-                    placeholder="0000320193"
-                    value={formData.cik}
-                    onChange={(e) => updateForm('cik', e.target.value)}
-                    className="bg-background font-mono"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    SEC Central Index Key for EDGAR lookups
-                  </p>
+                  <Label htmlFor="sicCode">SIC Code</Label>
+                  <div className="relative">
+                    <Input
+                      id="sicCode"
+                      placeholder="3571"
+                      value={formData.sicCode}
+                      onChange={(e) => updateForm('sicCode', e.target.value)}
+                      className="bg-background font-mono"
+                      maxLength={4}
+                    />
+                    {isResolving && (
+                      <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin text-muted-foreground" />
+                    )}
+                  </div>
                 </div>
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="companyName">Company Name *</Label>
-                <Input
-                  id="companyName"
-                  placeholder="Apple Inc."
-                  value={formData.companyName}
-                  onChange={(e) => updateForm('companyName', e.target.value)}
-                  className="bg-background"
-                />
-              </div>
               <div className="space-y-2">
                 <Label htmlFor="description">Description (Optional)</Label>
                 <Textarea
@@ -298,7 +410,7 @@ export default function NewRun() {
                 <Label htmlFor="runName">Run Name *</Label>
                 <Input
                   id="runName"
-                  placeholder={`${formData.ticker} FY${formData.fiscalYearStart}-${formData.fiscalYearEnd} Analysis`}
+                  placeholder={`${formData.ticker || formData.companyName} FY${formData.fiscalYearStart}-${formData.fiscalYearEnd} Analysis`}
                   value={formData.runName}
                   onChange={(e) => updateForm('runName', e.target.value)}
                   className="bg-background"
@@ -315,7 +427,7 @@ export default function NewRun() {
                   <div className="flex justify-between">
                     <dt className="text-muted-foreground">Company</dt>
                     <dd className="font-medium">
-                      {formData.ticker} - {formData.companyName}
+                      {formData.ticker ? `${formData.ticker} - ${formData.companyName}` : formData.companyName}
                     </dd>
                   </div>
                   <div className="flex justify-between">
@@ -330,6 +442,12 @@ export default function NewRun() {
                       <dd className="font-mono">{formData.cik}</dd>
                     </div>
                   )}
+                  {formData.sicCode && (
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">SIC</dt>
+                      <dd className="font-mono">{formData.sicCode}</dd>
+                    </div>
+                  )}
                 </dl>
               </div>
             </div>
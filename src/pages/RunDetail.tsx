@@ -4,6 +4,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   ArrowLeft, 
   Database, 
@@ -21,10 +28,22 @@ import { CreditMemoTab } from '@/components/run/CreditMemoTab';
 import { VersionsTab } from '@/components/run/VersionsTab';
 import { ApprovalPanel } from '@/components/run/ApprovalPanel';
 import { useSECData, useFetchSECData } from '@/hooks/useSECData';
+import { useMarketData, useFetchMarketData } from '@/hooks/useMarketData';
+import { useAdjustments } from '@/hooks/useAdjustments';
+import { useCovenants } from '@/hooks/useCovenants';
+import { useIndustryBenchmarks } from '@/hooks/useBenchmarks';
+import { useRunScorecard } from '@/hooks/useScorecards';
+import { useCreditAnalysis } from '@/hooks/useCreditAnalysis';
+import { applyAdjustments } from '@/lib/adjustments';
+import { computeValuation } from '@/lib/market';
+import { getLatestFiscalYear, getLatestPeriod, getReportingCurrency } from '@/lib/financials';
+import { convertFinancials, getAvailableCurrencies } from '@/lib/fx';
+import { useFxRates, useSetPresentationCurrency } from '@/hooks/useFxRates';
 import { useValidation } from '@/hooks/useValidation';
 import { useSaveVersion, useVersions, useLatestVersion, PitchbookContent, CreditMemoContent } from '@/hooks/useVersions';
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { toast } from 'sonner';
+import { formatCompanyIdentifier } from '@/lib/companies';
 
 export default function RunDetail() {
   const { id } = useParams<{ id: string }>();
@@ -45,12 +64,48 @@ export default function RunDetail() {
     enabled: !!id,
   });
 
-  const { data: secData, isLoading: isLoadingSEC } = useSECData(id);
+  const { data: rawSecData, isLoading: isLoadingSEC } = useSECData(id);
   const fetchSECData = useFetchSECData();
+  const { data: marketData } = useMarketData(id);
+  const fetchMarketData = useFetchMarketData();
+  const { data: fxRates } = useFxRates();
+  const setPresentationCurrency = useSetPresentationCurrency();
+  const { data: adjustments } = useAdjustments(id);
+
+  // As reported, for reconciling against the adjusted figures
+  const reportedData = useMemo(() => {
+    if (!rawSecData) return null;
+    return convertFinancials(rawSecData.data, fxRates ?? [], run?.presentation_currency);
+  }, [rawSecData, fxRates, run?.presentation_currency]);
+
+  // Every tab works off the adjusted figures in the run's presentation currency.
+  // Adjustments are recorded in the reporting currency, so they apply before conversion.
+  const secData = useMemo(() => {
+    if (!rawSecData) return rawSecData;
+    return {
+      ...rawSecData,
+      data: convertFinancials(
+        applyAdjustments(rawSecData.data, adjustments ?? []),
+        fxRates ?? [],
+        run?.presentation_currency
+      ),
+    };
+  }, [rawSecData, adjustments, fxRates, run?.presentation_currency]);
+
   const { validationResult, addOverride, removeOverride } = useValidation(secData?.data);
+
+  // Scored as the credit memo shows it, so each saved version records its score and scorecard
+  const peerYear = secData?.data ? getLatestFiscalYear(secData.data)?.year ?? null : null;
+  const { data: peers } = useIndustryBenchmarks(secData?.data?.sicCode, peerYear);
+  const { data: covenants } = useCovenants(id);
   const saveVersion = useSaveVersion();
   const { data: versions } = useVersions(id);
   const { data: latestVersion } = useLatestVersion(id);
+  const { data: scorecard } = useRunScorecard(
+    latestVersion?.scorecard_version_id,
+    !!run && run.status !== 'draft' && !!latestVersion
+  );
+  const creditAnalysis = useCreditAnalysis(secData?.data ?? null, peers ?? null, covenants, scorecard ?? null, fxRates);
   
   const [pitchbookContent, setPitchbookContent] = useState<PitchbookContent | null>(null);
   const [creditMemoContent, setCreditMemoContent] = useState<CreditMemoContent | null>(null);
@@ -83,12 +138,32 @@ export default function RunDetail() {
     
     // Build KPIs from financial data
     const kpis: Record<string, number | string | null> = {};
-    if (secData?.data?.fiscalYears?.length) {
-      const latestYear = secData.data.fiscalYears[secData.data.fiscalYears.length - 1];
-      if (latestYear.revenue) kpis['revenue'] = latestYear.revenue;
-      if (latestYear.netIncome) kpis['netIncome'] = latestYear.netIncome;
-      if (latestYear.ebitda) kpis['ebitda'] = latestYear.ebitda;
-      if (latestYear.totalAssets) kpis['totalAssets'] = latestYear.totalAssets;
+    const latestPeriod = secData?.data ? getLatestPeriod(secData.data) : null;
+    if (latestPeriod) {
+      const latest = latestPeriod.data;
+      kpis['period'] = latestPeriod.label;
+      kpis['currency'] = getReportingCurrency(secData?.data);
+      if (latest.revenue) kpis['revenue'] = latest.revenue;
+      if (latest.netIncome) kpis['netIncome'] = latest.netIncome;
+      if (latest.ebitda) kpis['ebitda'] = latest.ebitda;
+      if (latest.totalAssets) kpis['totalAssets'] = latest.totalAssets;
+
+      const valuation = marketData && secData?.data
+        ? computeValuation(marketData.data, secData.data, latestPeriod)
+        : null;
+      if (valuation) {
+        kpis['sharePrice'] = valuation.price;
+        kpis['priceDate'] = valuation.asOf;
+        if (valuation.marketCap) kpis['marketCap'] = valuation.marketCap;
+        if (valuation.enterpriseValue) kpis['enterpriseValue'] = valuation.enterpriseValue;
+        if (valuation.evToEbitda) kpis['evToEbitda'] = valuation.evToEbitda;
+        if (valuation.pe) kpis['pe'] = valuation.pe;
+      }
+    }
+    if (creditAnalysis) {
+      kpis['creditScore'] = Math.round(creditAnalysis.overallScore);
+      kpis['creditCategory'] = creditAnalysis.scoreCategory;
+      if (creditAnalysis.scorecardVersion !== null) kpis['scorecardVersion'] = creditAnalysis.scorecardVersion;
     }
 
     saveVersion.mutate({
@@ -96,22 +171,38 @@ export default function RunDetail() {
       kpis: Object.keys(kpis).length > 0 ? kpis : null,
       pitchbookContent,
       creditMemoContent,
+      adjustments: adjustments ?? [],
+      scorecardVersionId: scorecard?.id ?? null,
     }, {
       onSuccess: () => setHasUnsavedChanges(false),
     });
-  }, [id, secData, pitchbookContent, creditMemoContent, saveVersion]);
+  }, [id, secData, marketData, adjustments, pitchbookContent, creditMemoContent, creditAnalysis, scorecard, saveVersion]);
+
+  // Private companies have no SEC filings; their financials are uploaded instead
+  const canFetchSEC = !!run?.companies && !run.companies.is_private && !!(run.companies.ticker || run.companies.cik);
 
   const handleFetchData = (forceRefresh = false) => {
-    if (!id || !run?.companies?.ticker) return;
+    if (!id || !run?.companies || !canFetchSEC) return;
     fetchSECData.mutate({
       runId: id,
-      ticker: run.companies.ticker,
+      ticker: run.companies.ticker ?? undefined,
+      cik: run.companies.cik ?? undefined,
       fiscalYearStart: run.fiscal_year_start,
       fiscalYearEnd: run.fiscal_year_end,
       forceRefresh,
     });
   };
 
+  const handleFetchMarketData = (forceRefresh = false) => {
+    if (!id) return;
+    fetchMarketData.mutate({ runId: id, forceRefresh });
+  };
+
+  const handleImportPrices = (csv: string, currency: string) => {
+    if (!id) return;
+    fetchMarketData.mutate({ runId: id, csv, currency });
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-6 animate-fade-in">
@@ -146,6 +237,18 @@ export default function RunDetail() {
   };
 
   const canEdit = run.status === 'draft';
+  const reportingCurrency = rawSecData ? getReportingCurrency(rawSecData.data) : null;
+  const currencyOptions = reportingCurrency
+    ? Array.from(new Set([...getAvailableCurrencies(fxRates ?? []), reportingCurrency])).sort()
+    : [];
+
+  const handlePresentationCurrencyChange = (currency: string) => {
+    setPresentationCurrency.mutate({
+      runId: run.id,
+      currency: currency === reportingCurrency ? null : currency,
+    });
+    setHasUnsavedChanges(true);
+  };
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -164,15 +267,35 @@ export default function RunDetail() {
             )}
           </div>
           <p className="mt-1 text-muted-foreground">
-            <span className="font-mono">{run.companies?.ticker}</span> • {run.companies?.name} • 
+            <span className="font-mono">{formatCompanyIdentifier(run.companies)}</span> • {run.companies?.name} • 
             FY{run.fiscal_year_start} - FY{run.fiscal_year_end}
           </p>
         </div>
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={() => handleFetchData(true)} disabled={fetchSECData.isPending}>
-            <RefreshCw className={`mr-2 h-4 w-4 ${fetchSECData.isPending ? 'animate-spin' : ''}`} />
-            Refresh Data
-          </Button>
+          {reportingCurrency && (
+            <Select
+              value={run.presentation_currency ?? reportingCurrency}
+              onValueChange={handlePresentationCurrencyChange}
+              disabled={!canEdit || setPresentationCurrency.isPending}
+            >
+              <SelectTrigger className="h-9 w-36 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions.map(currency => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}{currency === reportingCurrency ? ' (reported)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {canFetchSEC && (
+            <Button variant="outline" size="sm" onClick={() => handleFetchData(true)} disabled={fetchSECData.isPending}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${fetchSECData.isPending ? 'animate-spin' : ''}`} />
+              Refresh Data
+            </Button>
+          )}
           {canEdit && (
             <Button 
               size="sm" 
@@ -199,7 +322,21 @@ export default function RunDetail() {
         </TabsList>
 
         <TabsContent value="data">
-          <DataTab data={secData} isLoading={isLoadingSEC} isFetching={fetchSECData.isPending} onFetchData={handleFetchData} />
+          <DataTab
+            data={secData}
+            reportedData={reportedData}
+            adjustments={adjustments}
+            adjustmentCurrency={rawSecData ? getReportingCurrency(rawSecData.data) : undefined}
+            readOnly={!canEdit}
+            runId={run.id}
+            companyId={run.company_id}
+            fiscalYearStart={run.fiscal_year_start}
+            fiscalYearEnd={run.fiscal_year_end}
+            canFetchSEC={canFetchSEC}
+            isLoading={isLoadingSEC}
+            isFetching={fetchSECData.isPending}
+            onFetchData={handleFetchData}
+          />
         </TabsContent>
 
         <TabsContent value="validation">
@@ -212,16 +349,26 @@ export default function RunDetail() {
             company={run.companies}
             pitchbookContent={pitchbookContent}
             onContentChange={handlePitchbookChange}
+            marketData={marketData}
+            isFetchingMarketData={fetchMarketData.isPending}
+            onFetchMarketData={handleFetchMarketData}
+            onImportPrices={handleImportPrices}
+            runId={run.id}
+            fiscalYearStart={run.fiscal_year_start}
+            fiscalYearEnd={run.fiscal_year_end}
             readOnly={!canEdit}
           />
         </TabsContent>
 
         <TabsContent value="credit-memo">
           <CreditMemoTab 
+            runId={id!}
             data={secData?.data ?? null} 
             isLoading={isLoadingSEC}
             creditMemoContent={creditMemoContent}
             onContentChange={handleCreditMemoChange}
+            marketData={marketData}
+            scorecard={scorecard ?? null}
             readOnly={!canEdit}
           />
         </TabsContent>
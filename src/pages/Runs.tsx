@@ -23,6 +23,7 @@ import {
 import { Plus, Search, FileText, Loader2 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
+import { formatCompanyIdentifier } from '@/lib/companies';
 
 type RunStatus = 'all' | 'draft' | 'pending_review' | 'approved' | 'rejected';
 
@@ -43,7 +44,7 @@ export default function Runs() {
           fiscal_year_end,
           created_at,
           updated_at,
-          companies (id, ticker, name)
+          companies (id, ticker, cik, name, is_private)
         `)
         .order('updated_at', { ascending: false });
 
@@ -160,7 +161,7 @@ export default function Runs() {
                     </TableCell>
                     <TableCell>
                       <div>
-                        <span className="font-mono text-sm">{run.companies?.ticker}</span>
+                        <span className="font-mono text-sm">{formatCompanyIdentifier(run.companies)}</span>
                         <span className="ml-2 text-muted-foreground">
                           {run.companies?.name}
                         </span>
@@ -0,0 +1,31 @@
+// Analyst adjustments layered on top of reported financials
+
+import { FiscalYearData } from '@/types/financials';
+
+export type AdjustableField = Exclude<keyof FiscalYearData, 'year'>;
+
+// Overrides replace the reported value; add-backs are signed deltas that stack
+export type AdjustmentKind = 'override' | 'add_back';
+
+export interface RunAdjustment {
+  id: string;
+  run_id: string;
+  // 'FY2024' or 'LTM'
+  period: string;
+  field: AdjustableField;
+  kind: AdjustmentKind;
+  // In the financials' reporting currency
+  amount: number;
+  reason: string;
+  note: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface AdjustedCell {
+  period: string;
+  field: AdjustableField;
+  reported: number | null;
+  adjusted: number | null;
+  entries: RunAdjustment[];
+}
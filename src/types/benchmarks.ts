@@ -0,0 +1,21 @@
+// Peer distributions built from SEC XBRL frames for a SIC code and year
+
+export type BenchmarkMetric = 'currentRatio' | 'debtToEquity' | 'grossMargin' | 'netMargin' | 'roa' | 'interestCoverage';
+
+export interface MetricDistribution {
+  peerCount: number;
+  p25: number;
+  median: number;
+  p75: number;
+  // Ascending, for percentile ranks
+  values: number[];
+}
+
+export interface IndustryBenchmarks {
+  sicCode: string;
+  year: number;
+  // Filers in the SIC code that reported any of the inputs
+  peerCount: number;
+  metrics: Partial<Record<BenchmarkMetric, MetricDistribution>>;
+  builtAt: string;
+}
@@ -0,0 +1,56 @@
+// Financial covenants of the facility being underwritten
+
+export type CovenantMetric =
+  | 'debtToEbitda'
+  | 'netDebtToEbitda'
+  | 'interestCoverage'
+  | 'dscr'
+  | 'currentRatio'
+  | 'debtToEquity'
+  | 'netWorth'
+  | 'liquidity';
+
+// '<=' for maintenance maximums such as leverage, '>=' for minimums such as coverage
+export type CovenantOperator = '<=' | '>=';
+
+// Quarterly covenants are also tested on the trailing twelve months to each quarter end
+export type CovenantFrequency = 'quarterly' | 'annual';
+
+// Replaces the threshold from the given fiscal year on
+export interface CovenantStepDown {
+  fromYear: number;
+  threshold: number;
+}
+
+export interface Covenant {
+  id: string;
+  run_id: string;
+  name: string;
+  metric: CovenantMetric;
+  operator: CovenantOperator;
+  // Amount thresholds are in `currency`, converted to the figures' currency when tested
+  threshold: number;
+  frequency: CovenantFrequency;
+  step_downs: CovenantStepDown[];
+  // Currency amount thresholds are written in; null for ratio covenants, and for amount
+  // covenants set before it was recorded, which are read in the figures' currency
+  currency: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export type CovenantStatus = 'pass' | 'tight' | 'breach' | 'untested';
+
+export interface CovenantTest {
+  // 'FY2024', 'LTM Q2 FY2024' for an earlier quarter end, 'LTM' for the latest one,
+  // or a stress scenario's id for pro forma tests
+  period: string;
+  label: string;
+  value: number | null;
+  // In the figures' currency; null when an amount threshold can't be converted
+  threshold: number | null;
+  // Distance to the threshold as a share of it; negative when breached
+  headroom: number | null;
+  status: CovenantStatus;
+  proForma: boolean;
+}
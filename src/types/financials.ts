@@ -1,6 +1,57 @@
 // SEC Financial data types
 
-export interface FiscalYearData {
+// Line items of the three-statement model beyond the headline figures. Expenses and
+// payments are positive as filed. Absent on data cached before the model was expanded.
+export interface StatementLineItems {
+  costOfRevenue?: number | null;
+  sellingGeneralAndAdministrative?: number | null;
+  operatingExpenses?: number | null;
+  interestExpense?: number | null;
+  pretaxIncome?: number | null;
+  incomeTaxExpense?: number | null;
+  accountsReceivable?: number | null;
+  inventory?: number | null;
+  propertyPlantAndEquipment?: number | null;
+  accountsPayable?: number | null;
+  // All debt due within a year: short-term borrowings and current maturities
+  shortTermDebt?: number | null;
+  // Long-term debt falling due within a year; included in shortTermDebt
+  currentPortionOfLongTermDebt?: number | null;
+  operatingLeaseLiabilities?: number | null;
+  financeLeaseLiabilities?: number | null;
+  retainedEarnings?: number | null;
+  // In shares rather than currency
+  commonSharesOutstanding?: number | null;
+  capitalExpenditures?: number | null;
+  investingCashFlow?: number | null;
+  financingCashFlow?: number | null;
+  dividendsPaid?: number | null;
+  shareRepurchases?: number | null;
+  interestPaid?: number | null;
+  operatingLeasePayments?: number | null;
+  financeLeasePayments?: number | null;
+  // Scheduled principal and undiscounted lease payments, by year after the balance sheet date
+  debtMaturityYear1?: number | null;
+  debtMaturityYear2?: number | null;
+  debtMaturityYear3?: number | null;
+  debtMaturityYear4?: number | null;
+  debtMaturityYear5?: number | null;
+  debtMaturityAfterYear5?: number | null;
+  operatingLeaseMaturityYear1?: number | null;
+  operatingLeaseMaturityYear2?: number | null;
+  operatingLeaseMaturityYear3?: number | null;
+  operatingLeaseMaturityYear4?: number | null;
+  operatingLeaseMaturityYear5?: number | null;
+  operatingLeaseMaturityAfterYear5?: number | null;
+  financeLeaseMaturityYear1?: number | null;
+  financeLeaseMaturityYear2?: number | null;
+  financeLeaseMaturityYear3?: number | null;
+  financeLeaseMaturityYear4?: number | null;
+  financeLeaseMaturityYear5?: number | null;
+  financeLeaseMaturityAfterYear5?: number | null;
+}
+
+export interface FiscalYearData extends StatementLineItems {
   year: number;
   revenue: number | null;
   netIncome: number | null;
@@ -11,26 +62,203 @@ export interface FiscalYearData {
   ebitda: number | null;
   grossProfit: number | null;
   operatingIncome: number | null;
+  depreciationAndAmortization: number | null;
+  // Excluding current maturities, which are in shortTermDebt
   longTermDebt: number | null;
   currentAssets: number | null;
   currentLiabilities: number | null;
   cashAndEquivalents: number | null;
 }
 
+export type EbitdaMethod = 'reported_da' | 'da_components' | 'partial_da' | 'operating_income_only';
+
+// How EBITDA (operating income + D&A) was assembled for one period
+export interface EbitdaDerivation {
+  period: string;
+  method: EbitdaMethod;
+  concepts: string[];
+  isProxy: boolean;
+  note: string | null;
+}
+
+export interface Restatement {
+  period: string;
+  field: string;
+  concept: string;
+  originalValue: number;
+  restatedValue: number;
+  originalAccession: string;
+  restatedAccession: string;
+  originalFiled: string;
+  restatedFiled: string;
+  restatedForm: string;
+}
+
+export interface Filing {
+  form: string;
+  accessionNumber: string;
+  filed: string;
+  // Period the report covers; the event date for current reports
+  reportDate: string | null;
+  primaryDocument: string;
+  description: string | null;
+  url: string;
+}
+
+// One period's figures arranged as the three primary statements, with subtotals
+export interface IncomeStatement {
+  revenue: number | null;
+  costOfRevenue: number | null;
+  grossProfit: number | null;
+  sellingGeneralAndAdministrative: number | null;
+  operatingExpenses: number | null;
+  operatingIncome: number | null;
+  depreciationAndAmortization: number | null;
+  ebitda: number | null;
+  interestExpense: number | null;
+  pretaxIncome: number | null;
+  incomeTaxExpense: number | null;
+  netIncome: number | null;
+}
+
+export interface BalanceSheet {
+  cashAndEquivalents: number | null;
+  accountsReceivable: number | null;
+  inventory: number | null;
+  currentAssets: number | null;
+  propertyPlantAndEquipment: number | null;
+  totalAssets: number | null;
+  accountsPayable: number | null;
+  shortTermDebt: number | null;
+  currentPortionOfLongTermDebt: number | null;
+  currentLiabilities: number | null;
+  longTermDebt: number | null;
+  operatingLeaseLiabilities: number | null;
+  financeLeaseLiabilities: number | null;
+  totalLiabilities: number | null;
+  retainedEarnings: number | null;
+  stockholdersEquity: number | null;
+  commonSharesOutstanding: number | null;
+  workingCapital: number | null;
+  totalDebt: number | null;
+  netDebt: number | null;
+}
+
+export interface CashFlowStatement {
+  operatingCashFlow: number | null;
+  capitalExpenditures: number | null;
+  freeCashFlow: number | null;
+  investingCashFlow: number | null;
+  dividendsPaid: number | null;
+  shareRepurchases: number | null;
+  financeLeasePayments: number | null;
+  financingCashFlow: number | null;
+  interestPaid: number | null;
+  operatingLeasePayments: number | null;
+}
+
+export interface FinancialStatements {
+  incomeStatement: IncomeStatement;
+  balanceSheet: BalanceSheet;
+  cashFlow: CashFlowStatement;
+  // Lines computed from their components rather than read from the filing
+  derived: string[];
+}
+
+export type FiscalPeriod = 'Q1' | 'Q2' | 'Q3' | 'Q4';
+
+export interface QuarterData extends FiscalYearData {
+  fiscalPeriod: FiscalPeriod;
+  periodEnd: string | null;
+}
+
+// Last-twelve-months figures built from the latest 10-K plus any stub-period 10-Qs
+export interface TrailingPeriodData extends FiscalYearData {
+  fiscalPeriod: FiscalPeriod;
+  periodEnd: string | null;
+  basis: string;
+}
+
 export interface MetricData {
+  start?: string;
   end: string;
   val: number;
+  // accn and fp are absent on data cached before provenance was captured
+  accn?: string;
   fy: number;
+  fp?: string;
+  form: string;
+  filed: string;
+}
+
+// A single XBRL fact as filed
+export interface FactSource {
+  concept: string;
+  val: number;
+  accn: string;
   form: string;
+  fp: string;
+  filed: string;
+  start: string | null;
+  end: string;
+}
+
+// Latest share count from the cover page, summed across share classes
+export interface SharesOutstanding {
+  value: number;
+  asOf: string;
+  concept: string;
+  accn: string;
   filed: string;
 }
 
+// Where a normalized value came from, in the filer's reporting currency
+export interface ValueProvenance {
+  period: string;
+  field: Exclude<keyof FiscalYearData, 'year'>;
+  sources: FactSource[];
+  // How the sources were combined; null when a single fact was used as reported
+  derivation: string | null;
+  // Other values filed for the same period and field that were not chosen
+  alternatives: FactSource[];
+}
+
+// Set when figures were translated out of the filer's reporting currency
+export interface FxConversion {
+  from: string;
+  to: string;
+  // Periods with no rate for either currency; their amounts are blanked
+  missingPeriods: string[];
+}
+
+export interface ManualUpload {
+  fileName: string;
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
 export interface NormalizedFinancials {
   cik: string;
   entityName: string;
   ticker: string;
   sicCode: string | null;
+  // ISO 4217 code; absent on data cached before non-USD filers were supported
+  currency?: string;
   fiscalYears: FiscalYearData[];
+  // Absent on data cached before quarterly ingestion was added
+  quarters?: QuarterData[];
+  ttm?: TrailingPeriodData | null;
+  ebitdaDerivations?: EbitdaDerivation[];
+  restatements?: Restatement[];
+  // Absent on data cached before the filing index was captured
+  filings?: Filing[];
+  // Absent on data cached before provenance was captured
+  provenance?: ValueProvenance[];
+  // Absent on data cached before share counts were captured
+  sharesOutstanding?: SharesOutstanding | null;
+  fxConversion?: FxConversion;
+  // Present when the financials were uploaded rather than fetched from the SEC
+  upload?: ManualUpload;
   rawMetrics: Record<string, MetricData[]>;
 }
 
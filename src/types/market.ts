@@ -0,0 +1,24 @@
+// Daily market price data
+
+export interface PricePoint {
+  date: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  volume: number | null;
+}
+
+export interface MarketData {
+  ticker: string | null;
+  currency: string;
+  // 'csv' when the history was imported rather than fetched from Stooq
+  source: 'stooq' | 'csv';
+  prices: PricePoint[];
+}
+
+export interface MarketDataResponse {
+  data: MarketData;
+  source: 'cache' | 'live';
+  fetchedAt: string;
+}
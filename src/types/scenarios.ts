@@ -0,0 +1,20 @@
+// Stress scenarios applied to the latest period before re-running the credit analysis
+
+// Each shock is a fraction, e.g. -0.1 for a 10% revenue decline or 0.02 for +200bp
+export interface StressShocks {
+  revenueChange: number;
+  // Change in gross margin, in percentage points
+  grossMarginChange: number;
+  // Rise in the rate paid on all debt, as if it were floating
+  rateIncrease: number;
+  // Share of revenue absorbed into receivables and inventory
+  workingCapitalDrain: number;
+}
+
+export type ScenarioId = 'base' | 'downside' | 'severe';
+
+export interface StressScenario {
+  id: ScenarioId;
+  name: string;
+  shocks: StressShocks;
+}
@@ -0,0 +1,45 @@
+// Credit scorecard models, published by admins as immutable versions
+
+export type RatioStatus = 'good' | 'warning' | 'critical';
+
+export type FlagSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type ScoreCategory = 'excellent' | 'good' | 'fair' | 'poor' | 'critical';
+
+// Multiples of the ratio's benchmark bounding the good and warning buckets. Where
+// lower is better they are maximums, e.g. { good: 1.0, warning: 1.5 }; where higher
+// is better they are minimums, e.g. { good: 0.9, warning: 0.6 }.
+export interface BucketThresholds {
+  good: number;
+  warning: number;
+}
+
+export interface ScorecardFactor {
+  // Name of the credit ratio, e.g. "Debt / EBITDA"
+  ratio: string;
+  // Relative weight in the average ratio score; zero leaves the ratio unscored
+  weight: number;
+  thresholds: BucketThresholds;
+}
+
+export interface ScorecardModel {
+  factors: ScorecardFactor[];
+  // Points a ratio scores in each bucket, out of 100
+  statusPoints: Record<RatioStatus, number>;
+  // Points deducted from the average ratio score for each risk flag
+  flagPenalties: Record<FlagSeverity, number>;
+  // Lowest score in each category; anything below `poor` is critical
+  categoryCutoffs: Record<Exclude<ScoreCategory, 'critical'>, number>;
+}
+
+export interface ScorecardVersion {
+  id: string;
+  version_number: number;
+  name: string;
+  // First day runs are scored with this version, as YYYY-MM-DD
+  effective_date: string;
+  model: ScorecardModel;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
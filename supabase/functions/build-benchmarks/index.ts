@@ -0,0 +1,326 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+import { z } from 'https://esm.sh/zod@3.23.8'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// SEC EDGAR requires a valid User-Agent header
+const SEC_USER_AGENT = 'PitchPulse/1.0 (contact@pitchpulse.app)'
+
+// Frames keep filling in as late filers report, so benchmarks are rebuilt monthly
+const CACHE_DAYS = 30
+
+// EDGAR's company browse lists 100 filers per page; 20 pages covers every SIC code
+const PEERS_PER_PAGE = 100
+const MAX_PEER_PAGES = 20
+
+const currentYear = new Date().getFullYear()
+const requestSchema = z.object({
+  sicCode: z.string()
+    .regex(/^\d{3,4}$/, { message: 'sicCode must be a 3 or 4 digit SIC code' })
+    .transform(val => val.padStart(4, '0')),
+  // XBRL frames start with calendar 2009
+  year: z.number()
+    .int({ message: 'year must be an integer' })
+    .min(2009, { message: 'year must be 2009 or later' })
+    .max(currentYear, { message: `year cannot exceed ${currentYear}` }),
+  forceRefresh: z.boolean().optional().default(false),
+})
+
+type Input =
+  | 'currentAssets'
+  | 'currentLiabilities'
+  | 'totalAssets'
+  | 'totalLiabilities'
+  | 'stockholdersEquity'
+  | 'longTermDebt'
+  | 'revenue'
+  | 'grossProfit'
+  | 'netIncome'
+  | 'operatingIncome'
+  | 'interestExpense'
+
+// us-gaap concepts per input, in priority order. Balance sheet items are read from the
+// year-end instant frame, income statement items from the calendar-year duration frame.
+const FRAME_CONCEPTS: Record<Input, { concepts: string[]; instant: boolean }> = {
+  currentAssets: { concepts: ['AssetsCurrent'], instant: true },
+  currentLiabilities: { concepts: ['LiabilitiesCurrent'], instant: true },
+  totalAssets: { concepts: ['Assets'], instant: true },
+  totalLiabilities: { concepts: ['Liabilities'], instant: true },
+  stockholdersEquity: { concepts: ['StockholdersEquity'], instant: true },
+  longTermDebt: { concepts: ['LongTermDebtNoncurrent', 'LongTermDebt'], instant: true },
+  revenue: {
+    concepts: ['Revenues', 'RevenueFromContractWithCustomerExcludingAssessedTax', 'SalesRevenueNet'],
+    instant: false,
+  },
+  grossProfit: { concepts: ['GrossProfit'], instant: false },
+  netIncome: { concepts: ['NetIncomeLoss'], instant: false },
+  operatingIncome: { concepts: ['OperatingIncomeLoss'], instant: false },
+  interestExpense: { concepts: ['InterestExpense', 'InterestExpenseNonoperating'], instant: false },
+}
+
+type PeerValues = Partial<Record<Input, number>>
+
+// Credit analysis approximates equity as assets less liabilities
+function equityOf(peer: PeerValues): number | null {
+  if (peer.totalAssets !== undefined && peer.totalLiabilities !== undefined) {
+    return peer.totalAssets - peer.totalLiabilities
+  }
+  return peer.stockholdersEquity ?? null
+}
+
+type Metric = 'currentRatio' | 'debtToEquity' | 'grossMargin' | 'netMargin' | 'roa' | 'interestCoverage'
+
+// Same definitions as the credit analysis, so a company's ratio ranks like-for-like.
+// Ratios with a non-positive denominator are left out rather than ranked.
+const METRICS: Record<Metric, (peer: PeerValues) => number | null> = {
+  currentRatio: ({ currentAssets, currentLiabilities }) =>
+    currentAssets !== undefined && currentLiabilities ? currentAssets / currentLiabilities : null,
+  debtToEquity: (peer) => {
+    const equity = equityOf(peer)
+    return peer.longTermDebt !== undefined && equity !== null && equity > 0 ? peer.longTermDebt / equity : null
+  },
+  grossMargin: ({ grossProfit, revenue }) =>
+    grossProfit !== undefined && revenue && revenue > 0 ? grossProfit / revenue : null,
+  netMargin: ({ netIncome, revenue }) =>
+    netIncome !== undefined && revenue && revenue > 0 ? netIncome / revenue : null,
+  roa: ({ netIncome, totalAssets }) =>
+    netIncome !== undefined && totalAssets && totalAssets > 0 ? netIncome / totalAssets : null,
+  interestCoverage: ({ operatingIncome, interestExpense }) =>
+    operatingIncome !== undefined && interestExpense && interestExpense > 0 ? operatingIncome / interestExpense : null,
+}
+
+interface MetricDistribution {
+  peerCount: number
+  p25: number
+  median: number
+  p75: number
+  // Ascending, for percentile ranks
+  values: number[]
+}
+
+interface FrameResponse {
+  data: Array<{ cik: number; val: number; end: string }>
+}
+
+async function fetchWithRetry(url: string, accept = 'application/json', retries = 3, delay = 1000): Promise<Response> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': SEC_USER_AGENT,
+          'Accept': accept,
+        },
+      })
+
+      if (response.status === 429) {
+        // Rate limited - wait and retry
+        const waitTime = delay * Math.pow(2, i)
+        console.log(`Rate limited. Waiting ${waitTime}ms before retry ${i + 1}`)
+        await new Promise(resolve => setTimeout(resolve, waitTime))
+        continue
+      }
+
+      return response
+    } catch (error) {
+      if (i === retries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+// CIKs of every filer EDGAR classifies under the SIC code. Frames carry no industry,
+// so this is what narrows them down to peers.
+async function fetchPeerCiks(sicCode: string): Promise<Set<number>> {
+  const ciks: Set<number> = new Set()
+  for (let page = 0; page < MAX_PEER_PAGES; page++) {
+    const url = 'https://www.sec.gov/cgi-bin/browse-edgar?action=getcompany' +
+      `&SIC=${sicCode}&owner=include&count=${PEERS_PER_PAGE}&start=${page * PEERS_PER_PAGE}`
+    const response = await fetchWithRetry(url, 'text/html')
+    if (!response.ok) throw new Error(`Failed to fetch SIC ${sicCode} filers: ${response.status}`)
+
+    const html = await response.text()
+    const before = ciks.size
+    for (const match of html.matchAll(/[?&]CIK=(\d{10})/g)) {
+      ciks.add(parseInt(match[1], 10))
+    }
+    if (ciks.size - before < PEERS_PER_PAGE) break
+  }
+  return ciks
+}
+
+// A frame holds one value per filer for a concept and period; frames SEC hasn't
+// published (new concepts, the current year) come back 404 and count as empty
+async function fetchFrame(concept: string, period: string): Promise<FrameResponse['data']> {
+  const response = await fetchWithRetry(`https://data.sec.gov/api/xbrl/frames/us-gaap/${concept}/USD/${period}.json`)
+  if (response.status === 404) return []
+  if (!response.ok) throw new Error(`Failed to fetch ${concept} frame for ${period}: ${response.status}`)
+
+  const frame: FrameResponse = await response.json()
+  return frame.data
+}
+
+async function collectPeerValues(peers: Set<number>, year: number): Promise<Map<number, PeerValues>> {
+  const values: Map<number, PeerValues> = new Map()
+
+  // Sequential to stay well inside SEC's request rate limit
+  for (const [input, { concepts, instant }] of Object.entries(FRAME_CONCEPTS) as Array<[Input, typeof FRAME_CONCEPTS[Input]]>) {
+    const period = instant ? `CY${year}Q4I` : `CY${year}`
+    for (const concept of concepts) {
+      for (const fact of await fetchFrame(concept, period)) {
+        if (!peers.has(fact.cik)) continue
+        const peer = values.get(fact.cik) ?? {}
+        // Earlier concepts take priority
+        if (peer[input] === undefined) peer[input] = fact.val
+        values.set(fact.cik, peer)
+      }
+    }
+  }
+  return values
+}
+
+// Linear interpolation between closest ranks
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+function buildDistributions(peers: Map<number, PeerValues>): Partial<Record<Metric, MetricDistribution>> {
+  const distributions: Partial<Record<Metric, MetricDistribution>> = {}
+  for (const [metric, compute] of Object.entries(METRICS) as Array<[Metric, typeof METRICS[Metric]]>) {
+    const values = Array.from(peers.values())
+      .map(compute)
+      .filter((value): value is number => value !== null && Number.isFinite(value))
+      .sort((a, b) => a - b)
+    if (values.length === 0) continue
+
+    distributions[metric] = {
+      peerCount: values.length,
+      p25: round(quantile(values, 0.25)),
+      median: round(quantile(values, 0.5)),
+      p75: round(quantile(values, 0.75)),
+      values: values.map(round),
+    }
+  }
+  return distributions
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // Verify the JWT
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authorization token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Parse and validate request body
+    let requestBody: unknown
+    try {
+      requestBody = await req.json()
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const validationResult = requestSchema.safeParse(requestBody)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.errors
+        .map(e => `${e.path.join('.')}: ${e.message}`)
+        .join('; ')
+      return new Response(
+        JSON.stringify({ error: `Validation failed: ${errorMessages}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { sicCode, year, forceRefresh } = validationResult.data
+
+    // Benchmarks are shared across runs, so check the table first (unless force refresh)
+    if (!forceRefresh) {
+      const { data: cached } = await supabase
+        .from('industry_benchmarks')
+        .select('*')
+        .eq('sic_code', sicCode)
+        .eq('fiscal_year', year)
+        .maybeSingle()
+
+      if (cached?.expires_at && new Date(cached.expires_at) > new Date()) {
+        console.log(`Returning cached benchmarks for SIC ${sicCode} ${year}`)
+        return new Response(
+          JSON.stringify({ data: cached, source: 'cache' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    console.log(`Building benchmarks for SIC ${sicCode} ${year}`)
+    const peers = await fetchPeerCiks(sicCode)
+    const peerValues = await collectPeerValues(peers, year)
+
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + CACHE_DAYS)
+
+    const { data: benchmarks, error: upsertError } = await supabase
+      .from('industry_benchmarks')
+      .upsert({
+        sic_code: sicCode,
+        fiscal_year: year,
+        peer_count: peerValues.size,
+        metrics: buildDistributions(peerValues),
+        built_at: new Date().toISOString(),
+        expires_at: expiresAt.toISOString(),
+      }, {
+        onConflict: 'sic_code,fiscal_year',
+      })
+      .select()
+      .single()
+    if (upsertError) throw upsertError
+
+    return new Response(
+      JSON.stringify({ data: benchmarks, source: 'live' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    // Log full error details server-side only
+    console.error('Error building benchmarks:', error)
+
+    // Return generic error message to client to avoid exposing internal details
+    return new Response(
+      JSON.stringify({ error: 'Failed to build industry benchmarks. Please try again later.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,263 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+import { z } from 'https://esm.sh/zod@3.23.8'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Pasted or uploaded CSVs stand in for Stooq when it's unreachable
+const MAX_CSV_LENGTH = 2_000_000
+
+const requestSchema = z.object({
+  runId: z.string().uuid({ message: 'runId must be a valid UUID' }),
+  csv: z.string().min(1).max(MAX_CSV_LENGTH, { message: 'csv must be under 2 MB' }).optional(),
+  // Quote currency of imported prices; Stooq's US listings are always USD
+  currency: z.string().regex(/^[A-Z]{3}$/, { message: 'currency must be a 3-letter ISO code' }).optional(),
+  forceRefresh: z.boolean().optional().default(false),
+})
+
+interface PricePoint {
+  date: string
+  open: number | null
+  high: number | null
+  low: number | null
+  close: number
+  volume: number | null
+}
+
+interface MarketData {
+  ticker: string | null
+  // Stooq's US listings are quoted in USD; imports carry their own
+  currency: string
+  source: 'stooq' | 'csv'
+  prices: PricePoint[]
+}
+
+// Stooq uses lowercase symbols with an exchange suffix, and hyphens for share classes
+function toStooqSymbol(ticker: string): string {
+  return `${ticker.toLowerCase().replace('.', '-')}.us`
+}
+
+// Accepts Stooq's export format (Date,Open,High,Low,Close,Volume) and most other
+// daily price exports with a date and close column
+function parsePriceCsv(csv: string): PricePoint[] {
+  const lines = csv.trim().split(/\r?\n/)
+  if (lines.length < 2) return []
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase())
+  const column = (...names: string[]) => header.findIndex(h => names.includes(h))
+  const dateIdx = column('date')
+  const closeIdx = column('close', 'adj close', 'price')
+  if (dateIdx === -1 || closeIdx === -1) {
+    throw new Error('CSV must have Date and Close columns')
+  }
+  const [openIdx, highIdx, lowIdx, volumeIdx] = ['open', 'high', 'low', 'volume'].map(name => column(name))
+
+  const number = (cells: string[], idx: number) => {
+    if (idx === -1) return null
+    const value = parseFloat(cells[idx])
+    return Number.isFinite(value) ? value : null
+  }
+
+  const prices: PricePoint[] = []
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(c => c.trim())
+    const date = cells[dateIdx]
+    const close = number(cells, closeIdx)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') || close === null) continue
+    prices.push({
+      date,
+      open: number(cells, openIdx),
+      high: number(cells, highIdx),
+      low: number(cells, lowIdx),
+      close,
+      volume: number(cells, volumeIdx),
+    })
+  }
+  return prices.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+async function fetchStooqPrices(ticker: string): Promise<PricePoint[]> {
+  const response = await fetch(`https://stooq.com/q/d/l/?s=${toStooqSymbol(ticker)}&i=d`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch prices: ${response.status}`)
+  }
+
+  // Unknown symbols return a plain "No data" body rather than an error status
+  const body = await response.text()
+  return body.startsWith('Date') ? parsePriceCsv(body) : []
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // Verify the JWT
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authorization token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Parse and validate request body
+    let requestBody: unknown
+    try {
+      requestBody = await req.json()
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const validationResult = requestSchema.safeParse(requestBody)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.errors
+        .map(e => `${e.path.join('.')}: ${e.message}`)
+        .join('; ')
+      return new Response(
+        JSON.stringify({ error: `Validation failed: ${errorMessages}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { runId, csv, currency, forceRefresh } = validationResult.data
+
+    // Check cache first (unless force refresh or an import)
+    if (!forceRefresh && !csv) {
+      const { data: cachedData } = await supabase
+        .from('run_data_cache')
+        .select('*')
+        .eq('run_id', runId)
+        .eq('data_type', 'prices')
+        .maybeSingle()
+
+      // Imported prices never expire; they are only replaced by a refresh or another import
+      if (cachedData && (!cachedData.expires_at || new Date(cachedData.expires_at) > new Date())) {
+        console.log('Returning cached market data')
+        return new Response(
+          JSON.stringify({
+            data: cachedData.raw_data,
+            source: 'cache',
+            fetchedAt: cachedData.fetched_at,
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    const { data: run, error: runError } = await supabase
+      .from('runs')
+      .select('fiscal_year_start, companies (ticker)')
+      .eq('id', runId)
+      .single()
+    if (runError || !run) {
+      return new Response(
+        JSON.stringify({ error: 'Run not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const ticker: string | null = run.companies?.ticker ?? null
+    if (!csv && !ticker) {
+      return new Response(
+        JSON.stringify({ error: 'Company has no listed ticker; import a price CSV instead' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    let prices: PricePoint[]
+    try {
+      prices = csv ? parsePriceCsv(csv) : await fetchStooqPrices(ticker!)
+    } catch (error) {
+      if (!csv) {
+        // Point the analyst at the CSV import rather than failing outright
+        console.error('Stooq fetch failed:', error)
+        return new Response(
+          JSON.stringify({ error: 'Stooq is unavailable right now; import a price CSV instead' }),
+          { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+      return new Response(
+        JSON.stringify({ error: (error as Error).message }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Keep the run's fiscal years, and at least a year for the 52-week range
+    const oneYearAgo = new Date()
+    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1)
+    const keepFrom = [`${run.fiscal_year_start}-01-01`, oneYearAgo.toISOString().slice(0, 10)].sort()[0]
+    prices = prices.filter(p => p.date >= keepFrom)
+
+    if (prices.length === 0) {
+      return new Response(
+        JSON.stringify({ error: csv ? 'No prices found in CSV' : `No price history found for "${ticker}"` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const marketData: MarketData = {
+      ticker,
+      currency: csv ? currency ?? 'USD' : 'USD',
+      source: csv ? 'csv' : 'stooq',
+      prices,
+    }
+
+    // Live prices are cached for 24 hours
+    const expiresAt = new Date()
+    expiresAt.setHours(expiresAt.getHours() + 24)
+
+    await supabase
+      .from('run_data_cache')
+      .upsert({
+        run_id: runId,
+        data_type: 'prices',
+        source: marketData.source,
+        raw_data: marketData,
+        fetched_at: new Date().toISOString(),
+        expires_at: csv ? null : expiresAt.toISOString(),
+      }, {
+        onConflict: 'run_id,data_type',
+      })
+
+    return new Response(
+      JSON.stringify({
+        data: marketData,
+        source: 'live',
+        fetchedAt: new Date().toISOString(),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    // Log full error details server-side only
+    console.error('Error fetching market data:', error)
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch market data. Please try again later.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
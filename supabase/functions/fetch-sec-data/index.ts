@@ -13,12 +13,16 @@ const SEC_USER_AGENT = 'PitchPulse/1.0 (contact@pitchpulse.app)'
 const currentYear = new Date().getFullYear()
 const requestSchema = z.object({
   runId: z.string().uuid({ message: 'runId must be a valid UUID' }),
+  // Share classes and preferreds carry a dotted or hyphenated suffix: BRK.B, BF-B, BAC-PL
   ticker: z.string()
-    .regex(/^[A-Za-z]{1,5}$/, { message: 'ticker must be 1-5 alphabetic characters' })
+    .regex(/^[A-Za-z]{1,5}([.-][A-Za-z0-9]{1,4})?$/, {
+      message: 'ticker must be 1-5 letters, optionally followed by a share class such as .B or -PL',
+    })
     .transform(val => val.toUpperCase())
     .optional(),
   cik: z.string()
     .regex(/^\d{1,10}$/, { message: 'cik must be 1-10 numeric digits' })
+    .transform(val => val.padStart(10, '0'))
     .optional(),
   fiscalYearStart: z.number()
     .int({ message: 'fiscalYearStart must be an integer' })
@@ -29,6 +33,8 @@ const requestSchema = z.object({
     .min(1990, { message: 'fiscalYearEnd must be 1990 or later' })
     .max(currentYear + 1, { message: `fiscalYearEnd cannot exceed ${currentYear + 1}` }),
   forceRefresh: z.boolean().optional().default(false),
+  // Fetch a comp-set peer for the run rather than the run's own company
+  peer: z.boolean().optional().default(false),
 }).refine(
   data => data.ticker || data.cik,
   { message: 'Either ticker or cik must be provided' }
@@ -40,25 +46,28 @@ const requestSchema = z.object({
   { message: 'Fiscal year range cannot exceed 20 years' }
 )
 
+interface SECFactValue {
+  start?: string
+  end: string
+  val: number
+  accn: string
+  fy: number
+  fp: string
+  form: string
+  filed: string
+}
+
+interface SECConceptFacts {
+  label: string
+  description: string
+  units: Record<string, SECFactValue[]>
+}
+
 interface SECCompanyFacts {
   cik: number
   entityName: string
-  facts: {
-    'us-gaap'?: Record<string, {
-      label: string
-      description: string
-      units: Record<string, Array<{
-        start?: string
-        end: string
-        val: number
-        accn: string
-        fy: number
-        fp: string
-        form: string
-        filed: string
-      }>>
-    }>
-  }
+  // Keyed by taxonomy ('us-gaap', 'dei', or the filer's own extension prefix)
+  facts: Record<string, Record<string, SECConceptFacts> | undefined>
 }
 
 interface NormalizedFinancials {
@@ -66,10 +75,55 @@ interface NormalizedFinancials {
   entityName: string
   ticker: string
   sicCode: string | null
+  // ISO 4217 code all amounts are reported in
+  currency: string
   fiscalYears: FiscalYearData[]
+  quarters: QuarterData[]
+  ttm: TrailingPeriodData | null
+  ebitdaDerivations: EbitdaDerivation[]
+  restatements: Restatement[]
+  filings: Filing[]
+  provenance: ValueProvenance[]
+  sharesOutstanding: SharesOutstanding | null
   rawMetrics: Record<string, MetricData[]>
 }
 
+// Latest share count from the cover page, summed across share classes
+interface SharesOutstanding {
+  value: number
+  asOf: string
+  concept: string
+  accn: string
+  filed: string
+}
+
+// An entry from the EDGAR submissions feed
+interface Filing {
+  form: string
+  accessionNumber: string
+  filed: string
+  // Period the report covers; the event date for current reports
+  reportDate: string | null
+  primaryDocument: string
+  description: string | null
+  url: string
+}
+
+// Column-oriented filing lists as returned by the submissions feed
+interface SECFilingColumns {
+  accessionNumber: string[]
+  filingDate: string[]
+  reportDate: string[]
+  form: string[]
+  primaryDocument: string[]
+  primaryDocDescription: string[]
+}
+
+interface CompanySubmissions {
+  sicCode: string | null
+  filings: Filing[]
+}
+
 interface FiscalYearData {
   year: number
   revenue: number | null
@@ -81,38 +135,454 @@ interface FiscalYearData {
   ebitda: number | null
   grossProfit: number | null
   operatingIncome: number | null
+  depreciationAndAmortization: number | null
+  // Excluding current maturities, which are in shortTermDebt
   longTermDebt: number | null
   currentAssets: number | null
   currentLiabilities: number | null
+  cashAndEquivalents: number | null
+  // Further income statement lines; expenses are positive as filed
+  costOfRevenue: number | null
+  sellingGeneralAndAdministrative: number | null
+  operatingExpenses: number | null
+  interestExpense: number | null
+  pretaxIncome: number | null
+  incomeTaxExpense: number | null
+  // Further balance sheet lines
+  accountsReceivable: number | null
+  inventory: number | null
+  propertyPlantAndEquipment: number | null
+  accountsPayable: number | null
+  // All debt due within a year: short-term borrowings and current maturities
+  shortTermDebt: number | null
+  // Long-term debt falling due within a year; included in shortTermDebt
+  currentPortionOfLongTermDebt: number | null
+  operatingLeaseLiabilities: number | null
+  financeLeaseLiabilities: number | null
+  retainedEarnings: number | null
+  // In shares rather than currency
+  commonSharesOutstanding: number | null
+  // Further cash flow lines; payments are positive as filed
+  capitalExpenditures: number | null
+  investingCashFlow: number | null
+  financingCashFlow: number | null
+  dividendsPaid: number | null
+  shareRepurchases: number | null
+  interestPaid: number | null
+  operatingLeasePayments: number | null
+  financeLeasePayments: number | null
+  // Scheduled principal and undiscounted lease payments, by year after the balance sheet date
+  debtMaturityYear1: number | null
+  debtMaturityYear2: number | null
+  debtMaturityYear3: number | null
+  debtMaturityYear4: number | null
+  debtMaturityYear5: number | null
+  debtMaturityAfterYear5: number | null
+  operatingLeaseMaturityYear1: number | null
+  operatingLeaseMaturityYear2: number | null
+  operatingLeaseMaturityYear3: number | null
+  operatingLeaseMaturityYear4: number | null
+  operatingLeaseMaturityYear5: number | null
+  operatingLeaseMaturityAfterYear5: number | null
+  financeLeaseMaturityYear1: number | null
+  financeLeaseMaturityYear2: number | null
+  financeLeaseMaturityYear3: number | null
+  financeLeaseMaturityYear4: number | null
+  financeLeaseMaturityYear5: number | null
+  financeLeaseMaturityAfterYear5: number | null
+}
+
+type EbitdaMethod = 'reported_da' | 'da_components' | 'partial_da' | 'operating_income_only'
+
+interface EbitdaDerivation {
+  period: string
+  method: EbitdaMethod
+  // XBRL concepts the figure was assembled from
+  concepts: string[]
+  isProxy: boolean
+  note: string | null
+}
+
+// A value a later filing reported differently from the filing that first reported it
+interface Restatement {
+  period: string
+  field: Slot
+  concept: string
+  originalValue: number
+  restatedValue: number
+  originalAccession: string
+  restatedAccession: string
+  originalFiled: string
+  restatedFiled: string
+  // Form of the restating filing: an amendment, or a later report's comparative
+  restatedForm: string
+}
+
+type FiscalPeriod = 'Q1' | 'Q2' | 'Q3' | 'Q4'
+
+interface QuarterData extends FiscalYearData {
+  fiscalPeriod: FiscalPeriod
+  periodEnd: string | null
+}
+
+interface TrailingPeriodData extends FiscalYearData {
+  fiscalPeriod: FiscalPeriod
+  periodEnd: string | null
+  // Human-readable description of how the figures were assembled
+  basis: string
 }
 
+type NumericField = Exclude<keyof FiscalYearData, 'year'>
+
 interface MetricData {
+  start?: string
   end: string
   val: number
+  accn: string
   fy: number
+  fp: string
+  form: string
+  filed: string
+}
+
+// A single XBRL fact as filed
+interface FactSource {
+  concept: string
+  val: number
+  accn: string
   form: string
+  fp: string
   filed: string
+  start: string | null
+  end: string
 }
 
-// Map of common GAAP concepts to our normalized names
-const METRIC_MAPPING: Record<string, keyof FiscalYearData> = {
-  'Revenues': 'revenue',
-  'RevenueFromContractWithCustomerExcludingAssessedTax': 'revenue',
-  'SalesRevenueNet': 'revenue',
-  'NetIncomeLoss': 'netIncome',
-  'Assets': 'totalAssets',
-  'Liabilities': 'totalLiabilities',
-  'StockholdersEquity': 'stockholdersEquity',
-  'StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest': 'stockholdersEquity',
-  'NetCashProvidedByUsedInOperatingActivities': 'operatingCashFlow',
-  'GrossProfit': 'grossProfit',
-  'OperatingIncomeLoss': 'operatingIncome',
-  'LongTermDebt': 'longTermDebt',
-  'LongTermDebtNoncurrent': 'longTermDebt',
-  'AssetsCurrent': 'currentAssets',
-  'LiabilitiesCurrent': 'currentLiabilities',
+// Where a normalized value came from
+interface ValueProvenance {
+  period: string
+  field: NumericField
+  // Facts the value was read from, or assembled from when derived
+  sources: FactSource[]
+  // How the sources were combined; null when a single fact was used as reported
+  derivation: string | null
+  // Other values filed for the same period and field that were not chosen
+  alternatives: FactSource[]
 }
 
+type ValueSource = Omit<ValueProvenance, 'period' | 'field'>
+
+// Income statement and cash flow items are reported over a duration and must be
+// summed/differenced across periods; everything else is a point-in-time balance.
+const FLOW_FIELDS: NumericField[] = [
+  'revenue',
+  'netIncome',
+  'operatingCashFlow',
+  'ebitda',
+  'grossProfit',
+  'operatingIncome',
+  'depreciationAndAmortization',
+  'costOfRevenue',
+  'sellingGeneralAndAdministrative',
+  'operatingExpenses',
+  'interestExpense',
+  'pretaxIncome',
+  'incomeTaxExpense',
+  'capitalExpenditures',
+  'investingCashFlow',
+  'financingCashFlow',
+  'dividendsPaid',
+  'shareRepurchases',
+  'interestPaid',
+  'operatingLeasePayments',
+  'financeLeasePayments',
+]
+
+const NUMERIC_FIELDS: NumericField[] = [
+  'revenue',
+  'netIncome',
+  'totalAssets',
+  'totalLiabilities',
+  'stockholdersEquity',
+  'operatingCashFlow',
+  'ebitda',
+  'grossProfit',
+  'operatingIncome',
+  'depreciationAndAmortization',
+  'longTermDebt',
+  'currentAssets',
+  'currentLiabilities',
+  'cashAndEquivalents',
+  'costOfRevenue',
+  'sellingGeneralAndAdministrative',
+  'operatingExpenses',
+  'interestExpense',
+  'pretaxIncome',
+  'incomeTaxExpense',
+  'accountsReceivable',
+  'inventory',
+  'propertyPlantAndEquipment',
+  'accountsPayable',
+  'shortTermDebt',
+  'currentPortionOfLongTermDebt',
+  'operatingLeaseLiabilities',
+  'financeLeaseLiabilities',
+  'retainedEarnings',
+  'commonSharesOutstanding',
+  'capitalExpenditures',
+  'investingCashFlow',
+  'financingCashFlow',
+  'dividendsPaid',
+  'shareRepurchases',
+  'interestPaid',
+  'operatingLeasePayments',
+  'financeLeasePayments',
+  'debtMaturityYear1',
+  'debtMaturityYear2',
+  'debtMaturityYear3',
+  'debtMaturityYear4',
+  'debtMaturityYear5',
+  'debtMaturityAfterYear5',
+  'operatingLeaseMaturityYear1',
+  'operatingLeaseMaturityYear2',
+  'operatingLeaseMaturityYear3',
+  'operatingLeaseMaturityYear4',
+  'operatingLeaseMaturityYear5',
+  'operatingLeaseMaturityAfterYear5',
+  'financeLeaseMaturityYear1',
+  'financeLeaseMaturityYear2',
+  'financeLeaseMaturityYear3',
+  'financeLeaseMaturityYear4',
+  'financeLeaseMaturityYear5',
+  'financeLeaseMaturityAfterYear5',
+]
+
+// Share counts are read from the facts' `shares` unit instead of the reporting currency
+const SHARE_FIELDS: NumericField[] = ['commonSharesOutstanding']
+
+// Used to assemble D&A when the filer doesn't tag a combined concept
+type DAComponent = 'depreciation' | 'amortization'
+
+// Debt concepts whose scope differs from the normalized fields: long-term debt
+// including its current maturities, and short-term borrowings excluding them
+type DebtComponent = 'longTermDebtTotal' | 'shortTermBorrowings'
+
+// Used to assemble lease liabilities when the filer doesn't tag the total
+type LeaseComponent =
+  | 'operatingLeaseLiabilitiesCurrent'
+  | 'operatingLeaseLiabilitiesNoncurrent'
+  | 'financeLeaseLiabilitiesCurrent'
+  | 'financeLeaseLiabilitiesNoncurrent'
+
+// Every value we accumulate per period: normalized fields plus D&A, debt and lease components
+type Slot = NumericField | DAComponent | DebtComponent | LeaseComponent
+
+const SLOTS: Slot[] = [
+  ...NUMERIC_FIELDS.filter(field => field !== 'ebitda'),
+  'depreciation',
+  'amortization',
+  'longTermDebtTotal',
+  'shortTermBorrowings',
+  'operatingLeaseLiabilitiesCurrent',
+  'operatingLeaseLiabilitiesNoncurrent',
+  'financeLeaseLiabilitiesCurrent',
+  'financeLeaseLiabilitiesNoncurrent',
+]
+
+const FLOW_SLOTS: Slot[] = [...FLOW_FIELDS, 'depreciation', 'amortization']
+
+interface ConceptMapping {
+  taxonomy: string
+  concept: string
+  field: Slot
+  // Lower values win when a filer reports several concepts for the same field
+  priority: number
+}
+
+// Keyed by `${taxonomy}:${concept}`
+type ConceptMappingIndex = Map<string, { field: Slot; priority: number }>
+
+// Priority follows list order within a field
+function withListPriority(taxonomy: string, mappings: Array<[string, Slot]>): ConceptMapping[] {
+  return mappings.map(([concept, field], index) => ({
+    taxonomy,
+    concept,
+    field,
+    priority: (mappings.slice(0, index).filter(([, f]) => f === field).length + 1) * 10,
+  }))
+}
+
+// Built-in mapping, used when the xbrl_concept_mappings table can't be read.
+// Mirrors the rows seeded by its migrations.
+const DEFAULT_CONCEPT_MAPPINGS: ConceptMapping[] = [...withListPriority('us-gaap', [
+  ['Revenues', 'revenue'],
+  ['RevenueFromContractWithCustomerExcludingAssessedTax', 'revenue'],
+  ['SalesRevenueNet', 'revenue'],
+  ['NetIncomeLoss', 'netIncome'],
+  ['Assets', 'totalAssets'],
+  ['Liabilities', 'totalLiabilities'],
+  ['StockholdersEquity', 'stockholdersEquity'],
+  ['StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest', 'stockholdersEquity'],
+  ['NetCashProvidedByUsedInOperatingActivities', 'operatingCashFlow'],
+  ['GrossProfit', 'grossProfit'],
+  ['OperatingIncomeLoss', 'operatingIncome'],
+  ['DepreciationDepletionAndAmortization', 'depreciationAndAmortization'],
+  ['DepreciationAndAmortization', 'depreciationAndAmortization'],
+  ['DepreciationAmortizationAndAccretionNet', 'depreciationAndAmortization'],
+  ['LongTermDebtNoncurrent', 'longTermDebt'],
+  ['LongTermDebt', 'longTermDebtTotal'],
+  ['AssetsCurrent', 'currentAssets'],
+  ['LiabilitiesCurrent', 'currentLiabilities'],
+  ['CashAndCashEquivalentsAtCarryingValue', 'cashAndEquivalents'],
+  ['CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents', 'cashAndEquivalents'],
+  ['Cash', 'cashAndEquivalents'],
+  ['Depreciation', 'depreciation'],
+  ['DepreciationNonproduction', 'depreciation'],
+  ['DepreciationDepletionAndAmortizationPropertyPlantAndEquipment', 'depreciation'],
+  ['AmortizationOfIntangibleAssets', 'amortization'],
+  ['CostOfRevenue', 'costOfRevenue'],
+  ['CostOfGoodsAndServicesSold', 'costOfRevenue'],
+  ['CostOfGoodsSold', 'costOfRevenue'],
+  ['SellingGeneralAndAdministrativeExpense', 'sellingGeneralAndAdministrative'],
+  ['OperatingExpenses', 'operatingExpenses'],
+  ['InterestExpense', 'interestExpense'],
+  ['InterestExpenseNonoperating', 'interestExpense'],
+  ['InterestExpenseDebt', 'interestExpense'],
+  ['IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest', 'pretaxIncome'],
+  ['IncomeLossFromContinuingOperationsBeforeIncomeTaxesMinorityInterestAndIncomeLossFromEquityMethodInvestments', 'pretaxIncome'],
+  ['IncomeTaxExpenseBenefit', 'incomeTaxExpense'],
+  ['AccountsReceivableNetCurrent', 'accountsReceivable'],
+  ['ReceivablesNetCurrent', 'accountsReceivable'],
+  ['InventoryNet', 'inventory'],
+  ['PropertyPlantAndEquipmentNet', 'propertyPlantAndEquipment'],
+  ['AccountsPayableCurrent', 'accountsPayable'],
+  ['AccountsPayableAndAccruedLiabilitiesCurrent', 'accountsPayable'],
+  ['DebtCurrent', 'shortTermDebt'],
+  ['ShortTermBorrowings', 'shortTermBorrowings'],
+  ['LongTermDebtCurrent', 'currentPortionOfLongTermDebt'],
+  ['LongTermDebtAndCapitalLeaseObligationsCurrent', 'currentPortionOfLongTermDebt'],
+  ['OperatingLeaseLiability', 'operatingLeaseLiabilities'],
+  ['OperatingLeaseLiabilityCurrent', 'operatingLeaseLiabilitiesCurrent'],
+  ['OperatingLeaseLiabilityNoncurrent', 'operatingLeaseLiabilitiesNoncurrent'],
+  ['FinanceLeaseLiability', 'financeLeaseLiabilities'],
+  ['FinanceLeaseLiabilityCurrent', 'financeLeaseLiabilitiesCurrent'],
+  ['FinanceLeaseLiabilityNoncurrent', 'financeLeaseLiabilitiesNoncurrent'],
+  ['RetainedEarningsAccumulatedDeficit', 'retainedEarnings'],
+  ['CommonStockSharesOutstanding', 'commonSharesOutstanding'],
+  ['PaymentsToAcquirePropertyPlantAndEquipment', 'capitalExpenditures'],
+  ['PaymentsToAcquireProductiveAssets', 'capitalExpenditures'],
+  ['NetCashProvidedByUsedInInvestingActivities', 'investingCashFlow'],
+  ['NetCashProvidedByUsedInFinancingActivities', 'financingCashFlow'],
+  ['PaymentsOfDividends', 'dividendsPaid'],
+  ['PaymentsOfDividendsCommonStock', 'dividendsPaid'],
+  ['PaymentsForRepurchaseOfCommonStock', 'shareRepurchases'],
+  ['InterestPaidNet', 'interestPaid'],
+  ['InterestPaid', 'interestPaid'],
+  ['OperatingLeasePayments', 'operatingLeasePayments'],
+  ['FinanceLeasePrincipalPayments', 'financeLeasePayments'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInNextTwelveMonths', 'debtMaturityYear1'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInYearOne', 'debtMaturityYear1'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInNextRollingTwelveMonths', 'debtMaturityYear1'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInYearTwo', 'debtMaturityYear2'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearTwo', 'debtMaturityYear2'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInYearThree', 'debtMaturityYear3'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearThree', 'debtMaturityYear3'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInYearFour', 'debtMaturityYear4'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearFour', 'debtMaturityYear4'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInYearFive', 'debtMaturityYear5'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearFive', 'debtMaturityYear5'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalAfterYearFive', 'debtMaturityAfterYear5'],
+  ['LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingAfterYearFive', 'debtMaturityAfterYear5'],
+  ['LesseeOperatingLeaseLiabilityPaymentsDueNextTwelveMonths', 'operatingLeaseMaturityYear1'],
+  ['LesseeOperatingLeaseLiabilityPaymentsDueYearTwo', 'operatingLeaseMaturityYear2'],
+  ['LesseeOperatingLeaseLiabilityPaymentsDueYearThree', 'operatingLeaseMaturityYear3'],
+  ['LesseeOperatingLeaseLiabilityPaymentsDueYearFour', 'operatingLeaseMaturityYear4'],
+  ['LesseeOperatingLeaseLiabilityPaymentsDueYearFive', 'operatingLeaseMaturityYear5'],
+  ['LesseeOperatingLeaseLiabilityPaymentsDueAfterYearFive', 'operatingLeaseMaturityAfterYear5'],
+  ['FinanceLeaseLiabilityPaymentsDueNextTwelveMonths', 'financeLeaseMaturityYear1'],
+  ['FinanceLeaseLiabilityPaymentsDueYearTwo', 'financeLeaseMaturityYear2'],
+  ['FinanceLeaseLiabilityPaymentsDueYearThree', 'financeLeaseMaturityYear3'],
+  ['FinanceLeaseLiabilityPaymentsDueYearFour', 'financeLeaseMaturityYear4'],
+  ['FinanceLeaseLiabilityPaymentsDueYearFive', 'financeLeaseMaturityYear5'],
+  ['FinanceLeaseLiabilityPaymentsDueAfterYearFive', 'financeLeaseMaturityAfterYear5'],
+]), ...withListPriority('ifrs-full', [
+  ['Revenue', 'revenue'],
+  ['RevenueFromContractsWithCustomers', 'revenue'],
+  ['ProfitLossAttributableToOwnersOfParent', 'netIncome'],
+  ['ProfitLoss', 'netIncome'],
+  ['Assets', 'totalAssets'],
+  ['Liabilities', 'totalLiabilities'],
+  ['EquityAttributableToOwnersOfParent', 'stockholdersEquity'],
+  ['Equity', 'stockholdersEquity'],
+  ['CashFlowsFromUsedInOperatingActivities', 'operatingCashFlow'],
+  ['GrossProfit', 'grossProfit'],
+  ['ProfitLossFromOperatingActivities', 'operatingIncome'],
+  ['DepreciationAndAmortisationExpense', 'depreciationAndAmortization'],
+  ['DepreciationAmortisationAndImpairmentLossReversalOfImpairmentLossRecognisedInProfitOrLoss', 'depreciationAndAmortization'],
+  ['NoncurrentPortionOfNoncurrentBorrowings', 'longTermDebt'],
+  ['LongtermBorrowings', 'longTermDebtTotal'],
+  ['CurrentAssets', 'currentAssets'],
+  ['CurrentLiabilities', 'currentLiabilities'],
+  ['CashAndCashEquivalents', 'cashAndEquivalents'],
+  ['DepreciationExpense', 'depreciation'],
+  ['DepreciationPropertyPlantAndEquipment', 'depreciation'],
+  ['AmortisationExpense', 'amortization'],
+  ['AmortisationIntangibleAssetsOtherThanGoodwill', 'amortization'],
+  ['CostOfSales', 'costOfRevenue'],
+  ['SellingGeneralAndAdministrativeExpense', 'sellingGeneralAndAdministrative'],
+  ['FinanceCosts', 'interestExpense'],
+  ['InterestExpense', 'interestExpense'],
+  ['ProfitLossBeforeTax', 'pretaxIncome'],
+  ['IncomeTaxExpenseContinuingOperations', 'incomeTaxExpense'],
+  ['TradeAndOtherCurrentReceivables', 'accountsReceivable'],
+  ['CurrentTradeReceivables', 'accountsReceivable'],
+  ['Inventories', 'inventory'],
+  ['PropertyPlantAndEquipment', 'propertyPlantAndEquipment'],
+  ['TradeAndOtherCurrentPayables', 'accountsPayable'],
+  ['CurrentBorrowingsAndCurrentPortionOfNoncurrentBorrowings', 'shortTermDebt'],
+  ['ShorttermBorrowings', 'shortTermBorrowings'],
+  ['CurrentPortionOfLongtermBorrowings', 'currentPortionOfLongTermDebt'],
+  ['LeaseLiabilities', 'financeLeaseLiabilities'],
+  ['CurrentLeaseLiabilities', 'financeLeaseLiabilitiesCurrent'],
+  ['NoncurrentLeaseLiabilities', 'financeLeaseLiabilitiesNoncurrent'],
+  ['RetainedEarnings', 'retainedEarnings'],
+  ['NumberOfSharesOutstanding', 'commonSharesOutstanding'],
+  ['PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities', 'capitalExpenditures'],
+  ['CashFlowsFromUsedInInvestingActivities', 'investingCashFlow'],
+  ['CashFlowsFromUsedInFinancingActivities', 'financingCashFlow'],
+  ['DividendsPaidClassifiedAsFinancingActivities', 'dividendsPaid'],
+  ['PaymentsToAcquireOrRedeemEntitysShares', 'shareRepurchases'],
+  ['InterestPaidClassifiedAsOperatingActivities', 'interestPaid'],
+  ['InterestPaidClassifiedAsFinancingActivities', 'interestPaid'],
+  ['PaymentsOfLeaseLiabilitiesClassifiedAsFinancingActivities', 'financeLeasePayments'],
+])]
+
+// Company overrides always outrank the global mapping for their field
+const OVERRIDE_PRIORITY_OFFSET = -10_000
+
+const QUARTER_PERIODS: FiscalPeriod[] = ['Q1', 'Q2', 'Q3']
+
+// A duration fact this short is a discrete quarter; longer ones are year-to-date
+const MAX_QUARTER_DAYS = 100
+
+// 52/53-week years included; shorter durations in a 10-K are quarterly disclosures
+const MIN_ANNUAL_DAYS = 350
+const MAX_ANNUAL_DAYS = 380
+
+// 52/53-week filers' period ends drift by a few days from year to year
+const PERIOD_END_TOLERANCE_DAYS = 15
+
+// Foreign private issuers file 20-F (or 40-F for Canadian MJDS filers) instead of a
+// 10-K; their interim 6-K reports carry no XBRL financial statements
+const ANNUAL_FORMS = ['10-K', '10-K/A', '20-F', '20-F/A', '40-F', '40-F/A']
+const QUARTERLY_FORMS = ['10-Q', '10-Q/A']
+
+// Periodic reports plus current reports (8-K, or 6-K for foreign private issuers)
+// are listed in the run's filing index
+const INDEXED_FORMS = [...ANNUAL_FORMS, ...QUARTERLY_FORMS, '8-K', '8-K/A', '6-K', '6-K/A']
+
+// ISO 4217 currency units; per-share units such as 'USD/shares' don't match
+const CURRENCY_UNIT = /^[A-Z]{3}$/
+
 async function fetchWithRetry(url: string, retries = 3, delay = 1000): Promise<Response> {
   for (let i = 0; i < retries; i++) {
     try {
@@ -146,12 +616,30 @@ async function fetchCompanyTickers(): Promise<Record<string, { cik_str: number;
   return response.json()
 }
 
-async function getCIKFromTicker(ticker: string): Promise<{ cik: string; name: string } | null> {
+// SEC writes share classes with a hyphen: BRK-B rather than BRK.B
+function toSecTicker(ticker: string): string {
+  return ticker.toUpperCase().replace('.', '-')
+}
+
+async function getCIKFromTicker(
+  supabase: ReturnType<typeof createClient>,
+  ticker: string
+): Promise<{ cik: string; name: string } | null> {
+  const secTicker = toSecTicker(ticker)
+
+  // The local directory avoids downloading SEC's full ticker file on every fetch
+  const { data: entry } = await supabase
+    .from('sec_company_directory')
+    .select('cik, name')
+    .eq('ticker', secTicker)
+    .maybeSingle()
+  if (entry) return { cik: entry.cik, name: entry.name }
+
+  // Not refreshed yet, or listed since the last refresh
   const tickers = await fetchCompanyTickers()
   
-  const upperTicker = ticker.toUpperCase()
   for (const [, company] of Object.entries(tickers)) {
-    if (company.ticker === upperTicker) {
+    if (company.ticker === secTicker) {
       // CIK needs to be padded to 10 digits
       const paddedCIK = String(company.cik_str).padStart(10, '0')
       return { cik: paddedCIK, name: company.title }
@@ -171,97 +659,802 @@ async function fetchCompanyFacts(cik: string): Promise<SECCompanyFacts> {
   return response.json()
 }
 
-async function fetchCompanySubmissions(cik: string): Promise<{ sicCode: string | null }> {
+function toFilings(cik: string, columns: SECFilingColumns, filedFrom: string): Filing[] {
+  const filings: Filing[] = []
+  const archivePath = `https://www.sec.gov/Archives/edgar/data/${parseInt(cik, 10)}`
+
+  columns.accessionNumber.forEach((accessionNumber, i) => {
+    const form = columns.form[i]
+    const filed = columns.filingDate[i]
+    if (!INDEXED_FORMS.includes(form) || filed < filedFrom) return
+
+    const primaryDocument = columns.primaryDocument[i] || ''
+    const folder = `${archivePath}/${accessionNumber.replace(/-/g, '')}`
+    filings.push({
+      form,
+      accessionNumber,
+      filed,
+      reportDate: columns.reportDate[i] || null,
+      primaryDocument,
+      description: columns.primaryDocDescription[i] || null,
+      // Filings without a primary document only have the folder index
+      url: primaryDocument ? `${folder}/${primaryDocument}` : `${folder}/`,
+    })
+  })
+  return filings
+}
+
+// Filings since the start of the run's first fiscal year. The feed inlines the most
+// recent 1,000 filings; older ones are paged into separate files.
+async function fetchCompanySubmissions(cik: string, fiscalYearStart: number): Promise<CompanySubmissions> {
   const url = `https://data.sec.gov/submissions/CIK${cik}.json`
   const response = await fetchWithRetry(url)
   
   if (!response.ok) {
-    return { sicCode: null }
+    return { sicCode: null, filings: [] }
   }
   
   const data = await response.json()
-  return { sicCode: data.sic || null }
+  const filedFrom = `${fiscalYearStart}-01-01`
+  const filings = toFilings(cik, data.filings.recent, filedFrom)
+
+  const olderPages: Array<{ name: string; filingTo: string }> = data.filings.files ?? []
+  for (const page of olderPages.filter(page => page.filingTo >= filedFrom)) {
+    const pageResponse = await fetchWithRetry(`https://data.sec.gov/submissions/${page.name}`)
+    if (!pageResponse.ok) continue
+    filings.push(...toFilings(cik, await pageResponse.json(), filedFrom))
+  }
+
+  return {
+    sicCode: data.sic || null,
+    filings: filings.sort((a, b) => b.filed.localeCompare(a.filed)),
+  }
+}
+
+interface FiledValue {
+  val: number
+  accn: string
+  filed: string
+  form: string
+}
+
+interface SlotValue extends FiledValue {
+  start: string | null
+  end: string
+  fp: string
+  concept: string
+  priority: number
+  // Earliest filing that reported this concept for the period
+  original: FiledValue
+  // Facts passed over in favour of this one, one per concept and value
+  alternatives: FactSource[]
+}
+
+interface PeriodIndex {
+  // Fiscal year -> period end, taken from each annual report's own reporting period
+  annualEnds: Map<number, string>
+  // `${fy}-${fp}` -> period end, taken from each 10-Q's own reporting period
+  quarterEnds: Map<string, string>
+}
+
+interface QuarterAccumulator {
+  periodEnd: string | null
+  // Three-month values (and balance sheet instants) for the quarter
+  discrete: Partial<Record<Slot, SlotValue>>
+  // Year-to-date values ending at the quarter
+  ytd: Partial<Record<Slot, SlotValue>>
+}
+
+// Resolved values for one period, with the concept and facts each value came from
+interface PeriodSlots {
+  values: Partial<Record<Slot, number | null>>
+  concepts: Partial<Record<Slot, string>>
+  sources: Partial<Record<Slot, ValueSource>>
+}
+
+function durationInDays(start: string, end: string): number {
+  return (new Date(end).getTime() - new Date(start).getTime()) / 86_400_000
+}
+
+// Filings repeat earlier periods as comparatives under their own fy/fp, so a fact's
+// period is found from its end date rather than the fiscal year of the filing
+function buildPeriodIndex(values: SECFactValue[]): PeriodIndex {
+  const annualEnds: Map<number, string> = new Map()
+  const quarterEnds: Map<string, string> = new Map()
+
+  for (const value of values) {
+    if (ANNUAL_FORMS.includes(value.form)) {
+      const known = annualEnds.get(value.fy)
+      if (!known || value.end > known) annualEnds.set(value.fy, value.end)
+    } else if (QUARTERLY_FORMS.includes(value.form) && QUARTER_PERIODS.includes(value.fp as FiscalPeriod)) {
+      const key = `${value.fy}-${value.fp}`
+      const known = quarterEnds.get(key)
+      if (!known || value.end > known) quarterEnds.set(key, value.end)
+    }
+  }
+
+  return { annualEnds, quarterEnds }
+}
+
+// The currency most annual facts are reported in. Filers occasionally tag a few
+// convenience translations in another currency alongside their reporting currency.
+function detectReportingCurrency(concepts: SECConceptFacts[]): string {
+  const counts: Map<string, number> = new Map()
+  for (const data of concepts) {
+    for (const [unit, values] of Object.entries(data.units)) {
+      if (!CURRENCY_UNIT.test(unit)) continue
+      const annualFacts = values.filter(value => ANNUAL_FORMS.includes(value.form)).length
+      counts.set(unit, (counts.get(unit) ?? 0) + annualFacts)
+    }
+  }
+
+  let currency = 'USD'
+  let most = 0
+  for (const [unit, count] of counts) {
+    if (count > most) {
+      currency = unit
+      most = count
+    }
+  }
+  return currency
+}
+
+function findPeriodByEnd<K>(periodEnds: Map<K, string>, end: string): K | undefined {
+  let match: K | undefined
+  let closest = Infinity
+  for (const [key, periodEnd] of periodEnds) {
+    const gap = Math.abs(durationInDays(periodEnd, end))
+    if (gap <= PERIOD_END_TOLERANCE_DAYS && gap < closest) {
+      match = key
+      closest = gap
+    }
+  }
+  return match
+}
+
+function fiscalYearForEnd(annualEnds: Map<number, string>, end: string): number | null {
+  const match = findPeriodByEnd(annualEnds, end)
+  if (match !== undefined) return match
+
+  // Comparatives older than the first XBRL annual report: count whole years back
+  // from the nearest known year end
+  let nearest: [number, number] | null = null
+  for (const [year, periodEnd] of annualEnds) {
+    const offset = durationInDays(periodEnd, end)
+    if (!nearest || Math.abs(offset) < Math.abs(nearest[1])) nearest = [year, offset]
+  }
+  if (!nearest) return null
+
+  const years = Math.round(nearest[1] / 365.25)
+  if (Math.abs(nearest[1] - years * 365.25) > PERIOD_END_TOLERANCE_DAYS) return null
+  return nearest[0] + years
+}
+
+function toFactSource(value: SlotValue): FactSource {
+  return {
+    concept: value.concept,
+    val: value.val,
+    accn: value.accn,
+    form: value.form,
+    fp: value.fp,
+    filed: value.filed,
+    start: value.start,
+    end: value.end,
+  }
+}
+
+// Comparatives repeat the same figure in every later filing; keep the latest one
+function addAlternative(alternatives: FactSource[], value: SlotValue): FactSource[] {
+  const fact = toFactSource(value)
+  const index = alternatives.findIndex(alt => alt.concept === fact.concept && alt.val === fact.val)
+  if (index === -1) return [...alternatives, fact]
+  if (alternatives[index].filed >= fact.filed) return alternatives
+  return alternatives.map((alt, i) => (i === index ? fact : alt))
+}
+
+// Higher-priority concepts replace lower ones outright. Within a concept the most
+// recently filed value wins, and the earliest filing is kept to surface restatements.
+function pickSlotValue(existing: SlotValue | undefined, candidate: SlotValue): SlotValue {
+  if (!existing) return candidate
+  if (candidate.priority < existing.priority) {
+    return { ...candidate, alternatives: addAlternative(existing.alternatives, existing) }
+  }
+  if (candidate.priority > existing.priority || candidate.concept !== existing.concept) {
+    return { ...existing, alternatives: addAlternative(existing.alternatives, candidate) }
+  }
+
+  const original = candidate.filed < existing.original.filed ? candidate.original : existing.original
+  return candidate.filed > existing.filed
+    ? { ...candidate, original, alternatives: addAlternative(existing.alternatives, existing) }
+    : { ...existing, original, alternatives: addAlternative(existing.alternatives, candidate) }
+}
+
+function reportedSource(value: SlotValue | undefined): ValueSource | undefined {
+  if (!value) return undefined
+  return {
+    sources: [toFactSource(value)],
+    derivation: null,
+    alternatives: value.alternatives.filter(alt => alt.concept !== value.concept || alt.val !== value.val),
+  }
+}
+
+function derivedSource(derivation: string, parts: Array<ValueSource | undefined>): ValueSource {
+  return {
+    sources: parts.flatMap(part => part?.sources ?? []),
+    derivation,
+    alternatives: [],
+  }
+}
+
+function collectRestatements(
+  period: string,
+  values: Partial<Record<Slot, SlotValue>>,
+  restatements: Restatement[]
+) {
+  for (const slot of SLOTS) {
+    const value = values[slot]
+    if (!value || value.original.accn === value.accn || value.original.val === value.val) continue
+    restatements.push({
+      period,
+      field: slot,
+      concept: value.concept,
+      originalValue: value.original.val,
+      restatedValue: value.val,
+      originalAccession: value.original.accn,
+      restatedAccession: value.accn,
+      originalFiled: value.original.filed,
+      restatedFiled: value.filed,
+      restatedForm: value.form,
+    })
+  }
+}
+
+function subtract(a: number | null | undefined, b: number | null | undefined): number | null {
+  if (a == null || b == null) return null
+  return a - b
+}
+
+function deriveEbitda(
+  slots: PeriodSlots,
+  period: string
+): { value: number | null; derivation: EbitdaDerivation | null } {
+  const { values, concepts } = slots
+  const operatingIncome = values.operatingIncome
+  if (operatingIncome == null) return { value: null, derivation: null }
+
+  const base = [concepts.operatingIncome].filter((c): c is string => !!c)
+  const { depreciationAndAmortization, depreciation, amortization } = values
+
+  if (depreciationAndAmortization != null) {
+    return {
+      value: operatingIncome + depreciationAndAmortization,
+      derivation: {
+        period,
+        method: 'reported_da',
+        concepts: [...base, concepts.depreciationAndAmortization!],
+        isProxy: false,
+        note: null,
+      },
+    }
+  }
+
+  if (depreciation != null && amortization != null) {
+    return {
+      value: operatingIncome + depreciation + amortization,
+      derivation: {
+        period,
+        method: 'da_components',
+        concepts: [...base, concepts.depreciation!, concepts.amortization!],
+        isProxy: false,
+        note: null,
+      },
+    }
+  }
+
+  // Only one of depreciation and amortization; the concept recorded says which
+  if (depreciation != null || amortization != null) {
+    const component = depreciation != null ? 'depreciation' : 'amortization'
+    return {
+      value: operatingIncome + (depreciation ?? amortization ?? 0),
+      derivation: {
+        period,
+        method: 'partial_da',
+        concepts: [...base, concepts[component]!],
+        isProxy: true,
+        note: `Only ${component} was reported; EBITDA excludes ${component === 'depreciation' ? 'amortization' : 'depreciation'}`,
+      },
+    }
+  }
+
+  return {
+    value: operatingIncome,
+    derivation: {
+      period,
+      method: 'operating_income_only',
+      concepts: base,
+      isProxy: true,
+      note: 'No depreciation or amortization was reported; EBITDA is approximated by operating income',
+    },
+  }
+}
+
+// Filers tag long-term debt with or without its current maturities, and current debt
+// with or without them. Normalize to current debt including the current maturities
+// and long-term debt excluding them, so the two add up to borrowings without
+// counting the current portion twice or leaving it out.
+function normalizeDebt(data: FiscalYearData, slots: PeriodSlots, period: string, provenance: ValueProvenance[]) {
+  const { values, sources } = slots
+  const longTermDebtTotal = values.longTermDebtTotal ?? null
+  const shortTermBorrowings = values.shortTermBorrowings ?? null
+  const derive = (field: NumericField, value: number, basis: string, parts: Array<ValueSource | undefined>) => {
+    data[field] = value
+    provenance.push({ period, field, ...derivedSource(basis, parts) })
+  }
+
+  if (data.currentPortionOfLongTermDebt === null) {
+    if (longTermDebtTotal !== null && data.longTermDebt !== null) {
+      derive('currentPortionOfLongTermDebt', longTermDebtTotal - data.longTermDebt, 'Long-term debt − noncurrent portion', [
+        sources.longTermDebtTotal,
+        sources.longTermDebt,
+      ])
+    } else if (data.shortTermDebt !== null && shortTermBorrowings !== null) {
+      derive('currentPortionOfLongTermDebt', data.shortTermDebt - shortTermBorrowings, 'Current debt − short-term borrowings', [
+        sources.shortTermDebt,
+        sources.shortTermBorrowings,
+      ])
+    }
+  }
+  const currentPortion = data.currentPortionOfLongTermDebt
+
+  if (data.longTermDebt === null && longTermDebtTotal !== null) {
+    if (currentPortion !== null) {
+      derive('longTermDebt', longTermDebtTotal - currentPortion, 'Long-term debt − current portion', [
+        sources.longTermDebtTotal,
+        sources.currentPortionOfLongTermDebt,
+      ])
+    } else {
+      // Without a current portion the maturities can't be separated out. They are only
+      // counted twice if total current debt is tagged too, which the basis calls out.
+      const basis = data.shortTermDebt === null
+        ? 'Long-term debt including current maturities; no current portion was tagged'
+        : 'Long-term debt including current maturities, which current debt may also include; no current portion was tagged'
+      derive('longTermDebt', longTermDebtTotal, basis, [sources.longTermDebtTotal])
+    }
+  }
+
+  if (data.shortTermDebt === null) {
+    if (shortTermBorrowings !== null && currentPortion !== null) {
+      derive('shortTermDebt', shortTermBorrowings + currentPortion, 'Short-term borrowings + current portion of long-term debt', [
+        sources.shortTermBorrowings,
+        sources.currentPortionOfLongTermDebt,
+      ])
+    } else if (shortTermBorrowings !== null) {
+      derive('shortTermDebt', shortTermBorrowings, 'Short-term borrowings; no current portion of long-term debt was tagged', [
+        sources.shortTermBorrowings,
+      ])
+    } else if (currentPortion !== null) {
+      // Many filers only tag the current portion of long-term debt, not total current debt
+      derive('shortTermDebt', currentPortion, 'Current portion of long-term debt; no total current debt was tagged', [
+        sources.currentPortionOfLongTermDebt,
+      ])
+    }
+  }
+}
+
+const LEASE_PORTIONS: Array<{ field: NumericField; current: LeaseComponent; noncurrent: LeaseComponent; label: string }> = [
+  {
+    field: 'operatingLeaseLiabilities',
+    current: 'operatingLeaseLiabilitiesCurrent',
+    noncurrent: 'operatingLeaseLiabilitiesNoncurrent',
+    label: 'operating',
+  },
+  {
+    field: 'financeLeaseLiabilities',
+    current: 'financeLeaseLiabilitiesCurrent',
+    noncurrent: 'financeLeaseLiabilitiesNoncurrent',
+    label: 'finance',
+  },
+]
+
+// Lease liabilities are the current and noncurrent portions together. Filers that
+// don't tag the total have it assembled from the portions they do tag, and the basis
+// says when one is missing.
+function normalizeLeases(data: FiscalYearData, slots: PeriodSlots, period: string, provenance: ValueProvenance[]) {
+  for (const { field, current, noncurrent, label } of LEASE_PORTIONS) {
+    if (data[field] !== null) continue
+    const currentValue = slots.values[current] ?? null
+    const noncurrentValue = slots.values[noncurrent] ?? null
+    if (currentValue === null && noncurrentValue === null) continue
+
+    const basis = currentValue === null
+      ? `Noncurrent ${label} lease liabilities; no current portion was tagged`
+      : noncurrentValue === null
+        ? `Current ${label} lease liabilities; no noncurrent portion was tagged`
+        : `Current + noncurrent ${label} lease liabilities`
+    data[field] = (currentValue ?? 0) + (noncurrentValue ?? 0)
+    provenance.push({ period, field, ...derivedSource(basis, [slots.sources[current], slots.sources[noncurrent]]) })
+  }
+}
+
+const EBITDA_SLOTS: Slot[] = ['operatingIncome', 'depreciationAndAmortization', 'depreciation', 'amortization']
+
+function toPeriodData(
+  year: number,
+  slots: PeriodSlots,
+  period: string,
+  derivations: EbitdaDerivation[],
+  provenance: ValueProvenance[]
+): FiscalYearData {
+  const data = { year } as FiscalYearData
+  for (const field of NUMERIC_FIELDS) {
+    data[field] = slots.values[field] ?? null
+    const source = slots.sources[field]
+    if (data[field] !== null && source) provenance.push({ period, field, ...source })
+  }
+
+  normalizeDebt(data, slots, period, provenance)
+  normalizeLeases(data, slots, period, provenance)
+
+  const { value, derivation } = deriveEbitda(slots, period)
+  data.ebitda = value
+  if (derivation) {
+    derivations.push(derivation)
+    const parts = EBITDA_SLOTS
+      .filter(slot => slots.concepts[slot] && derivation.concepts.includes(slots.concepts[slot]!))
+      .map(slot => slots.sources[slot])
+    const basis = derivation.note ?? (derivation.method === 'reported_da'
+      ? 'Operating income + D&A'
+      : 'Operating income + depreciation + amortization')
+    provenance.push({ period, field: 'ebitda', ...derivedSource(basis, parts) })
+  }
+  return data
+}
+
+function buildQuarters(
+  quarterData: Map<string, QuarterAccumulator>,
+  annual: Map<number, PeriodSlots>,
+  annualPeriodEnds: Map<number, string>,
+  years: number[],
+  derivations: EbitdaDerivation[],
+  provenance: ValueProvenance[]
+): QuarterData[] {
+  const quarters: QuarterData[] = []
+
+  for (const year of years) {
+    for (const fiscalPeriod of [...QUARTER_PERIODS, 'Q4' as const]) {
+      const slots: PeriodSlots = { values: {}, concepts: {}, sources: {} }
+      let periodEnd: string | null = null
+
+      if (fiscalPeriod === 'Q4') {
+        // Q4 is never filed on a 10-Q: derive it as the annual figure less the nine-month YTD
+        const fy = annual.get(year)
+        const q3 = quarterData.get(`${year}-Q3`)
+        if (!fy || !annualPeriodEnds.has(year)) continue
+        periodEnd = annualPeriodEnds.get(year) ?? null
+        slots.concepts = fy.concepts
+        for (const slot of SLOTS) {
+          if (FLOW_SLOTS.includes(slot)) {
+            slots.values[slot] = subtract(fy.values[slot], q3?.ytd[slot]?.val)
+            slots.sources[slot] = derivedSource(`FY${year} − Q3 FY${year} YTD`, [
+              fy.sources[slot],
+              reportedSource(q3?.ytd[slot]),
+            ])
+          } else {
+            slots.values[slot] = fy.values[slot] ?? null
+            slots.sources[slot] = fy.sources[slot]
+          }
+        }
+      } else {
+        const acc = quarterData.get(`${year}-${fiscalPeriod}`)
+        if (!acc) continue
+        const previous = fiscalPeriod === 'Q1'
+          ? undefined
+          : quarterData.get(`${year}-Q${Number(fiscalPeriod[1]) - 1}`)
+        periodEnd = acc.periodEnd
+        for (const slot of SLOTS) {
+          const discrete = acc.discrete[slot]
+          const ytd = acc.ytd[slot]
+          slots.concepts[slot] = discrete?.concept ?? ytd?.concept
+          if (discrete !== undefined) {
+            slots.values[slot] = discrete.val
+            slots.sources[slot] = reportedSource(discrete)
+          } else if (FLOW_SLOTS.includes(slot)) {
+            // Cash flow statements are only filed year-to-date
+            if (fiscalPeriod === 'Q1') {
+              slots.values[slot] = ytd?.val ?? null
+              slots.sources[slot] = reportedSource(ytd)
+            } else {
+              const previousPeriod = `Q${Number(fiscalPeriod[1]) - 1}`
+              slots.values[slot] = subtract(ytd?.val, previous?.ytd[slot]?.val)
+              slots.sources[slot] = derivedSource(
+                `${fiscalPeriod} FY${year} YTD − ${previousPeriod} FY${year} YTD`,
+                [reportedSource(ytd), reportedSource(previous?.ytd[slot])]
+              )
+            }
+          }
+        }
+      }
+
+      quarters.push({
+        ...toPeriodData(year, slots, `${fiscalPeriod} FY${year}`, derivations, provenance),
+        fiscalPeriod,
+        periodEnd,
+      })
+    }
+  }
+
+  return quarters
+}
+
+function buildTrailingPeriod(
+  quarterData: Map<string, QuarterAccumulator>,
+  annual: Map<number, PeriodSlots>,
+  derivations: EbitdaDerivation[],
+  provenance: ValueProvenance[]
+): TrailingPeriodData | null {
+  const annualYears = Array.from(annual.entries())
+    .filter(([, fy]) => SLOTS.some(slot => fy.values[slot] != null))
+    .map(([year]) => year)
+  if (annualYears.length === 0) return null
+  const latestAnnualYear = Math.max(...annualYears)
+
+  // Find the most recent stub quarter filed after the last annual report
+  const stubYear = latestAnnualYear + 1
+  const stubPeriod = [...QUARTER_PERIODS].reverse()
+    .find(fp => quarterData.has(`${stubYear}-${fp}`))
+  if (!stubPeriod) return null
+
+  const current = quarterData.get(`${stubYear}-${stubPeriod}`)!
+  const prior = quarterData.get(`${latestAnnualYear}-${stubPeriod}`)
+  const fy = annual.get(latestAnnualYear)!
+  const slots: PeriodSlots = { values: {}, concepts: {}, sources: {} }
+  const basis = `FY${latestAnnualYear} + ${stubPeriod} FY${stubYear} YTD − ${stubPeriod} FY${latestAnnualYear} YTD`
+
+  for (const slot of SLOTS) {
+    if (FLOW_SLOTS.includes(slot)) {
+      // LTM = last annual + current YTD − prior-year comparable YTD
+      const currentYtd = current.ytd[slot] ?? (stubPeriod === 'Q1' ? current.discrete[slot] : undefined)
+      const priorYtd = prior?.ytd[slot] ?? (stubPeriod === 'Q1' ? prior?.discrete[slot] : undefined)
+      const sum = subtract(fy.values[slot], priorYtd?.val)
+      slots.values[slot] = sum === null || currentYtd === undefined ? null : sum + currentYtd.val
+      slots.concepts[slot] = currentYtd?.concept
+      slots.sources[slot] = derivedSource(basis, [
+        fy.sources[slot],
+        reportedSource(currentYtd),
+        reportedSource(priorYtd),
+      ])
+    } else {
+      slots.values[slot] = current.discrete[slot]?.val ?? null
+      slots.concepts[slot] = current.discrete[slot]?.concept
+      slots.sources[slot] = reportedSource(current.discrete[slot])
+    }
+  }
+
+  return {
+    ...toPeriodData(stubYear, slots, 'LTM', derivations, provenance),
+    fiscalPeriod: stubPeriod,
+    periodEnd: current.periodEnd,
+    basis,
+  }
+}
+
+async function loadConceptMappings(
+  supabase: ReturnType<typeof createClient>,
+  companyId: string | null
+): Promise<ConceptMappingIndex> {
+  const index: ConceptMappingIndex = new Map()
+
+  const { data: mappings, error } = await supabase
+    .from('xbrl_concept_mappings')
+    .select('taxonomy, concept, field, priority, is_active')
+
+  // The built-in mapping only stands in for an unreadable or unseeded table; mappings an
+  // admin has switched off stay off, even when that leaves none active
+  const globalMappings: ConceptMapping[] = error || !mappings?.length
+    ? DEFAULT_CONCEPT_MAPPINGS
+    : mappings.filter(mapping => mapping.is_active)
+  if (error) console.error('Falling back to built-in concept mapping:', error)
+
+  for (const mapping of globalMappings) {
+    index.set(`${mapping.taxonomy}:${mapping.concept}`, { field: mapping.field, priority: mapping.priority })
+  }
+
+  if (companyId) {
+    const { data: overrides } = await supabase
+      .from('company_concept_overrides')
+      .select('taxonomy, concept, field, priority')
+      .eq('company_id', companyId)
+
+    for (const override of (overrides || []) as ConceptMapping[]) {
+      index.set(`${override.taxonomy}:${override.concept}`, {
+        field: override.field,
+        priority: OVERRIDE_PRIORITY_OFFSET + override.priority,
+      })
+    }
+  }
+
+  return index
+}
+
+// Cover-page counts are the most current; the balance sheet figure is a fallback
+const SHARE_COUNT_CONCEPTS: Array<[taxonomy: string, concept: string]> = [
+  ['dei', 'EntityCommonStockSharesOutstanding'],
+  ['us-gaap', 'CommonStockSharesOutstanding'],
+]
+
+function findSharesOutstanding(facts: SECCompanyFacts): SharesOutstanding | null {
+  for (const [taxonomy, concept] of SHARE_COUNT_CONCEPTS) {
+    const values = facts.facts[taxonomy]?.[concept]?.units.shares ?? []
+    if (values.length === 0) continue
+
+    const latest = values.reduce((a, b) => (b.end > a.end || (b.end === a.end && b.filed > a.filed) ? b : a))
+    // Multi-class filers report one count per class on the same filing
+    const classes = values.filter(v => v.accn === latest.accn && v.end === latest.end)
+    return {
+      value: classes.reduce((sum, v) => sum + v.val, 0),
+      asOf: latest.end,
+      concept: taxonomy === 'us-gaap' ? concept : `${taxonomy}:${concept}`,
+      accn: latest.accn,
+      filed: latest.filed,
+    }
+  }
+  return null
 }
 
 function normalizeFinancials(
   facts: SECCompanyFacts,
+  mappings: ConceptMappingIndex,
   ticker: string,
-  sicCode: string | null,
+  submissions: CompanySubmissions,
   fiscalYearStart: number,
   fiscalYearEnd: number
 ): NormalizedFinancials {
-  const usGaap = facts.facts['us-gaap'] || {}
   const rawMetrics: Record<string, MetricData[]> = {}
-  const yearData: Map<number, Partial<FiscalYearData>> = new Map()
+  const yearData: Map<number, Partial<Record<Slot, SlotValue>>> = new Map()
+  const quarterData: Map<string, QuarterAccumulator> = new Map()
+  const ebitdaDerivations: EbitdaDerivation[] = []
+  const restatements: Restatement[] = []
+  const provenance: ValueProvenance[] = []
+
+  // Quarters from the year after the run's range are kept so the trailing period
+  // can reflect 10-Qs filed since the last 10-K
+  const quarterYearEnd = fiscalYearEnd + 1
+  const isInRange = (value: SECFactValue) => ANNUAL_FORMS.includes(value.form)
+    ? value.fy >= fiscalYearStart && value.fy <= fiscalYearEnd
+    : QUARTERLY_FORMS.includes(value.form) && value.fy >= fiscalYearStart && value.fy <= quarterYearEnd
 
   // Initialize years
   for (let year = fiscalYearStart; year <= fiscalYearEnd; year++) {
-    yearData.set(year, { year })
+    yearData.set(year, {})
   }
 
   // Process each metric
-  for (const [concept, data] of Object.entries(usGaap)) {
-    const normalizedName = METRIC_MAPPING[concept]
+  const conceptEntries = Object.entries(facts.facts).flatMap(([taxonomy, concepts]) =>
+    Object.entries(concepts || {}).map(([concept, data]) => ({ taxonomy, concept, data }))
+  )
+
+  const mappedConcepts = conceptEntries
+    .filter(({ taxonomy, concept }) => mappings.has(`${taxonomy}:${concept}`))
+    .map(({ data }) => data)
+  const currency = detectReportingCurrency(mappedConcepts)
+  const periods = buildPeriodIndex(mappedConcepts.flatMap(data => data.units[currency] || []))
+
+  for (const { taxonomy, concept: conceptName, data } of conceptEntries) {
+    const mapping = mappings.get(`${taxonomy}:${conceptName}`)
+    const slot = mapping?.field
+    const priority = mapping?.priority ?? 0
+    // Extension concepts are qualified so they can't collide with us-gaap names
+    const concept = taxonomy === 'us-gaap' ? conceptName : `${taxonomy}:${conceptName}`
     const units = data.units
 
-    // Get USD values (most common for financial metrics)
-    const usdValues = units['USD'] || []
-    
-    // Store raw metric data
-    if (usdValues.length > 0) {
-      rawMetrics[concept] = usdValues
-        .filter(v => v.form === '10-K' && v.fy >= fiscalYearStart && v.fy <= fiscalYearEnd)
+    // Values in other currencies are convenience translations and are ignored
+    const currencyValues = units[currency] || []
+    const mappedValues = slot && SHARE_FIELDS.includes(slot as NumericField) ? units.shares || [] : currencyValues
+
+    // Store raw metric data for every financial taxonomy, so unmapped extension
+    // concepts are visible when setting up company overrides
+    if (currencyValues.length > 0 && taxonomy !== 'dei') {
+      rawMetrics[concept] = currencyValues
+        .filter(isInRange)
         .map(v => ({
+          start: v.start,
           end: v.end,
           val: v.val,
+          accn: v.accn,
           fy: v.fy,
+          fp: v.fp,
           form: v.form,
           filed: v.filed,
         }))
     }
 
     // Map to normalized structure if we recognize this metric
-    if (normalizedName) {
-      for (const value of usdValues) {
-        // Only use 10-K (annual) filings within our fiscal year range
-        if (value.form === '10-K' && value.fy >= fiscalYearStart && value.fy <= fiscalYearEnd) {
-          const existing = yearData.get(value.fy) || { year: value.fy }
-          
-          // Only update if we don't have a value yet (prefer first match)
-          if (existing[normalizedName] === undefined) {
-            existing[normalizedName] = value.val
-            yearData.set(value.fy, existing)
-          }
+    if (slot) {
+      for (const value of mappedValues) {
+        const duration = value.start !== undefined ? durationInDays(value.start, value.end) : null
+        const filing: FiledValue = { val: value.val, accn: value.accn, filed: value.filed, form: value.form }
+        const candidate: SlotValue = {
+          ...filing,
+          start: value.start ?? null,
+          end: value.end,
+          fp: value.fp,
+          concept,
+          priority,
+          original: filing,
+          alternatives: [],
+        }
+
+        if (ANNUAL_FORMS.includes(value.form)) {
+          if (duration !== null && (duration < MIN_ANNUAL_DAYS || duration > MAX_ANNUAL_DAYS)) continue
+
+          const year = fiscalYearForEnd(periods.annualEnds, value.end)
+          if (year === null || year < fiscalYearStart || year > fiscalYearEnd) continue
+
+          const existing = yearData.get(year) || {}
+          existing[slot] = pickSlotValue(existing[slot], candidate)
+          yearData.set(year, existing)
+          continue
         }
+
+        if (!QUARTERLY_FORMS.includes(value.form)) continue
+
+        // Prior-year comparatives land on the quarter they describe; instants at the
+        // prior year end match no quarter and are dropped
+        const key = findPeriodByEnd(periods.quarterEnds, value.end)
+        if (key === undefined) continue
+        const year = Number(key.split('-')[0])
+        if (year < fiscalYearStart || year > quarterYearEnd) continue
+
+        const acc = quarterData.get(key) || { periodEnd: periods.quarterEnds.get(key) ?? null, discrete: {}, ytd: {} }
+        const target = duration !== null && duration > MAX_QUARTER_DAYS ? acc.ytd : acc.discrete
+        target[slot] = pickSlotValue(target[slot], candidate)
+        quarterData.set(key, acc)
       }
     }
   }
 
+  for (const [year, values] of yearData) {
+    collectRestatements(`FY${year}`, values, restatements)
+  }
+  for (const [key, acc] of quarterData) {
+    const [year, fiscalPeriod] = key.split('-')
+    collectRestatements(`${fiscalPeriod} FY${year}`, acc.discrete, restatements)
+    collectRestatements(`${fiscalPeriod} FY${year} YTD`, acc.ytd, restatements)
+  }
+
+  const annual: Map<number, PeriodSlots> = new Map()
+  for (const [year, values] of yearData) {
+    const slots: PeriodSlots = { values: {}, concepts: {}, sources: {} }
+    for (const slot of SLOTS) {
+      slots.values[slot] = values[slot]?.val ?? null
+      slots.concepts[slot] = values[slot]?.concept
+      slots.sources[slot] = reportedSource(values[slot])
+    }
+    annual.set(year, slots)
+  }
+
   // Convert map to sorted array
-  const fiscalYears: FiscalYearData[] = Array.from(yearData.values())
-    .sort((a, b) => (a.year || 0) - (b.year || 0))
-    .map(data => ({
-      year: data.year || 0,
-      revenue: data.revenue ?? null,
-      netIncome: data.netIncome ?? null,
-      totalAssets: data.totalAssets ?? null,
-      totalLiabilities: data.totalLiabilities ?? null,
-      stockholdersEquity: data.stockholdersEquity ?? null,
-      operatingCashFlow: data.operatingCashFlow ?? null,
-      ebitda: null, // Calculated metric
-      grossProfit: data.grossProfit ?? null,
-      operatingIncome: data.operatingIncome ?? null,
-      longTermDebt: data.longTermDebt ?? null,
-      currentAssets: data.currentAssets ?? null,
-      currentLiabilities: data.currentLiabilities ?? null,
-    }))
+  const fiscalYears: FiscalYearData[] = Array.from(annual.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, slots]) => toPeriodData(year, slots, `FY${year}`, ebitdaDerivations, provenance))
+
+  const quarterYears: number[] = []
+  for (let year = fiscalYearStart; year <= quarterYearEnd; year++) quarterYears.push(year)
 
   return {
     cik: String(facts.cik).padStart(10, '0'),
     entityName: facts.entityName,
     ticker: ticker.toUpperCase(),
-    sicCode,
+    sicCode: submissions.sicCode,
+    currency,
     fiscalYears,
+    quarters: buildQuarters(quarterData, annual, periods.annualEnds, quarterYears, ebitdaDerivations, provenance),
+    ttm: buildTrailingPeriod(quarterData, annual, ebitdaDerivations, provenance),
+    ebitdaDerivations,
+    restatements,
+    filings: submissions.filings,
+    provenance,
+    sharesOutstanding: findSharesOutstanding(facts),
     rawMetrics,
   }
 }
@@ -319,7 +1512,10 @@ Deno.serve(async (req) => {
       )
     }
 
-    const { runId, ticker, cik, fiscalYearStart, fiscalYearEnd, forceRefresh } = validationResult.data
+    const { runId, ticker, cik, fiscalYearStart, fiscalYearEnd, forceRefresh, peer } = validationResult.data
+
+    // Each peer is cached on the run under its own key, next to the run's own financials
+    const dataType = peer ? `peer_financials:${ticker || cik}` : 'sec_financials'
 
     // Check cache first (unless force refresh)
     if (!forceRefresh) {
@@ -327,10 +1523,12 @@ Deno.serve(async (req) => {
         .from('run_data_cache')
         .select('*')
         .eq('run_id', runId)
-        .eq('data_type', 'sec_financials')
+        .eq('data_type', dataType)
         .maybeSingle()
 
-      if (cachedData && cachedData.expires_at && new Date(cachedData.expires_at) > new Date()) {
+      // Manually uploaded financials don't expire; only a forced refresh replaces them
+      const isUpload = cachedData?.source === 'manual_upload'
+      if (cachedData && (isUpload || (cachedData.expires_at && new Date(cachedData.expires_at) > new Date()))) {
         console.log('Returning cached SEC data')
         return new Response(
           JSON.stringify({ 
@@ -343,12 +1541,21 @@ Deno.serve(async (req) => {
       }
     }
 
+    // The run's company determines which concept overrides apply, and its stored CIK
+    // is authoritative over a ticker lookup. Neither applies to peers.
+    const { data: run } = await supabase
+      .from('runs')
+      .select('company_id, companies (cik)')
+      .eq('id', runId)
+      .single()
+    const storedCIK: string | null = !peer && run?.companies?.cik ? String(run.companies.cik).padStart(10, '0') : null
+
     // Resolve CIK from ticker if needed
-    let resolvedCIK: string = cik || ''
+    let resolvedCIK: string = cik || storedCIK || ''
     let companyName = ''
     
     if (!resolvedCIK && ticker) {
-      const result = await getCIKFromTicker(ticker)
+      const result = await getCIKFromTicker(supabase, ticker)
       if (!result) {
         return new Response(
           JSON.stringify({ error: `Ticker "${ticker}" not found in SEC database` }),
@@ -369,16 +1576,18 @@ Deno.serve(async (req) => {
 
     // Fetch company facts from SEC EDGAR
     console.log(`Fetching SEC data for CIK: ${resolvedCIK}`)
-    const [facts, submissions] = await Promise.all([
+    const [facts, submissions, mappings] = await Promise.all([
       fetchCompanyFacts(resolvedCIK),
-      fetchCompanySubmissions(resolvedCIK),
+      fetchCompanySubmissions(resolvedCIK, fiscalYearStart),
+      loadConceptMappings(supabase, peer ? null : run?.company_id ?? null),
     ])
 
     // Normalize the financial data
     const normalizedData = normalizeFinancials(
       facts,
+      mappings,
       ticker || '',
-      submissions.sicCode,
+      submissions,
       fiscalYearStart,
       fiscalYearEnd
     )
@@ -391,7 +1600,7 @@ Deno.serve(async (req) => {
       .from('run_data_cache')
       .upsert({
         run_id: runId,
-        data_type: 'sec_financials',
+        data_type: dataType,
         source: 'sec_edgar',
         raw_data: normalizedData,
         fetched_at: new Date().toISOString(),
@@ -401,13 +1610,7 @@ Deno.serve(async (req) => {
       })
 
     // Update company with CIK and SIC code if available
-    const { data: run } = await supabase
-      .from('runs')
-      .select('company_id')
-      .eq('id', runId)
-      .single()
-
-    if (run?.company_id) {
+    if (run?.company_id && !peer) {
       await supabase
         .from('companies')
         .update({
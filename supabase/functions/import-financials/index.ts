@@ -0,0 +1,477 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+import { z } from 'https://esm.sh/zod@3.23.8'
+// SheetJS publishes fixed releases on its own CDN only; the npm 0.18.x line is open to
+// prototype pollution and ReDoS from crafted workbooks
+import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// 5 MB of spreadsheet, base64-encoded
+const MAX_ENCODED_LENGTH = 7_000_000
+
+const requestSchema = z.object({
+  runId: z.string().uuid({ message: 'runId must be a valid UUID' }),
+  fileName: z.string().min(1).max(255),
+  // Base64-encoded CSV or XLSX file
+  content: z.string().min(1).max(MAX_ENCODED_LENGTH, { message: 'file must be under 5 MB' }),
+})
+
+interface FiscalYearData {
+  year: number
+  revenue: number | null
+  netIncome: number | null
+  totalAssets: number | null
+  totalLiabilities: number | null
+  stockholdersEquity: number | null
+  operatingCashFlow: number | null
+  ebitda: number | null
+  grossProfit: number | null
+  operatingIncome: number | null
+  depreciationAndAmortization: number | null
+  longTermDebt: number | null
+  currentAssets: number | null
+  currentLiabilities: number | null
+  cashAndEquivalents: number | null
+  costOfRevenue: number | null
+  sellingGeneralAndAdministrative: number | null
+  operatingExpenses: number | null
+  interestExpense: number | null
+  pretaxIncome: number | null
+  incomeTaxExpense: number | null
+  accountsReceivable: number | null
+  inventory: number | null
+  propertyPlantAndEquipment: number | null
+  accountsPayable: number | null
+  shortTermDebt: number | null
+  currentPortionOfLongTermDebt: number | null
+  operatingLeaseLiabilities: number | null
+  financeLeaseLiabilities: number | null
+  retainedEarnings: number | null
+  commonSharesOutstanding: number | null
+  capitalExpenditures: number | null
+  investingCashFlow: number | null
+  financingCashFlow: number | null
+  dividendsPaid: number | null
+  shareRepurchases: number | null
+  interestPaid: number | null
+  operatingLeasePayments: number | null
+  financeLeasePayments: number | null
+  debtMaturityYear1: number | null
+  debtMaturityYear2: number | null
+  debtMaturityYear3: number | null
+  debtMaturityYear4: number | null
+  debtMaturityYear5: number | null
+  debtMaturityAfterYear5: number | null
+  operatingLeaseMaturityYear1: number | null
+  operatingLeaseMaturityYear2: number | null
+  operatingLeaseMaturityYear3: number | null
+  operatingLeaseMaturityYear4: number | null
+  operatingLeaseMaturityYear5: number | null
+  operatingLeaseMaturityAfterYear5: number | null
+  financeLeaseMaturityYear1: number | null
+  financeLeaseMaturityYear2: number | null
+  financeLeaseMaturityYear3: number | null
+  financeLeaseMaturityYear4: number | null
+  financeLeaseMaturityYear5: number | null
+  financeLeaseMaturityAfterYear5: number | null
+}
+
+type NumericField = Exclude<keyof FiscalYearData, 'year'>
+
+interface EbitdaDerivation {
+  period: string
+  method: 'reported_da' | 'operating_income_only'
+  concepts: string[]
+  isProxy: boolean
+  note: string | null
+}
+
+interface ManualUpload {
+  fileName: string
+  uploadedAt: string
+  uploadedBy: string
+}
+
+// Row labels accepted for each field, compared case-insensitively. The first label is
+// the one used in the downloadable template. Expenses and payments are entered as
+// positive amounts, as they are filed with the SEC.
+const FIELD_LABELS: Record<NumericField, string[]> = {
+  revenue: ['Revenue', 'revenue', 'Total Revenue', 'Net Sales', 'Sales', 'Turnover'],
+  costOfRevenue: ['Cost of Revenue', 'costOfRevenue', 'Cost of Sales', 'Cost of Goods Sold', 'COGS'],
+  grossProfit: ['Gross Profit', 'grossProfit'],
+  sellingGeneralAndAdministrative: ['SG&A', 'sellingGeneralAndAdministrative', 'Selling, General & Administrative'],
+  operatingExpenses: ['Operating Expenses', 'operatingExpenses', 'Total Operating Expenses'],
+  operatingIncome: ['Operating Income', 'operatingIncome', 'EBIT', 'Operating Profit'],
+  depreciationAndAmortization: ['D&A', 'depreciationAndAmortization', 'Depreciation & Amortization', 'Depreciation and Amortization'],
+  ebitda: ['EBITDA', 'ebitda'],
+  interestExpense: ['Interest Expense', 'interestExpense', 'Finance Costs'],
+  pretaxIncome: ['Pre-Tax Income', 'pretaxIncome', 'Income Before Taxes', 'Profit Before Tax'],
+  incomeTaxExpense: ['Income Tax Expense', 'incomeTaxExpense', 'Income Taxes', 'Tax Expense'],
+  netIncome: ['Net Income', 'netIncome', 'Net Profit', 'Net Earnings'],
+  cashAndEquivalents: ['Cash & Equivalents', 'cashAndEquivalents', 'Cash', 'Cash and Cash Equivalents'],
+  accountsReceivable: ['Accounts Receivable', 'accountsReceivable', 'Receivables', 'Trade Receivables'],
+  inventory: ['Inventory', 'inventory', 'Inventories'],
+  currentAssets: ['Current Assets', 'currentAssets', 'Total Current Assets'],
+  propertyPlantAndEquipment: ['PP&E', 'propertyPlantAndEquipment', 'Property, Plant & Equipment'],
+  totalAssets: ['Total Assets', 'totalAssets'],
+  accountsPayable: ['Accounts Payable', 'accountsPayable', 'Trade Payables', 'Payables'],
+  shortTermDebt: ['Short-Term Debt', 'shortTermDebt', 'Current Debt', 'Short Term Debt'],
+  currentPortionOfLongTermDebt: ['Current Portion of LTD', 'currentPortionOfLongTermDebt', 'Current Portion of Long-Term Debt', 'Current Maturities of Long-Term Debt'],
+  currentLiabilities: ['Current Liabilities', 'currentLiabilities', 'Total Current Liabilities'],
+  longTermDebt: ['Long-Term Debt', 'longTermDebt', 'Long Term Debt'],
+  operatingLeaseLiabilities: ['Operating Lease Liabilities', 'operatingLeaseLiabilities'],
+  financeLeaseLiabilities: ['Finance Lease Liabilities', 'financeLeaseLiabilities'],
+  totalLiabilities: ['Total Liabilities', 'totalLiabilities'],
+  retainedEarnings: ['Retained Earnings', 'retainedEarnings'],
+  stockholdersEquity: ["Stockholders' Equity", 'stockholdersEquity', "Shareholders' Equity", 'Total Equity', 'Equity'],
+  commonSharesOutstanding: ['Shares Outstanding', 'commonSharesOutstanding', 'Common Shares Outstanding'],
+  operatingCashFlow: ['Operating Cash Flow', 'operatingCashFlow', 'Cash from Operations', 'Net Cash from Operating Activities'],
+  capitalExpenditures: ['Capital Expenditures', 'capitalExpenditures', 'Capex'],
+  investingCashFlow: ['Investing Cash Flow', 'investingCashFlow', 'Net Cash from Investing Activities'],
+  dividendsPaid: ['Dividends Paid', 'dividendsPaid', 'Dividends'],
+  shareRepurchases: ['Share Repurchases', 'shareRepurchases', 'Buybacks'],
+  financeLeasePayments: ['Finance Lease Principal Payments', 'financeLeasePayments', 'Lease Principal Payments', 'Repayment of Lease Liabilities'],
+  financingCashFlow: ['Financing Cash Flow', 'financingCashFlow', 'Net Cash from Financing Activities'],
+  interestPaid: ['Interest Paid', 'interestPaid', 'Cash Paid for Interest'],
+  operatingLeasePayments: ['Operating Lease Payments', 'operatingLeasePayments', 'Rent Paid'],
+  debtMaturityYear1: ['Debt Maturities, Year 1', 'debtMaturityYear1'],
+  debtMaturityYear2: ['Debt Maturities, Year 2', 'debtMaturityYear2'],
+  debtMaturityYear3: ['Debt Maturities, Year 3', 'debtMaturityYear3'],
+  debtMaturityYear4: ['Debt Maturities, Year 4', 'debtMaturityYear4'],
+  debtMaturityYear5: ['Debt Maturities, Year 5', 'debtMaturityYear5'],
+  debtMaturityAfterYear5: ['Debt Maturities, After Year 5', 'debtMaturityAfterYear5'],
+  operatingLeaseMaturityYear1: ['Operating Lease Payments Due, Year 1', 'operatingLeaseMaturityYear1'],
+  operatingLeaseMaturityYear2: ['Operating Lease Payments Due, Year 2', 'operatingLeaseMaturityYear2'],
+  operatingLeaseMaturityYear3: ['Operating Lease Payments Due, Year 3', 'operatingLeaseMaturityYear3'],
+  operatingLeaseMaturityYear4: ['Operating Lease Payments Due, Year 4', 'operatingLeaseMaturityYear4'],
+  operatingLeaseMaturityYear5: ['Operating Lease Payments Due, Year 5', 'operatingLeaseMaturityYear5'],
+  operatingLeaseMaturityAfterYear5: ['Operating Lease Payments Due, After Year 5', 'operatingLeaseMaturityAfterYear5'],
+  financeLeaseMaturityYear1: ['Finance Lease Payments Due, Year 1', 'financeLeaseMaturityYear1'],
+  financeLeaseMaturityYear2: ['Finance Lease Payments Due, Year 2', 'financeLeaseMaturityYear2'],
+  financeLeaseMaturityYear3: ['Finance Lease Payments Due, Year 3', 'financeLeaseMaturityYear3'],
+  financeLeaseMaturityYear4: ['Finance Lease Payments Due, Year 4', 'financeLeaseMaturityYear4'],
+  financeLeaseMaturityYear5: ['Finance Lease Payments Due, Year 5', 'financeLeaseMaturityYear5'],
+  financeLeaseMaturityAfterYear5: ['Finance Lease Payments Due, After Year 5', 'financeLeaseMaturityAfterYear5'],
+}
+
+// Share counts are not monetary, so the sheet's units setting doesn't scale them
+const UNSCALED_FIELDS: NumericField[] = ['commonSharesOutstanding']
+
+const LABEL_INDEX: Map<string, NumericField> = new Map(
+  (Object.entries(FIELD_LABELS) as Array<[NumericField, string[]]>)
+    .flatMap(([field, labels]) => labels.map(label => [label.toLowerCase(), field] as [string, NumericField]))
+)
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  units: 1,
+  ones: 1,
+  thousands: 1e3,
+  millions: 1e6,
+  billions: 1e9,
+}
+
+type Cell = string | number | boolean | null | undefined
+
+function cellText(cell: Cell): string {
+  return cell === null || cell === undefined ? '' : String(cell).trim()
+}
+
+function parseYear(cell: Cell): number | null {
+  const match = /^(?:FY\s*)?(\d{4})$/i.exec(cellText(cell))
+  if (!match) return null
+  const year = Number(match[1])
+  return year >= 1990 && year <= 2100 ? year : null
+}
+
+// Accepts spreadsheet numbers as well as text such as "1,234", "(56)" or "$7.8"
+function parseAmount(cell: Cell): number | null | undefined {
+  if (typeof cell === 'number') return cell
+  const text = cellText(cell)
+  if (!text || /^(-|—|n\/?a)$/i.test(text)) return null
+
+  const negative = /^\(.*\)$/.test(text)
+  const cleaned = text.replace(/[(),$€£¥\s]/g, '')
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return undefined
+  return negative ? -Number(cleaned) : Number(cleaned)
+}
+
+interface ParsedSheet {
+  currency: string
+  fiscalYears: FiscalYearData[]
+  errors: string[]
+  warnings: string[]
+}
+
+// Rows are metrics and columns are fiscal years, as in the template:
+//   Currency, USD
+//   Units, thousands
+//   Metric, FY2022, FY2023
+//   Revenue, 1200, 1350
+function parseSheet(rows: Cell[][], fiscalYearStart: number, fiscalYearEnd: number): ParsedSheet {
+  const errors: string[] = []
+  const warnings: string[] = []
+  let currency = 'USD'
+  let multiplier = 1
+
+  const headerIndex = rows.findIndex(row => row.slice(1).some(cell => parseYear(cell) !== null))
+  if (headerIndex === -1) {
+    return { currency, fiscalYears: [], errors: ['No header row with fiscal years (e.g. FY2023) was found'], warnings }
+  }
+
+  const yearColumns: Array<[column: number, year: number]> = []
+  rows[headerIndex].forEach((cell, column) => {
+    const year = parseYear(cell)
+    if (column === 0 || year === null) return
+    if (year < fiscalYearStart || year > fiscalYearEnd) {
+      warnings.push(`FY${year} is outside the run's FY${fiscalYearStart}-FY${fiscalYearEnd} range and was ignored`)
+      return
+    }
+    yearColumns.push([column, year])
+  })
+  if (yearColumns.length === 0) {
+    errors.push(`None of the fiscal years fall within the run's FY${fiscalYearStart}-FY${fiscalYearEnd} range`)
+  }
+
+  const years: Map<number, FiscalYearData> = new Map()
+  for (const [, year] of yearColumns) {
+    if (years.has(year)) errors.push(`FY${year} appears in more than one column`)
+    const empty = Object.fromEntries(Object.keys(FIELD_LABELS).map(field => [field, null]))
+    years.set(year, { year, ...empty } as FiscalYearData)
+  }
+
+  const seen: Set<NumericField> = new Set()
+  rows.forEach((row, index) => {
+    const label = cellText(row[0])
+    const rowNumber = index + 1
+    if (!label || index === headerIndex) return
+
+    // Settings rows sit above the header so units apply to every value
+    if (index < headerIndex) {
+      const setting = label.toLowerCase()
+      if (setting === 'currency') {
+        const code = cellText(row[1]).toUpperCase()
+        if (/^[A-Z]{3}$/.test(code)) currency = code
+        else errors.push(`Row ${rowNumber}: "${cellText(row[1])}" is not a three-letter currency code`)
+      } else if (setting === 'units') {
+        const unit = UNIT_MULTIPLIERS[cellText(row[1]).toLowerCase()]
+        if (unit) multiplier = unit
+        else errors.push(`Row ${rowNumber}: units must be one of ${Object.keys(UNIT_MULTIPLIERS).join(', ')}`)
+      }
+      return
+    }
+
+    const field = LABEL_INDEX.get(label.toLowerCase())
+    if (!field) {
+      warnings.push(`Row ${rowNumber}: "${label}" is not a recognised metric and was ignored`)
+      return
+    }
+    if (seen.has(field)) {
+      errors.push(`Row ${rowNumber}: "${label}" duplicates an earlier row`)
+      return
+    }
+    seen.add(field)
+
+    for (const [column, year] of yearColumns) {
+      const amount = parseAmount(row[column])
+      if (amount === undefined) {
+        errors.push(`Row ${rowNumber}, FY${year}: "${cellText(row[column])}" is not a number`)
+        continue
+      }
+      const scale = UNSCALED_FIELDS.includes(field) ? 1 : multiplier
+      years.get(year)![field] = amount === null ? null : amount * scale
+    }
+  })
+
+  if (!seen.has('revenue')) warnings.push('No revenue row was found')
+  if (!seen.has('totalAssets')) warnings.push('No total assets row was found')
+
+  return {
+    currency,
+    fiscalYears: Array.from(years.values()).sort((a, b) => a.year - b.year),
+    errors,
+    warnings,
+  }
+}
+
+// Uploaded EBITDA is used as-is; otherwise it is assembled the same way as for SEC data
+function deriveEbitda(fiscalYears: FiscalYearData[]): EbitdaDerivation[] {
+  const derivations: EbitdaDerivation[] = []
+  for (const fy of fiscalYears) {
+    if (fy.ebitda !== null || fy.operatingIncome === null) continue
+
+    const period = `FY${fy.year}`
+    if (fy.depreciationAndAmortization !== null) {
+      fy.ebitda = fy.operatingIncome + fy.depreciationAndAmortization
+      derivations.push({ period, method: 'reported_da', concepts: [], isProxy: false, note: null })
+    } else {
+      fy.ebitda = fy.operatingIncome
+      derivations.push({
+        period,
+        method: 'operating_income_only',
+        concepts: [],
+        isProxy: true,
+        note: 'No D&A was uploaded; EBITDA is approximated by operating income',
+      })
+    }
+  }
+  return derivations
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // Verify the JWT
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authorization token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Parse and validate request body
+    let requestBody: unknown
+    try {
+      requestBody = await req.json()
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const validationResult = requestSchema.safeParse(requestBody)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.errors
+        .map(e => `${e.path.join('.')}: ${e.message}`)
+        .join('; ')
+      return new Response(
+        JSON.stringify({ error: `Validation failed: ${errorMessages}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { runId, fileName, content } = validationResult.data
+
+    const { data: run, error: runError } = await supabase
+      .from('runs')
+      .select('created_by, status, fiscal_year_start, fiscal_year_end, companies (name, ticker, cik, sic_code)')
+      .eq('id', runId)
+      .single()
+    if (runError || !run) {
+      return new Response(
+        JSON.stringify({ error: 'Run not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The service role bypasses row-level security, so hold uploads to the same rule as
+    // adjustments: only the run's owner, and only while it is still a draft
+    if (run.created_by !== user.id || run.status !== 'draft') {
+      return new Response(
+        JSON.stringify({ error: 'Financials can only be imported into your own draft runs' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // SheetJS reads CSV as well as XLSX; only the first sheet is used
+    let rows: Cell[][]
+    try {
+      const workbook = XLSX.read(content, { type: 'base64', cellDates: false })
+      const sheet = workbook.Sheets[workbook.SheetNames[0]]
+      rows = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, blankrows: true }) as Cell[][]
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'File could not be read', issues: ['Upload a CSV or XLSX file'], warnings: [] }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const parsed = parseSheet(rows, run.fiscal_year_start, run.fiscal_year_end)
+    if (parsed.errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'File failed validation', issues: parsed.errors, warnings: parsed.warnings }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const company = run.companies
+    const ebitdaDerivations = deriveEbitda(parsed.fiscalYears)
+    const upload: ManualUpload = { fileName, uploadedAt: new Date().toISOString(), uploadedBy: user.id }
+
+    // Same shape as SEC data so validation, pitchbook and credit memo work unchanged
+    const normalizedData = {
+      cik: company?.cik ?? '',
+      entityName: company?.name ?? '',
+      ticker: company?.ticker ?? '',
+      sicCode: company?.sic_code ?? null,
+      currency: parsed.currency,
+      fiscalYears: parsed.fiscalYears,
+      quarters: [],
+      ttm: null,
+      ebitdaDerivations,
+      restatements: [],
+      filings: [],
+      provenance: [],
+      sharesOutstanding: null,
+      upload,
+      rawMetrics: {},
+    }
+
+    // Uploads replace the run's financials, SEC-sourced or not, and don't expire
+    const { error: cacheError } = await supabase
+      .from('run_data_cache')
+      .upsert({
+        run_id: runId,
+        data_type: 'sec_financials',
+        source: 'manual_upload',
+        raw_data: normalizedData,
+        fetched_at: upload.uploadedAt,
+        expires_at: null,
+      }, {
+        onConflict: 'run_id,data_type',
+      })
+    if (cacheError) throw cacheError
+
+    return new Response(
+      JSON.stringify({
+        data: normalizedData,
+        source: 'live',
+        fetchedAt: upload.uploadedAt,
+        warnings: parsed.warnings,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    // Log full error details server-side only
+    console.error('Error importing financials:', error)
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to import financials. Please try again later.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,149 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// SEC EDGAR requires a valid User-Agent header
+const SEC_USER_AGENT = 'PitchPulse/1.0 (contact@pitchpulse.app)'
+
+const UPSERT_BATCH_SIZE = 1000
+
+interface CompanyTickersExchange {
+  fields: string[]
+  data: Array<Array<string | number | null>>
+}
+
+interface DirectoryEntry {
+  ticker: string
+  cik: string
+  name: string
+  exchange: string | null
+  refreshed_at: string
+}
+
+async function fetchWithRetry(url: string, retries = 3, delay = 1000): Promise<Response> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': SEC_USER_AGENT,
+          'Accept': 'application/json',
+        },
+      })
+
+      if (response.status === 429) {
+        // Rate limited - wait and retry
+        const waitTime = delay * Math.pow(2, i)
+        console.log(`Rate limited. Waiting ${waitTime}ms before retry ${i + 1}`)
+        await new Promise(resolve => setTimeout(resolve, waitTime))
+        continue
+      }
+
+      return response
+    } catch (error) {
+      if (i === retries - 1) throw error
+      await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i)))
+    }
+  }
+  throw new Error('Max retries exceeded')
+}
+
+async function fetchDirectory(refreshedAt: string): Promise<DirectoryEntry[]> {
+  const response = await fetchWithRetry('https://www.sec.gov/files/company_tickers_exchange.json')
+  if (!response.ok) throw new Error(`Failed to fetch company tickers: ${response.status}`)
+
+  const payload: CompanyTickersExchange = await response.json()
+  const column = (name: string) => payload.fields.indexOf(name)
+  const [cikIdx, nameIdx, tickerIdx, exchangeIdx] = ['cik', 'name', 'ticker', 'exchange'].map(column)
+
+  // Tickers are unique in the directory; SEC occasionally lists one twice
+  const entries: Map<string, DirectoryEntry> = new Map()
+  for (const row of payload.data) {
+    const ticker = row[tickerIdx]
+    if (!ticker) continue
+    entries.set(String(ticker).toUpperCase(), {
+      ticker: String(ticker).toUpperCase(),
+      cik: String(row[cikIdx]).padStart(10, '0'),
+      name: String(row[nameIdx]),
+      exchange: row[exchangeIdx] ? String(row[exchangeIdx]) : null,
+      refreshed_at: refreshedAt,
+    })
+  }
+  return Array.from(entries.values())
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // The scheduled job calls with the service role key; otherwise only admins may refresh
+    const token = authHeader.replace('Bearer ', '')
+    if (token !== supabaseKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid authorization token' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' })
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Only admins can refresh the company directory' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    const refreshedAt = new Date().toISOString()
+    const entries = await fetchDirectory(refreshedAt)
+    console.log(`Refreshing company directory with ${entries.length} tickers`)
+
+    // Upserting only these columns leaves lazily fetched SIC codes in place
+    for (let i = 0; i < entries.length; i += UPSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('sec_company_directory')
+        .upsert(entries.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'ticker' })
+      if (error) throw error
+    }
+
+    // Tickers SEC no longer lists (delisted, renamed) weren't touched by this refresh
+    const { count: removed, error: deleteError } = await supabase
+      .from('sec_company_directory')
+      .delete({ count: 'exact' })
+      .lt('refreshed_at', refreshedAt)
+    if (deleteError) throw deleteError
+
+    return new Response(
+      JSON.stringify({ updated: entries.length, removed: removed ?? 0, refreshedAt }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    // Log full error details server-side only
+    console.error('Error refreshing company directory:', error)
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to refresh company directory. Please try again later.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
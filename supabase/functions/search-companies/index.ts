@@ -0,0 +1,137 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.1'
+import { z } from 'https://esm.sh/zod@3.23.8'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// SEC EDGAR requires a valid User-Agent header
+const SEC_USER_AGENT = 'PitchPulse/1.0 (contact@pitchpulse.app)'
+
+// Either a free-text search, or a single CIK to resolve with its SIC code
+const requestSchema = z.object({
+  query: z.string().trim().min(1).max(100).optional(),
+  cik: z.string()
+    .regex(/^\d{1,10}$/, { message: 'cik must be 1-10 numeric digits' })
+    .transform(val => val.padStart(10, '0'))
+    .optional(),
+  limit: z.number().int().min(1).max(50).optional().default(10),
+}).refine(
+  data => data.query || data.cik,
+  { message: 'Either query or cik must be provided' }
+)
+
+async function fetchSicCode(cik: string): Promise<string | null> {
+  const response = await fetch(`https://data.sec.gov/submissions/CIK${cik}.json`, {
+    headers: {
+      'User-Agent': SEC_USER_AGENT,
+      'Accept': 'application/json',
+    },
+  })
+  if (!response.ok) return null
+
+  const data = await response.json()
+  return data.sic || null
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Validate authorization
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // Verify the JWT
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid authorization token' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Parse and validate request body
+    let requestBody: unknown
+    try {
+      requestBody = await req.json()
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON in request body' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const validationResult = requestSchema.safeParse(requestBody)
+    if (!validationResult.success) {
+      const errorMessages = validationResult.error.errors
+        .map(e => `${e.path.join('.')}: ${e.message}`)
+        .join('; ')
+      return new Response(
+        JSON.stringify({ error: `Validation failed: ${errorMessages}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { query, cik, limit } = validationResult.data
+
+    if (cik) {
+      const { data: entries, error } = await supabase
+        .from('sec_company_directory')
+        .select('*')
+        .eq('cik', cik)
+        .order('ticker')
+      if (error) throw error
+
+      // SIC codes aren't in SEC's ticker file; look them up once per CIK and keep them
+      let sicCode: string | null = entries?.find(e => e.sic_code)?.sic_code ?? null
+      if (!sicCode) {
+        sicCode = await fetchSicCode(cik)
+        if (sicCode && entries?.length) {
+          await supabase
+            .from('sec_company_directory')
+            .update({ sic_code: sicCode })
+            .eq('cik', cik)
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ results: (entries ?? []).map(e => ({ ...e, sic_code: sicCode })) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: results, error } = await supabase
+      .rpc('search_company_directory', { _query: query, _limit: limit })
+    if (error) throw error
+
+    return new Response(
+      JSON.stringify({ results: results ?? [] }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    // Log full error details server-side only
+    console.error('Error searching companies:', error)
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to search companies. Please try again later.' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,110 @@
+-- Global XBRL concept -> normalized field mapping, editable by admins
+CREATE TABLE public.xbrl_concept_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  taxonomy TEXT NOT NULL DEFAULT 'us-gaap',
+  concept TEXT NOT NULL,
+  field TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100, -- lower wins when several concepts map to one field
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (taxonomy, concept)
+);
+
+-- Per-company overrides, e.g. a filer's custom extension concept for revenue
+CREATE TABLE public.company_concept_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  taxonomy TEXT NOT NULL DEFAULT 'us-gaap',
+  concept TEXT NOT NULL,
+  field TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (company_id, taxonomy, concept)
+);
+
+ALTER TABLE public.xbrl_concept_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.company_concept_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Concept mapping policies (all can read, admins can modify)
+CREATE POLICY "Authenticated users can view concept mappings"
+  ON public.xbrl_concept_mappings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert concept mappings"
+  ON public.xbrl_concept_mappings FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update concept mappings"
+  ON public.xbrl_concept_mappings FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete concept mappings"
+  ON public.xbrl_concept_mappings FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Company override policies (all can read, creators and admins can modify)
+CREATE POLICY "Authenticated users can view concept overrides"
+  ON public.company_concept_overrides FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can create concept overrides"
+  ON public.company_concept_overrides FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Owners and admins can update concept overrides"
+  ON public.company_concept_overrides FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Owners and admins can delete concept overrides"
+  ON public.company_concept_overrides FOR DELETE
+  TO authenticated
+  USING (auth.uid() = created_by OR public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_xbrl_concept_mappings_updated_at
+  BEFORE UPDATE ON public.xbrl_concept_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_company_concept_overrides_updated_at
+  BEFORE UPDATE ON public.company_concept_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed with the mapping previously hard-coded in the fetch-sec-data function
+INSERT INTO public.xbrl_concept_mappings (concept, field, priority) VALUES
+  ('Revenues', 'revenue', 10),
+  ('RevenueFromContractWithCustomerExcludingAssessedTax', 'revenue', 20),
+  ('SalesRevenueNet', 'revenue', 30),
+  ('NetIncomeLoss', 'netIncome', 10),
+  ('Assets', 'totalAssets', 10),
+  ('Liabilities', 'totalLiabilities', 10),
+  ('StockholdersEquity', 'stockholdersEquity', 10),
+  ('StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest', 'stockholdersEquity', 20),
+  ('NetCashProvidedByUsedInOperatingActivities', 'operatingCashFlow', 10),
+  ('GrossProfit', 'grossProfit', 10),
+  ('OperatingIncomeLoss', 'operatingIncome', 10),
+  ('DepreciationDepletionAndAmortization', 'depreciationAndAmortization', 10),
+  ('DepreciationAndAmortization', 'depreciationAndAmortization', 20),
+  ('DepreciationAmortizationAndAccretionNet', 'depreciationAndAmortization', 30),
+  ('LongTermDebt', 'longTermDebt', 10),
+  ('LongTermDebtNoncurrent', 'longTermDebt', 20),
+  ('AssetsCurrent', 'currentAssets', 10),
+  ('LiabilitiesCurrent', 'currentLiabilities', 10),
+  ('CashAndCashEquivalentsAtCarryingValue', 'cashAndEquivalents', 10),
+  ('CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents', 'cashAndEquivalents', 20),
+  ('Cash', 'cashAndEquivalents', 30),
+  ('Depreciation', 'depreciation', 10),
+  ('DepreciationNonproduction', 'depreciation', 20),
+  ('DepreciationDepletionAndAmortizationPropertyPlantAndEquipment', 'depreciation', 30),
+  ('AmortizationOfIntangibleAssets', 'amortization', 10);
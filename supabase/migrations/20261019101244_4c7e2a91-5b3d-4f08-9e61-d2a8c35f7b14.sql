@@ -0,0 +1,25 @@
+-- IFRS concept mapping for foreign private issuers filing 20-F / 40-F
+INSERT INTO public.xbrl_concept_mappings (taxonomy, concept, field, priority) VALUES
+  ('ifrs-full', 'Revenue', 'revenue', 10),
+  ('ifrs-full', 'RevenueFromContractsWithCustomers', 'revenue', 20),
+  ('ifrs-full', 'ProfitLossAttributableToOwnersOfParent', 'netIncome', 10),
+  ('ifrs-full', 'ProfitLoss', 'netIncome', 20),
+  ('ifrs-full', 'Assets', 'totalAssets', 10),
+  ('ifrs-full', 'Liabilities', 'totalLiabilities', 10),
+  ('ifrs-full', 'EquityAttributableToOwnersOfParent', 'stockholdersEquity', 10),
+  ('ifrs-full', 'Equity', 'stockholdersEquity', 20),
+  ('ifrs-full', 'CashFlowsFromUsedInOperatingActivities', 'operatingCashFlow', 10),
+  ('ifrs-full', 'GrossProfit', 'grossProfit', 10),
+  ('ifrs-full', 'ProfitLossFromOperatingActivities', 'operatingIncome', 10),
+  ('ifrs-full', 'DepreciationAndAmortisationExpense', 'depreciationAndAmortization', 10),
+  ('ifrs-full', 'DepreciationAmortisationAndImpairmentLossReversalOfImpairmentLossRecognisedInProfitOrLoss', 'depreciationAndAmortization', 20),
+  ('ifrs-full', 'NoncurrentPortionOfNoncurrentBorrowings', 'longTermDebt', 10),
+  ('ifrs-full', 'LongtermBorrowings', 'longTermDebt', 20),
+  ('ifrs-full', 'CurrentAssets', 'currentAssets', 10),
+  ('ifrs-full', 'CurrentLiabilities', 'currentLiabilities', 10),
+  ('ifrs-full', 'CashAndCashEquivalents', 'cashAndEquivalents', 10),
+  ('ifrs-full', 'DepreciationExpense', 'depreciation', 10),
+  ('ifrs-full', 'DepreciationPropertyPlantAndEquipment', 'depreciation', 20),
+  ('ifrs-full', 'AmortisationExpense', 'amortization', 10),
+  ('ifrs-full', 'AmortisationIntangibleAssetsOtherThanGoodwill', 'amortization', 20)
+ON CONFLICT (taxonomy, concept) DO NOTHING;
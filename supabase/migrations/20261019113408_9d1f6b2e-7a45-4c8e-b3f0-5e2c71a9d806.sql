@@ -0,0 +1,45 @@
+-- FX rates for presenting non-USD filers in another currency. Rates are quoted as
+-- USD per one unit of `currency`; cross rates are derived through USD.
+CREATE TABLE public.fx_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  year INTEGER NOT NULL,
+  period TEXT NOT NULL DEFAULT 'FY' CHECK (period IN ('FY', 'Q1', 'Q2', 'Q3', 'Q4')),
+  average_rate NUMERIC NOT NULL CHECK (average_rate > 0), -- income statement and cash flow items
+  closing_rate NUMERIC NOT NULL CHECK (closing_rate > 0), -- balance sheet items
+  source TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (currency, year, period)
+);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+-- FX rate policies (all can read, admins can modify)
+CREATE POLICY "Authenticated users can view fx rates"
+  ON public.fx_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert fx rates"
+  ON public.fx_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update fx rates"
+  ON public.fx_rates FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete fx rates"
+  ON public.fx_rates FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_fx_rates_updated_at
+  BEFORE UPDATE ON public.fx_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Currency a run's figures are presented in; null shows the filer's reporting currency
+ALTER TABLE public.runs ADD COLUMN presentation_currency TEXT;
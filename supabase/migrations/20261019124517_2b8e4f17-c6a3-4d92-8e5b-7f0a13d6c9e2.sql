@@ -0,0 +1,64 @@
+-- Local copy of SEC's ticker/CIK directory, refreshed daily by the
+-- refresh-company-directory function. Written with the service role only.
+CREATE TABLE public.sec_company_directory (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticker TEXT NOT NULL UNIQUE,
+  cik TEXT NOT NULL, -- zero-padded to 10 digits
+  name TEXT NOT NULL,
+  exchange TEXT,
+  sic_code TEXT, -- filled lazily from the submissions API
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sec_company_directory_cik ON public.sec_company_directory (cik);
+CREATE INDEX idx_sec_company_directory_name ON public.sec_company_directory (lower(name) text_pattern_ops);
+
+ALTER TABLE public.sec_company_directory ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view company directory"
+  ON public.sec_company_directory FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Ranked lookup by ticker prefix, name fragment or CIK
+CREATE OR REPLACE FUNCTION public.search_company_directory(_query TEXT, _limit INTEGER DEFAULT 10)
+RETURNS SETOF public.sec_company_directory
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      trim(_query) AS raw,
+      replace(replace(replace(trim(_query), '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+  )
+  SELECT d.*
+  FROM public.sec_company_directory d, q
+  WHERE d.ticker ILIKE q.pattern || '%'
+     OR d.name ILIKE '%' || q.pattern || '%'
+     OR (q.raw ~ '^\d{1,10}$' AND d.cik = lpad(q.raw, 10, '0'))
+  ORDER BY
+    upper(d.ticker) = upper(q.raw) DESC,
+    d.ticker ILIKE q.pattern || '%' DESC,
+    d.name
+  LIMIT least(greatest(_limit, 1), 50)
+$$;
+
+-- Daily refresh. Requires a vault secret named 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'refresh-company-directory',
+  '15 6 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://cjzlrsklvyomltsvdtwe.supabase.co/functions/v1/refresh-company-directory',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,29 @@
+-- Bond-only registrants have an SEC CIK but no listed ticker
+ALTER TABLE public.companies ALTER COLUMN ticker DROP NOT NULL;
+ALTER TABLE public.companies
+  ADD CONSTRAINT companies_ticker_or_cik CHECK (ticker IS NOT NULL OR cik IS NOT NULL);
+
+-- SEC lists share classes with a hyphen (BRK-B, BF-B); match the dotted form too
+CREATE OR REPLACE FUNCTION public.search_company_directory(_query TEXT, _limit INTEGER DEFAULT 10)
+RETURNS SETOF public.sec_company_directory
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      trim(_query) AS raw,
+      replace(upper(trim(_query)), '.', '-') AS ticker,
+      replace(replace(replace(trim(_query), '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+  )
+  SELECT d.*
+  FROM public.sec_company_directory d, q
+  WHERE d.ticker ILIKE replace(q.pattern, '.', '-') || '%'
+     OR d.name ILIKE '%' || q.pattern || '%'
+     OR (q.raw ~ '^\d{1,10}$' AND d.cik = lpad(q.raw, 10, '0'))
+  ORDER BY
+    d.ticker = q.ticker DESC,
+    d.ticker ILIKE replace(q.pattern, '.', '-') || '%' DESC,
+    d.name
+  LIMIT least(greatest(_limit, 1), 50)
+$$;
@@ -0,0 +1,6 @@
+-- Private borrowers have neither a ticker nor a CIK; their financials are uploaded manually
+ALTER TABLE public.companies ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.companies DROP CONSTRAINT companies_ticker_or_cik;
+ALTER TABLE public.companies
+  ADD CONSTRAINT companies_ticker_or_cik CHECK (is_private OR ticker IS NOT NULL OR cik IS NOT NULL);
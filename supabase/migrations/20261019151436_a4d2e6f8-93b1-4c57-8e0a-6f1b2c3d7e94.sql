@@ -0,0 +1,56 @@
+-- Analyst adjustments ledger: cell-level overrides and add-backs applied on top of a
+-- run's reported financials. Amounts are in the financials' reporting currency.
+CREATE TABLE public.run_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.runs(id) ON DELETE CASCADE,
+  period TEXT NOT NULL CHECK (period ~ '^(FY\d{4}|LTM)$'), -- 'FY2024' or 'LTM'
+  field TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('override', 'add_back')),
+  amount NUMERIC NOT NULL, -- replacement value for overrides, signed delta for add-backs
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  note TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_run_adjustments_run_id ON public.run_adjustments(run_id);
+
+-- A cell has at most one override; add-backs stack
+CREATE UNIQUE INDEX idx_run_adjustments_one_override
+  ON public.run_adjustments(run_id, period, field)
+  WHERE kind = 'override';
+
+ALTER TABLE public.run_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view adjustments for accessible runs"
+  ON public.run_adjustments FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.runs WHERE runs.id = run_adjustments.run_id
+  ));
+
+CREATE POLICY "Users can add adjustments to own draft runs"
+  ON public.run_adjustments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM public.runs
+      WHERE runs.id = run_adjustments.run_id
+      AND runs.created_by = auth.uid()
+      AND runs.status = 'draft'
+    )
+  );
+
+CREATE POLICY "Users can delete adjustments from own draft runs"
+  ON public.run_adjustments FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.runs
+    WHERE runs.id = run_adjustments.run_id
+    AND runs.created_by = auth.uid()
+    AND runs.status = 'draft'
+  ));
+
+-- Snapshot of the ledger a version's figures were computed with
+ALTER TABLE public.run_versions ADD COLUMN adjustments JSONB;
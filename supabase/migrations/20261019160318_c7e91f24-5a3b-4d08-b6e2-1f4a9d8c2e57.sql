@@ -0,0 +1,60 @@
+-- Line items for the three-statement model: the rest of the income statement, working
+-- capital, debt and lease balances, and cash flow detail
+INSERT INTO public.xbrl_concept_mappings (taxonomy, concept, field, priority) VALUES
+  ('us-gaap', 'CostOfRevenue', 'costOfRevenue', 10),
+  ('us-gaap', 'CostOfGoodsAndServicesSold', 'costOfRevenue', 20),
+  ('us-gaap', 'CostOfGoodsSold', 'costOfRevenue', 30),
+  ('us-gaap', 'SellingGeneralAndAdministrativeExpense', 'sellingGeneralAndAdministrative', 10),
+  ('us-gaap', 'OperatingExpenses', 'operatingExpenses', 10),
+  ('us-gaap', 'InterestExpense', 'interestExpense', 10),
+  ('us-gaap', 'InterestExpenseNonoperating', 'interestExpense', 20),
+  ('us-gaap', 'InterestExpenseDebt', 'interestExpense', 30),
+  ('us-gaap', 'IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest', 'pretaxIncome', 10),
+  ('us-gaap', 'IncomeLossFromContinuingOperationsBeforeIncomeTaxesMinorityInterestAndIncomeLossFromEquityMethodInvestments', 'pretaxIncome', 20),
+  ('us-gaap', 'IncomeTaxExpenseBenefit', 'incomeTaxExpense', 10),
+  ('us-gaap', 'AccountsReceivableNetCurrent', 'accountsReceivable', 10),
+  ('us-gaap', 'ReceivablesNetCurrent', 'accountsReceivable', 20),
+  ('us-gaap', 'InventoryNet', 'inventory', 10),
+  ('us-gaap', 'PropertyPlantAndEquipmentNet', 'propertyPlantAndEquipment', 10),
+  ('us-gaap', 'AccountsPayableCurrent', 'accountsPayable', 10),
+  ('us-gaap', 'AccountsPayableAndAccruedLiabilitiesCurrent', 'accountsPayable', 20),
+  ('us-gaap', 'DebtCurrent', 'shortTermDebt', 10),
+  ('us-gaap', 'LongTermDebtCurrent', 'shortTermDebt', 20),
+  ('us-gaap', 'ShortTermBorrowings', 'shortTermDebt', 30),
+  ('us-gaap', 'OperatingLeaseLiability', 'operatingLeaseLiabilities', 10),
+  ('us-gaap', 'OperatingLeaseLiabilityNoncurrent', 'operatingLeaseLiabilities', 20),
+  ('us-gaap', 'FinanceLeaseLiability', 'financeLeaseLiabilities', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityNoncurrent', 'financeLeaseLiabilities', 20),
+  ('us-gaap', 'RetainedEarningsAccumulatedDeficit', 'retainedEarnings', 10),
+  ('us-gaap', 'CommonStockSharesOutstanding', 'commonSharesOutstanding', 10),
+  ('us-gaap', 'PaymentsToAcquirePropertyPlantAndEquipment', 'capitalExpenditures', 10),
+  ('us-gaap', 'PaymentsToAcquireProductiveAssets', 'capitalExpenditures', 20),
+  ('us-gaap', 'NetCashProvidedByUsedInInvestingActivities', 'investingCashFlow', 10),
+  ('us-gaap', 'NetCashProvidedByUsedInFinancingActivities', 'financingCashFlow', 10),
+  ('us-gaap', 'PaymentsOfDividends', 'dividendsPaid', 10),
+  ('us-gaap', 'PaymentsOfDividendsCommonStock', 'dividendsPaid', 20),
+  ('us-gaap', 'PaymentsForRepurchaseOfCommonStock', 'shareRepurchases', 10),
+  ('ifrs-full', 'CostOfSales', 'costOfRevenue', 10),
+  ('ifrs-full', 'SellingGeneralAndAdministrativeExpense', 'sellingGeneralAndAdministrative', 10),
+  ('ifrs-full', 'FinanceCosts', 'interestExpense', 10),
+  ('ifrs-full', 'InterestExpense', 'interestExpense', 20),
+  ('ifrs-full', 'ProfitLossBeforeTax', 'pretaxIncome', 10),
+  ('ifrs-full', 'IncomeTaxExpenseContinuingOperations', 'incomeTaxExpense', 10),
+  ('ifrs-full', 'TradeAndOtherCurrentReceivables', 'accountsReceivable', 10),
+  ('ifrs-full', 'CurrentTradeReceivables', 'accountsReceivable', 20),
+  ('ifrs-full', 'Inventories', 'inventory', 10),
+  ('ifrs-full', 'PropertyPlantAndEquipment', 'propertyPlantAndEquipment', 10),
+  ('ifrs-full', 'TradeAndOtherCurrentPayables', 'accountsPayable', 10),
+  ('ifrs-full', 'CurrentBorrowingsAndCurrentPortionOfNoncurrentBorrowings', 'shortTermDebt', 10),
+  ('ifrs-full', 'ShorttermBorrowings', 'shortTermDebt', 20),
+  -- IFRS 16 has a single lease model; lease liabilities are carried like finance leases
+  ('ifrs-full', 'LeaseLiabilities', 'financeLeaseLiabilities', 10),
+  ('ifrs-full', 'NoncurrentLeaseLiabilities', 'financeLeaseLiabilities', 20),
+  ('ifrs-full', 'RetainedEarnings', 'retainedEarnings', 10),
+  ('ifrs-full', 'NumberOfSharesOutstanding', 'commonSharesOutstanding', 10),
+  ('ifrs-full', 'PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities', 'capitalExpenditures', 10),
+  ('ifrs-full', 'CashFlowsFromUsedInInvestingActivities', 'investingCashFlow', 10),
+  ('ifrs-full', 'CashFlowsFromUsedInFinancingActivities', 'financingCashFlow', 10),
+  ('ifrs-full', 'DividendsPaidClassifiedAsFinancingActivities', 'dividendsPaid', 10),
+  ('ifrs-full', 'PaymentsToAcquireOrRedeemEntitysShares', 'shareRepurchases', 10)
+ON CONFLICT (taxonomy, concept) DO NOTHING;
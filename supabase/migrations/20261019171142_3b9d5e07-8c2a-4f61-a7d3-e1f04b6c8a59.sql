@@ -0,0 +1,19 @@
+-- Peer distributions of credit ratios per SIC code and fiscal year, built from SEC's
+-- XBRL frames by the build-benchmarks function. Written with the service role only.
+CREATE TABLE public.industry_benchmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sic_code TEXT NOT NULL,
+  fiscal_year INTEGER NOT NULL,
+  peer_count INTEGER NOT NULL DEFAULT 0, -- filers in the SIC code with any reported value
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb, -- per ratio: peer count, quartiles and sorted values
+  built_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ,
+  UNIQUE (sic_code, fiscal_year)
+);
+
+ALTER TABLE public.industry_benchmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view industry benchmarks"
+  ON public.industry_benchmarks FOR SELECT
+  TO authenticated
+  USING (true);
@@ -0,0 +1,43 @@
+-- Named comp set an analyst attaches to a run. Each peer's normalized financials are
+-- cached in run_data_cache as 'peer_financials:<ticker>' by fetch-sec-data.
+CREATE TABLE public.run_peers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.runs(id) ON DELETE CASCADE,
+  ticker TEXT NOT NULL CHECK (ticker = upper(ticker)),
+  name TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (run_id, ticker)
+);
+
+ALTER TABLE public.run_peers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view peers for accessible runs"
+  ON public.run_peers FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.runs WHERE runs.id = run_peers.run_id
+  ));
+
+CREATE POLICY "Users can add peers to own draft runs"
+  ON public.run_peers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM public.runs
+      WHERE runs.id = run_peers.run_id
+      AND runs.created_by = auth.uid()
+      AND runs.status = 'draft'
+    )
+  );
+
+CREATE POLICY "Users can remove peers from own draft runs"
+  ON public.run_peers FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.runs
+    WHERE runs.id = run_peers.run_id
+    AND runs.created_by = auth.uid()
+    AND runs.status = 'draft'
+  ));
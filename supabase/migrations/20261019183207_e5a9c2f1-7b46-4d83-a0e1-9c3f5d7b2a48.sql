@@ -0,0 +1,21 @@
+-- Interest and debt service lines for coverage ratios. LongTermDebtCurrent moves to its
+-- own field; fetch-sec-data falls back to it for short-term debt when no total is tagged.
+UPDATE public.xbrl_concept_mappings
+SET field = 'currentPortionOfLongTermDebt', priority = 10, updated_at = now()
+WHERE taxonomy = 'us-gaap' AND concept = 'LongTermDebtCurrent' AND field = 'shortTermDebt';
+
+UPDATE public.xbrl_concept_mappings
+SET priority = 20, updated_at = now()
+WHERE taxonomy = 'us-gaap' AND concept = 'ShortTermBorrowings' AND field = 'shortTermDebt' AND priority = 30;
+
+INSERT INTO public.xbrl_concept_mappings (taxonomy, concept, field, priority) VALUES
+  ('us-gaap', 'LongTermDebtAndCapitalLeaseObligationsCurrent', 'currentPortionOfLongTermDebt', 20),
+  ('us-gaap', 'InterestPaidNet', 'interestPaid', 10),
+  ('us-gaap', 'InterestPaid', 'interestPaid', 20),
+  ('us-gaap', 'OperatingLeasePayments', 'operatingLeasePayments', 10),
+  ('us-gaap', 'FinanceLeasePrincipalPayments', 'financeLeasePayments', 10),
+  ('ifrs-full', 'CurrentPortionOfLongtermBorrowings', 'currentPortionOfLongTermDebt', 10),
+  ('ifrs-full', 'InterestPaidClassifiedAsOperatingActivities', 'interestPaid', 10),
+  ('ifrs-full', 'InterestPaidClassifiedAsFinancingActivities', 'interestPaid', 20),
+  ('ifrs-full', 'PaymentsOfLeaseLiabilitiesClassifiedAsFinancingActivities', 'financeLeasePayments', 10)
+ON CONFLICT (taxonomy, concept) DO NOTHING;
@@ -0,0 +1,52 @@
+-- Financial covenants of the facility being underwritten, tested against each period
+-- of a run's financials. Amount thresholds are in the run's presentation currency.
+CREATE TABLE public.run_covenants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.runs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  metric TEXT NOT NULL CHECK (metric IN (
+    'debtToEbitda', 'netDebtToEbitda', 'interestCoverage', 'dscr',
+    'currentRatio', 'debtToEquity', 'netWorth', 'liquidity'
+  )),
+  operator TEXT NOT NULL CHECK (operator IN ('<=', '>=')),
+  threshold NUMERIC NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('quarterly', 'annual')),
+  -- [{ "fromYear": 2026, "threshold": 3.25 }, ...]; each replaces the threshold from that fiscal year on
+  step_downs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_run_covenants_run_id ON public.run_covenants(run_id);
+
+ALTER TABLE public.run_covenants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view covenants for accessible runs"
+  ON public.run_covenants FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.runs WHERE runs.id = run_covenants.run_id
+  ));
+
+CREATE POLICY "Users can add covenants to own draft runs"
+  ON public.run_covenants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND EXISTS (
+      SELECT 1 FROM public.runs
+      WHERE runs.id = run_covenants.run_id
+      AND runs.created_by = auth.uid()
+      AND runs.status = 'draft'
+    )
+  );
+
+CREATE POLICY "Users can delete covenants from own draft runs"
+  ON public.run_covenants FOR DELETE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.runs
+    WHERE runs.id = run_covenants.run_id
+    AND runs.created_by = auth.uid()
+    AND runs.status = 'draft'
+  ));
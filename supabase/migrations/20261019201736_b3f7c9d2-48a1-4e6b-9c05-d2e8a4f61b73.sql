@@ -0,0 +1,31 @@
+-- Debt and lease maturity schedules for the credit memo's maturity ladder. Filers tag
+-- either the fiscal-year or the rolling twelve-month variants of the debt schedule.
+-- IFRS maturity analyses are only tagged against a maturity axis, which company facts
+-- don't carry, so there are no ifrs-full mappings.
+INSERT INTO public.xbrl_concept_mappings (taxonomy, concept, field, priority) VALUES
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInNextTwelveMonths', 'debtMaturityYear1', 10),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInYearOne', 'debtMaturityYear1', 20),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInNextRollingTwelveMonths', 'debtMaturityYear1', 30),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInYearTwo', 'debtMaturityYear2', 10),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearTwo', 'debtMaturityYear2', 20),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInYearThree', 'debtMaturityYear3', 10),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearThree', 'debtMaturityYear3', 20),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInYearFour', 'debtMaturityYear4', 10),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearFour', 'debtMaturityYear4', 20),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInYearFive', 'debtMaturityYear5', 10),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingYearFive', 'debtMaturityYear5', 20),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalAfterYearFive', 'debtMaturityAfterYear5', 10),
+  ('us-gaap', 'LongTermDebtMaturitiesRepaymentsOfPrincipalInRollingAfterYearFive', 'debtMaturityAfterYear5', 20),
+  ('us-gaap', 'LesseeOperatingLeaseLiabilityPaymentsDueNextTwelveMonths', 'operatingLeaseMaturityYear1', 10),
+  ('us-gaap', 'LesseeOperatingLeaseLiabilityPaymentsDueYearTwo', 'operatingLeaseMaturityYear2', 10),
+  ('us-gaap', 'LesseeOperatingLeaseLiabilityPaymentsDueYearThree', 'operatingLeaseMaturityYear3', 10),
+  ('us-gaap', 'LesseeOperatingLeaseLiabilityPaymentsDueYearFour', 'operatingLeaseMaturityYear4', 10),
+  ('us-gaap', 'LesseeOperatingLeaseLiabilityPaymentsDueYearFive', 'operatingLeaseMaturityYear5', 10),
+  ('us-gaap', 'LesseeOperatingLeaseLiabilityPaymentsDueAfterYearFive', 'operatingLeaseMaturityAfterYear5', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityPaymentsDueNextTwelveMonths', 'financeLeaseMaturityYear1', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityPaymentsDueYearTwo', 'financeLeaseMaturityYear2', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityPaymentsDueYearThree', 'financeLeaseMaturityYear3', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityPaymentsDueYearFour', 'financeLeaseMaturityYear4', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityPaymentsDueYearFive', 'financeLeaseMaturityYear5', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityPaymentsDueAfterYearFive', 'financeLeaseMaturityAfterYear5', 10)
+ON CONFLICT (taxonomy, concept) DO NOTHING;
@@ -0,0 +1,71 @@
+-- Credit scorecard models. Versions are never edited in place: admins publish a new
+-- version with an effective date, and each saved run version records the one its
+-- score was computed with, so historic approvals can be re-scored the same way.
+CREATE TABLE public.scorecard_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version_number INTEGER NOT NULL UNIQUE CHECK (version_number > 0),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  effective_date DATE NOT NULL,
+  -- { factors: [{ ratio, weight, thresholds: { good, warning } }], statusPoints, flagPenalties, categoryCutoffs }
+  model JSONB NOT NULL CHECK (jsonb_typeof(model) = 'object'),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scorecard_versions_effective_date ON public.scorecard_versions(effective_date DESC, version_number DESC);
+
+ALTER TABLE public.scorecard_versions ENABLE ROW LEVEL SECURITY;
+
+-- Scorecard policies (all can read, admins can publish and remove unused versions)
+CREATE POLICY "Authenticated users can view scorecard versions"
+  ON public.scorecard_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert scorecard versions"
+  ON public.scorecard_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete scorecard versions"
+  ON public.scorecard_versions FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Scorecard a run version's score was computed with; null on versions saved before
+-- scorecards existed. Versions that scored a run can't be deleted.
+ALTER TABLE public.run_versions
+  ADD COLUMN scorecard_version_id UUID REFERENCES public.scorecard_versions(id) ON DELETE RESTRICT;
+
+-- The points, weights and thresholds runs were scored with before scorecards were configurable
+INSERT INTO public.scorecard_versions (version_number, name, effective_date, model, notes)
+VALUES (
+  1,
+  'Baseline',
+  '2026-10-19',
+  '{
+    "factors": [
+      { "ratio": "Current Ratio", "weight": 1, "thresholds": { "good": 0.9, "warning": 0.6 } },
+      { "ratio": "Debt-to-Equity", "weight": 1, "thresholds": { "good": 1.0, "warning": 1.5 } },
+      { "ratio": "Debt / EBITDA", "weight": 1, "thresholds": { "good": 1.0, "warning": 1.5 } },
+      { "ratio": "Net Debt / EBITDA", "weight": 1, "thresholds": { "good": 1.0, "warning": 1.6 } },
+      { "ratio": "Debt / Capitalization", "weight": 1, "thresholds": { "good": 1.0, "warning": 1.33 } },
+      { "ratio": "Net Profit Margin", "weight": 1, "thresholds": { "good": 0.8, "warning": 0.5 } },
+      { "ratio": "Return on Assets", "weight": 1, "thresholds": { "good": 1.0, "warning": 0.6 } },
+      { "ratio": "Return on Equity", "weight": 1, "thresholds": { "good": 0.9, "warning": 0.5 } },
+      { "ratio": "Quick Ratio", "weight": 1, "thresholds": { "good": 0.9, "warning": 0.6 } },
+      { "ratio": "EBITDA / Interest", "weight": 1, "thresholds": { "good": 0.67, "warning": 0.33 } },
+      { "ratio": "EBIT / Interest", "weight": 1, "thresholds": { "good": 0.75, "warning": 0.375 } },
+      { "ratio": "Debt Service Coverage", "weight": 1, "thresholds": { "good": 0.83, "warning": 0.67 } },
+      { "ratio": "FFO / Debt", "weight": 1, "thresholds": { "good": 0.67, "warning": 0.4 } },
+      { "ratio": "FCF / Debt", "weight": 1, "thresholds": { "good": 0.67, "warning": 0 } },
+      { "ratio": "Capex Intensity", "weight": 1, "thresholds": { "good": 1.0, "warning": 2.0 } },
+      { "ratio": "Cash Conversion Cycle", "weight": 1, "thresholds": { "good": 1.0, "warning": 1.5 } }
+    ],
+    "statusPoints": { "good": 100, "warning": 60, "critical": 20 },
+    "flagPenalties": { "critical": 15, "high": 10, "medium": 5, "low": 2 },
+    "categoryCutoffs": { "excellent": 80, "good": 65, "fair": 50, "poor": 35 }
+  }'::jsonb,
+  'Equal weights across all ratios, matching the original fixed scoring'
+);
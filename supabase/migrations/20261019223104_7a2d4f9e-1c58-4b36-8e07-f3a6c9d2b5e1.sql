@@ -0,0 +1,16 @@
+-- Debt concepts are read at one scope per field: current debt including the current
+-- portion of long-term debt, and long-term debt excluding it. Concepts filed at the
+-- other scope move to components that fetch-sec-data reconciles.
+UPDATE public.xbrl_concept_mappings
+SET field = 'longTermDebtTotal', priority = 10, updated_at = now()
+WHERE (taxonomy = 'us-gaap' AND concept = 'LongTermDebt')
+   OR (taxonomy = 'ifrs-full' AND concept = 'LongtermBorrowings');
+
+UPDATE public.xbrl_concept_mappings
+SET priority = 10, updated_at = now()
+WHERE taxonomy = 'us-gaap' AND concept = 'LongTermDebtNoncurrent' AND field = 'longTermDebt';
+
+UPDATE public.xbrl_concept_mappings
+SET field = 'shortTermBorrowings', priority = 10, updated_at = now()
+WHERE (taxonomy = 'us-gaap' AND concept = 'ShortTermBorrowings')
+   OR (taxonomy = 'ifrs-full' AND concept = 'ShorttermBorrowings');
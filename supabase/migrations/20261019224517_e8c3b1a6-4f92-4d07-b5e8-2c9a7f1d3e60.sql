@@ -0,0 +1,12 @@
+-- Amount thresholds keep the currency they were written in, so changing the run's
+-- presentation currency converts them instead of reinterpreting them. Existing
+-- amount covenants were read in the presentation currency when one was set; without
+-- one they stay in whatever currency the company reports in.
+ALTER TABLE public.run_covenants ADD COLUMN currency TEXT;
+
+UPDATE public.run_covenants
+SET currency = runs.presentation_currency
+FROM public.runs
+WHERE runs.id = run_covenants.run_id
+  AND run_covenants.metric IN ('netWorth', 'liquidity')
+  AND runs.presentation_currency IS NOT NULL;
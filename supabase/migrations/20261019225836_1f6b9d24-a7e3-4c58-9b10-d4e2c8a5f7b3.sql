@@ -0,0 +1,30 @@
+-- Replaces a run's adjustment ledger with a version's snapshot in one transaction, so
+-- a failed insert can't leave the ledger empty. Runs as the caller, so the ledger's
+-- owner-and-draft policies still apply; the run is checked up front because a delete
+-- those policies filter out would otherwise succeed without removing anything.
+CREATE OR REPLACE FUNCTION public.restore_run_adjustments(_run_id UUID, _adjustments JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM public.runs
+  WHERE id = _run_id
+    AND created_by = auth.uid()
+    AND status = 'draft'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustments can only be restored on your own draft runs'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM public.run_adjustments WHERE run_id = _run_id;
+
+  INSERT INTO public.run_adjustments (run_id, period, field, kind, amount, reason, note, created_by, created_at)
+  SELECT _run_id, a.period, a.field, a.kind, a.amount, a.reason, a.note, auth.uid(), coalesce(a.created_at, now())
+  FROM jsonb_to_recordset(coalesce(_adjustments, '[]'::jsonb))
+    AS a(period TEXT, field TEXT, kind TEXT, amount NUMERIC, reason TEXT, note TEXT, created_at TIMESTAMPTZ);
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Scorecard version numbers come from a sequence, so admins publishing at the same
+-- time get distinct numbers. Numbers of deleted versions aren't reused.
+CREATE SEQUENCE public.scorecard_versions_version_number_seq
+  OWNED BY public.scorecard_versions.version_number;
+
+SELECT setval(
+  'public.scorecard_versions_version_number_seq',
+  coalesce((SELECT max(version_number) FROM public.scorecard_versions), 0) + 1,
+  false
+);
+
+ALTER TABLE public.scorecard_versions
+  ALTER COLUMN version_number SET DEFAULT nextval('public.scorecard_versions_version_number_seq');
+
+GRANT USAGE ON SEQUENCE public.scorecard_versions_version_number_seq TO authenticated;
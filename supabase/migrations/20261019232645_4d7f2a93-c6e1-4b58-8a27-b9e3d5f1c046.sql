@@ -0,0 +1,16 @@
+-- Lease liabilities are totals. Noncurrent lease concepts move to components that
+-- fetch-sec-data adds to the current portion when a filer doesn't tag the total.
+UPDATE public.xbrl_concept_mappings
+SET field = 'operatingLeaseLiabilitiesNoncurrent', priority = 10, updated_at = now()
+WHERE taxonomy = 'us-gaap' AND concept = 'OperatingLeaseLiabilityNoncurrent';
+
+UPDATE public.xbrl_concept_mappings
+SET field = 'financeLeaseLiabilitiesNoncurrent', priority = 10, updated_at = now()
+WHERE (taxonomy = 'us-gaap' AND concept = 'FinanceLeaseLiabilityNoncurrent')
+   OR (taxonomy = 'ifrs-full' AND concept = 'NoncurrentLeaseLiabilities');
+
+INSERT INTO public.xbrl_concept_mappings (taxonomy, concept, field, priority) VALUES
+  ('us-gaap', 'OperatingLeaseLiabilityCurrent', 'operatingLeaseLiabilitiesCurrent', 10),
+  ('us-gaap', 'FinanceLeaseLiabilityCurrent', 'financeLeaseLiabilitiesCurrent', 10),
+  ('ifrs-full', 'CurrentLeaseLiabilities', 'financeLeaseLiabilitiesCurrent', 10)
+ON CONFLICT (taxonomy, concept) DO NOTHING;